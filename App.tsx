@@ -1,11 +1,38 @@
-import React from 'react';
-import { SafeAreaView, StatusBar, View, Text } from 'react-native';
+import React, { useState } from 'react';
+import { SafeAreaView, StatusBar, View, Text, TouchableOpacity } from 'react-native';
 import { ScannerScreen } from './src/screens/ScannerScreen';
 import { DeviceScreen } from './src/screens/DeviceScreen';
+import { SessionsScreen } from './src/screens/SessionsScreen';
+import { GattScreen } from './src/screens/GattScreen';
+import { LogsScreen } from './src/screens/LogsScreen';
+import { BleTransport } from './src/ble/transport';
 import { useBle } from './src/ble/useBle';
+import { useGattExplorer } from './src/ble/useGattExplorer';
+import { useCommandConsole } from './src/ble/useCommandConsole';
+import { useSessions } from './src/sessions/useSessions';
+import { useLogs } from './src/logging/useLogs';
 
-export default function App() {
-	const ble = useBle();
+type Tab = 'devices' | 'gatt' | 'sessions' | 'logs';
+
+const TABS: Array<{ key: Tab; title: string }> = [
+	{ key: 'devices', title: 'Devices' },
+	{ key: 'gatt', title: 'GATT' },
+	{ key: 'sessions', title: 'Sessions' },
+	{ key: 'logs', title: 'Logs' },
+];
+
+type Props = {
+	// The BLE stack: the real radio from index.js, or a fake one in tests
+	transport: BleTransport;
+};
+
+export default function App({ transport }: Props) {
+	const ble = useBle(transport);
+	const gatt = useGattExplorer(ble.gattDevice);
+	const commandConsole = useCommandConsole(ble.gattDevice, ble.profileCommand);
+	const sessions = useSessions();
+	const logs = useLogs();
+	const [tab, setTab] = useState<Tab>('devices');
 
 	return (
 		<SafeAreaView style={{ flex: 1, backgroundColor: '#0f172a' }}>
@@ -15,11 +42,34 @@ export default function App() {
 				<Text style={{ color: '#cbd5e1' }}>Scan, connect, stream, record, and export CSV</Text>
 			</View>
 
-			{ble.isConnected ? (
-				<DeviceScreen ble={ble} />
+			<View style={{ flexDirection: 'row', gap: 8, paddingHorizontal: 16, paddingBottom: 8 }}>
+				{TABS.map(t => (
+					<TouchableOpacity
+						key={t.key}
+						onPress={() => setTab(t.key)}
+						style={{
+							backgroundColor: tab === t.key ? '#2563eb' : '#111827',
+							paddingHorizontal: 14,
+							paddingVertical: 8,
+							borderRadius: 10,
+						}}
+					>
+						<Text style={{ color: 'white', fontWeight: '700' }}>{t.title}</Text>
+					</TouchableOpacity>
+				))}
+			</View>
+
+			{tab === 'logs' ? (
+				<LogsScreen logs={logs} />
+			) : tab === 'sessions' ? (
+				<SessionsScreen sessions={sessions} activeSessionId={ble.sessionId} />
+			) : tab === 'gatt' ? (
+				<GattScreen ble={ble} gatt={gatt} />
+			) : ble.isConnected ? (
+				<DeviceScreen ble={ble} commandConsole={commandConsole} />
 			) : (
 				<ScannerScreen ble={ble} />
 			)}
 		</SafeAreaView>
 	);
-}
\ No newline at end of file
+}
@@ -0,0 +1,133 @@
+/**
+ * In-memory react-native-fs for Jest; the real module needs the native side. Files are
+ * text keyed by absolute path, and directories exist implicitly once a file is under them.
+ * Base64 content is stored one character per byte, so binary files can be appended to and
+ * read back in either encoding. Tests that need different behavior still pass their own
+ * factory to jest.mock.
+ */
+
+import {base64ToBytes, bytesToBase64} from '../src/utils/base64';
+
+const files: Record<string, string> = {};
+const dirs = new Set<string>();
+
+function isDir(path: string): boolean {
+  return (
+    dirs.has(path) || Object.keys(files).some(f => f.startsWith(`${path}/`))
+  );
+}
+
+function entry(path: string) {
+  const dir = !(path in files);
+  return {
+    name: path.slice(path.lastIndexOf('/') + 1),
+    path,
+    size: dir ? 0 : files[path].length,
+    mtime: new Date(0),
+    isFile: () => !dir,
+    isDirectory: () => dir,
+  };
+}
+
+function decode(text: string, encoding?: string): string {
+  if (encoding !== 'base64') {
+    return text;
+  }
+  let out = '';
+  base64ToBytes(text).forEach(b => {
+    out += String.fromCharCode(b);
+  });
+  return out;
+}
+
+function encode(text: string, encoding?: string): string {
+  if (encoding !== 'base64') {
+    return text;
+  }
+  return bytesToBase64(Uint8Array.from(text, c => c.charCodeAt(0)));
+}
+
+function missing(path: string): Error {
+  return new Error(`ENOENT: no such file or directory, open '${path}'`);
+}
+
+const RNFS = {
+  DocumentDirectoryPath: '/docs',
+  // Direct access for assertions and for seeding settings files
+  files,
+  reset() {
+    Object.keys(files).forEach(path => delete files[path]);
+    dirs.clear();
+  },
+  exists: async (path: string) => path in files || isDir(path),
+  readFile: async (path: string, encoding?: string) => {
+    if (!(path in files)) {
+      throw missing(path);
+    }
+    return encode(files[path], encoding);
+  },
+  writeFile: async (path: string, text: string, encoding?: string) => {
+    files[path] = decode(text, encoding);
+  },
+  appendFile: async (path: string, text: string, encoding?: string) => {
+    files[path] = (files[path] ?? '') + decode(text, encoding);
+  },
+  copyFile: async (from: string, to: string) => {
+    if (!(from in files)) {
+      throw missing(from);
+    }
+    files[to] = files[from];
+  },
+  moveFile: async (from: string, to: string) => {
+    if (!(from in files)) {
+      throw missing(from);
+    }
+    files[to] = files[from];
+    delete files[from];
+  },
+  mkdir: async (path: string) => {
+    dirs.add(path);
+  },
+  read: async (
+    path: string,
+    length: number,
+    position: number,
+    encoding?: string,
+  ) => {
+    if (!(path in files)) {
+      throw missing(path);
+    }
+    return encode(files[path].slice(position, position + length), encoding);
+  },
+  stat: async (path: string) => {
+    if (!(path in files) && !isDir(path)) {
+      throw missing(path);
+    }
+    return entry(path);
+  },
+  readDir: async (path: string) => {
+    const children = new Set<string>();
+    for (const p of [...Object.keys(files), ...dirs]) {
+      if (!p.startsWith(`${path}/`)) {
+        continue;
+      }
+      const rest = p.slice(path.length + 1);
+      children.add(`${path}/${rest.split('/')[0]}`);
+    }
+    return [...children].map(entry);
+  },
+  unlink: async (path: string) => {
+    if (!(path in files) && !isDir(path)) {
+      throw missing(path);
+    }
+    delete files[path];
+    Object.keys(files)
+      .filter(f => f.startsWith(`${path}/`))
+      .forEach(f => delete files[f]);
+    [...dirs]
+      .filter(d => d === path || d.startsWith(`${path}/`))
+      .forEach(d => dirs.delete(d));
+  },
+};
+
+export default RNFS;
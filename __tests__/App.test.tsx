@@ -5,13 +5,18 @@
 import 'react-native';
 import React from 'react';
 import App from '../App';
+import {FakeTransport} from '../test-utils/FakeTransport';
 
 // Note: import explicitly to use the types shipped with jest.
 import {it} from '@jest/globals';
 
 // Note: test renderer must be required after react-native.
-import renderer from 'react-test-renderer';
+import renderer, {act} from 'react-test-renderer';
 
-it('renders correctly', () => {
-  renderer.create(<App />);
+it('renders correctly', async () => {
+  let tree: renderer.ReactTestRenderer | undefined;
+  await act(async () => {
+    tree = renderer.create(<App transport={new FakeTransport()} />);
+  });
+  await act(async () => tree?.unmount());
 });
@@ -0,0 +1,114 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {AdvertListener} from '../src/ble/AdvertListener';
+import {
+  BUILTIN_ADVERT_DECODERS,
+  decodeAdvert,
+  RUUVI_RAWV1,
+  RUUVI_RAWV2,
+  specDecoder,
+} from '../src/decoder/advertDecoders';
+import {bytesToBase64} from '../src/utils/base64';
+
+jest.mock('react-native-fs', () => ({DocumentDirectoryPath: '/docs'}));
+
+function hex(s: string): Uint8Array {
+  return new Uint8Array(s.match(/../g)!.map(b => parseInt(b, 16)));
+}
+
+// Test vectors from the Ruuvi data format documentation, after the 0x0499 company id
+const RAWV2 = hex('99040512FC5394C37C0004FFFC040CAC364200CDCBB8334C884F');
+const RAWV1 = hex('990403291A1ECE1EFC18F94202CA0B53');
+
+describe('advert decoders', () => {
+  it('decodes Ruuvi RAWv2', () => {
+    const r = RUUVI_RAWV2.decode({manufacturerData: RAWV2, serviceData: {}})!;
+    expect(r.accel).toEqual({x: 0.004, y: -0.004, z: 1.036});
+    expect(r.sequence).toBe(205);
+    expect(r.extra!.temperatureC).toBeCloseTo(24.3, 6);
+    expect(r.extra!.humidityPct).toBeCloseTo(53.49, 6);
+    expect(r.extra).toMatchObject({
+      pressurePa: 100044,
+      batteryMv: 2977,
+      txPowerDbm: 4,
+      movementCounter: 66,
+    });
+  });
+
+  it('decodes Ruuvi RAWv1', () => {
+    const r = RUUVI_RAWV1.decode({manufacturerData: RAWV1, serviceData: {}})!;
+    expect(r.accel).toEqual({x: -1, y: -1.726, z: 0.714});
+    expect(r.extra!.temperatureC).toBeCloseTo(26.3, 6);
+    expect(r.extra).toMatchObject({
+      humidityPct: 20.5,
+      pressurePa: 102766,
+      batteryMv: 2899,
+    });
+  });
+
+  it('picks the decoder that understands the advert', () => {
+    expect(
+      decodeAdvert(
+        {manufacturerData: RAWV1, serviceData: {}},
+        BUILTIN_ADVERT_DECODERS,
+      )!.decoder.id,
+    ).toBe('ruuvi-rawv1');
+    expect(
+      decodeAdvert(
+        {manufacturerData: hex('4c000215'), serviceData: {}},
+        BUILTIN_ADVERT_DECODERS,
+      ),
+    ).toBeNull();
+  });
+
+  it('applies a payload format to service data', () => {
+    const decoder = specDecoder({
+      id: 'custom',
+      label: 'Custom',
+      serviceUuid: 'fff0',
+      format: {
+        type: 'int16',
+        endianness: 'little',
+        offset: 1,
+        axisOrder: ['x', 'y', 'z'],
+        scale: 1,
+        units: 'mg',
+        sequence: {type: 'uint8', offset: 0, endianness: 'little'},
+      },
+    });
+    const r = decoder.decode({
+      manufacturerData: null,
+      serviceData: {
+        '0000fff0-0000-1000-8000-00805f9b34fb': hex('07E8030000F4FF'),
+      },
+    })!;
+    expect(r.accel.x).toBeCloseTo(1, 9);
+    expect(r.accel.y).toBeCloseTo(0, 9);
+    expect(r.accel.z).toBeCloseTo(-0.012, 9);
+    expect(r).toMatchObject({sequence: 7, sequenceBits: 8});
+  });
+});
+
+describe('AdvertListener', () => {
+  it('delivers each measurement once to the tag subscribers', () => {
+    const manager = {startDeviceScan: jest.fn(), stopDeviceScan: jest.fn()};
+    const listener = new AdvertListener(manager as any);
+    const samples: number[] = [];
+    const unsubscribe = listener.subscribe('tag', s =>
+      samples.push(s.sequence!),
+    );
+    expect(manager.startDeviceScan).toHaveBeenCalledTimes(1);
+
+    const advert = (data: Uint8Array) =>
+      ({id: 'tag', rssi: -60, manufacturerData: bytesToBase64(data)} as any);
+    const next = RAWV2.slice();
+    next[19] = 206;
+    listener.handle(advert(RAWV2));
+    listener.handle(advert(RAWV2));
+    listener.handle(advert(next));
+    listener.handle({...advert(RAWV2), id: 'other'});
+    expect(samples).toEqual([205, 206]);
+
+    unsubscribe();
+    expect(manager.stopDeviceScan).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,108 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {
+  applyCalibration,
+  CALIBRATION_POSES,
+  PoseKey,
+  poseProblem,
+  solveCalibration,
+  Vec3,
+} from '../src/calibration/calibration';
+import {Accel} from '../src/decoder/payloadFormat';
+
+jest.mock('react-native-fs', () => ({DocumentDirectoryPath: '/docs'}));
+
+// Simulated sensor: raw = M·g + offset
+function sensor(m: [Vec3, Vec3, Vec3], offset: Vec3) {
+  return (g: Vec3): Accel => ({
+    x: m[0][0] * g[0] + m[0][1] * g[1] + m[0][2] * g[2] + offset[0],
+    y: m[1][0] * g[0] + m[1][1] * g[1] + m[1][2] * g[2] + offset[1],
+    z: m[2][0] * g[0] + m[2][1] * g[1] + m[2][2] * g[2] + offset[2],
+  });
+}
+
+function captureAll(read: (g: Vec3) => Accel): Record<PoseKey, Accel> {
+  return Object.fromEntries(
+    CALIBRATION_POSES.map(p => [p.key, read(p.gravity)]),
+  ) as Record<PoseKey, Accel>;
+}
+
+function expectClose(a: Accel, g: Vec3, digits: number) {
+  expect(a.x).toBeCloseTo(g[0], digits);
+  expect(a.y).toBeCloseTo(g[1], digits);
+  expect(a.z).toBeCloseTo(g[2], digits);
+}
+
+describe('solveCalibration', () => {
+  it('recovers per-axis offset and scale', () => {
+    const read = sensor(
+      [
+        [1.02, 0, 0],
+        [0, 0.97, 0],
+        [0, 0, 1.05],
+      ],
+      [0.03, -0.02, 0.05],
+    );
+    const cal = solveCalibration('dev', captureAll(read), false);
+    expect(cal.offset.map(v => +v.toFixed(6))).toEqual([0.03, -0.02, 0.05]);
+    expect(cal.scale.map(v => +v.toFixed(6))).toEqual([1.02, 0.97, 1.05]);
+    expect(cal.residualG).toBeLessThan(1e-9);
+    expectClose(applyCalibration(cal, read([0.6, 0, 0.8])), [0.6, 0, 0.8], 9);
+  });
+
+  it('corrects misaligned axes with cross-axis terms', () => {
+    const read = sensor(
+      [
+        [1.01, 0.03, 0],
+        [-0.02, 0.99, 0.04],
+        [0.01, 0, 1.03],
+      ],
+      [0.01, 0.02, -0.03],
+    );
+    const captures = captureAll(read);
+    const tilted: Vec3 = [0.5, 0.5, Math.SQRT1_2];
+
+    const simple = solveCalibration('dev', captures, false);
+    const full = solveCalibration('dev', captures, true);
+    expect(full.crossAxis).not.toBeNull();
+    expect(full.residualG).toBeLessThan(simple.residualG);
+    expectClose(applyCalibration(full, read(tilted)), tilted, 9);
+  });
+
+  it('rejects an axis that did not flip', () => {
+    const captures = captureAll(
+      sensor(
+        [
+          [1, 0, 0],
+          [0, 1, 0],
+          [0, 0, 1],
+        ],
+        [0, 0, 0],
+      ),
+    );
+    captures['-x'] = captures['+x'];
+    expect(() => solveCalibration('dev', captures, false)).toThrow('X axis');
+  });
+});
+
+describe('poseProblem', () => {
+  const flat = CALIBRATION_POSES.find(p => p.key === '+z')!;
+
+  it('accepts a still capture in the right orientation', () => {
+    expect(
+      poseProblem(flat, {
+        mean: {x: 0.02, y: -0.01, z: 0.98},
+        std: 0.004,
+        count: 100,
+      }),
+    ).toBeNull();
+  });
+
+  it('flags movement, too few samples and the wrong face', () => {
+    const mean = {x: 0, y: 0, z: 1};
+    expect(poseProblem(flat, {mean, std: 0.2, count: 100})).toMatch('moved');
+    expect(poseProblem(flat, {mean, std: 0, count: 3})).toMatch('Only 3');
+    expect(
+      poseProblem(flat, {mean: {x: 0, y: 0, z: -1}, std: 0, count: 100}),
+    ).toMatch('-Z up');
+  });
+});
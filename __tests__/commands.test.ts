@@ -0,0 +1,75 @@
+import RNFS from 'react-native-fs';
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {
+  COMMANDS_PATH,
+  loadCommands,
+  macroLabel,
+  macroText,
+  parseMacro,
+  updateDeviceCommands,
+  upsertCommand,
+} from '../src/ble/commands';
+
+const fs = RNFS as unknown as {
+  files: Record<string, string>;
+  reset: () => void;
+};
+
+describe('command macros', () => {
+  beforeEach(() => {
+    fs.reset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('parses payloads and waits line by line', () => {
+    const steps = parseMacro(
+      '# 100 Hz, 8g, start\n01 64\nwait 100ms\n\n02 08\ndelay 1s\n0x03',
+    );
+    expect(steps).toEqual([
+      {type: 'write', bytes: [1, 0x64]},
+      {type: 'wait', ms: 100},
+      {type: 'write', bytes: [2, 8]},
+      {type: 'wait', ms: 1000},
+      {type: 'write', bytes: [3]},
+    ]);
+    expect(macroText(steps)).toBe('01 64\nwait 100ms\n02 08\nwait 1000ms\n03');
+    expect(parseMacro(macroText(steps))).toEqual(steps);
+    expect(macroLabel(steps)).toBe('3 writes, 1100 ms');
+    expect(macroLabel(parseMacro('00'))).toBe('00');
+  });
+
+  it('reports the bad line', () => {
+    expect(() => parseMacro('01\nzz')).toThrow('Line 2: Invalid hex');
+    expect(() => parseMacro('wait 100')).toThrow('Nothing to send');
+    expect(() => parseMacro('01\nwait 120s')).toThrow('Line 2');
+  });
+
+  it('replaces a command saved under the same name', () => {
+    const first = {name: 'start', steps: parseMacro('01'), runOnConnect: false};
+    const stop = {name: 'stop', steps: parseMacro('00'), runOnConnect: false};
+    const again = {...first, steps: parseMacro('01 01')};
+    expect(upsertCommand(upsertCommand([first, stop], again), stop)).toEqual([
+      again,
+      stop,
+    ]);
+  });
+
+  it('ignores invalid devices in the saved file', async () => {
+    let store = updateDeviceCommands({}, 'a', {
+      target: {service: 'fff0', characteristic: 'fff2'},
+    });
+    store = updateDeviceCommands(store, 'a', {
+      commands: [{name: 'start', steps: parseMacro('01'), runOnConnect: true}],
+    });
+    fs.files[COMMANDS_PATH] = JSON.stringify({
+      ...store,
+      b: {
+        target: null,
+        response: null,
+        commands: [{name: 'x', steps: [{type: 'write', bytes: [300]}]}],
+      },
+    });
+    expect(await loadCommands()).toEqual(store);
+    expect(store.a.response).toBeNull();
+  });
+});
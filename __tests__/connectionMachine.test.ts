@@ -0,0 +1,103 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {
+  ConnectionEvent,
+  ConnectionState,
+  DEFAULT_RECONNECT_POLICY,
+  IDLE,
+  RECONNECT_EXHAUSTED,
+  reconnectDelay,
+  transition,
+} from '../src/ble/connectionMachine';
+
+jest.mock('react-native-fs', () => ({DocumentDirectoryPath: '/docs'}));
+
+function run(
+  events: ConnectionEvent[],
+  policy = DEFAULT_RECONNECT_POLICY,
+  from: ConnectionState = IDLE,
+) {
+  return events.reduce(
+    (state, event) => transition(state, event, policy),
+    from,
+  );
+}
+
+const STREAMING: ConnectionEvent[] = [
+  {type: 'scanStarted'},
+  {type: 'scanStopped'},
+  {type: 'connect', deviceId: 'dev'},
+  {type: 'linkUp'},
+  {type: 'ready'},
+  {type: 'subscribe'},
+  {type: 'subscribed'},
+];
+
+describe('connection state machine', () => {
+  it('goes from idle through discovery to streaming and back', () => {
+    const streaming = run(STREAMING);
+    expect(streaming).toEqual({type: 'streaming', deviceId: 'dev'});
+    expect(transition(streaming, {type: 'streamStopped'})).toEqual({
+      type: 'connected',
+      deviceId: 'dev',
+    });
+    expect(transition(streaming, {type: 'disconnect'})).toBe(IDLE);
+  });
+
+  it('ignores events that do not apply', () => {
+    const state = run([{type: 'connect', deviceId: 'dev'}]);
+    expect(transition(state, {type: 'subscribed'})).toBe(state);
+    // A disconnect callback after the user hung up
+    expect(transition(IDLE, {type: 'linkLost'})).toBe(IDLE);
+    const streaming = run(STREAMING);
+    expect(transition(streaming, {type: 'connect', deviceId: 'other'})).toBe(
+      streaming,
+    );
+  });
+
+  it('counts reconnect attempts up to the policy limit', () => {
+    const policy = {...DEFAULT_RECONNECT_POLICY, maxAttempts: 2};
+    let state = run([...STREAMING, {type: 'linkLost'}], policy);
+    expect(state).toEqual({
+      type: 'reconnecting',
+      deviceId: 'dev',
+      attempt: 1,
+      wasStreaming: true,
+    });
+    state = transition(state, {type: 'reconnectFailed'}, policy);
+    expect(state).toMatchObject({type: 'reconnecting', attempt: 2});
+    expect(transition(state, {type: 'ready'}, policy)).toEqual({
+      type: 'connected',
+      deviceId: 'dev',
+    });
+    state = transition(state, {type: 'reconnectFailed'}, policy);
+    expect(state).toEqual({
+      type: 'failed',
+      deviceId: 'dev',
+      error: RECONNECT_EXHAUSTED,
+    });
+  });
+
+  it('fails at once without reconnect attempts', () => {
+    const policy = {...DEFAULT_RECONNECT_POLICY, maxAttempts: 0};
+    const state = run(
+      [{type: 'connect', deviceId: 'dev'}, {type: 'ready'}, {type: 'linkLost'}],
+      policy,
+    );
+    expect(state.type).toBe('failed');
+    expect(transition(state, {type: 'connect', deviceId: 'dev'}).type).toBe(
+      'connecting',
+    );
+  });
+
+  it('repeats the last backoff delay', () => {
+    const policy = {
+      ...DEFAULT_RECONNECT_POLICY,
+      backoffMs: [100, 400],
+      maxAttempts: 4,
+    };
+    expect([1, 2, 3, 4].map(n => reconnectDelay(policy, n))).toEqual([
+      100, 400, 400, 400,
+    ]);
+    expect(reconnectDelay({...policy, backoffMs: []}, 1)).toBe(0);
+  });
+});
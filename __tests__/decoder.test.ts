@@ -0,0 +1,269 @@
+import {describe, expect, it} from '@jest/globals';
+import {detectFormats, proposeFormat} from '../src/decoder/autoDetect';
+import {
+  decodePacket,
+  decodeSample,
+  formatLabel,
+  isValidFormat,
+  PayloadFormat,
+  readSequence,
+} from '../src/decoder/payloadFormat';
+
+const hex = (s: string) =>
+  new Uint8Array(s.split(' ').map(b => parseInt(b, 16)));
+
+const spec = (overrides: Partial<PayloadFormat>): PayloadFormat => ({
+  type: 'int16',
+  endianness: 'little',
+  offset: 0,
+  axisOrder: ['x', 'y', 'z'],
+  scale: 1 / 16384,
+  units: 'g',
+  ...overrides,
+});
+
+type Golden = {
+  name: string;
+  bytes: string;
+  format: PayloadFormat;
+  expected: {x: number; y: number; z: number};
+};
+
+const GOLDEN: Golden[] = [
+  {
+    name: 'int16 LE ±2g at rest',
+    bytes: '00 00 00 00 00 40',
+    format: spec({}),
+    expected: {x: 0, y: 0, z: 1},
+  },
+  {
+    name: 'int16 LE ±2g negative values',
+    bytes: '00 e0 00 20 00 c0',
+    format: spec({}),
+    expected: {x: -0.5, y: 0.5, z: -1},
+  },
+  {
+    name: 'int16 BE ±4g',
+    bytes: '20 00 e0 00 40 00',
+    format: spec({endianness: 'big', scale: 1 / 8192}),
+    expected: {x: 1, y: -1, z: 2},
+  },
+  {
+    name: 'int16 LE with 2-byte header',
+    bytes: 'aa 55 00 10 00 00 00 f0',
+    format: spec({offset: 2, scale: 1 / 4096}),
+    expected: {x: 1, y: 0, z: -1},
+  },
+  {
+    name: 'int16 LE milli-g',
+    bytes: 'e8 03 0c fe f4 01',
+    format: spec({scale: 1, units: 'mg'}),
+    expected: {x: 1, y: -0.5, z: 0.5},
+  },
+  {
+    name: 'int16 LE with axis order z,x,y',
+    bytes: '00 40 00 20 00 e0',
+    format: spec({axisOrder: ['z', 'x', 'y']}),
+    expected: {x: 0.5, y: -0.5, z: 1},
+  },
+  {
+    name: 'int8 ±2g',
+    bytes: '40 c0 20',
+    format: spec({type: 'int8', scale: 1 / 64}),
+    expected: {x: 1, y: -1, z: 0.5},
+  },
+  {
+    name: 'int32 BE micro-g',
+    bytes: '00 0f 42 40 ff f8 5e e0 00 00 00 00',
+    format: spec({type: 'int32', endianness: 'big', scale: 1e-6}),
+    expected: {x: 1, y: -0.5, z: 0},
+  },
+  {
+    name: 'float32 LE g',
+    bytes: '00 00 80 3f 00 00 00 bf 00 00 00 00',
+    format: spec({type: 'float32', scale: 1}),
+    expected: {x: 1, y: -0.5, z: 0},
+  },
+  {
+    name: 'float32 BE m/s²',
+    bytes: '41 1c e8 0a 00 00 00 00 c1 1c e8 0a',
+    format: spec({
+      type: 'float32',
+      endianness: 'big',
+      scale: 1,
+      units: 'm/s2',
+    }),
+    expected: {x: 1, y: 0, z: -1},
+  },
+];
+
+describe('decodeSample golden vectors', () => {
+  for (const g of GOLDEN) {
+    it(g.name, () => {
+      const v = decodeSample(hex(g.bytes), g.format);
+      expect(v.x).toBeCloseTo(g.expected.x, 5);
+      expect(v.y).toBeCloseTo(g.expected.y, 5);
+      expect(v.z).toBeCloseTo(g.expected.z, 5);
+    });
+  }
+
+  it('decodes the same bytes identically on every call', () => {
+    const bytes = hex('00 e0 00 20 00 c0');
+    const first = decodeSample(bytes, spec({}));
+    for (let i = 0; i < 10; i++) {
+      expect(decodeSample(bytes, spec({}))).toEqual(first);
+    }
+  });
+
+  it('rejects payloads shorter than the format', () => {
+    expect(() => decodeSample(hex('00 00 00 00'), spec({}))).toThrow(
+      /too short/,
+    );
+  });
+
+  it('honours the byteOffset of a subarray', () => {
+    const packet = hex('ff ff 00 00 00 00 00 40');
+    expect(decodeSample(packet.subarray(2), spec({}))).toEqual({
+      x: 0,
+      y: 0,
+      z: 1,
+    });
+  });
+});
+
+describe('decodePacket', () => {
+  const batched = spec({headerSize: 2, frameSize: 6, odrHz: 100});
+
+  it('returns one row stamped with the arrival time for single-sample formats', () => {
+    expect(decodePacket(hex('00 00 00 00 00 40'), spec({}), 5000)).toEqual([
+      {t: 5000, x: 0, y: 0, z: 1},
+    ]);
+  });
+
+  it('splits a FIFO burst into frames after the header', () => {
+    const rows = decodePacket(
+      hex('07 03 00 40 00 00 00 00 00 00 00 40 00 00 00 00 00 00 00 c0'),
+      batched,
+      1000,
+    );
+    expect(rows.map(r => [r.x, r.y, r.z])).toEqual([
+      [1, 0, 0],
+      [0, 1, 0],
+      [0, 0, -1],
+    ]);
+  });
+
+  it('spaces timestamps by the output data rate ending at arrival', () => {
+    const rows = decodePacket(
+      hex('00 00 00 40 00 00 00 00 00 00 00 40 00 00 00 00 00 00 00 c0'),
+      batched,
+      1000,
+    );
+    expect(rows.map(r => r.t)).toEqual([980, 990, 1000]);
+  });
+
+  it('ignores a trailing partial frame', () => {
+    const rows = decodePacket(
+      hex('00 00 00 40 00 00 00 00 ff ff'),
+      batched,
+      1000,
+    );
+    expect(rows).toHaveLength(1);
+  });
+
+  it('rejects packets without a complete frame', () => {
+    expect(() => decodePacket(hex('00 00 00 40'), batched, 0)).toThrow(
+      /too short/,
+    );
+  });
+
+  it('uses the offset within each frame', () => {
+    const rows = decodePacket(
+      hex('aa 00 40 00 00 00 00 bb 00 00 00 00 00 40'),
+      spec({offset: 1, frameSize: 7}),
+      0,
+    );
+    expect(rows.map(r => [r.x, r.z])).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+  });
+});
+
+describe('readSequence', () => {
+  it('reads counters of each width and endianness', () => {
+    const packet = hex('2a 01 02 03 04');
+    expect(
+      readSequence(packet, {type: 'uint8', offset: 0, endianness: 'little'}),
+    ).toBe(42);
+    expect(
+      readSequence(packet, {type: 'uint16', offset: 1, endianness: 'little'}),
+    ).toBe(0x0201);
+    expect(
+      readSequence(packet, {type: 'uint16', offset: 1, endianness: 'big'}),
+    ).toBe(0x0102);
+    expect(
+      readSequence(packet, {type: 'uint32', offset: 1, endianness: 'big'}),
+    ).toBe(0x01020304);
+  });
+});
+
+describe('formatLabel and isValidFormat', () => {
+  it('describes a format compactly', () => {
+    expect(formatLabel(spec({endianness: 'big', offset: 2}))).toBe(
+      'int16 BE @2 XYZ ×0.00006104 g',
+    );
+  });
+
+  it('validates stored specs', () => {
+    expect(isValidFormat(spec({}))).toBe(true);
+    expect(isValidFormat({...spec({}), type: 'int24'})).toBe(false);
+    expect(isValidFormat({...spec({}), axisOrder: ['x', 'x', 'z']})).toBe(
+      false,
+    );
+    expect(isValidFormat({...spec({}), offset: -1})).toBe(false);
+    expect(isValidFormat(spec({frameSize: 4}))).toBe(false);
+    expect(isValidFormat(spec({frameSize: 6, odrHz: 0}))).toBe(false);
+  });
+});
+
+describe('auto-detect', () => {
+  it('proposes int16 LE ±2g for a resting int16 sensor', () => {
+    const packets = [
+      hex('10 00 f0 ff 00 40'),
+      hex('08 00 f8 ff f0 3f'),
+      hex('00 00 10 00 10 40'),
+    ];
+    const best = proposeFormat(packets);
+    expect(best?.format).toEqual(spec({}));
+  });
+
+  it('picks the full-scale range that puts gravity near 1 g', () => {
+    const best = proposeFormat([hex('00 00 00 00 00 10')]);
+    expect(best?.format.scale).toBe(1 / 4096);
+  });
+
+  it('proposes float32 for float payloads', () => {
+    const best = proposeFormat([hex('00 00 00 00 00 00 00 00 00 00 80 3f')]);
+    expect(best?.format).toMatchObject({
+      type: 'float32',
+      endianness: 'little',
+      units: 'g',
+    });
+  });
+
+  it('ignores all-zero packets and returns nothing without data', () => {
+    expect(detectFormats([hex('00 00 00 00 00 00')])).toEqual([]);
+    expect(proposeFormat([])).toBeNull();
+  });
+
+  it('only proposes specs, it never changes them between packets', () => {
+    const packets = [hex('00 00 00 00 00 40'), hex('00 40 00 00 00 00')];
+    const all = detectFormats(packets);
+    for (const p of all) {
+      for (const packet of packets) {
+        expect(() => decodeSample(packet, p.format)).not.toThrow();
+      }
+    }
+  });
+});
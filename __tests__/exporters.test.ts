@@ -0,0 +1,126 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import {strFromU8, unzipSync} from 'fflate';
+import RNFS from 'react-native-fs';
+import {exportSession, npyHeader} from '../src/export/exporters';
+import {
+  newSession,
+  saveSession,
+  sessionDataPath,
+  SessionMeta,
+} from '../src/sessions/sessionStore';
+
+// The in-memory react-native-fs from __mocks__
+const fs = RNFS as unknown as {
+  files: Record<string, string>;
+  reset: () => void;
+};
+
+const ROWS = [
+  [1000, 0.5, -1.25, 1],
+  [1010, 0.25, 2, -0.5],
+];
+
+function bytes(path: string): Uint8Array {
+  return Uint8Array.from(fs.files[path], c => c.charCodeAt(0));
+}
+
+// Splits an .npy file into its header dict and float64 little-endian payload
+function parseNpy(npy: Uint8Array): {header: string; values: number[]} {
+  expect([...npy.slice(0, 6)]).toEqual([0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59]);
+  expect([...npy.slice(6, 8)]).toEqual([1, 0]);
+  const length = new DataView(npy.buffer, npy.byteOffset).getUint16(8, true);
+  expect((10 + length) % 64).toBe(0);
+  const header = strFromU8(npy.slice(10, 10 + length));
+  const view = new DataView(npy.buffer, npy.byteOffset + 10 + length);
+  const values = [];
+  for (let i = 0; i < view.byteLength; i += 8) {
+    values.push(view.getFloat64(i, true));
+  }
+  return {header, values};
+}
+
+async function recordedSession(): Promise<SessionMeta> {
+  const meta = newSession({
+    deviceName: 'Sensor A',
+    deviceId: 'a',
+    format: null,
+    profileId: null,
+    calibration: null,
+    filters: [],
+  });
+  meta.name = 'Bench run';
+  meta.sampleCount = ROWS.length;
+  await saveSession(meta);
+  fs.files[sessionDataPath(meta.id)] =
+    ['timestamp_ms,x,y,z', ...ROWS.map(r => r.join(','))].join('\n') + '\n';
+  return meta;
+}
+
+describe('npyHeader', () => {
+  it('pads the header dict to a 64-byte boundary', () => {
+    const {header} = parseNpy(npyHeader([1234, 7]));
+    expect(header.endsWith(' \n')).toBe(true);
+    expect(header.trim()).toBe(
+      "{'descr': '<f8', 'fortran_order': False, 'shape': (1234, 7), }",
+    );
+  });
+
+  it('writes one-dimensional shapes as a Python tuple', () => {
+    expect(parseNpy(npyHeader([3])).header).toContain("'shape': (3,)");
+  });
+});
+
+describe('exportSession', () => {
+  beforeEach(() => {
+    fs.reset();
+  });
+
+  it('writes an .npy array of shape (rows, columns)', async () => {
+    const out = await exportSession(await recordedSession(), 'npy');
+    expect(out).toBe('/docs/exports/Bench_run.npy');
+    const {header, values} = parseNpy(bytes(out));
+    expect(header).toContain("'descr': '<f8'");
+    expect(header).toContain("'shape': (2, 4)");
+    expect(values).toEqual(ROWS.flat());
+  });
+
+  it('writes an .npz with one array per column', async () => {
+    const out = await exportSession(await recordedSession(), 'npz');
+    const entries = unzipSync(bytes(out));
+    expect(Object.keys(entries)).toEqual([
+      'timestamp_ms.npy',
+      'x.npy',
+      'y.npy',
+      'z.npy',
+    ]);
+    const y = parseNpy(entries['y.npy']);
+    expect(y.header).toContain("'shape': (2,)");
+    expect(y.values).toEqual([-1.25, 2]);
+  });
+
+  it('writes a metadata record, then one JSON line per sample', async () => {
+    const meta = await recordedSession();
+    const out = await exportSession(meta, 'jsonl');
+    const lines = fs.files[out]
+      .trim()
+      .split('\n')
+      .map(l => JSON.parse(l));
+    expect(lines).toHaveLength(1 + ROWS.length);
+    expect(lines[0]).toEqual({type: 'meta', ...meta});
+    expect(lines.slice(1)).toEqual([
+      {timestamp_ms: 1000, x: 0.5, y: -1.25, z: 1},
+      {timestamp_ms: 1010, x: 0.25, y: 2, z: -0.5},
+    ]);
+  });
+
+  it('archives every file of the session', async () => {
+    const meta = await recordedSession();
+    const out = await exportSession(meta, 'zip');
+    const entries = unzipSync(bytes(out));
+    expect(Object.keys(entries).sort()).toEqual(['data.csv', 'meta.json']);
+    expect(strFromU8(entries['data.csv'])).toBe(
+      fs.files[sessionDataPath(meta.id)],
+    );
+    expect(JSON.parse(strFromU8(entries['meta.json']))).toEqual(meta);
+  });
+});
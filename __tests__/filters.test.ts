@@ -0,0 +1,131 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {Biquad, designButterworth} from '../src/filters/butterworth';
+import {FilterChain, filterChainLabel} from '../src/filters/filterChain';
+
+const FS = 200;
+
+// Steady-state gain for a sine, from the RMS over the last second (whole cycles)
+function gainAt(hz: number, run: (x: number) => number): number {
+  let sumSq = 0;
+  for (let i = 0; i < FS * 5; i++) {
+    const y = run(Math.sin((2 * Math.PI * hz * i) / FS));
+    if (i >= FS * 4) {
+      sumSq += y * y;
+    }
+  }
+  return Math.sqrt((2 * sumSq) / FS);
+}
+
+function cascade(kind: 'lowpass' | 'highpass', order: number, cutoff: number) {
+  const sections = designButterworth(kind, order, cutoff, FS).map(
+    c => new Biquad(c),
+  );
+  return (x: number) => sections.reduce((y, s) => s.process(y), x);
+}
+
+describe('designButterworth', () => {
+  it('has -3 dB at the cutoff and rolls off with the order', () => {
+    for (const order of [1, 2, 3, 4]) {
+      expect(gainAt(10, cascade('lowpass', order, 10))).toBeCloseTo(
+        Math.SQRT1_2,
+        2,
+      );
+    }
+    expect(gainAt(1, cascade('lowpass', 4, 10))).toBeCloseTo(1, 2);
+    // 4th order: 24 dB/octave, so two octaves up is about -48 dB
+    expect(gainAt(40, cascade('lowpass', 4, 10))).toBeLessThan(0.005);
+  });
+
+  it('high-pass passes high frequencies and blocks DC', () => {
+    expect(gainAt(50, cascade('highpass', 2, 5))).toBeCloseTo(1, 2);
+    const hp = cascade('highpass', 2, 5);
+    let y = 1;
+    for (let i = 0; i < FS * 2; i++) {
+      y = hp(1);
+    }
+    expect(Math.abs(y)).toBeLessThan(1e-6);
+  });
+
+  it('rejects cutoffs at or above Nyquist', () => {
+    expect(() => designButterworth('lowpass', 2, 100, FS)).toThrow('Nyquist');
+  });
+});
+
+describe('FilterChain', () => {
+  function feed(chain: FilterChain, values: number[]) {
+    return values
+      .map((v, i) => chain.push((i * 1000) / FS, v, 0, 1))
+      .filter(r => r !== null);
+  }
+
+  it('starts a low-pass at steady state instead of ringing', () => {
+    const chain = new FilterChain([{type: 'lowpass', cutoffHz: 5, order: 4}], {
+      sampleRateHz: FS,
+    });
+    const out = feed(chain, new Array(50).fill(0.5));
+    expect(out.every(r => Math.abs(r!.x - 0.5) < 1e-9)).toBe(true);
+    expect(out.every(r => Math.abs(r!.z - 1) < 1e-9)).toBe(true);
+  });
+
+  it('removes isolated spikes with the despike filter', () => {
+    const chain = new FilterChain([
+      {type: 'median', window: 5, thresholdG: 0.5},
+    ]);
+    const input = [0, 0.01, 0, 8, 0, 0.02, 0];
+    expect(feed(chain, input).map(r => r!.x)).toEqual([
+      0, 0.01, 0, 0.01, 0, 0.02, 0,
+    ]);
+  });
+
+  it('averages blocks when decimating', () => {
+    const chain = new FilterChain([{type: 'decimate', factor: 2}], {
+      sampleRateHz: FS,
+    });
+    const out = feed(chain, [1, 3, 5, 7, 9]);
+    expect(out.map(r => r!.x)).toEqual([2, 6]);
+    expect(out.map(r => r!.t)).toEqual([5, 15]);
+  });
+
+  it('removes gravity from a still device', () => {
+    const chain = new FilterChain([{type: 'gravity', timeConstantS: 0.1}], {
+      sampleRateHz: FS,
+    });
+    const out = feed(chain, new Array(200).fill(0.3));
+    expect(out[199]!.x).toBeCloseTo(0, 9);
+    expect(out[199]!.z).toBeCloseTo(0, 9);
+  });
+
+  it('estimates the rate before designing and bypasses on errors', () => {
+    const onError = jest.fn();
+    // 60 Hz cutoff is above Nyquist for the 100 Hz stream
+    const chain = new FilterChain([{type: 'lowpass', cutoffHz: 60, order: 2}], {
+      onError,
+    });
+    for (let i = 0; i < 40; i++) {
+      chain.push(i * 10, 1, 2, 3);
+    }
+    expect(chain.sampleRateHz).toBeCloseTo(100, 6);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(chain.push(400, 1, 2, 3)).toEqual({t: 400, x: 1, y: 2, z: 3});
+  });
+
+  it('counts every sample of batched packets when estimating the rate', () => {
+    // Without an ODR the 4 frames of each packet share its arrival time
+    const chain = new FilterChain([{type: 'lowpass', cutoffHz: 5, order: 2}]);
+    for (let packet = 0; packet < 20; packet++) {
+      for (let frame = 0; frame < 4; frame++) {
+        chain.push(packet * 40, 1, 2, 3);
+      }
+    }
+    expect(chain.sampleRateHz).toBeCloseTo(100, 6);
+  });
+
+  it('describes the chain for session metadata', () => {
+    expect(
+      filterChainLabel([
+        {type: 'highpass', cutoffHz: 0.5, order: 2},
+        {type: 'decimate', factor: 4},
+      ]),
+    ).toBe('High-pass 0.5 Hz (order 2) → Decimate ÷4');
+  });
+});
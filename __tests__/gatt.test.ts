@@ -0,0 +1,114 @@
+import {describe, expect, it} from '@jest/globals';
+import {FakePeripheral, FakeTransport} from '../test-utils/FakeTransport';
+import {
+  gattName,
+  gattRefKey,
+  loadGattTree,
+  numberViews,
+  parseHex,
+  shortUuid,
+  toAscii,
+  toHex,
+  utf8Bytes,
+} from '../src/ble/gatt';
+
+describe('gatt helpers', () => {
+  it('parses hex in the usual spellings', () => {
+    expect([...parseHex('01 02 ff')]).toEqual([1, 2, 255]);
+    expect([...parseHex('0x01,0x02,0xFF')]).toEqual([1, 2, 255]);
+    expect([...parseHex('0102FF')]).toEqual([1, 2, 255]);
+    expect([...parseHex('')]).toEqual([]);
+    expect(() => parseHex('0g')).toThrow('Invalid hex');
+    expect(() => parseHex('012')).toThrow('two digits');
+  });
+
+  it('shows bytes as hex, ascii and numbers', () => {
+    const bytes = new Uint8Array([0x48, 0x69, 0x00, 0xff]);
+    expect(toHex(bytes)).toBe('48 69 00 ff');
+    expect(toAscii(bytes)).toBe('Hi..');
+    const views = Object.fromEntries(
+      numberViews(bytes).map(v => [v.label, v.values]),
+    );
+    expect(views.uint8).toEqual([0x48, 0x69, 0, 255]);
+    expect(views['int16 LE']).toEqual([0x6948, -256]);
+    expect(views['int16 BE']).toEqual([0x4869, 255]);
+    expect(views['uint32 LE']).toEqual([0xff006948]);
+    expect(numberViews(new Uint8Array([1])).map(v => v.label)).toEqual([
+      'uint8',
+      'int8',
+    ]);
+  });
+
+  it('encodes text as utf-8', () => {
+    expect([...utf8Bytes('Aé€')]).toEqual([0x41, 0xc3, 0xa9, 0xe2, 0x82, 0xac]);
+  });
+
+  it('names standard uuids in either form', () => {
+    expect(gattName('2a19')).toBe('Battery Level');
+    expect(gattName('00002A19-0000-1000-8000-00805F9B34FB')).toBe(
+      'Battery Level',
+    );
+    expect(gattName('fff1')).toBeNull();
+    expect(shortUuid('0000180f-0000-1000-8000-00805f9b34fb')).toBe('180f');
+    expect(gattRefKey({service: '180F', characteristic: '2a19'})).toBe(
+      gattRefKey({
+        service: '0000180f-0000-1000-8000-00805f9b34fb',
+        characteristic: '00002a19-0000-1000-8000-00805f9b34fb',
+      }),
+    );
+  });
+
+  it('loads the tree of a connected device', async () => {
+    const p = new FakePeripheral({
+      id: 'p',
+      name: 'Sensor',
+      services: [
+        {
+          uuid: '180f',
+          characteristics: [
+            {
+              uuid: '2a19',
+              read: true,
+              notify: true,
+              descriptors: [{uuid: '2902', value: new Uint8Array([1, 0])}],
+            },
+          ],
+        },
+        {
+          uuid: 'fff0',
+          characteristics: [{uuid: 'fff2', writeWithoutResponse: true}],
+        },
+      ],
+    });
+    const device = await new FakeTransport([p]).connectToDevice('p');
+    const tree = await loadGattTree(device);
+    expect(tree).toEqual([
+      {
+        uuid: '180f',
+        characteristics: [
+          {
+            uuid: '2a19',
+            properties: {
+              read: true,
+              write: false,
+              writeWithoutResponse: false,
+              notify: true,
+              indicate: false,
+            },
+            descriptors: [{uuid: '2902', value: new Uint8Array([1, 0])}],
+          },
+        ],
+      },
+      {
+        uuid: 'fff0',
+        characteristics: [
+          expect.objectContaining({
+            uuid: 'fff2',
+            properties: expect.objectContaining({writeWithoutResponse: true}),
+            descriptors: [],
+          }),
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {
+  autoConnectTarget,
+  EMPTY_KNOWN_DEVICES,
+  forgetDevice,
+  knownDeviceList,
+  rememberConnection,
+  updateKnownDevice,
+} from '../src/ble/knownDevices';
+
+jest.mock('react-native-fs', () => ({DocumentDirectoryPath: '/docs'}));
+
+function twoDevices() {
+  let store = rememberConnection(
+    EMPTY_KNOWN_DEVICES,
+    {id: 'a', name: 'Accel A'},
+    1000,
+  );
+  store = rememberConnection(store, {id: 'b', name: 'Accel B'}, 2000);
+  return store;
+}
+
+describe('known devices', () => {
+  it('keeps nickname and settings across connections', () => {
+    let store = twoDevices();
+    store = updateKnownDevice(store, 'a', {
+      nickname: 'Bench',
+      settings: {autoStream: true},
+    });
+    store = rememberConnection(store, {id: 'a', name: 'Accel A2'}, 3000);
+    expect(store.devices.a).toMatchObject({
+      name: 'Accel A2',
+      nickname: 'Bench',
+      lastConnectedAt: 3000,
+      settings: {autoStream: true, filters: [], format: null},
+    });
+  });
+
+  it('allows one favorite and lists it first', () => {
+    let store = updateKnownDevice(twoDevices(), 'a', {favorite: true});
+    store = updateKnownDevice(store, 'b', {favorite: true});
+    expect(store.devices.a.favorite).toBe(false);
+    store = updateKnownDevice(store, 'a', {favorite: true});
+    expect(knownDeviceList(store).map(d => d.id)).toEqual(['a', 'b']);
+  });
+
+  it('picks the auto-connect target by mode', () => {
+    const store = updateKnownDevice(twoDevices(), 'a', {favorite: true});
+    expect(autoConnectTarget(store)).toBeNull();
+    expect(autoConnectTarget({...store, autoConnect: 'last'})?.id).toBe('b');
+    expect(autoConnectTarget({...store, autoConnect: 'favorite'})?.id).toBe(
+      'a',
+    );
+    expect(
+      autoConnectTarget({...forgetDevice(store, 'a'), autoConnect: 'favorite'}),
+    ).toBeNull();
+  });
+});
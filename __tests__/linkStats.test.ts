@@ -0,0 +1,54 @@
+import {describe, expect, it} from '@jest/globals';
+import {LinkStatsTracker, lossPercent} from '../src/ble/linkStats';
+
+const feed = (seqs: number[], bits = 8, intervalMs = 10) => {
+  const tracker = new LinkStatsTracker();
+  seqs.forEach((seq, i) => tracker.onPacket(i * intervalMs, 1, seq, bits));
+  return tracker.snapshot();
+};
+
+describe('LinkStatsTracker', () => {
+  it('counts an in-order stream without losses', () => {
+    const s = feed([0, 1, 2, 3, 4]);
+    expect(s).toMatchObject({
+      received: 5,
+      dropped: 0,
+      duplicated: 0,
+      outOfOrder: 0,
+    });
+  });
+
+  it('counts gaps as dropped packets', () => {
+    const s = feed([0, 1, 4, 5]);
+    expect(s.dropped).toBe(2);
+    expect(lossPercent(s)).toBeCloseTo(100 / 3);
+  });
+
+  it('handles counter wrap-around', () => {
+    expect(feed([254, 255, 0, 1]).dropped).toBe(0);
+    expect(feed([65534, 65535, 1], 16).dropped).toBe(1);
+  });
+
+  it('detects duplicates', () => {
+    const s = feed([0, 1, 1, 2]);
+    expect(s.duplicated).toBe(1);
+    expect(s.dropped).toBe(0);
+  });
+
+  it('credits late packets back from the dropped count', () => {
+    const s = feed([0, 2, 1, 3]);
+    expect(s.outOfOrder).toBe(1);
+    expect(s.dropped).toBe(0);
+  });
+
+  it('measures sample rate and jitter from arrival times', () => {
+    const tracker = new LinkStatsTracker();
+    for (let i = 0; i < 50; i++) {
+      tracker.onPacket(i * 20, 4);
+    }
+    const s = tracker.snapshot();
+    expect(s.sampleRateHz).toBeCloseTo(200);
+    expect(s.meanIntervalMs).toBeCloseTo(20);
+    expect(s.jitterMs).toBeCloseTo(0);
+  });
+});
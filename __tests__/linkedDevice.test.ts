@@ -0,0 +1,142 @@
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+import RNFS from 'react-native-fs';
+import {AdvertListener} from '../src/ble/AdvertListener';
+import {
+  DEFAULT_RECONNECT_POLICY,
+  ReconnectPolicy,
+} from '../src/ble/connectionMachine';
+import {FakePeripheral, FakeTransport} from '../test-utils/FakeTransport';
+import {LinkedDevice} from '../src/ble/LinkedDevice';
+import {DeviceProfile} from '../src/ble/profiles';
+import {formatLabel} from '../src/decoder/payloadFormat';
+import {TransportDevice} from '../src/ble/transport';
+
+const fs = RNFS as unknown as {reset: () => void};
+
+const SVC = 'fff0';
+const DATA = 'fff1';
+
+const PROFILE: DeviceProfile = {
+  id: 'fake',
+  label: 'Fake Accel',
+  match: {namePrefix: 'FakeAccel'},
+  dataService: SVC,
+  dataCharacteristic: DATA,
+  format: {
+    type: 'int16',
+    endianness: 'little',
+    offset: 0,
+    axisOrder: ['x', 'y', 'z'],
+    scale: 1,
+    units: 'mg',
+  },
+};
+
+function peripheral() {
+  return new FakePeripheral({
+    id: 'fake-2',
+    name: 'FakeAccel 2',
+    services: [{uuid: SVC, characteristics: [{uuid: DATA, notify: true}]}],
+  });
+}
+
+function linked(
+  transport: FakeTransport,
+  p: FakePeripheral,
+  policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY,
+) {
+  return new LinkedDevice(
+    {id: p.id, name: p.spec.name!},
+    {
+      transport,
+      adverts: new AdvertListener(transport),
+      profiles: [PROFILE],
+      fallbackFormat: null,
+      formatLabel,
+      reconnectPolicy: () => policy,
+    },
+  );
+}
+
+describe('linked device', () => {
+  beforeEach(() => {
+    fs.reset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('streams from its profile and closes the link on stop', async () => {
+    const p = peripheral();
+    const dev = linked(new FakeTransport([p]), p);
+    await dev.start();
+    expect(dev.status().state).toBe('streaming');
+    expect(p.monitorCount(SVC, DATA)).toBe(1);
+    await dev.stop();
+    expect(p.connected).toBe(false);
+    expect(p.monitorCount(SVC, DATA)).toBe(0);
+  });
+
+  it('closes a connection that completes after stop', async () => {
+    const p = peripheral();
+    const transport = new FakeTransport([p]);
+    const connect = transport.connectToDevice.bind(transport);
+    let release = () => {};
+    const connecting = new Promise<void>(resolve => {
+      transport.connectToDevice = (id: string) =>
+        new Promise<TransportDevice>(done => {
+          release = () => done(connect(id));
+          resolve();
+        });
+    });
+    const listen = jest.spyOn(transport, 'onDeviceDisconnected');
+    const dev = linked(transport, p);
+
+    const started = dev.start();
+    await connecting;
+    await dev.stop();
+    release();
+    await started;
+
+    expect(p.connected).toBe(false);
+    expect(p.monitorCount(SVC, DATA)).toBe(0);
+    expect(listen).not.toHaveBeenCalled();
+    expect(dev.status().state).toBe('stopped');
+  });
+
+  it('reconnects with the reconnect policy', async () => {
+    jest.useFakeTimers();
+    try {
+      const p = peripheral();
+      const dev = linked(new FakeTransport([p]), p, {
+        ...DEFAULT_RECONNECT_POLICY,
+        backoffMs: [100, 300],
+        maxAttempts: 2,
+      });
+      await dev.start();
+
+      p.failConnections(1);
+      p.drop();
+      expect(dev.status().state).toBe('reconnecting');
+      expect(p.monitorCount(SVC, DATA)).toBe(0);
+      // The first attempt fails, the second comes after the policy's second delay
+      await jest.advanceTimersByTimeAsync(100);
+      expect(dev.status().state).toBe('reconnecting');
+      await jest.advanceTimersByTimeAsync(299);
+      expect(p.connected).toBe(false);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(dev.status().state).toBe('streaming');
+      expect(p.monitorCount(SVC, DATA)).toBe(1);
+
+      // Two failed attempts use up the policy
+      p.failConnections(2);
+      p.drop();
+      await jest.advanceTimersByTimeAsync(400);
+      expect(dev.status()).toMatchObject({
+        state: 'failed',
+        error: 'Connection lost. Reconnect attempts exceeded.',
+      });
+      await dev.stop();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
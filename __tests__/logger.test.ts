@@ -0,0 +1,106 @@
+import RNFS from 'react-native-fs';
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {
+  filterLogs,
+  formatLogEntry,
+  LogEntry,
+  Logger,
+  writeLogFile,
+} from '../src/logging/logger';
+import {LOG_SETTINGS_PATH, loadLogSettings} from '../src/logging/logSettings';
+
+const fs = RNFS as unknown as {
+  files: Record<string, string>;
+  reset: () => void;
+};
+
+const entry = (
+  t: number,
+  level: LogEntry['level'],
+  category: LogEntry['category'],
+  message: string,
+): LogEntry => ({t, level, category, message});
+
+describe('logger', () => {
+  beforeEach(() => {
+    fs.reset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('keeps only the newest entries and notifies listeners', () => {
+    const log = new Logger(3, false);
+    const seen: string[] = [];
+    const unsubscribe = log.subscribe(e => seen.push(e.message));
+    for (let i = 0; i < 5; i++) {
+      log.info('scan', `found ${i}`);
+    }
+    log.error('connect', 'Connect failed', new Error('timeout'));
+    unsubscribe();
+    log.warn('gatt', 'not seen');
+
+    expect(log.entries().map(e => e.message)).toEqual([
+      'found 4',
+      'Connect failed: timeout',
+      'not seen',
+    ]);
+    expect(seen).toHaveLength(6);
+    log.clear();
+    expect(log.entries()).toEqual([]);
+  });
+
+  it('returns entries from a time on', () => {
+    const log = new Logger(10, false);
+    const now = jest.spyOn(Date, 'now');
+    now.mockReturnValue(1000);
+    log.info('record', 'before');
+    now.mockReturnValue(2000);
+    log.info('record', 'after');
+    now.mockRestore();
+    expect(log.entries(1500).map(e => e.message)).toEqual(['after']);
+  });
+
+  it('filters by level, category and text', () => {
+    const entries = [
+      entry(1, 'debug', 'decode', 'packet 01 02'),
+      entry(2, 'info', 'scan', 'Scan started'),
+      entry(3, 'warn', 'connect', 'Reconnect attempt 1'),
+      entry(4, 'error', 'connect', 'Connect failed'),
+    ];
+    const all = {minLevel: 'debug' as const, categories: [], text: ''};
+    expect(filterLogs(entries, all)).toHaveLength(4);
+    expect(
+      filterLogs(entries, {...all, minLevel: 'warn'}).map(e => e.t),
+    ).toEqual([3, 4]);
+    expect(
+      filterLogs(entries, {...all, categories: ['scan', 'decode']}).map(
+        e => e.t,
+      ),
+    ).toEqual([1, 2]);
+    expect(filterLogs(entries, {...all, text: 'FAILED'}).map(e => e.t)).toEqual(
+      [4],
+    );
+  });
+
+  it('writes one line per entry', async () => {
+    const line = formatLogEntry(
+      entry(Date.UTC(2026, 0, 31, 12), 'info', 'scan', 'Scan started'),
+    );
+    expect(line).toBe('2026-01-31T12:00:00.000Z INFO  [scan] Scan started');
+
+    await writeLogFile('/docs/log.txt', [
+      entry(0, 'warn', 'gatt', 'a'),
+      entry(0, 'error', 'record', 'b'),
+    ]);
+    expect(fs.files['/docs/log.txt']).toBe(
+      '1970-01-01T00:00:00.000Z WARN  [gatt] a\n1970-01-01T00:00:00.000Z ERROR [record] b\n',
+    );
+  });
+
+  it('loads settings with packet debug off by default', async () => {
+    expect(await loadLogSettings()).toEqual({packetDebug: false});
+    fs.files[LOG_SETTINGS_PATH] = JSON.stringify({packetDebug: 'yes'});
+    expect(await loadLogSettings()).toEqual({packetDebug: false});
+    fs.files[LOG_SETTINGS_PATH] = JSON.stringify({packetDebug: true});
+    expect(await loadLogSettings()).toEqual({packetDebug: true});
+  });
+});
@@ -0,0 +1,106 @@
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {exportSession, StreamInterpolator} from '../src/export/exporters';
+import {deviceFileName, newSession} from '../src/sessions/sessionStore';
+
+const files: Record<string, string> = {};
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/docs',
+  stat: async (path: string) => ({size: files[path].length}),
+  read: async (path: string, length: number, position: number) =>
+    files[path].slice(position, position + length),
+  mkdir: async () => {},
+  exists: async (path: string) => path in files,
+  unlink: async (path: string) => {
+    delete files[path];
+  },
+  writeFile: async (path: string, text: string) => {
+    files[path] = text;
+  },
+  appendFile: async (path: string, text: string) => {
+    files[path] = (files[path] ?? '') + text;
+  },
+}));
+
+function csv(header: string, rows: number[][]): string {
+  return [header, ...rows.map(r => r.join(','))].join('\n') + '\n';
+}
+
+// Linked device sampled every 20 ms, offset from the primary
+function sensorB(): string {
+  return csv('timestamp_ms,x,y,z', [
+    [100, 0, 10, 1],
+    [120, 2, 20, 1],
+    [140, 4, 30, 1],
+  ]);
+}
+
+describe('StreamInterpolator', () => {
+  beforeEach(() => {
+    files['/b.csv'] = sensorB();
+  });
+
+  it('interpolates linearly between the surrounding rows', async () => {
+    const stream = new StreamInterpolator('/b.csv');
+    expect(await stream.valueAt(100)).toEqual([0, 10, 1]);
+    expect(await stream.valueAt(110)).toEqual([1, 15, 1]);
+    expect(await stream.valueAt(135)).toEqual([3.5, 27.5, 1]);
+    expect(await stream.valueAt(140)).toEqual([4, 30, 1]);
+  });
+
+  it('has no value outside the recorded range', async () => {
+    const stream = new StreamInterpolator('/b.csv');
+    expect(await stream.valueAt(90)).toBeNull();
+    expect(await stream.valueAt(120)).toEqual([2, 20, 1]);
+    expect(await stream.valueAt(150)).toBeNull();
+  });
+
+  it('finds the axes by column name', async () => {
+    files['/c.csv'] = csv('timestamp_ms,x,y,z,raw_x,raw_y,raw_z', [
+      [0, 1, 2, 3, 9, 9, 9],
+      [10, 3, 4, 5, 9, 9, 9],
+    ]);
+    const stream = new StreamInterpolator('/c.csv');
+    expect(await stream.valueAt(5)).toEqual([2, 3, 4]);
+  });
+});
+
+describe('merged export', () => {
+  it('appends each linked device on the primary timestamps', async () => {
+    const meta = newSession({
+      deviceName: 'A',
+      deviceId: 'a',
+      format: null,
+      profileId: null,
+      calibration: null,
+      filters: [],
+    });
+    const file = deviceFileName('Sensor B!', 0);
+    meta.devices = [
+      {
+        id: 'b',
+        name: 'Sensor B!',
+        file,
+        format: null,
+        calibration: null,
+        sampleCount: 3,
+      },
+    ];
+    const dir = `/docs/sessions/${meta.id}`;
+    files[`${dir}/data.csv`] = csv('timestamp_ms,x,y,z', [
+      [90, 1, 1, 1],
+      [110, 2, 2, 2],
+      [130, 3, 3, 3],
+    ]);
+    files[`${dir}/${file}`] = sensorB();
+
+    const out = await exportSession(meta, 'merged');
+    expect(file).toBe('data_2_sensor_b.csv');
+    expect(files[out].trim().split('\n')).toEqual([
+      'timestamp_ms,x,y,z,2_sensor_b_x,2_sensor_b_y,2_sensor_b_z',
+      '90,1,1,1,NaN,NaN,NaN',
+      '110,2,2,2,1,15,1',
+      '130,3,3,3,3,25,1',
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import RNFS from 'react-native-fs';
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {FORMAT_PRESETS, PayloadFormat} from '../src/decoder/payloadFormat';
+import {
+  PacketCapture,
+  parseCaptureLine,
+  readCapturedPayloads,
+} from '../src/recorder/PacketCapture';
+import {
+  newSession,
+  RECORDED_DATA_FILE,
+  redecodeSession,
+  saveSession,
+  sessionDataPath,
+  sessionFilePath,
+} from '../src/sessions/sessionStore';
+
+const fs = RNFS as unknown as {
+  files: Record<string, string>;
+  reset: () => void;
+};
+
+const preset = (id: string): PayloadFormat =>
+  FORMAT_PRESETS.find(p => p.id === id)!.format;
+
+// int16 little-endian triplet
+function triplet(x: number, y: number, z: number): Uint8Array {
+  const dv = new DataView(new ArrayBuffer(6));
+  [x, y, z].forEach((v, i) => dv.setInt16(i * 2, v, true));
+  return new Uint8Array(dv.buffer);
+}
+
+// A session recorded as milli-g whose capture holds two packets and a short one
+async function capturedSession() {
+  const meta = newSession({
+    deviceName: 'Sensor',
+    deviceId: 'dev-1',
+    format: preset('int16-le-mg'),
+    profileId: null,
+    calibration: null,
+    filters: [],
+  });
+  const capture = new PacketCapture(sessionFilePath(meta.id, 'packets.csv'));
+  capture.open();
+  capture.push(1000, 'fff1', triplet(0, 0, 16384));
+  capture.push(1010, 'fff1', triplet(8192, 0, 0));
+  capture.push(1020, 'fff1', new Uint8Array([1, 2]));
+  await capture.pause();
+  meta.capture = {
+    file: 'packets.csv',
+    packetCount: capture.count,
+    redecodedAt: null,
+  };
+  meta.sampleCount = 2;
+  fs.files[sessionDataPath(meta.id)] =
+    'timestamp_ms,x,y,z\n1000,0,0,16.384\n1010,8.192,0,0\n';
+  await saveSession(meta);
+  return meta;
+}
+
+describe('raw packet capture', () => {
+  beforeEach(() => {
+    fs.reset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('writes one line per packet and reads them back', async () => {
+    const meta = await capturedSession();
+    const path = sessionFilePath(meta.id, 'packets.csv');
+    expect(fs.files[path]).toBe(
+      'arrival_ms,characteristic,payload_hex\n' +
+        '1000,fff1,000000000040\n' +
+        '1010,fff1,002000000000\n' +
+        '1020,fff1,0102\n',
+    );
+    expect(meta.capture?.packetCount).toBe(3);
+    expect(parseCaptureLine('arrival_ms,characteristic,payload_hex')).toBe(
+      null,
+    );
+    expect(parseCaptureLine('5,fff1,0g')).toBe(null);
+    expect(parseCaptureLine('5,fff1,')).toEqual({
+      t: 5,
+      characteristic: 'fff1',
+      bytes: new Uint8Array(0),
+    });
+    const payloads = await readCapturedPayloads(path);
+    expect(payloads.map(b => [...b])).toEqual([
+      [...triplet(0, 0, 16384)],
+      [...triplet(8192, 0, 0)],
+      [1, 2],
+    ]);
+  });
+
+  it('re-decodes a session with another format and keeps the recorded data', async () => {
+    const meta = await capturedSession();
+    const {meta: next, result} = await redecodeSession(
+      meta,
+      preset('int16-le-2g'),
+    );
+
+    expect(result).toEqual({packets: 3, failed: 1, rows: 2});
+    expect(fs.files[sessionDataPath(meta.id)]).toBe(
+      'timestamp_ms,x,y,z\n1000,0,0,1\n1010,0.5,0,0\n',
+    );
+    expect(fs.files[sessionFilePath(meta.id, RECORDED_DATA_FILE)]).toContain(
+      '16.384',
+    );
+    expect(next.format).toEqual(preset('int16-le-2g'));
+    expect(next.sampleCount).toBe(2);
+    expect(next.capture?.redecodedAt).toEqual(expect.any(Number));
+
+    // Decoding again leaves the data as first recorded alone
+    await redecodeSession(next, preset('int16-le-4g'));
+    expect(fs.files[sessionDataPath(meta.id)]).toContain('1000,0,0,2\n');
+    expect(fs.files[sessionFilePath(meta.id, RECORDED_DATA_FILE)]).toContain(
+      '16.384',
+    );
+  });
+
+  it('keeps the data when nothing decodes', async () => {
+    const meta = await capturedSession();
+    const before = fs.files[sessionDataPath(meta.id)];
+    const tooWide: PayloadFormat = {
+      ...preset('float32-le-g'),
+      offset: 8,
+    };
+    await expect(redecodeSession(meta, tooWide)).rejects.toThrow(
+      'None of the 3 captured packets decode',
+    );
+    expect(fs.files[sessionDataPath(meta.id)]).toBe(before);
+    expect(Object.keys(fs.files).some(f => f.endsWith('.tmp'))).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import RNFS from 'react-native-fs';
+import {
+  BUILTIN_PROFILES,
+  DeviceProfile,
+  findProfile,
+  loadProfiles,
+  profileMatches,
+  PROFILES_PATH,
+} from '../src/ble/profiles';
+import {PayloadFormat} from '../src/decoder/payloadFormat';
+
+// The in-memory react-native-fs from __mocks__
+const fs = RNFS as unknown as {
+  files: Record<string, string>;
+  reset: () => void;
+};
+
+const FORMAT: PayloadFormat = {
+  type: 'int16',
+  endianness: 'little',
+  offset: 0,
+  axisOrder: ['x', 'y', 'z'],
+  scale: 1,
+  units: 'mg',
+};
+
+function profile(
+  id: string,
+  match: DeviceProfile['match'],
+  label = id,
+): DeviceProfile {
+  return {
+    id,
+    label,
+    match,
+    dataService: 'fff0',
+    dataCharacteristic: 'fff1',
+    format: FORMAT,
+  };
+}
+
+describe('profileMatches', () => {
+  it('matches the name prefix', () => {
+    const p = profile('prefix', {namePrefix: 'Accel'});
+    expect(profileMatches(p, {name: 'Accel 12'})).toBe(true);
+    expect(profileMatches(p, {name: 'My Accel'})).toBe(false);
+    expect(profileMatches(p, {name: null})).toBe(false);
+  });
+
+  it('matches the name regex', () => {
+    const p = profile('regex', {nameRegex: '^IMU-[0-9]{4}$'});
+    expect(profileMatches(p, {name: 'IMU-0042'})).toBe(true);
+    expect(profileMatches(p, {name: 'IMU-42'})).toBe(false);
+  });
+
+  it('ignores an invalid regex', () => {
+    const p = profile('broken', {nameRegex: '([', namePrefix: 'Accel'});
+    expect(profileMatches(p, {name: '(['})).toBe(false);
+    expect(profileMatches(p, {name: 'Accel 1'})).toBe(true);
+  });
+
+  it('matches an advertised service regardless of case', () => {
+    const p = profile('service', {
+      serviceUuids: ['0000FFF0-0000-1000-8000-00805F9B34FB'],
+    });
+    expect(
+      profileMatches(p, {
+        name: 'Unnamed',
+        serviceUuids: [
+          '0000180f-0000-1000-8000-00805f9b34fb',
+          '0000fff0-0000-1000-8000-00805f9b34fb',
+        ],
+      }),
+    ).toBe(true);
+    expect(profileMatches(p, {serviceUuids: []})).toBe(false);
+    expect(profileMatches(p, {})).toBe(false);
+  });
+});
+
+describe('findProfile', () => {
+  it('returns the first matching profile', () => {
+    const byName = profile('name', {namePrefix: 'Accel'});
+    const byService = profile('service', {serviceUuids: ['fff0']});
+    const profiles = [byName, byService];
+    expect(findProfile(profiles, {name: 'Accel', serviceUuids: ['fff0']})).toBe(
+      byName,
+    );
+    expect(findProfile(profiles, {name: 'Other', serviceUuids: ['fff0']})).toBe(
+      byService,
+    );
+    expect(findProfile(profiles, {name: 'Other'})).toBeNull();
+  });
+});
+
+describe('loadProfiles', () => {
+  beforeEach(() => {
+    fs.reset();
+  });
+
+  it('uses the built-in profiles without a profiles file', async () => {
+    expect(await loadProfiles()).toEqual(BUILTIN_PROFILES);
+  });
+
+  it('prefers a user profile over the built-in one with the same id', async () => {
+    const microbit = profile(
+      'microbit',
+      {namePrefix: 'BBC micro:bit'},
+      'micro:bit (lab firmware)',
+    );
+    const other = profile('other', {namePrefix: 'Other'});
+    fs.files[PROFILES_PATH] = JSON.stringify([microbit, other]);
+    const profiles = await loadProfiles();
+    expect(profiles).toEqual([microbit, other]);
+    expect(findProfile(profiles, {name: 'BBC micro:bit [zevot]'})?.label).toBe(
+      'micro:bit (lab firmware)',
+    );
+  });
+
+  it('drops invalid entries and keeps the rest', async () => {
+    const valid = profile('valid', {namePrefix: 'Accel'});
+    fs.files[PROFILES_PATH] = JSON.stringify([
+      valid,
+      null,
+      {id: 'no-format', label: 'No format', match: {}, dataService: 'a'},
+      {...valid, id: 'bad-format', format: {...FORMAT, type: 'int128'}},
+    ]);
+    expect(await loadProfiles()).toEqual([valid, ...BUILTIN_PROFILES]);
+  });
+
+  it('falls back to the built-in profiles when the file is not a list', async () => {
+    fs.files[PROFILES_PATH] = JSON.stringify({id: 'valid'});
+    expect(await loadProfiles()).toEqual(BUILTIN_PROFILES);
+    fs.files[PROFILES_PATH] = '[{"id": ';
+    expect(await loadProfiles()).toEqual(BUILTIN_PROFILES);
+  });
+});
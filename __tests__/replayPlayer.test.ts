@@ -0,0 +1,123 @@
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {AccelRow} from '../src/decoder/payloadFormat';
+import {ReplayPlayer} from '../src/replay/ReplayPlayer';
+
+const files: Record<string, string> = {};
+
+jest.mock('react-native-fs', () => ({
+  stat: async (path: string) => ({size: files[path].length}),
+  read: async (path: string, length: number, position: number) =>
+    files[path].slice(position, position + length),
+}));
+
+// 10 samples, 10 ms apart, starting at an arbitrary recorded epoch
+function recording(): string {
+  const lines = ['timestamp_ms,x,y,z'];
+  for (let i = 0; i < 10; i++) {
+    lines.push(`${5000 + i * 10},${i},${-i},1`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+// Lets the chunk reads (resolved promises) run between timer steps
+async function flush() {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('ReplayPlayer', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({now: 1_000_000});
+    files['/rec.csv'] = recording();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('scans duration and sample count on load', async () => {
+    const player = new ReplayPlayer('/rec.csv', {onRow: () => {}});
+    await player.load();
+    expect(player.status()).toMatchObject({
+      state: 'idle',
+      durationMs: 90,
+      rows: 10,
+    });
+  });
+
+  it('rejects files without accelerometer columns', async () => {
+    files['/bad.csv'] = 'a,b\n1,2\n';
+    const player = new ReplayPlayer('/bad.csv', {onRow: () => {}});
+    await expect(player.load()).rejects.toThrow('timestamp_ms, x, y and z');
+  });
+
+  it('emits rows at the original pace with rebased timestamps', async () => {
+    const rows: AccelRow[] = [];
+    const onFinish = jest.fn();
+    const player = new ReplayPlayer('/rec.csv', {
+      onRow: r => rows.push(r),
+      onFinish,
+    });
+    await player.load();
+    await player.start();
+
+    jest.advanceTimersByTime(40);
+    await flush();
+    expect(rows.length).toBe(5);
+    expect(rows[0]).toEqual({t: 1_000_000, x: 0, y: 0, z: 1});
+    expect(rows[4].t).toBe(1_000_040);
+
+    jest.advanceTimersByTime(100);
+    await flush();
+    jest.advanceTimersByTime(20);
+    expect(rows.length).toBe(10);
+    expect(onFinish).toHaveBeenCalledTimes(1);
+    expect(player.status().state).toBe('finished');
+  });
+
+  it('plays faster without changing the sample spacing', async () => {
+    const rows: AccelRow[] = [];
+    const player = new ReplayPlayer('/rec.csv', {onRow: r => rows.push(r)});
+    await player.load();
+    player.setSpeed(4);
+    await player.start();
+
+    jest.advanceTimersByTime(20);
+    expect(rows.length).toBe(9);
+    expect(rows[8].t - rows[7].t).toBe(10);
+  });
+
+  it('stops emitting while paused', async () => {
+    const rows: AccelRow[] = [];
+    const player = new ReplayPlayer('/rec.csv', {onRow: r => rows.push(r)});
+    await player.load();
+    await player.start();
+
+    jest.advanceTimersByTime(20);
+    player.pause();
+    const count = rows.length;
+    jest.advanceTimersByTime(200);
+    expect(rows.length).toBe(count);
+
+    player.resume();
+    jest.advanceTimersByTime(20);
+    expect(rows.length).toBe(count + 2);
+  });
+
+  it('loops with timestamps continuing after the last pass', async () => {
+    const rows: AccelRow[] = [];
+    const player = new ReplayPlayer('/rec.csv', {onRow: r => rows.push(r)});
+    await player.load();
+    player.setLoop(true);
+    await player.start();
+
+    for (let i = 0; i < 12; i++) {
+      jest.advanceTimersByTime(20);
+      await flush();
+    }
+    expect(player.status().loops).toBeGreaterThanOrEqual(1);
+    expect(rows[10].x).toBe(0);
+    expect(rows[10].t - rows[9].t).toBe(10);
+  });
+});
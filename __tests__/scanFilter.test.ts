@@ -0,0 +1,84 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {
+  compileScanFilter,
+  DEFAULT_SCAN_SETTINGS,
+  isStale,
+  sortByRssi,
+  STALE_AFTER_MS,
+  uuidMatches,
+} from '../src/ble/scanFilter';
+
+jest.mock('react-native-fs', () => ({DocumentDirectoryPath: '/docs'}));
+
+const accel = {
+  name: 'Accel-01',
+  rssi: -55,
+  serviceUUIDs: ['0000fff0-0000-1000-8000-00805f9b34fb'],
+};
+const watch = {name: 'Watch', rssi: -85, serviceUUIDs: ['180D']};
+
+describe('scan filter', () => {
+  it('accepts everything by default', () => {
+    const accept = compileScanFilter(DEFAULT_SCAN_SETTINGS);
+    expect([accel, watch].filter(accept)).toEqual([accel, watch]);
+  });
+
+  it('matches a name prefix case-insensitively', () => {
+    const accept = compileScanFilter({
+      ...DEFAULT_SCAN_SETTINGS,
+      namePattern: 'accel',
+    });
+    expect([accel, watch].filter(accept)).toEqual([accel]);
+  });
+
+  it('matches a regular expression and rejects invalid ones', () => {
+    const accept = compileScanFilter({
+      ...DEFAULT_SCAN_SETTINGS,
+      namePattern: '-\\d+$',
+      useRegex: true,
+    });
+    expect([accel, watch].filter(accept)).toEqual([accel]);
+    expect(() =>
+      compileScanFilter({
+        ...DEFAULT_SCAN_SETTINGS,
+        namePattern: '(',
+        useRegex: true,
+      }),
+    ).toThrow('Invalid name pattern');
+  });
+
+  it('filters by service UUID in short or full form', () => {
+    expect(uuidMatches('0000fff0-0000-1000-8000-00805f9b34fb', 'FFF0')).toBe(
+      true,
+    );
+    expect(uuidMatches('180D', '0000180d-0000-1000-8000-00805f9b34fb')).toBe(
+      true,
+    );
+    const accept = compileScanFilter({
+      ...DEFAULT_SCAN_SETTINGS,
+      serviceUuid: '180d',
+    });
+    expect([accel, watch].filter(accept)).toEqual([watch]);
+  });
+
+  it('drops devices below the minimum RSSI', () => {
+    const accept = compileScanFilter({...DEFAULT_SCAN_SETTINGS, minRssi: -70});
+    expect(
+      [accel, watch, {name: 'Unknown', rssi: null}].filter(accept),
+    ).toEqual([accel]);
+  });
+
+  it('sorts by signal strength and ages out silent devices', () => {
+    expect(sortByRssi([watch, {name: 'x'}, accel]).map(d => d.name)).toEqual([
+      'Accel-01',
+      'Watch',
+      'x',
+    ]);
+    expect(isStale({name: 'a', lastSeen: 1000}, 1000 + STALE_AFTER_MS)).toBe(
+      false,
+    );
+    expect(isStale({name: 'a', lastSeen: 1000}, 1001 + STALE_AFTER_MS)).toBe(
+      true,
+    );
+  });
+});
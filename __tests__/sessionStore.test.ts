@@ -0,0 +1,121 @@
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import RNFS from 'react-native-fs';
+import {
+  deleteSession,
+  listSessions,
+  newSession,
+  saveSession,
+  SESSIONS_DIR,
+  sessionDataPath,
+  sessionDir,
+  updateSession,
+} from '../src/sessions/sessionStore';
+
+// The in-memory react-native-fs from __mocks__
+const fs = RNFS as unknown as {
+  files: Record<string, string>;
+  reset: () => void;
+};
+
+async function session(deviceName: string, startedAt: number) {
+  jest.setSystemTime(startedAt);
+  const meta = newSession({
+    deviceName,
+    deviceId: deviceName.toLowerCase(),
+    format: null,
+    profileId: null,
+    calibration: null,
+    filters: [],
+  });
+  await saveSession(meta);
+  fs.files[sessionDataPath(meta.id)] = 'timestamp_ms,x,y,z\n';
+  return meta;
+}
+
+describe('sessionStore', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    fs.reset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('starts a session named after the device and start time', () => {
+    jest.setSystemTime(new Date(2024, 2, 5, 9, 7, 3));
+    const meta = newSession({
+      deviceName: 'Sensor A',
+      deviceId: 'a',
+      format: null,
+      profileId: 'fake',
+      calibration: null,
+      filters: [],
+    });
+    expect(meta).toMatchObject({
+      id: `session_${Date.now()}`,
+      name: 'Sensor A 2024-03-05 09:07:03',
+      endedAt: null,
+      sampleCount: 0,
+      notes: '',
+      profileId: 'fake',
+      devices: [],
+      spectra: [],
+    });
+  });
+
+  it('lists sessions newest first', async () => {
+    await session('A', 1000);
+    await session('C', 3000);
+    await session('B', 2000);
+    const sessions = await listSessions();
+    expect(sessions.map(s => s.deviceName)).toEqual(['C', 'B', 'A']);
+  });
+
+  it('has no sessions before the first recording', async () => {
+    expect(await listSessions()).toEqual([]);
+  });
+
+  it('skips directories without readable metadata', async () => {
+    const kept = await session('A', 1000);
+    fs.files[`${SESSIONS_DIR}/session_2000/meta.json`] = '{"id": "sess';
+    fs.files[`${SESSIONS_DIR}/session_3000/data.csv`] = 'timestamp_ms,x,y,z\n';
+    fs.files[`${SESSIONS_DIR}/stray.txt`] = 'not a session';
+    expect((await listSessions()).map(s => s.id)).toEqual([kept.id]);
+  });
+
+  it('patches the saved metadata', async () => {
+    const meta = await session('A', 1000);
+    const next = await updateSession(meta.id, {name: 'Bench run', notes: 'x'});
+    expect(next).toEqual({...meta, name: 'Bench run', notes: 'x'});
+    expect(await listSessions()).toEqual([next]);
+    await expect(updateSession('session_9', {name: 'Gone'})).rejects.toThrow(
+      'Session session_9 not found',
+    );
+  });
+
+  it('keeps the saved name and notes when the recorder saves again', async () => {
+    const meta = await session('A', 1000);
+    await updateSession(meta.id, {name: 'Bench run', notes: 'x'});
+    meta.sampleCount = 10;
+    await saveSession(meta);
+    expect(meta).toMatchObject({name: 'Bench run', notes: 'x'});
+    expect((await listSessions())[0]).toMatchObject({
+      name: 'Bench run',
+      notes: 'x',
+      sampleCount: 10,
+    });
+  });
+
+  it('deletes the session directory with everything in it', async () => {
+    const a = await session('A', 1000);
+    const b = await session('B', 2000);
+    await deleteSession(a.id);
+    expect(
+      Object.keys(fs.files).some(f => f.startsWith(sessionDir(a.id))),
+    ).toBe(false);
+    expect((await listSessions()).map(s => s.id)).toEqual([b.id]);
+    // Deleting twice is harmless
+    await deleteSession(a.id);
+  });
+});
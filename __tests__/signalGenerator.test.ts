@@ -0,0 +1,169 @@
+import RNFS from 'react-native-fs';
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {
+  AxisSignal,
+  DEFAULT_AXIS_SIGNAL,
+  DEFAULT_GENERATOR,
+  generatorLabel,
+  GeneratorSettings,
+  GENERATORS_PATH,
+  loadGenerators,
+  NO_FAULTS,
+  saveGenerators,
+  SignalGenerator,
+  waveValue,
+} from '../src/generator/signalGenerator';
+
+const fs = RNFS as unknown as {
+  files: Record<string, string>;
+  reset: () => void;
+};
+
+const signal = (s: Partial<AxisSignal>): AxisSignal => ({
+  ...DEFAULT_AXIS_SIGNAL,
+  ...s,
+});
+
+function settings(s: Partial<GeneratorSettings>): GeneratorSettings {
+  return {
+    ...DEFAULT_GENERATOR,
+    id: 'gen',
+    name: 'Gen',
+    axes: {
+      x: signal({waveform: 'step', stepAtS: 0}),
+      y: signal({waveform: 'tilt', tiltDeg: 60}),
+      z: signal({waveform: 'tilt', offset: -1}),
+    },
+    ...s,
+  };
+}
+
+describe('signal generator', () => {
+  beforeEach(() => {
+    fs.reset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('computes each waveform', () => {
+    const sine = signal({amplitude: 2, frequencyHz: 1});
+    expect(waveValue(sine, 0.25, 0.01)).toBeCloseTo(2);
+    expect(waveValue({...sine, waveform: 'square'}, 0.75, 0.01)).toBe(-2);
+    // 1 Hz to 3 Hz over 2 s: the phase at 1 s is 1 + 0.5 cycles
+    const chirp = signal({
+      waveform: 'chirp',
+      frequencyHz: 1,
+      chirpEndHz: 3,
+      sweepS: 2,
+    });
+    expect(waveValue(chirp, 1, 0.01)).toBeCloseTo(0);
+    // The sweep starts over every 2 s
+    expect(waveValue(chirp, 2.3, 0.01)).toBeCloseTo(
+      waveValue(chirp, 0.3, 0.01),
+    );
+    const step = signal({waveform: 'step', amplitude: 0.5, stepAtS: 2});
+    expect([1.99, 2].map(t => waveValue(step, t, 0.01))).toEqual([0, 0.5]);
+    const impulses = signal({waveform: 'impulse', frequencyHz: 2});
+    expect(
+      [0, 0.1, 0.4, 0.5, 0.6].map(t => waveValue(impulses, t, 0.1)),
+    ).toEqual([1, 0, 0, 1, 0]);
+    expect(
+      waveValue(signal({waveform: 'tilt', tiltDeg: 60}), 5, 0.01),
+    ).toBeCloseTo(0.5);
+    // Box-Muller draws that give a deviate of exactly 1
+    const draws = [1 - Math.exp(-0.5), 0];
+    expect(
+      waveValue(
+        signal({waveform: 'noise', amplitude: 3}),
+        0,
+        0.01,
+        () => draws.shift()!,
+      ),
+    ).toBeCloseTo(3);
+  });
+
+  it('batches the samples due on each tick', () => {
+    const gen = new SignalGenerator(settings({sampleRateHz: 200}), () => 0.5);
+    expect(gen.tickMs).toBe(20);
+    gen.start(1000);
+    const first = gen.tick(1000);
+    expect(first).toMatchObject({event: 'data', seq: 0});
+    expect(first.rows).toHaveLength(1);
+    const second = gen.tick(1020);
+    expect(second.seq).toBe(1);
+    expect(second.rows.map(r => r.t)).toEqual([1005, 1010, 1015, 1020]);
+    expect(second.rows[0].x).toBe(1);
+    expect(second.rows[0].y).toBeCloseTo(0.5);
+    expect(second.rows[0].z).toBe(0);
+    expect(gen.tick(1021)).toMatchObject({event: 'idle', seq: 2});
+  });
+
+  it('drops packets, adds spikes and disconnects', () => {
+    let next = 0.99;
+    const random = () => next;
+    const gen = new SignalGenerator(
+      settings({
+        sampleRateHz: 50,
+        faults: {
+          ...NO_FAULTS,
+          dropoutsPerMin: 60,
+          dropoutMs: 50,
+          spikesPerMin: 60,
+          spikeG: 4,
+          disconnectsPerMin: 6,
+          outageS: 2,
+        },
+      }),
+      random,
+    );
+    gen.start(0);
+    gen.tick(0);
+    expect(gen.tick(20).rows[0].x).toBe(1);
+
+    // Below the dropout chance but above the disconnect chance
+    next = (1 - Math.exp((-20 / 60000) * 60)) / 2;
+    const dropped = gen.tick(40);
+    expect(dropped).toMatchObject({event: 'dropout', rows: [], seq: 2});
+    next = 0.99;
+    // Still inside the dropout; the counter keeps going so the gap shows
+    expect(gen.tick(60)).toMatchObject({event: 'dropout', seq: 3});
+    expect(gen.tick(100)).toMatchObject({event: 'data', seq: 4});
+
+    next = 0;
+    const spiked = new SignalGenerator(
+      settings({faults: {...NO_FAULTS, spikesPerMin: 60, spikeG: 4}}),
+      random,
+    );
+    spiked.start(0);
+    spiked.tick(0);
+    expect(spiked.tick(100).rows[0].x).toBe(1 - 4);
+
+    expect(gen.tick(120)).toMatchObject({event: 'disconnect', rows: []});
+    expect(gen.reachable(2119)).toBe(false);
+    expect(gen.reachable(2120)).toBe(true);
+    // Streaming resumes at the current time rather than catching up
+    next = 0.99;
+    gen.start(3000);
+    expect(gen.tick(3000).rows.map(r => r.t)).toEqual([3000]);
+  });
+
+  it('describes and saves generators', async () => {
+    const gen = settings({
+      faults: {...NO_FAULTS, dropoutsPerMin: 1, disconnectsPerMin: 2},
+    });
+    expect(generatorLabel(gen)).toBe(
+      '10 Hz • X step 1 g at 0 s • Y tilt 60° • Z tilt 0° −1 g • dropouts, disconnects',
+    );
+
+    expect(await loadGenerators()).toEqual([]);
+    await saveGenerators([gen]);
+    expect(await loadGenerators()).toEqual([gen]);
+    fs.files[GENERATORS_PATH] = JSON.stringify([
+      gen,
+      {...gen, sampleRateHz: 0},
+      {...gen, axes: {...gen.axes, x: {...gen.axes.x, waveform: 'saw'}}},
+    ]);
+    expect(await loadGenerators()).toEqual([gen]);
+    fs.files[GENERATORS_PATH] = JSON.stringify({generators: []});
+    expect(await loadGenerators()).toEqual([]);
+  });
+});
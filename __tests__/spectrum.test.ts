@@ -0,0 +1,118 @@
+import {describe, expect, it} from '@jest/globals';
+import {
+  computeSpectrum,
+  fft,
+  findPeaks,
+  spectrumCsv,
+  spectrumPath,
+} from '../src/spectrum/spectrum';
+import {SampleRing} from '../src/utils/SampleRing';
+
+function ringOf(
+  n: number,
+  periodMs: number,
+  fn: (tS: number) => [number, number, number],
+) {
+  const ring = new SampleRing(n);
+  for (let i = 0; i < n; i++) {
+    const [x, y, z] = fn((i * periodMs) / 1000);
+    ring.push(1000 + i * periodMs, x, y, z);
+  }
+  return ring;
+}
+
+describe('fft', () => {
+  it('matches a direct DFT', () => {
+    const n = 16;
+    const input = Array.from({length: n}, (_, i) => Math.sin(i) + 0.3 * i);
+    const re = Float64Array.from(input);
+    const im = new Float64Array(n);
+    fft(re, im);
+    for (let k = 0; k < n; k++) {
+      let dr = 0;
+      let di = 0;
+      input.forEach((v, i) => {
+        dr += v * Math.cos((-2 * Math.PI * k * i) / n);
+        di += v * Math.sin((-2 * Math.PI * k * i) / n);
+      });
+      expect(re[k]).toBeCloseTo(dr, 9);
+      expect(im[k]).toBeCloseTo(di, 9);
+    }
+  });
+
+  it('rejects sizes that are not a power of two', () => {
+    expect(() => fft(new Float64Array(12), new Float64Array(12))).toThrow(
+      /power of two/,
+    );
+  });
+});
+
+describe('computeSpectrum', () => {
+  it('waits until the window is full', () => {
+    expect(
+      computeSpectrum(
+        ringOf(100, 5, () => [0, 0, 1]),
+        256,
+        'hann',
+      ),
+    ).toBe(null);
+  });
+
+  it('finds the dominant frequency and amplitude per axis at the measured rate', () => {
+    // 4 ms spacing: 250 Hz, regardless of any declared rate
+    const ring = ringOf(1024, 4, t => [
+      0.5 * Math.sin(2 * Math.PI * 25 * t),
+      0.2 * Math.sin(2 * Math.PI * 61.3 * t),
+      1,
+    ]);
+    const spectrum = computeSpectrum(ring, 1024, 'flattop')!;
+    expect(spectrum.sampleRateHz).toBeCloseTo(250, 6);
+    expect(spectrum.amplitudes.x).toHaveLength(513);
+    expect(spectrum.peaks.x[0].frequencyHz).toBeCloseTo(25, 1);
+    expect(spectrum.peaks.x[0].amplitude).toBeCloseTo(0.5, 2);
+    // Off-bin tone: interpolation refines the frequency, flat top keeps the amplitude
+    expect(spectrum.peaks.y[0].frequencyHz).toBeCloseTo(61.3, 1);
+    expect(spectrum.peaks.y[0].amplitude).toBeCloseTo(0.2, 2);
+    // Gravity is removed with the mean
+    expect(spectrum.amplitudes.z[0]).toBeCloseTo(0, 9);
+  });
+
+  it('uses only the newest samples', () => {
+    const ring = new SampleRing(4096);
+    for (let i = 0; i < 4096; i++) {
+      const hz = i < 2048 ? 10 : 40;
+      ring.push(i * 5, Math.sin((2 * Math.PI * hz * i) / 200), 0, 0);
+    }
+    const spectrum = computeSpectrum(ring, 1024, 'hann')!;
+    expect(spectrum.peaks.x[0].frequencyHz).toBeCloseTo(40, 0);
+  });
+});
+
+describe('findPeaks', () => {
+  it('orders peaks by amplitude and skips their skirts', () => {
+    const a = new Float64Array(32);
+    a[5] = 1;
+    a[6] = 0.9;
+    a[7] = 0.8;
+    a[20] = 0.5;
+    const peaks = findPeaks(a, 1, 3);
+    expect(peaks.map(p => Math.round(p.frequencyHz))).toEqual([5, 20]);
+  });
+});
+
+describe('spectrum output', () => {
+  const ring = ringOf(256, 10, t => [Math.sin(2 * Math.PI * 10 * t), 0, 0]);
+  const spectrum = computeSpectrum(ring, 256, 'hann')!;
+
+  it('writes one CSV row per bin', () => {
+    const lines = spectrumCsv(spectrum).trim().split('\n');
+    expect(lines[0]).toBe('frequency_hz,x_g,y_g,z_g,magnitude_g');
+    expect(lines).toHaveLength(1 + 129);
+  });
+
+  it('draws one point per pixel column', () => {
+    const path = spectrumPath(spectrum.amplitudes.x, 64, 100, 1, false);
+    expect(path.split(' ')).toHaveLength(64);
+    expect(spectrumPath(spectrum.amplitudes.x, 64, 100, 0, false)).toBe('');
+  });
+});
@@ -0,0 +1,75 @@
+import RNFS from 'react-native-fs';
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {CSV_COLUMNS, StreamRecorder} from '../src/recorder/StreamRecorder';
+
+const fs = RNFS as unknown as {
+  files: Record<string, string>;
+  reset: () => void;
+};
+
+const PATH = '/docs/sessions/s1/data.csv';
+
+describe('StreamRecorder', () => {
+  beforeEach(() => {
+    fs.reset();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('flushes a full buffer and reuses it for the next samples', async () => {
+    const rec = new StreamRecorder(PATH, {capacity: 3});
+    rec.open();
+    for (let i = 0; i < 7; i++) {
+      rec.push(1000 + i * 10, i, -i, 0.5);
+    }
+    // Two full buffers went out as they filled; the seventh sample is still held
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fs.files[PATH].split('\n')).toHaveLength(1 + 6 + 1);
+    await rec.pause();
+    expect(fs.files[PATH]).toBe(
+      'timestamp_ms,x,y,z\n' +
+        [0, 1, 2, 3, 4, 5, 6]
+          .map(i => `${1000 + i * 10},${i},${-i},0.5`)
+          .join('\n') +
+        '\n',
+    );
+    expect(rec.summary()).toEqual({
+      rows: 7,
+      durationMs: 60,
+      bytes: fs.files[PATH].length,
+    });
+  });
+
+  it('writes on its timer until paused', async () => {
+    const rec = new StreamRecorder(PATH, {flushIntervalMs: 100});
+    rec.open();
+    rec.push(0, 1, 2, 3);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(fs.files[PATH]).toBe('timestamp_ms,x,y,z\n0,1,2,3\n');
+
+    await rec.pause();
+    rec.push(10, 4, 5, 6);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(fs.files[PATH]).toBe('timestamp_ms,x,y,z\n0,1,2,3\n');
+    rec.resume();
+    await jest.advanceTimersByTimeAsync(100);
+    expect(fs.files[PATH]).toBe('timestamp_ms,x,y,z\n0,1,2,3\n10,4,5,6\n');
+    await rec.pause();
+  });
+
+  it('fills extra columns from push and leaves missing ones as NaN', async () => {
+    const rec = new StreamRecorder(PATH, {
+      columns: [...CSV_COLUMNS, 'raw_x', 'raw_y', 'raw_z'],
+    });
+    rec.open();
+    rec.push(0, 1, 2, 3, [10, 20, 30]);
+    rec.push(5, 1, 2, 3, [10]);
+    await rec.pause();
+    expect(fs.files[PATH]).toBe(
+      'timestamp_ms,x,y,z,raw_x,raw_y,raw_z\n0,1,2,3,10,20,30\n5,1,2,3,10,NaN,NaN\n',
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import {describe, expect, it} from '@jest/globals';
+import {buildTraces, ChartView, gridLines} from '../src/chart/stripChart';
+import {SampleRing} from '../src/utils/SampleRing';
+
+const ALL = {x: true, y: true, z: true, m: true};
+
+function ringAt(rateHz: number, seconds: number): SampleRing {
+  const ring = new SampleRing(4096);
+  for (let i = 0; i < rateHz * seconds; i++) {
+    ring.push((i * 1000) / rateHz, Math.sin(i / 10), 0, 1);
+  }
+  return ring;
+}
+
+function view(patch: Partial<ChartView> = {}): ChartView {
+  return {
+    endMs: 1000,
+    spanMs: 1000,
+    width: 100,
+    height: 100,
+    range: 'auto',
+    visible: ALL,
+    ...patch,
+  };
+}
+
+describe('SampleRing time lookup', () => {
+  it('finds the first sample at or after a time', () => {
+    const ring = ringAt(100, 1);
+    expect(ring.indexAtOrAfter(-5)).toBe(0);
+    expect(ring.indexAtOrAfter(500)).toBe(50);
+    expect(ring.indexAtOrAfter(505)).toBe(51);
+    expect(ring.indexAtOrAfter(10_000)).toBe(100);
+  });
+
+  it('keeps working after the ring wraps', () => {
+    const ring = new SampleRing(8);
+    for (let i = 0; i < 20; i++) {
+      ring.push(i, 0, 0, 0);
+    }
+    expect(ring.timeAt(0)).toBe(12);
+    expect(ring.indexAtOrAfter(15)).toBe(3);
+  });
+});
+
+describe('buildTraces', () => {
+  it('bounds path size by the chart width, not the sample count', () => {
+    const traces = buildTraces(ringAt(1000, 2), view({endMs: 2000}));
+    expect(traces.samples).toBe(1000);
+    const points = traces.paths.x.split(/[ML]/).filter(Boolean);
+    expect(points.length).toBeLessThanOrEqual(200);
+  });
+
+  it('keeps a single-sample spike visible', () => {
+    const ring = new SampleRing(4096);
+    for (let i = 0; i < 1000; i++) {
+      ring.push(i, i === 500 ? 8 : 0, 0, 0);
+    }
+    const traces = buildTraces(ring, view({range: 8}));
+    expect(traces.paths.x).toContain(' 0.0');
+  });
+
+  it('uses a fixed range when requested and autoscale otherwise', () => {
+    const ring = ringAt(100, 1);
+    expect(buildTraces(ring, view({range: 4}))).toMatchObject({
+      yMin: -4,
+      yMax: 4,
+    });
+    const auto = buildTraces(ring, view({visible: {...ALL, m: false}}));
+    expect(auto.yMin).toBeLessThan(-0.9);
+    expect(auto.yMax).toBeGreaterThan(1);
+    expect(auto.yMax).toBeLessThan(1.5);
+  });
+
+  it('skips hidden series', () => {
+    const traces = buildTraces(
+      ringAt(100, 1),
+      view({visible: {...ALL, y: false}}),
+    );
+    expect(traces.paths.y).toBe('');
+    expect(traces.paths.x).not.toBe('');
+  });
+});
+
+describe('gridLines', () => {
+  it('picks round steps', () => {
+    expect(gridLines(-2, 2)).toEqual([-2, -1, 0, 1, 2]);
+    expect(gridLines(0.9, 1.1)).toEqual(
+      [0.9, 0.95, 1, 1.05, 1.1].map(v => expect.closeTo(v, 6)),
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {
+  DEFAULT_TRIGGER_SETTINGS,
+  TriggerEvent,
+  TriggerRecorder,
+  TriggerSettings,
+} from '../src/recorder/TriggerRecorder';
+
+jest.mock('react-native-fs', () => ({DocumentDirectoryPath: '/docs'}));
+
+type Capture = {event: TriggerEvent; rows: number[][]; ended: boolean};
+
+function recorder(settings: Partial<TriggerSettings>) {
+  const captures: Capture[] = [];
+  const trigger = new TriggerRecorder(
+    {...DEFAULT_TRIGGER_SETTINGS, ...settings},
+    {
+      onCaptureStart: (event, pre) =>
+        captures.push({event, rows: [...pre], ended: false}),
+      onCaptureRow: row => captures[captures.length - 1].rows.push(row),
+      onCaptureEnd: () => (captures[captures.length - 1].ended = true),
+    },
+  );
+  return {trigger, captures};
+}
+
+// 100 Hz stream at rest on z, with impacts of 3 g at the given sample indexes
+function feed(trigger: TriggerRecorder, n: number, impacts: number[]) {
+  for (let i = 0; i < n; i++) {
+    trigger.push(i * 10, 0, 0, impacts.includes(i) ? 3 : 1);
+  }
+}
+
+describe('TriggerRecorder', () => {
+  it('captures the pre- and post-trigger windows around a crossing', () => {
+    const {trigger, captures} = recorder({preMs: 200, postMs: 300});
+    feed(trigger, 200, [100]);
+    expect(captures).toHaveLength(1);
+    const {event, rows, ended} = captures[0];
+    expect(event.triggeredAt).toBe(1000);
+    expect(event.value).toBeCloseTo(3);
+    expect(ended).toBe(true);
+    expect(rows[0][0]).toBe(800);
+    expect(rows[rows.length - 1][0]).toBe(1300);
+    expect(rows).toHaveLength(51);
+  });
+
+  it('makes one capture per trigger and honours the hold-off', () => {
+    const {trigger, captures} = recorder({
+      preMs: 0,
+      postMs: 100,
+      holdOffMs: 500,
+    });
+    // 120 lands in the hold-off after the first capture ends at 1110 ms
+    feed(trigger, 400, [100, 101, 102, 120, 200, 300]);
+    expect(captures.map(c => c.event.triggeredAt)).toEqual([1000, 2000, 3000]);
+    expect(captures.every(c => c.ended)).toBe(true);
+  });
+
+  it('does not fire when the signal is already past the level at start', () => {
+    const {trigger, captures} = recorder({});
+    for (let i = 0; i < 50; i++) {
+      trigger.push(i * 10, 0, 0, 3);
+    }
+    expect(captures).toHaveLength(0);
+  });
+
+  it('triggers on an axis falling below a negative level', () => {
+    const {trigger, captures} = recorder({
+      condition: {type: 'axis', axis: 'x', levelG: -0.5, direction: 'falling'},
+    });
+    trigger.push(0, 0, 0, 1);
+    trigger.push(10, -0.4, 0, 1);
+    trigger.push(20, -0.6, 0, 1);
+    expect(captures.map(c => c.event.triggeredAt)).toEqual([20]);
+  });
+
+  it('triggers on the rate of change', () => {
+    const {trigger, captures} = recorder({
+      condition: {type: 'rate', limitGPerS: 20},
+    });
+    // 0.1 g in 10 ms is 10 g/s, 0.5 g in 10 ms is 50 g/s
+    trigger.push(0, 0, 0, 1);
+    trigger.push(10, 0.1, 0, 1);
+    trigger.push(20, 0.6, 0, 1);
+    expect(captures).toHaveLength(1);
+    expect(captures[0].event.value).toBeCloseTo(50);
+  });
+
+  it('keeps extra columns and ends a capture on stop', () => {
+    const {trigger, captures} = recorder({preMs: 10, postMs: 1000});
+    trigger.push(0, 0, 0, 1, [7, 8, 9]);
+    trigger.push(10, 0, 0, 2, [7, 8, 9]);
+    trigger.stop();
+    expect(captures[0].rows).toEqual([
+      [0, 0, 0, 1, 7, 8, 9],
+      [10, 0, 0, 2, 7, 8, 9],
+    ]);
+    expect(captures[0].ended).toBe(true);
+    expect(trigger.status().state).toBe('holdoff');
+  });
+});
@@ -0,0 +1,418 @@
+import 'react-native';
+import React from 'react';
+import renderer, {act} from 'react-test-renderer';
+import RNFS from 'react-native-fs';
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {FakePeripheral, FakeTransport} from '../test-utils/FakeTransport';
+import {RECONNECT_EXHAUSTED} from '../src/ble/connectionMachine';
+import {generatorDevice, useBle} from '../src/ble/useBle';
+import {
+  DEFAULT_AXIS_SIGNAL,
+  DEFAULT_GENERATOR,
+  GENERATORS_PATH,
+  NO_FAULTS,
+} from '../src/generator/signalGenerator';
+import {updateSession} from '../src/sessions/sessionStore';
+
+// The in-memory react-native-fs from __mocks__
+const fs = RNFS as unknown as {
+  files: Record<string, string>;
+  reset: () => void;
+};
+
+type Ble = ReturnType<typeof useBle>;
+
+const SVC = 'fff0';
+const DATA = 'fff1';
+const COMMAND = 'fff2';
+
+const PROFILE = {
+  id: 'fake',
+  label: 'Fake Accel',
+  match: {namePrefix: 'FakeAccel'},
+  dataService: SVC,
+  dataCharacteristic: DATA,
+  commandCharacteristic: COMMAND,
+  startCommand: [1],
+  stopCommand: [0],
+  format: {
+    type: 'int16',
+    endianness: 'little',
+    offset: 0,
+    axisOrder: ['x', 'y', 'z'],
+    scale: 1,
+    units: 'mg',
+  },
+};
+
+function peripheral(name = 'FakeAccel 1') {
+  return new FakePeripheral({
+    id: 'fake-1',
+    name,
+    rssi: -55,
+    services: [
+      {uuid: '00001800-0000-1000-8000-00805f9b34fb', characteristics: []},
+      {
+        uuid: SVC,
+        characteristics: [
+          {uuid: DATA, notify: true},
+          {uuid: COMMAND, write: true},
+        ],
+      },
+    ],
+  });
+}
+
+// One int16 little-endian sample in mg
+function packet(x: number, y: number, z: number): number[] {
+  const dv = new DataView(new ArrayBuffer(6));
+  [x, y, z].forEach((v, i) => dv.setInt16(i * 2, v, true));
+  return [...new Uint8Array(dv.buffer)];
+}
+
+async function advance(ms: number) {
+  await act(async () => {
+    await jest.advanceTimersByTimeAsync(ms);
+  });
+}
+
+async function notify(p: FakePeripheral, bytes: number[]) {
+  await act(async () => p.notify(SVC, DATA, bytes));
+  // Past the hook's UI throttle
+  await advance(50);
+}
+
+async function mount(transport: FakeTransport) {
+  const result: {current: Ble | null} = {current: null};
+  const Harness = () => {
+    result.current = useBle(transport);
+    return null;
+  };
+  let tree: renderer.ReactTestRenderer | undefined;
+  await act(async () => {
+    tree = renderer.create(<Harness />);
+  });
+  await advance(0);
+  return {
+    ble: () => result.current!,
+    unmount: () => act(async () => tree?.unmount()),
+  };
+}
+
+async function call(action: () => unknown, ms = 0) {
+  await act(async () => {
+    action();
+  });
+  await advance(ms);
+}
+
+// Connects with the profile in device_profiles.json and starts notifications
+async function streaming(p: FakePeripheral) {
+  fs.files['/docs/device_profiles.json'] = JSON.stringify([PROFILE]);
+  const app = await mount(new FakeTransport([p]));
+  await call(() => app.ble().connectTo({id: p.id, name: p.spec.name!}), 300);
+  await call(() => app.ble().startNotifications(), 200);
+  return app;
+}
+
+describe('useBle with a fake peripheral', () => {
+  let unmount: (() => Promise<void>) | null = null;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    fs.reset();
+  });
+
+  afterEach(async () => {
+    await unmount?.();
+    unmount = null;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('lists scanned peripherals', async () => {
+    const app = await mount(new FakeTransport([peripheral()]));
+    unmount = app.unmount;
+    await call(() => app.ble().startScan(), 500);
+    expect(app.ble().connection.type).toBe('scanning');
+    expect(app.ble().devices).toEqual([
+      expect.objectContaining({id: 'fake-1', name: 'FakeAccel 1', rssi: -55}),
+    ]);
+    await call(() => app.ble().stopScan());
+    expect(app.ble().connection.type).toBe('idle');
+  });
+
+  it('discovers the data characteristic without a profile', async () => {
+    const p = peripheral('Unknown sensor');
+    // Answers the second start opcode the auto-discovery tries, 250 ms in
+    p.onWrite = w => {
+      if (w.bytes[0] === 2) {
+        p.notify(SVC, DATA, packet(0, 0, 1000));
+      }
+    };
+    const app = await mount(new FakeTransport([p]));
+    unmount = app.unmount;
+    await call(
+      () => app.ble().connectTo({id: p.id, name: 'Unknown sensor'}),
+      300,
+    );
+    expect(app.ble().connection).toEqual({type: 'connected', deviceId: p.id});
+    expect(app.ble().profileLabel).toBeNull();
+
+    await call(() => app.ble().startNotifications(), 200);
+    // All-zero payloads don't count as data
+    await notify(p, [0, 0, 0, 0, 0, 0]);
+    expect(app.ble().connection.type).toBe('subscribing');
+    await advance(300);
+    expect(app.ble().connection.type).toBe('streaming');
+    expect(p.writes.map(w => w.bytes[0])).toEqual([1, 2]);
+    expect(p.writes[0]).toMatchObject({characteristic: COMMAND});
+    expect(p.monitorCount(SVC, DATA)).toBe(1);
+  });
+
+  it('decodes notifications with the matched profile', async () => {
+    const p = peripheral();
+    const app = await streaming(p);
+    unmount = app.unmount;
+    expect(app.ble().profileLabel).toBe('Fake Accel');
+    expect(app.ble().streaming).toBe(true);
+    expect([...p.writes[0].bytes]).toEqual([1]);
+
+    await notify(p, packet(1000, -500, 250));
+    expect(app.ble().accel).toMatchObject({x: 1, y: -0.5, z: 0.25});
+
+    await call(() => app.ble().stopNotifications());
+    expect(app.ble().connection.type).toBe('connected');
+    expect([...p.writes[1].bytes]).toEqual([0]);
+    expect(p.monitorCount(SVC, DATA)).toBe(0);
+  });
+
+  it('streams from the data source picked in the GATT explorer', async () => {
+    const p = peripheral('Unknown sensor');
+    const app = await mount(new FakeTransport([p]));
+    unmount = app.unmount;
+    const connect = () =>
+      call(() => app.ble().connectTo({id: p.id, name: 'Unknown sensor'}), 300);
+    await connect();
+    await call(() =>
+      app.ble().setDataSource({service: SVC, characteristic: DATA}),
+    );
+    await call(() => app.ble().startNotifications(), 200);
+    // No auto-discovery: nothing is written and the stream is up at once
+    expect(app.ble().connection.type).toBe('streaming');
+    expect(p.writes).toEqual([]);
+    expect(p.monitorCount(SVC, DATA)).toBe(1);
+
+    // Remembered for the device's next connection
+    await call(() => app.ble().disconnect());
+    expect(app.ble().dataSource).toBeNull();
+    await connect();
+    expect(app.ble().dataSource).toEqual({service: SVC, characteristic: DATA});
+  });
+
+  it('reports a rejected start command', async () => {
+    const p = peripheral();
+    p.rejectWrites('Write rejected');
+    const app = await streaming(p);
+    unmount = app.unmount;
+    expect(app.ble().connection.type).toBe('connected');
+    expect(app.ble().error).toContain('Write rejected');
+  });
+
+  it('reconnects after a dropped link and resumes streaming', async () => {
+    const p = peripheral();
+    const app = await streaming(p);
+    unmount = app.unmount;
+
+    p.failConnections(1);
+    await act(async () => p.drop());
+    expect(app.ble().connection).toMatchObject({
+      type: 'reconnecting',
+      attempt: 1,
+    });
+    // First attempt after 500 ms fails, the second follows 1000 ms later
+    await advance(500);
+    expect(app.ble().connection).toMatchObject({
+      type: 'reconnecting',
+      attempt: 2,
+    });
+    await advance(1300);
+    // Notifications restart once the reconnected device has rendered
+    await advance(200);
+    expect(app.ble().connection.type).toBe('streaming');
+
+    await notify(p, packet(0, 1000, 0));
+    expect(app.ble().accel).toMatchObject({x: 0, y: 1, z: 0});
+  });
+
+  it('gives up after the configured attempts', async () => {
+    fs.files['/docs/reconnect_policy.json'] = JSON.stringify({
+      backoffMs: [100],
+      maxAttempts: 2,
+      resumeStreaming: true,
+      resumeRecording: true,
+    });
+    const p = peripheral();
+    const app = await streaming(p);
+    unmount = app.unmount;
+
+    p.failConnections(5);
+    await act(async () => p.drop());
+    await advance(200);
+    expect(app.ble().connection).toMatchObject({
+      type: 'failed',
+      error: RECONNECT_EXHAUSTED,
+    });
+    expect(app.ble().error).toBe(RECONNECT_EXHAUSTED);
+  });
+
+  it('sends the stop command before disconnecting', async () => {
+    const p = peripheral();
+    const app = await streaming(p);
+    unmount = app.unmount;
+    await call(() => app.ble().disconnect());
+    expect(p.writes.map(w => [...w.bytes])).toEqual([[1], [0]]);
+    expect(p.connected).toBe(false);
+    expect(app.ble().connection.type).toBe('idle');
+  });
+
+  it('does not reconnect after a requested disconnect', async () => {
+    const p = peripheral();
+    const app = await streaming(p);
+    unmount = app.unmount;
+    await call(() => app.ble().disconnect(), 10000);
+    expect(app.ble().connection.type).toBe('idle');
+    expect(p.connected).toBe(false);
+  });
+
+  it('streams a signal generator and reconnects after a simulated disconnect', async () => {
+    // Faults fire when random() falls below their chance, so 0.99 keeps them off
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0.99);
+    const app = await mount(new FakeTransport([]));
+    unmount = app.unmount;
+    const generator = {
+      ...DEFAULT_GENERATOR,
+      id: 'generator-1',
+      name: 'Tilted',
+      sampleRateHz: 100,
+      axes: {
+        x: {...DEFAULT_AXIS_SIGNAL, waveform: 'tilt' as const, tiltDeg: 90},
+        y: {...DEFAULT_AXIS_SIGNAL, waveform: 'step' as const, stepAtS: 0},
+        z: {...DEFAULT_AXIS_SIGNAL, waveform: 'tilt' as const},
+      },
+      faults: {...NO_FAULTS, disconnectsPerMin: 60, outageS: 1},
+    };
+    await call(() => app.ble().saveGenerator(generator));
+    expect(app.ble().devices.map(d => d.id)).toContain('generator-1');
+    expect(JSON.parse(fs.files[GENERATORS_PATH])).toEqual([generator]);
+
+    await call(() => app.ble().connectTo(generatorDevice(generator)), 100);
+    await call(() => app.ble().startNotifications(), 500);
+    expect(app.ble().connection.type).toBe('streaming');
+    expect(app.ble().generator?.name).toBe('Tilted');
+    const accel = app.ble().accel!;
+    expect(accel.x).toBeCloseTo(0);
+    expect(accel.y).toBe(1);
+    expect(accel.z).toBe(1);
+
+    random.mockReturnValue(0);
+    await advance(20);
+    random.mockReturnValue(0.99);
+    expect(app.ble().connection).toMatchObject({
+      type: 'reconnecting',
+      attempt: 1,
+    });
+    // Still out of range at the first attempt, back by the second
+    await advance(500);
+    expect(app.ble().connection).toMatchObject({
+      type: 'reconnecting',
+      attempt: 2,
+    });
+    await advance(1000);
+    await advance(200);
+    expect(app.ble().connection.type).toBe('streaming');
+  });
+
+  it('saves raw packets next to the recording when capture is on', async () => {
+    const p = peripheral();
+    const app = await streaming(p);
+    unmount = app.unmount;
+    await call(() => app.ble().setRawCapture(true));
+    await notify(p, packet(0, 0, 1000));
+    await call(() => app.ble().toggleRecording());
+    await notify(p, packet(1, 2, -3));
+    await call(() => app.ble().toggleRecording(), 0);
+
+    const capture = Object.keys(fs.files).find(f =>
+      f.endsWith('/packets.csv'),
+    )!;
+    const lines = fs.files[capture].trim().split('\n');
+    expect(lines[0]).toBe('arrival_ms,characteristic,payload_hex');
+    expect(lines.slice(1).map(l => l.split(',').slice(1))).toEqual([
+      [DATA, '01000200fdff'],
+    ]);
+    const meta = JSON.parse(
+      fs.files[capture.replace('packets.csv', 'meta.json')],
+    );
+    expect(meta.capture).toEqual({
+      file: 'packets.csv',
+      packetCount: 1,
+      redecodedAt: null,
+    });
+    const known = JSON.parse(fs.files['/docs/known_devices.json']);
+    expect(known.devices['fake-1'].settings.rawCapture).toBe(true);
+  });
+
+  it('records across a reconnect into one session', async () => {
+    const p = peripheral();
+    const app = await streaming(p);
+    unmount = app.unmount;
+    await notify(p, packet(0, 0, 1000));
+    await call(() => app.ble().toggleRecording());
+    await notify(p, packet(0, 0, 1000));
+
+    await act(async () => p.drop());
+    await advance(500 + 300);
+    // Notifications restart once the reconnected device has rendered
+    await advance(200);
+    expect(app.ble().connection.type).toBe('streaming');
+    expect(app.ble().recording).toBe(true);
+    await notify(p, packet(0, 0, 2000));
+
+    await call(() => app.ble().toggleRecording(), 0);
+    const data = Object.keys(fs.files).filter(f => f.endsWith('/data.csv'));
+    expect(data).toHaveLength(1);
+    const rows = fs.files[data[0]].trim().split('\n');
+    expect(rows[0]).toBe('timestamp_ms,x,y,z');
+    expect(rows.slice(1).map(r => Number(r.split(',')[3]))).toEqual([1, 2]);
+    // The diagnostics of the recording, reconnect included, are saved with it
+    const log = fs.files[data[0].replace('data.csv', 'log.txt')];
+    expect(log).toContain('[record] Recording session');
+    expect(log).toContain('[connect]');
+  });
+
+  it('keeps a rename of the session being recorded', async () => {
+    const p = peripheral();
+    const app = await streaming(p);
+    unmount = app.unmount;
+    await notify(p, packet(0, 0, 1000));
+    await call(() => app.ble().toggleRecording());
+    await notify(p, packet(0, 0, 1000));
+    const id = app.ble().sessionId!;
+    await act(async () => {
+      await updateSession(id, {name: 'Bench run', notes: 'Motor mount'});
+    });
+    await notify(p, packet(0, 0, 2000));
+    await call(() => app.ble().toggleRecording(), 0);
+
+    const meta = JSON.parse(fs.files[`/docs/sessions/${id}/meta.json`]);
+    expect(meta).toEqual(
+      expect.objectContaining({
+        name: 'Bench run',
+        notes: 'Motor mount',
+        sampleCount: 2,
+      }),
+    );
+  });
+});
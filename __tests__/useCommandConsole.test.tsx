@@ -0,0 +1,149 @@
+import 'react-native';
+import React from 'react';
+import renderer, {act} from 'react-test-renderer';
+import RNFS from 'react-native-fs';
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {COMMANDS_PATH, parseMacro} from '../src/ble/commands';
+import {FakePeripheral, FakeTransport} from '../test-utils/FakeTransport';
+import {TransportDevice} from '../src/ble/transport';
+import {useCommandConsole} from '../src/ble/useCommandConsole';
+
+const fs = RNFS as unknown as {
+  files: Record<string, string>;
+  reset: () => void;
+};
+
+type Console = ReturnType<typeof useCommandConsole>;
+
+const SVC = 'fff0';
+const COMMAND = {service: SVC, characteristic: 'fff2'};
+const REPLY = {service: SVC, characteristic: 'fff3'};
+
+function peripheral() {
+  return new FakePeripheral({
+    id: 'p',
+    name: 'Sensor',
+    services: [
+      {
+        uuid: SVC,
+        characteristics: [
+          {uuid: 'fff1', notify: true},
+          {uuid: 'fff2', write: true},
+          {uuid: 'fff3', notify: true},
+        ],
+      },
+    ],
+  });
+}
+
+async function advance(ms: number) {
+  await act(async () => {
+    await jest.advanceTimersByTimeAsync(ms);
+  });
+}
+
+async function mount(device: TransportDevice) {
+  const result: {current: Console | null} = {current: null};
+  const Harness = () => {
+    result.current = useCommandConsole(device, null);
+    return null;
+  };
+  let tree: renderer.ReactTestRenderer | undefined;
+  await act(async () => {
+    tree = renderer.create(<Harness />);
+  });
+  await advance(0);
+  return {
+    console: () => result.current!,
+    unmount: () => act(async () => tree?.unmount()),
+  };
+}
+
+describe('command console', () => {
+  let unmount: (() => Promise<void>) | null = null;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    fs.reset();
+  });
+
+  afterEach(async () => {
+    await unmount?.();
+    unmount = null;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('runs on-connect macros with their waits and shows responses', async () => {
+    fs.files[COMMANDS_PATH] = JSON.stringify({
+      p: {
+        target: COMMAND,
+        response: REPLY,
+        commands: [
+          {
+            name: 'setup',
+            steps: parseMacro('01 64\nwait 500\n02 08'),
+            runOnConnect: true,
+          },
+          {name: 'stop', steps: parseMacro('00'), runOnConnect: false},
+        ],
+      },
+    });
+    const p = peripheral();
+    // Answers each command 10 ms later
+    p.onWrite = w => {
+      setTimeout(() => p.notify(SVC, 'fff3', [0x4f, 0x4b, w.bytes[0]]), 10);
+    };
+    const device = await new FakeTransport([p]).connectToDevice('p');
+    const app = await mount(device);
+    unmount = app.unmount;
+    expect(p.writes.map(w => [...w.bytes])).toEqual([[1, 0x64]]);
+    expect(app.console().running).toBe('setup');
+
+    await advance(500);
+    expect(p.writes.map(w => [...w.bytes])).toEqual([
+      [1, 0x64],
+      [2, 8],
+    ]);
+    expect(app.console().running).toBeNull();
+    // Past the console's UI throttle
+    await advance(250);
+    expect(app.console().log.map(e => e.kind)).toEqual([
+      'info',
+      'sent',
+      'wait',
+      'response',
+      'sent',
+      'response',
+    ]);
+    expect(app.console().log[3].text).toBe('4f 4b 01  "OK."');
+  });
+
+  it('saves commands per device and stops a running macro', async () => {
+    const p = peripheral();
+    const device = await new FakeTransport([p]).connectToDevice('p');
+    const app = await mount(device);
+    unmount = app.unmount;
+    expect(app.console().writable).toEqual([COMMAND]);
+    expect(app.console().notifiable).toHaveLength(2);
+
+    await act(async () => {
+      app.console().setTarget(COMMAND);
+      app.console().saveCommand({
+        name: 'slow',
+        steps: parseMacro('01\nwait 1s\n02'),
+        runOnConnect: false,
+      });
+    });
+    expect(JSON.parse(fs.files[COMMANDS_PATH]).p.commands[0].name).toBe('slow');
+
+    await act(async () => {
+      app.console().runCommand('slow');
+    });
+    await act(async () => app.console().stop());
+    await advance(1250);
+    expect(p.writes.map(w => [...w.bytes])).toEqual([[1]]);
+    expect(app.console().log.map(e => e.text)).toContain('slow stopped');
+  });
+});
@@ -0,0 +1,154 @@
+import {describe, expect, it, jest} from '@jest/globals';
+import {
+  axisStatistics,
+  computeVibration,
+  DEFAULT_VIBRATION_SETTINGS,
+  loadVibrationSettings,
+  metricSeverity,
+  velocityRms,
+  VibrationSummaryTracker,
+} from '../src/metrics/vibration';
+import {SampleRing} from '../src/utils/SampleRing';
+
+const files: Record<string, string> = {};
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/docs',
+  exists: async (path: string) => path in files,
+  readFile: async (path: string) => files[path],
+}));
+
+const FS = 1000;
+
+function sine(hz: number, amplitude: number, n: number, offset = 0) {
+  return Float64Array.from(
+    {length: n},
+    (_, i) => offset + amplitude * Math.sin((2 * Math.PI * hz * i) / FS),
+  );
+}
+
+describe('axisStatistics', () => {
+  it('describes a sine about its mean', () => {
+    const stats = axisStatistics(sine(50, 0.5, 1000, 1));
+    expect(stats.rms).toBeCloseTo(0.5 / Math.SQRT2, 6);
+    expect(stats.peak).toBeCloseTo(0.5, 3);
+    expect(stats.peakToPeak).toBeCloseTo(1, 3);
+    expect(stats.crest).toBeCloseTo(Math.SQRT2, 3);
+    expect(stats.kurtosis).toBeCloseTo(1.5, 3);
+  });
+
+  it('has no crest factor or kurtosis for a constant signal', () => {
+    const stats = axisStatistics(new Float64Array(100).fill(1));
+    expect(stats.rms).toBe(0);
+    expect(stats.crest).toBe(null);
+    expect(stats.kurtosis).toBe(null);
+  });
+});
+
+describe('velocityRms', () => {
+  it('integrates a tone inside the band', () => {
+    // 1 g at 50 Hz is 9806.65 / (2π · 50) mm/s peak
+    const expected = 9806.65 / (2 * Math.PI * 50) / Math.SQRT2;
+    const v = velocityRms(sine(50, 1, 2000), FS, 10, 1000)!;
+    expect(v.rms / expected).toBeCloseTo(1, 2);
+    expect(v.bandHz).toEqual([10, 500]);
+  });
+
+  it('ignores tones outside the band and empty bands', () => {
+    expect(velocityRms(sine(5, 1, 2000), FS, 10, 1000)!.rms).toBeLessThan(1);
+    expect(velocityRms(sine(50, 1, 100), 100, 60, 1000)).toBe(null);
+  });
+});
+
+describe('computeVibration', () => {
+  it('uses the configured window and grades severity', () => {
+    const ring = new SampleRing(8192);
+    // Quiet for 4 s, then 0.25 g at 80 Hz: about 3.4 mm/s
+    for (let i = 0; i < 5000; i++) {
+      const v = i < 4000 ? 0 : 0.25 * Math.sin((2 * Math.PI * 80 * i) / FS);
+      ring.push(i, v, 0, 1);
+    }
+    const snapshot = computeVibration(ring, DEFAULT_VIBRATION_SETTINGS)!;
+    expect(snapshot.samples).toBe(1001);
+    expect(snapshot.sampleRateHz).toBeCloseTo(1000, 6);
+    expect(snapshot.axes.x.rms).toBeCloseTo(0.25 / Math.SQRT2, 2);
+    expect(snapshot.axes.z.velocityRms).toBeCloseTo(0, 6);
+    expect(snapshot.severity).toBe('warning');
+
+    const long = computeVibration(ring, {
+      ...DEFAULT_VIBRATION_SETTINGS,
+      windowS: 5,
+    })!;
+    expect(long.samples).toBe(5000);
+    expect(long.axes.x.rms!).toBeLessThan(snapshot.axes.x.rms!);
+  });
+
+  it('grades metrics against their thresholds', () => {
+    const settings = DEFAULT_VIBRATION_SETTINGS;
+    expect(metricSeverity(settings, 'velocityRms', 1)).toBe('ok');
+    expect(metricSeverity(settings, 'velocityRms', 3)).toBe('warning');
+    expect(metricSeverity(settings, 'velocityRms', 4.5)).toBe('alarm');
+    expect(metricSeverity(settings, 'rms', 100)).toBe('ok');
+  });
+});
+
+describe('VibrationSummaryTracker', () => {
+  it('counts non-overlapping windows after the recording start', () => {
+    const tracker = new VibrationSummaryTracker(DEFAULT_VIBRATION_SETTINGS, 0);
+    const snapshot = (at: number, rms: number) => ({
+      at,
+      windowS: 1,
+      samples: 100,
+      sampleRateHz: 100,
+      bandHz: [10, 50] as [number, number],
+      axes: {
+        x: {
+          rms,
+          peak: 1,
+          peakToPeak: 2,
+          crest: 3,
+          kurtosis: 3,
+          velocityRms: null,
+        },
+        y: {
+          rms,
+          peak: 1,
+          peakToPeak: 2,
+          crest: 3,
+          kurtosis: 3,
+          velocityRms: null,
+        },
+        z: {
+          rms,
+          peak: 1,
+          peakToPeak: 2,
+          crest: 3,
+          kurtosis: 3,
+          velocityRms: null,
+        },
+      },
+      severity: rms > 1 ? ('alarm' as const) : ('ok' as const),
+    });
+    expect(tracker.summary()).toBe(null);
+    tracker.add(snapshot(500, 9));
+    tracker.add(snapshot(1000, 1));
+    tracker.add(snapshot(1500, 9));
+    tracker.add(snapshot(2000, 2));
+    const summary = tracker.summary()!;
+    expect(summary.windows).toBe(2);
+    expect(summary.axes.x.rms).toEqual({mean: 1.5, max: 2});
+    expect(summary.axes.x.velocityRms).toBeUndefined();
+    expect(summary.severity).toBe('alarm');
+  });
+});
+
+describe('settings store', () => {
+  it('falls back to the defaults for missing or invalid files', async () => {
+    expect(await loadVibrationSettings()).toBe(DEFAULT_VIBRATION_SETTINGS);
+    files['/docs/vibration_settings.json'] = JSON.stringify({windowS: 3});
+    expect(await loadVibrationSettings()).toBe(DEFAULT_VIBRATION_SETTINGS);
+    const saved = {...DEFAULT_VIBRATION_SETTINGS, windowS: 5};
+    files['/docs/vibration_settings.json'] = JSON.stringify(saved);
+    expect(await loadVibrationSettings()).toEqual(saved);
+  });
+});
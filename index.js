@@ -2,8 +2,17 @@
  * @format
  */
 
+import React from 'react';
 import {AppRegistry} from 'react-native';
 import App from './App';
 import {name as appName} from './app.json';
+import {plxTransport} from './src/ble/plxTransport';
 
-AppRegistry.registerComponent(appName, () => App);
+// One radio for the whole app, created before the first render
+const transport = plxTransport();
+
+function Root() {
+  return <App transport={transport} />;
+}
+
+AppRegistry.registerComponent(appName, () => Root);
@@ -0,0 +1,111 @@
+import { AdvertDecoder, AdvertPayload, AdvertReading, BUILTIN_ADVERT_DECODERS, decodeAdvert } from '../decoder/advertDecoders';
+import { logger } from '../logging/logger';
+import { base64ToBytes } from '../utils/base64';
+import { BleTransport, TransportDevice } from './transport';
+
+export type AdvertSample = AdvertReading & {
+	t: number;
+	rssi: number | null;
+};
+
+type Listener = (sample: AdvertSample) => void;
+
+export function advertPayload(device: TransportDevice): AdvertPayload {
+	const serviceData: Record<string, Uint8Array> = {};
+	for (const [uuid, value] of Object.entries(device.serviceData ?? {})) {
+		if (value) serviceData[uuid] = base64ToBytes(value);
+	}
+	return {
+		manufacturerData: device.manufacturerData ? base64ToBytes(device.manufacturerData) : null,
+		serviceData,
+	};
+}
+
+/**
+ * Decodes acceleration from advertisements of tags that never accept a connection and hands
+ * each tag's samples to its subscribers. The radio has one scan at a time: the listener runs
+ * its own while anyone is subscribed, and the scanner takes over with pause() and passes its
+ * adverts in through handle() until resume().
+ */
+export class AdvertListener {
+	private manager: BleTransport;
+	private decoders: AdvertDecoder[] = BUILTIN_ADVERT_DECODERS;
+	private listeners = new Map<string, Set<Listener>>();
+	private lastSequence = new Map<string, number>();
+	private scanning = false;
+	private paused = false;
+
+	constructor(manager: BleTransport) {
+		this.manager = manager;
+	}
+
+	setDecoders(decoders: AdvertDecoder[]) {
+		this.decoders = decoders;
+	}
+
+	// Decodes one advertisement and delivers it; returns the reading for display, or null for ordinary adverts
+	handle(device: TransportDevice, t: number = Date.now()): { decoder: AdvertDecoder; reading: AdvertReading } | null {
+		const decoded = decodeAdvert(advertPayload(device), this.decoders);
+		if (!decoded) return null;
+		const listeners = this.listeners.get(device.id);
+		if (!listeners?.size) return decoded;
+		// Tags repeat each measurement in several adverts; a counter tells the copies apart
+		const { sequence } = decoded.reading;
+		if (sequence !== undefined) {
+			if (this.lastSequence.get(device.id) === sequence) return decoded;
+			this.lastSequence.set(device.id, sequence);
+		}
+		const sample: AdvertSample = { ...decoded.reading, t, rssi: device.rssi ?? null };
+		listeners.forEach(listener => listener(sample));
+		return decoded;
+	}
+
+	subscribe(id: string, listener: Listener): () => void {
+		let set = this.listeners.get(id);
+		if (!set) {
+			set = new Set();
+			this.listeners.set(id, set);
+		}
+		set.add(listener);
+		this.update();
+		return () => {
+			set!.delete(listener);
+			if (!set!.size) {
+				this.listeners.delete(id);
+				this.lastSequence.delete(id);
+			}
+			this.update();
+		};
+	}
+
+	// The scanner's own scan replaces ours; it forwards adverts through handle()
+	pause() {
+		this.paused = true;
+		this.scanning = false;
+	}
+
+	resume() {
+		this.paused = false;
+		this.update();
+	}
+
+	private update() {
+		const wanted = !this.paused && this.listeners.size > 0;
+		if (wanted === this.scanning) return;
+		this.scanning = wanted;
+		if (!wanted) {
+			this.manager.stopDeviceScan();
+			logger.info('scan', 'Broadcast listening stopped');
+			return;
+		}
+		logger.info('scan', `Listening for broadcasts from ${this.listeners.size} tag(s)`);
+		this.manager.startDeviceScan(null, { allowDuplicates: true }, (error, device) => {
+			if (error) {
+				logger.error('scan', 'Broadcast scan error', error);
+				this.scanning = false;
+				return;
+			}
+			if (device) this.handle(device);
+		});
+	}
+}
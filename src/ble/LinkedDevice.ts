@@ -0,0 +1,385 @@
+import { applyCalibration, Calibration, loadCalibration, RAW_COLUMNS } from '../calibration/calibration';
+import { Accel, PayloadFormat } from '../decoder/payloadFormat';
+import { DEFAULT_AXIS_SIGNAL, GENERATOR_SEQ_BITS, GeneratorSettings, NO_FAULTS, SignalGenerator } from '../generator/signalGenerator';
+import { logger } from '../logging/logger';
+import { CSV_COLUMNS, RecordingSummary, StreamRecorder } from '../recorder/StreamRecorder';
+import { ReplayPlayer } from '../replay/ReplayPlayer';
+import { ReplaySource } from '../replay/replaySources';
+import { SampleRing } from '../utils/SampleRing';
+import { AdvertListener } from './AdvertListener';
+import { ConnectionEvent, ConnectionState, IDLE, ReconnectPolicy, reconnectDelay, transition } from './connectionMachine';
+import { decodeNotification, monitorData, notifyCandidates, subscribeToProfile } from './dataStream';
+import { emptyLinkStats, LinkStats, LinkStatsTracker } from './linkStats';
+import { DeviceProfile, findProfile } from './profiles';
+import { BleTransport, TransportDevice } from './transport';
+
+export type LinkedState = 'connecting' | 'streaming' | 'reconnecting' | 'failed' | 'stopped';
+
+// What the scanner knows about the device; a UiDevice fits
+export type LinkedSource = {
+	id: string;
+	name: string;
+	isSample?: boolean;
+	device?: TransportDevice;
+	replay?: ReplaySource;
+	// Signals of a sample device; without it a linked sample device uses LINKED_SAMPLE_GENERATOR
+	generator?: GeneratorSettings;
+	// Present for tags read from their advertisements
+	broadcast?: unknown;
+};
+
+export type LinkedDeviceStatus = {
+	id: string;
+	name: string;
+	state: LinkedState;
+	accel: Accel | null;
+	linkStats: LinkStats;
+	formatLabel: string | null;
+	profileLabel: string | null;
+	calibrated: boolean;
+	recordedRows: number;
+	error: string | null;
+};
+
+type Options = {
+	transport: BleTransport;
+	adverts: AdvertListener;
+	profiles: DeviceProfile[];
+	// Decoder used when no profile matches, normally the primary device's current format
+	fallbackFormat: PayloadFormat | null;
+	formatLabel: (format: PayloadFormat) => string;
+	// The primary device's policy, read at each step so a change applies to the next attempt
+	reconnectPolicy: () => ReconnectPolicy;
+	onError?: (e: unknown) => void;
+};
+
+const BUFFER_SAMPLES = 4096;
+
+// Out of phase with the primary sample device so the two streams are told apart
+const LINKED_SAMPLE_GENERATOR: GeneratorSettings = {
+	id: 'sample-device',
+	name: 'Sample Accelerometer',
+	sampleRateHz: 50,
+	axes: {
+		x: { ...DEFAULT_AXIS_SIGNAL, amplitude: 0.6, frequencyHz: 0.27, noise: 0.01 },
+		y: { ...DEFAULT_AXIS_SIGNAL, amplitude: 0.5, frequencyHz: 0.11, noise: 0.01 },
+		z: { ...DEFAULT_AXIS_SIGNAL, amplitude: 0.15, frequencyHz: 0.37, offset: 1, noise: 0.01 },
+	},
+	faults: NO_FAULTS,
+};
+
+function linkedState(state: ConnectionState): LinkedState {
+	switch (state.type) {
+		case 'streaming':
+		case 'reconnecting':
+		case 'failed':
+			return state.type;
+		case 'idle':
+			return 'stopped';
+		default:
+			return 'connecting';
+	}
+}
+
+/**
+ * One additional sensor streaming next to the primary device. Each has its own connection,
+ * decoder, calibration, link statistics and recorder; everything is timestamped in epoch
+ * milliseconds like the primary, which gives all streams a common time base. The connection
+ * runs through the same state machine and reconnect policy as the primary's.
+ */
+export class LinkedDevice {
+	readonly id: string;
+	readonly name: string;
+	readonly buffer = new SampleRing(BUFFER_SAMPLES);
+	private source: LinkedSource;
+	private options: Options;
+	private connection: ConnectionState = IDLE;
+	private error: string | null = null;
+	private device: TransportDevice | null = null;
+	// Decoder and calibration in use, recorded into the session metadata
+	format: PayloadFormat | null = null;
+	calibration: Calibration | null = null;
+	private profile: DeviceProfile | null = null;
+	private stats = new LinkStatsTracker();
+	private latest: Accel | null = null;
+	private subscription: { remove: () => void } | null = null;
+	private monitor: { remove: () => void } | null = null;
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	private generator: SignalGenerator | null = null;
+	private player: ReplayPlayer | null = null;
+	private unsubscribe: (() => void) | null = null;
+	private recorder: StreamRecorder | null = null;
+	private recording = false;
+	private stopped = false;
+
+	constructor(source: LinkedSource, options: Options) {
+		this.id = source.id;
+		this.name = source.name;
+		this.source = source;
+		this.options = options;
+	}
+
+	async start() {
+		this.dispatch({ type: 'connect', deviceId: this.id });
+		try {
+			this.calibration = await loadCalibration(this.id);
+			if (this.stopped) return;
+			if (this.source.replay) await this.startReplay(this.source.replay);
+			else if (this.source.isSample) this.startSample();
+			else if (this.source.broadcast) this.startBroadcast();
+			else await this.connect();
+		} catch (e: any) {
+			if (!this.stopped) this.fail(e);
+		}
+	}
+
+	async stop() {
+		this.stopped = true;
+		this.dispatch({ type: 'disconnect' });
+		if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+		this.reconnectTimer = null;
+		this.subscription?.remove();
+		this.subscription = null;
+		this.monitor?.remove();
+		this.monitor = null;
+		if (this.timer) clearInterval(this.timer);
+		this.timer = null;
+		this.player?.stop();
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		if (this.device) {
+			try {
+				await this.options.transport.cancelDeviceConnection(this.device.id);
+			} catch {}
+		}
+	}
+
+	// Columns follow the calibration in effect when the file is opened, as for the primary
+	openRecording(path: string) {
+		this.recorder = new StreamRecorder(path, {
+			columns: this.calibration ? [...CSV_COLUMNS, ...RAW_COLUMNS] : CSV_COLUMNS,
+			onError: e => this.options.onError?.(e),
+		});
+		this.recorder.open();
+		this.recording = true;
+	}
+
+	get recordingPath(): string | null {
+		return this.recorder?.path ?? null;
+	}
+
+	setRecording(active: boolean) {
+		this.recording = active;
+		if (active) this.recorder?.resume();
+	}
+
+	// Writes out what is buffered; the file stays attached until closeRecording
+	async flushRecording(): Promise<RecordingSummary | null> {
+		this.recording = false;
+		if (!this.recorder) return null;
+		await this.recorder.pause();
+		return this.recorder.summary();
+	}
+
+	closeRecording() {
+		this.recording = false;
+		this.recorder = null;
+	}
+
+	status(): LinkedDeviceStatus {
+		const state = this.stopped ? 'stopped' : linkedState(this.connection);
+		return {
+			id: this.id,
+			name: this.name,
+			state,
+			accel: this.latest,
+			linkStats: state === 'streaming' ? this.stats.snapshot() : emptyLinkStats(),
+			formatLabel: this.format ? this.options.formatLabel(this.format) : null,
+			profileLabel: this.profile?.label ?? null,
+			calibrated: !!this.calibration,
+			recordedRows: this.recorder?.summary().rows ?? 0,
+			error: this.error,
+		};
+	}
+
+	private push(raw: Accel, t: number) {
+		const a = this.calibration ? applyCalibration(this.calibration, raw) : raw;
+		this.latest = a;
+		this.buffer.push(t, a.x, a.y, a.z);
+		if (this.recording) this.recorder?.push(t, a.x, a.y, a.z, this.calibration ? [raw.x, raw.y, raw.z] : undefined);
+	}
+
+	private handlePacket(bytes: Uint8Array, arrivalMs: number = Date.now()) {
+		const fmt = this.format;
+		if (!fmt) return;
+		try {
+			const { rows, seq, seqBits } = decodeNotification(bytes, fmt, arrivalMs);
+			this.stats.onPacket(arrivalMs, rows.length, seq, seqBits);
+			for (const row of rows) this.push(row, row.t);
+		} catch (e: any) {
+			this.error = e?.message ?? String(e);
+		}
+	}
+
+	private startSample() {
+		this.generator = new SignalGenerator({ ...(this.source.generator ?? LINKED_SAMPLE_GENERATOR), id: this.id, name: this.name });
+		this.runGenerator(this.generator);
+		this.streamStarted();
+	}
+
+	private runGenerator(generator: SignalGenerator) {
+		generator.start(Date.now());
+		this.timer = setInterval(() => {
+			const now = Date.now();
+			const tick = generator.tick(now);
+			if (tick.event === 'disconnect') {
+				logger.info('connect', `${this.name}: simulated disconnect for ${generator.settings.faults.outageS} s`);
+				if (this.timer) clearInterval(this.timer);
+				this.timer = null;
+				this.linkLost();
+				return;
+			}
+			if (tick.event !== 'data') return;
+			this.stats.onPacket(now, tick.rows.length, tick.seq, GENERATOR_SEQ_BITS);
+			for (const row of tick.rows) this.push(row, row.t);
+		}, generator.tickMs);
+	}
+
+	private startBroadcast() {
+		this.unsubscribe = this.options.adverts.subscribe(this.id, sample => {
+			this.stats.setRssi(sample.rssi);
+			this.stats.onPacket(sample.t, 1, sample.sequence, sample.sequenceBits);
+			this.push(sample.accel, sample.t);
+		});
+		this.streamStarted();
+	}
+
+	private async startReplay(replay: ReplaySource) {
+		this.player = new ReplayPlayer(replay.path, {
+			onRow: row => {
+				this.stats.onPacket(row.t, 1);
+				this.push(row, row.t);
+			},
+			onFinish: () => {
+				this.dispatch({ type: 'disconnect' });
+			},
+			onError: e => this.fail(e),
+		});
+		await this.player.load();
+		if (this.stopped) return;
+		await this.player.start();
+		this.streamStarted();
+	}
+
+	private async connect() {
+		if (!(await this.link())) return;
+		this.monitor?.remove();
+		this.monitor = this.options.transport.onDeviceDisconnected(this.id, () => this.linkLost());
+	}
+
+	// Connects and subscribes; false when stop() ran meanwhile, and whatever was opened has been closed again
+	private async link(): Promise<boolean> {
+		const d = await this.options.transport.connectToDevice(this.id);
+		this.device = d;
+		if (await this.abandoned()) return false;
+		this.dispatch({ type: 'linkUp' });
+		await d.discoverAllServicesAndCharacteristics();
+		if (await this.abandoned()) return false;
+		await this.subscribe(d);
+		if (await this.abandoned()) return false;
+		this.streamStarted();
+		return true;
+	}
+
+	// stop() finds nothing to cancel while a connection is still being opened, so it runs again once there is
+	private async abandoned(): Promise<boolean> {
+		if (!this.stopped) return false;
+		await this.stop();
+		return true;
+	}
+
+	private async subscribe(d: TransportDevice) {
+		const services = await d.services();
+		this.profile = findProfile(this.options.profiles, {
+			name: d.name ?? this.name,
+			serviceUuids: [...(this.source.device?.serviceUUIDs ?? []), ...services.map(s => s.uuid)],
+		});
+		this.format = this.profile?.format ?? this.options.fallbackFormat;
+		if (!this.format) throw new Error('No payload format: set one on the primary device or add a device profile');
+
+		const onPacket = (bytes: Uint8Array, arrivalMs: number) => this.handlePacket(bytes, arrivalMs);
+		const onError = (msg: string) => {
+			this.error = msg;
+		};
+		if (this.profile) {
+			if (this.stopped) return;
+			this.subscription?.remove();
+			this.subscription = await subscribeToProfile(d, this.profile, null, onPacket, onError);
+		} else {
+			// No time to try candidates one by one as the primary does; the best guess is used
+			const [target] = await notifyCandidates(d);
+			if (!target) throw new Error('No notifiable characteristic found');
+			if (this.stopped) return;
+			this.subscription?.remove();
+			this.subscription = monitorData(d, target, onPacket, onError);
+		}
+		logger.info('gatt', `Linked ${this.name} streaming`);
+	}
+
+	// Virtual sources are ready as soon as their data starts; a real link gets here once subscribed
+	private streamStarted() {
+		this.dispatch({ type: 'ready' });
+		this.dispatch({ type: 'subscribe' });
+		this.dispatch({ type: 'subscribed' });
+	}
+
+	private dispatch(event: ConnectionEvent): ConnectionState {
+		const prev = this.connection;
+		this.connection = transition(prev, event, this.options.reconnectPolicy());
+		if (this.connection !== prev) logger.debug('connect', `${this.name}: ${prev.type} → ${this.connection.type}`);
+		return this.connection;
+	}
+
+	private linkLost() {
+		if (this.stopped) return;
+		this.subscription = null;
+		this.scheduleReconnect(this.dispatch({ type: 'linkLost' }));
+	}
+
+	// Linked devices have no notification toggle of their own, so they stream again whatever resumeStreaming says
+	private scheduleReconnect(state: ConnectionState) {
+		if (state.type === 'failed') {
+			this.fail(new Error(state.error));
+			return;
+		}
+		if (state.type !== 'reconnecting') return;
+		const delay = reconnectDelay(this.options.reconnectPolicy(), state.attempt);
+		logger.info('connect', `${this.name}: reconnect #${state.attempt} in ${delay}ms`);
+		this.reconnectTimer = setTimeout(async () => {
+			this.reconnectTimer = null;
+			try {
+				// A signal generator comes back by itself once its simulated outage is over
+				const generator = this.generator;
+				if (generator) {
+					if (!generator.reachable(Date.now())) throw new Error(`${this.name} is out of range`);
+					this.runGenerator(generator);
+					this.streamStarted();
+				} else if (!(await this.link())) return;
+				logger.info('connect', `${this.name} reconnected`);
+			} catch (e) {
+				if (this.stopped) return;
+				logger.warn('connect', `Reconnect of ${this.name} failed`, e);
+				// A failed connect doesn't fire onDeviceDisconnected, so the next attempt is scheduled here
+				this.scheduleReconnect(this.dispatch({ type: 'reconnectFailed' }));
+			}
+		}, delay);
+	}
+
+	private fail(e: any) {
+		const error: string = e?.message ?? String(e);
+		this.error = error;
+		this.dispatch({ type: 'fail', error });
+		this.options.onError?.(e);
+	}
+}
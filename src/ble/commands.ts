@@ -0,0 +1,127 @@
+import { logger } from '../logging/logger';
+import { documentPath, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+import { GattRef, parseHex, toHex } from './gatt';
+
+// One line of a macro: a payload to write, or a pause before the next line
+export type MacroStep = { type: 'write'; bytes: number[] } | { type: 'wait'; ms: number };
+
+// A single command is a macro with one write
+export type SavedCommand = {
+	name: string;
+	steps: MacroStep[];
+	// Run after every connection to the device, including reconnects
+	runOnConnect: boolean;
+};
+
+export type DeviceCommands = {
+	// Characteristic the payloads are written to
+	target: GattRef | null;
+	// Characteristic whose notifications are shown as responses
+	response: GattRef | null;
+	commands: SavedCommand[];
+};
+
+// Console settings and saved commands by device id
+export type CommandStore = Record<string, DeviceCommands>;
+
+export const EMPTY_DEVICE_COMMANDS: DeviceCommands = { target: null, response: null, commands: [] };
+
+export const COMMANDS_PATH = documentPath('device_commands.json');
+
+// Longest single wait a macro may ask for
+export const MAX_MACRO_WAIT_MS = 60_000;
+
+const WAIT_LINE = /^(?:wait|delay)\s+(\d+(?:\.\d+)?)\s*(ms|s)?$/i;
+
+/**
+ * One step per line: a hex payload ("01 64"), or "wait 250" / "wait 250ms" / "wait 1s".
+ * Blank lines and lines starting with # are skipped. Throws with the line number on a bad line.
+ */
+export function parseMacro(text: string): MacroStep[] {
+	const steps: MacroStep[] = [];
+	text.split('\n').forEach((raw, i) => {
+		const line = raw.trim();
+		if (!line || line.startsWith('#')) return;
+		const wait = WAIT_LINE.exec(line);
+		if (wait) {
+			const ms = Math.round(Number(wait[1]) * (wait[2]?.toLowerCase() === 's' ? 1000 : 1));
+			if (ms > MAX_MACRO_WAIT_MS) throw new Error(`Line ${i + 1}: waits are limited to ${MAX_MACRO_WAIT_MS / 1000} s`);
+			steps.push({ type: 'wait', ms });
+			return;
+		}
+		let bytes: Uint8Array;
+		try {
+			bytes = parseHex(line);
+		} catch (e: any) {
+			throw new Error(`Line ${i + 1}: ${e?.message ?? String(e)}`);
+		}
+		steps.push({ type: 'write', bytes: [...bytes] });
+	});
+	if (!steps.some(s => s.type === 'write')) throw new Error('Nothing to send');
+	return steps;
+}
+
+export function macroText(steps: MacroStep[]): string {
+	return steps.map(s => (s.type === 'wait' ? `wait ${s.ms}ms` : toHex(new Uint8Array(s.bytes)))).join('\n');
+}
+
+// "01 64" for a single write, "3 writes, 350 ms" for a macro
+export function macroLabel(steps: MacroStep[]): string {
+	const writes = steps.filter(s => s.type === 'write');
+	if (steps.length === 1 && writes.length === 1) return macroText(steps);
+	const waitMs = steps.reduce((sum, s) => sum + (s.type === 'wait' ? s.ms : 0), 0);
+	return `${writes.length} write${writes.length === 1 ? '' : 's'}${waitMs ? `, ${waitMs} ms` : ''}`;
+}
+
+export function deviceCommands(store: CommandStore, id: string): DeviceCommands {
+	return store[id] ?? EMPTY_DEVICE_COMMANDS;
+}
+
+export function updateDeviceCommands(store: CommandStore, id: string, patch: Partial<DeviceCommands>): CommandStore {
+	return { ...store, [id]: { ...deviceCommands(store, id), ...patch } };
+}
+
+// Replaces the command with the same name, otherwise adds it at the end
+export function upsertCommand(commands: SavedCommand[], command: SavedCommand): SavedCommand[] {
+	const i = commands.findIndex(c => c.name === command.name);
+	if (i < 0) return [...commands, command];
+	return commands.map((c, j) => (j === i ? command : c));
+}
+
+function isValidRef(r: any): r is GattRef | null {
+	return r === null || (!!r && typeof r.service === 'string' && typeof r.characteristic === 'string');
+}
+
+function isValidStep(s: any): s is MacroStep {
+	if (s?.type === 'wait') return typeof s.ms === 'number' && s.ms >= 0;
+	return s?.type === 'write' && Array.isArray(s.bytes) && s.bytes.every((b: any) => Number.isInteger(b) && b >= 0 && b <= 255);
+}
+
+function isValidDeviceCommands(d: any): d is DeviceCommands {
+	return (
+		!!d &&
+		isValidRef(d.target) &&
+		isValidRef(d.response) &&
+		Array.isArray(d.commands) &&
+		d.commands.every((c: any) => typeof c?.name === 'string' && typeof c.runOnConnect === 'boolean' && Array.isArray(c.steps) && c.steps.every(isValidStep))
+	);
+}
+
+export async function loadCommands(): Promise<CommandStore> {
+	const raw = await readJsonFile<any>(COMMANDS_PATH, null);
+	if (raw === null) return {};
+	if (typeof raw !== 'object') {
+		logger.warn('app', 'device_commands.json is invalid, using defaults');
+		return {};
+	}
+	const store: CommandStore = {};
+	for (const [id, d] of Object.entries(raw)) {
+		if (isValidDeviceCommands(d)) store[id] = d;
+		else logger.warn('app', `Ignored invalid commands for device ${id}`);
+	}
+	return store;
+}
+
+export async function saveCommands(store: CommandStore): Promise<void> {
+	await writeJsonFile(COMMANDS_PATH, store);
+}
@@ -0,0 +1,174 @@
+import { logger } from '../logging/logger';
+import { documentPath, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+
+/**
+ * Connection lifecycle of the primary device and of each linked device. The owner dispatches
+ * events as the BLE calls progress and renders from the resulting state; events that don't
+ * apply to the current state are ignored, so a late callback (a disconnect after the user
+ * hung up, a replay finishing after it was stopped) can't move the connection somewhere it
+ * shouldn't be.
+ */
+export type ConnectionState =
+	| { type: 'idle' }
+	| { type: 'scanning' }
+	| { type: 'connecting'; deviceId: string }
+	| { type: 'discovering'; deviceId: string }
+	// Link up, services known, not streaming
+	| { type: 'connected'; deviceId: string }
+	| { type: 'subscribing'; deviceId: string }
+	| { type: 'streaming'; deviceId: string }
+	// Attempt counts from 1; wasStreaming tells whether notifications should come back with the link
+	| { type: 'reconnecting'; deviceId: string; attempt: number; wasStreaming: boolean }
+	| { type: 'failed'; deviceId: string | null; error: string };
+
+export type ConnectionStateType = ConnectionState['type'];
+
+export type ConnectionEvent =
+	| { type: 'scanStarted' }
+	| { type: 'scanStopped' }
+	| { type: 'connect'; deviceId: string }
+	// Radio link established, service discovery under way
+	| { type: 'linkUp' }
+	// Ready for notifications; virtual devices go here straight from connecting
+	| { type: 'ready' }
+	| { type: 'subscribe' }
+	| { type: 'subscribed' }
+	| { type: 'subscribeFailed' }
+	| { type: 'streamStopped' }
+	| { type: 'linkLost' }
+	| { type: 'reconnectFailed' }
+	| { type: 'fail'; error: string }
+	| { type: 'disconnect' };
+
+export type ReconnectPolicy = {
+	// Delay before each attempt; the last one repeats when there are more attempts than entries
+	backoffMs: number[];
+	// 0 gives up as soon as the link drops
+	maxAttempts: number;
+	// Start notifications again if they were running when the link dropped
+	resumeStreaming: boolean;
+	// Keep recording into the same session across the gap; otherwise recording stops when the link drops
+	resumeRecording: boolean;
+};
+
+export const IDLE: ConnectionState = { type: 'idle' };
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+	backoffMs: [500, 1000, 2000, 4000, 8000],
+	maxAttempts: 5,
+	resumeStreaming: true,
+	resumeRecording: true,
+};
+
+export const RECONNECT_POLICY_PATH = documentPath('reconnect_policy.json');
+
+export const RECONNECT_EXHAUSTED = 'Connection lost. Reconnect attempts exceeded.';
+
+function deviceOf(state: ConnectionState): string | null {
+	return 'deviceId' in state ? state.deviceId : null;
+}
+
+// Next state, or the same object when the event doesn't apply
+export function transition(
+	state: ConnectionState,
+	event: ConnectionEvent,
+	policy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY,
+): ConnectionState {
+	switch (event.type) {
+		case 'scanStarted':
+			return state.type === 'idle' || state.type === 'failed' ? { type: 'scanning' } : state;
+		case 'scanStopped':
+			return state.type === 'scanning' ? IDLE : state;
+		case 'connect':
+			return state.type === 'idle' || state.type === 'scanning' || state.type === 'failed'
+				? { type: 'connecting', deviceId: event.deviceId }
+				: state;
+		case 'linkUp':
+			return state.type === 'connecting' ? { type: 'discovering', deviceId: state.deviceId } : state;
+		case 'ready':
+			return state.type === 'connecting' || state.type === 'discovering' || state.type === 'reconnecting'
+				? { type: 'connected', deviceId: state.deviceId }
+				: state;
+		case 'subscribe':
+			return state.type === 'connected' ? { type: 'subscribing', deviceId: state.deviceId } : state;
+		case 'subscribed':
+			return state.type === 'subscribing' ? { type: 'streaming', deviceId: state.deviceId } : state;
+		case 'subscribeFailed':
+			return state.type === 'subscribing' ? { type: 'connected', deviceId: state.deviceId } : state;
+		case 'streamStopped':
+			return state.type === 'subscribing' || state.type === 'streaming' ? { type: 'connected', deviceId: state.deviceId } : state;
+		case 'linkLost':
+			if (state.type !== 'connected' && state.type !== 'subscribing' && state.type !== 'streaming') return state;
+			if (policy.maxAttempts < 1) return { type: 'failed', deviceId: state.deviceId, error: 'Connection lost.' };
+			return { type: 'reconnecting', deviceId: state.deviceId, attempt: 1, wasStreaming: state.type !== 'connected' };
+		case 'reconnectFailed':
+			if (state.type !== 'reconnecting') return state;
+			if (state.attempt >= policy.maxAttempts) return { type: 'failed', deviceId: state.deviceId, error: RECONNECT_EXHAUSTED };
+			return { ...state, attempt: state.attempt + 1 };
+		case 'fail':
+			return state.type === 'idle' ? state : { type: 'failed', deviceId: deviceOf(state), error: event.error };
+		case 'disconnect':
+			return state.type === 'idle' ? state : IDLE;
+	}
+}
+
+export function reconnectDelay(policy: ReconnectPolicy, attempt: number): number {
+	const { backoffMs } = policy;
+	if (!backoffMs.length) return 0;
+	return backoffMs[Math.min(Math.max(attempt, 1), backoffMs.length) - 1];
+}
+
+export function connectionLabel(state: ConnectionState, policy?: ReconnectPolicy): string {
+	switch (state.type) {
+		case 'idle':
+			return 'Not connected';
+		case 'scanning':
+			return 'Scanning';
+		case 'connecting':
+			return 'Connecting…';
+		case 'discovering':
+			return 'Discovering services…';
+		case 'connected':
+			return 'Connected';
+		case 'subscribing':
+			return 'Subscribing…';
+		case 'streaming':
+			return 'Streaming';
+		case 'reconnecting':
+			return `Reconnecting ${state.attempt}${policy ? `/${policy.maxAttempts}` : ''}…`;
+		case 'failed':
+			return 'Failed';
+	}
+}
+
+export function reconnectPolicyLabel(policy: ReconnectPolicy): string {
+	if (policy.maxAttempts < 1) return 'No reconnect';
+	const resumes = [policy.resumeStreaming && 'streaming', policy.resumeRecording && 'recording'].filter(Boolean);
+	return `${policy.maxAttempts} attempts, ${policy.backoffMs.join('/') || '0'} ms${resumes.length ? `, resumes ${resumes.join(' and ')}` : ''}`;
+}
+
+function isValidPolicy(p: any): p is ReconnectPolicy {
+	return (
+		!!p &&
+		Array.isArray(p.backoffMs) &&
+		p.backoffMs.every((d: unknown) => typeof d === 'number' && d >= 0) &&
+		Number.isInteger(p.maxAttempts) &&
+		p.maxAttempts >= 0 &&
+		typeof p.resumeStreaming === 'boolean' &&
+		typeof p.resumeRecording === 'boolean'
+	);
+}
+
+export async function loadReconnectPolicy(): Promise<ReconnectPolicy> {
+	const raw = await readJsonFile<unknown>(RECONNECT_POLICY_PATH, null);
+	if (raw === null) return DEFAULT_RECONNECT_POLICY;
+	if (!isValidPolicy(raw)) {
+		logger.warn('app', 'reconnect_policy.json is invalid, using defaults');
+		return DEFAULT_RECONNECT_POLICY;
+	}
+	return raw;
+}
+
+export async function saveReconnectPolicy(policy: ReconnectPolicy): Promise<void> {
+	await writeJsonFile(RECONNECT_POLICY_PATH, policy);
+}
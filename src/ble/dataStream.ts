@@ -0,0 +1,114 @@
+import { AccelRow, decodePacket, PayloadFormat, readSequence, SEQUENCE_BITS } from '../decoder/payloadFormat';
+import { logger } from '../logging/logger';
+import { base64ToBytes } from '../utils/base64';
+import { GattRef, writeBytes } from './gatt';
+import { DeviceProfile } from './profiles';
+import { Subscription, TransportCharacteristic, TransportDevice, TransportError } from './transport';
+
+/**
+ * Subscribe and decode steps shared by the primary device and linked devices, so both pick
+ * the data characteristic, send profile commands and count packets the same way.
+ */
+
+export type NotifyCandidate = GattRef & {
+	score: number;
+	// Every characteristic of the service, for the start-command burst
+	chars: TransportCharacteristic[];
+};
+
+export type DecodedPacket = {
+	rows: AccelRow[];
+	seq?: number;
+	seqBits?: number;
+};
+
+// GAP, GATT, device info, HID and battery services are unlikely to carry the data stream
+const STANDARD_SERVICES = ['00001800', '00001801', '0000180a', '00001812', '0000180f'];
+// Service Changed, Boot Keyboard Input and Report
+const SYSTEM_CHARACTERISTICS = ['00002a05', '00002a22', '00002a4d'];
+
+// Unsubscribing or disconnecting cancels the monitor; that isn't an error
+export function isCancelled(error: TransportError): boolean {
+	return String(error?.message ?? error).includes('Operation was cancelled');
+}
+
+// Batched payloads yield one row per frame, each with its own timestamp
+export function decodeNotification(bytes: Uint8Array, fmt: PayloadFormat, arrivalMs: number): DecodedPacket {
+	const rows = decodePacket(bytes, fmt, arrivalMs);
+	if (!fmt.sequence) return { rows };
+	return { rows, seq: readSequence(bytes, fmt.sequence), seqBits: SEQUENCE_BITS[fmt.sequence.type] };
+}
+
+export async function sendProfileCommand(device: TransportDevice, prof: DeviceProfile, bytes?: number[]) {
+	if (!bytes?.length) return;
+	const svc = prof.commandService ?? prof.dataService;
+	const chr = prof.commandCharacteristic;
+	if (!chr) {
+		logger.warn('app', `Profile ${prof.id} declares a command but no commandCharacteristic`);
+		return;
+	}
+	await writeBytes(device, { service: svc, characteristic: chr }, new Uint8Array(bytes));
+	logger.info('gatt', `Sent profile command ${bytes.map(b => b.toString(16).padStart(2, '0')).join(' ')} to ${chr}`);
+}
+
+export function monitorData(
+	device: TransportDevice,
+	source: GattRef,
+	onPacket: (bytes: Uint8Array, arrivalMs: number) => void,
+	onError: (message: string) => void,
+): Subscription {
+	return device.monitorCharacteristicForService(source.service, source.characteristic, (error, characteristic) => {
+		if (error) {
+			if (isCancelled(error)) return;
+			logger.error('gatt', 'Monitor error', error);
+			onError(String(error?.message ?? error));
+			return;
+		}
+		if (characteristic?.value) onPacket(base64ToBytes(characteristic.value), Date.now());
+	});
+}
+
+// A picked data source replaces the profile's data characteristic; the profile's start command is still sent
+export async function subscribeToProfile(
+	device: TransportDevice,
+	prof: DeviceProfile,
+	source: GattRef | null,
+	onPacket: (bytes: Uint8Array, arrivalMs: number) => void,
+	onError: (message: string) => void,
+): Promise<Subscription> {
+	const target = source ?? { service: prof.dataService, characteristic: prof.dataCharacteristic };
+	logger.info('gatt', `Subscribing to ${target.characteristic} ${source ? 'picked in the GATT explorer' : `from profile "${prof.label}"`}`);
+	const subscription = monitorData(device, target, onPacket, onError);
+	try {
+		await sendProfileCommand(device, prof, prof.startCommand);
+	} catch (e) {
+		subscription.remove();
+		throw e;
+	}
+	return subscription;
+}
+
+// Notifiable characteristics outside the standard services, best first
+export async function notifyCandidates(device: TransportDevice): Promise<NotifyCandidate[]> {
+	const candidates: NotifyCandidate[] = [];
+	for (const service of await device.services()) {
+		if (STANDARD_SERVICES.some(s => service.uuid.toLowerCase().includes(s))) continue;
+		let chars: TransportCharacteristic[];
+		try {
+			chars = await device.characteristicsForService(service.uuid);
+		} catch {
+			continue;
+		}
+		const hasWritable = chars.some(c => c.isWritableWithResponse || c.isWritableWithoutResponse);
+		for (const c of chars) {
+			if (!c.isNotifiable && !c.isIndicatable) continue;
+			const u = c.uuid.toLowerCase();
+			if (SYSTEM_CHARACTERISTICS.some(s => u.includes(s))) continue;
+			let score = hasWritable ? 2 : 0;
+			// Prefer vendor-specific or common sensor notifications
+			if (u.includes('ff') || u.includes('fe') || u.includes('2a37')) score += 1;
+			candidates.push({ service: service.uuid, characteristic: c.uuid, score, chars });
+		}
+	}
+	return candidates.sort((a, b) => b.score - a.score);
+}
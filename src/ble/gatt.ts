@@ -0,0 +1,203 @@
+import { logger } from '../logging/logger';
+import { base64ToBytes, bytesToBase64 } from '../utils/base64';
+import { fullUuid } from './scanFilter';
+import { TransportCharacteristic, TransportDevice } from './transport';
+
+// Identifies one characteristic on the connected device
+export type GattRef = {
+	service: string;
+	characteristic: string;
+};
+
+export type GattProperties = {
+	read: boolean;
+	write: boolean;
+	writeWithoutResponse: boolean;
+	notify: boolean;
+	indicate: boolean;
+};
+
+export type GattDescriptorInfo = {
+	uuid: string;
+	value: Uint8Array | null;
+};
+
+export type GattCharacteristicInfo = {
+	uuid: string;
+	properties: GattProperties;
+	descriptors: GattDescriptorInfo[];
+};
+
+export type GattServiceInfo = {
+	uuid: string;
+	characteristics: GattCharacteristicInfo[];
+};
+
+export type NumberView = {
+	label: string;
+	values: number[];
+};
+
+// Names of the assigned numbers a field user is most likely to meet
+const KNOWN_UUIDS: Record<string, string> = {
+	'1800': 'Generic Access',
+	'1801': 'Generic Attribute',
+	'180a': 'Device Information',
+	'180d': 'Heart Rate',
+	'180f': 'Battery',
+	'1812': 'Human Interface Device',
+	'2a00': 'Device Name',
+	'2a01': 'Appearance',
+	'2a04': 'Connection Parameters',
+	'2a05': 'Service Changed',
+	'2a19': 'Battery Level',
+	'2a24': 'Model Number',
+	'2a25': 'Serial Number',
+	'2a26': 'Firmware Revision',
+	'2a27': 'Hardware Revision',
+	'2a28': 'Software Revision',
+	'2a29': 'Manufacturer Name',
+	'2a37': 'Heart Rate Measurement',
+	'2900': 'Extended Properties',
+	'2901': 'User Description',
+	'2902': 'Client Characteristic Configuration',
+	'2904': 'Presentation Format',
+};
+
+const BASE_UUID_SUFFIX = '-0000-1000-8000-00805f9b34fb';
+
+export function gattRefKey(ref: GattRef): string {
+	return `${fullUuid(ref.service)}/${fullUuid(ref.characteristic)}`;
+}
+
+export function sameGattRef(a: GattRef | null, b: GattRef | null): boolean {
+	return !!a && !!b && gattRefKey(a) === gattRefKey(b);
+}
+
+// Assigned name of a standard UUID, or null for vendor UUIDs
+export function gattName(uuid: string): string | null {
+	const full = fullUuid(uuid);
+	if (!full.startsWith('0000') || !full.endsWith(BASE_UUID_SUFFIX)) return null;
+	return KNOWN_UUIDS[full.slice(4, 8)] ?? null;
+}
+
+// 16-bit form for standard UUIDs, which is how they're usually quoted
+export function shortUuid(uuid: string): string {
+	const full = fullUuid(uuid);
+	return full.startsWith('0000') && full.endsWith(BASE_UUID_SUFFIX) ? full.slice(4, 8) : full;
+}
+
+// "Battery Level (2a19)" for standard UUIDs, the short or full UUID otherwise
+export function gattLabel(uuid: string): string {
+	const name = gattName(uuid);
+	return name ? `${name} (${shortUuid(uuid)})` : shortUuid(uuid);
+}
+
+export function propertiesOf(c: TransportCharacteristic): GattProperties {
+	return {
+		read: c.isReadable,
+		write: c.isWritableWithResponse,
+		writeWithoutResponse: c.isWritableWithoutResponse,
+		notify: c.isNotifiable,
+		indicate: c.isIndicatable,
+	};
+}
+
+export function propertiesLabel(p: GattProperties): string {
+	const parts = [p.read && 'read', p.write && 'write', p.writeWithoutResponse && 'write w/o response', p.notify && 'notify', p.indicate && 'indicate'];
+	return parts.filter(Boolean).join(' • ') || 'no properties';
+}
+
+// Services, characteristics and descriptors with the descriptors' values; a failing part is left empty
+export async function loadGattTree(device: TransportDevice): Promise<GattServiceInfo[]> {
+	await device.discoverAllServicesAndCharacteristics();
+	const tree: GattServiceInfo[] = [];
+	for (const s of await device.services()) {
+		let chars: TransportCharacteristic[] = [];
+		try {
+			chars = await device.characteristicsForService(s.uuid);
+		} catch (e) {
+			logger.warn('gatt', `Could not list characteristics of ${s.uuid}`, e);
+		}
+		const characteristics: GattCharacteristicInfo[] = [];
+		for (const c of chars) {
+			let descriptors: GattDescriptorInfo[] = [];
+			try {
+				descriptors = (await device.descriptorsForService(s.uuid, c.uuid)).map(d => ({
+					uuid: d.uuid,
+					value: d.value ? base64ToBytes(d.value) : null,
+				}));
+			} catch (e) {
+				logger.warn('gatt', `Could not list descriptors of ${c.uuid}`, e);
+			}
+			characteristics.push({ uuid: c.uuid, properties: propertiesOf(c), descriptors });
+		}
+		tree.push({ uuid: s.uuid, characteristics });
+	}
+	return tree;
+}
+
+// Writes with response unless the characteristic only takes writes without
+export async function writeBytes(device: TransportDevice, ref: GattRef, bytes: Uint8Array): Promise<void> {
+	const chars = await device.characteristicsForService(ref.service);
+	const target = chars.find(c => fullUuid(c.uuid) === fullUuid(ref.characteristic));
+	if (!target) throw new Error(`Characteristic ${ref.characteristic} not found`);
+	const b64 = bytesToBase64(bytes);
+	if (target.isWritableWithoutResponse && !target.isWritableWithResponse) {
+		await device.writeCharacteristicWithoutResponseForService(ref.service, target.uuid, b64);
+	} else {
+		await device.writeCharacteristicWithResponseForService(ref.service, target.uuid, b64);
+	}
+}
+
+export function toHex(bytes: Uint8Array): string {
+	return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join(' ');
+}
+
+// Printable ASCII as is, anything else as a dot
+export function toAscii(bytes: Uint8Array): string {
+	return Array.from(bytes, b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+}
+
+// Accepts "01 02 ff", "0102FF", "0x01,0x02" and similar
+export function parseHex(text: string): Uint8Array {
+	const digits = text.replace(/0x/gi, '').replace(/[\s,:;-]/g, '');
+	if (!/^[0-9a-f]*$/i.test(digits)) throw new Error(`Invalid hex: "${text}"`);
+	if (digits.length % 2) throw new Error('Hex needs two digits per byte');
+	const bytes = new Uint8Array(digits.length / 2);
+	for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+	return bytes;
+}
+
+export function utf8Bytes(text: string): Uint8Array {
+	const out: number[] = [];
+	for (const ch of text) {
+		const cp = ch.codePointAt(0)!;
+		if (cp < 0x80) out.push(cp);
+		else if (cp < 0x800) out.push(0xc0 | (cp >> 6), 0x80 | (cp & 0x3f));
+		else if (cp < 0x10000) out.push(0xe0 | (cp >> 12), 0x80 | ((cp >> 6) & 0x3f), 0x80 | (cp & 0x3f));
+		else out.push(0xf0 | (cp >> 18), 0x80 | ((cp >> 12) & 0x3f), 0x80 | ((cp >> 6) & 0x3f), 0x80 | (cp & 0x3f));
+	}
+	return new Uint8Array(out);
+}
+
+const VIEWS: Array<{ label: string; size: number; read: (dv: DataView, i: number) => number }> = [
+	{ label: 'uint8', size: 1, read: (dv, i) => dv.getUint8(i) },
+	{ label: 'int8', size: 1, read: (dv, i) => dv.getInt8(i) },
+	{ label: 'int16 LE', size: 2, read: (dv, i) => dv.getInt16(i, true) },
+	{ label: 'int16 BE', size: 2, read: (dv, i) => dv.getInt16(i, false) },
+	{ label: 'uint16 LE', size: 2, read: (dv, i) => dv.getUint16(i, true) },
+	{ label: 'int32 LE', size: 4, read: (dv, i) => dv.getInt32(i, true) },
+	{ label: 'uint32 LE', size: 4, read: (dv, i) => dv.getUint32(i, true) },
+	{ label: 'float32 LE', size: 4, read: (dv, i) => dv.getFloat32(i, true) },
+];
+
+// The value read as each common field type, from offset 0 in steps of the field size
+export function numberViews(bytes: Uint8Array): NumberView[] {
+	const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	return VIEWS.filter(v => bytes.length >= v.size).map(v => {
+		const values: number[] = [];
+		for (let i = 0; i + v.size <= bytes.length; i += v.size) values.push(v.read(dv, i));
+		return { label: v.label, values };
+	});
+}
@@ -0,0 +1,147 @@
+import { PayloadFormat } from '../decoder/payloadFormat';
+import { FilterSpec } from '../filters/filterChain';
+import { logger } from '../logging/logger';
+import { GattRef } from './gatt';
+import { documentPath, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+
+// Restored when the device connects again; calibration is kept separately per device id
+export type DeviceSettings = {
+	// Payload format picked by hand; a matching device profile takes precedence
+	format: PayloadFormat | null;
+	filters: FilterSpec[];
+	// Start notifications as soon as the device is connected
+	autoStream: boolean;
+	// Characteristic picked in the GATT explorer to stream from, instead of the profile's or auto-discovery
+	dataSource: GattRef | null;
+	// Save every notification payload with recordings so they can be re-decoded later
+	rawCapture: boolean;
+};
+
+export type KnownDevice = {
+	id: string;
+	// Advertised name at the last connection
+	name: string;
+	nickname: string | null;
+	lastConnectedAt: number;
+	favorite: boolean;
+	// Decoder label for tags read from their advertisements; null for connectable devices
+	broadcastDecoder: string | null;
+	settings: DeviceSettings;
+};
+
+// What the user can change on a known device
+export type KnownDevicePatch = Partial<Pick<KnownDevice, 'nickname' | 'favorite'>> & { settings?: Partial<DeviceSettings> };
+
+export type AutoConnectMode = 'off' | 'last' | 'favorite';
+
+export type KnownDevicesStore = {
+	autoConnect: AutoConnectMode;
+	devices: Record<string, KnownDevice>;
+};
+
+export const AUTO_CONNECT_MODES: Array<{ key: AutoConnectMode; label: string }> = [
+	{ key: 'off', label: 'Off' },
+	{ key: 'last', label: 'Last device' },
+	{ key: 'favorite', label: 'Favorite' },
+];
+
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = { format: null, filters: [], autoStream: false, dataSource: null, rawCapture: false };
+
+export const EMPTY_KNOWN_DEVICES: KnownDevicesStore = { autoConnect: 'off', devices: {} };
+
+export const KNOWN_DEVICES_PATH = documentPath('known_devices.json');
+
+export function knownLabel(device: KnownDevice): string {
+	return device.nickname || device.name;
+}
+
+// Most recently connected first, favorites ahead of the rest
+export function knownDeviceList(store: KnownDevicesStore): KnownDevice[] {
+	return Object.values(store.devices).sort((a, b) => Number(b.favorite) - Number(a.favorite) || b.lastConnectedAt - a.lastConnectedAt);
+}
+
+export function rememberConnection(
+	store: KnownDevicesStore,
+	device: { id: string; name: string; broadcastDecoder?: string | null },
+	now: number = Date.now(),
+): KnownDevicesStore {
+	const previous = store.devices[device.id];
+	const next: KnownDevice = {
+		nickname: previous?.nickname ?? null,
+		favorite: previous?.favorite ?? false,
+		settings: previous?.settings ?? DEFAULT_DEVICE_SETTINGS,
+		id: device.id,
+		name: device.name,
+		broadcastDecoder: device.broadcastDecoder ?? null,
+		lastConnectedAt: now,
+	};
+	return { ...store, devices: { ...store.devices, [device.id]: next } };
+}
+
+export function updateKnownDevice(
+	store: KnownDevicesStore,
+	id: string,
+	patch: KnownDevicePatch,
+): KnownDevicesStore {
+	const device = store.devices[id];
+	if (!device) return store;
+	const next = { ...device, ...patch, settings: { ...device.settings, ...patch.settings } };
+	const devices = { ...store.devices, [id]: next };
+	// One favorite at a time, so auto-connect knows which to pick
+	if (patch.favorite) {
+		for (const other of Object.values(devices)) {
+			if (other.id !== id && other.favorite) devices[other.id] = { ...other, favorite: false };
+		}
+	}
+	return { ...store, devices };
+}
+
+export function forgetDevice(store: KnownDevicesStore, id: string): KnownDevicesStore {
+	const devices = { ...store.devices };
+	delete devices[id];
+	return { ...store, devices };
+}
+
+// Device to connect to at launch, if any
+export function autoConnectTarget(store: KnownDevicesStore): KnownDevice | null {
+	const list = Object.values(store.devices);
+	switch (store.autoConnect) {
+		case 'off':
+			return null;
+		case 'last':
+			return list.reduce<KnownDevice | null>((best, d) => (!best || d.lastConnectedAt > best.lastConnectedAt ? d : best), null);
+		case 'favorite':
+			return list.find(d => d.favorite) ?? null;
+	}
+}
+
+function isValidKnownDevice(d: any): d is KnownDevice {
+	return (
+		!!d &&
+		typeof d.id === 'string' &&
+		typeof d.name === 'string' &&
+		typeof d.lastConnectedAt === 'number' &&
+		!!d.settings &&
+		Array.isArray(d.settings.filters)
+	);
+}
+
+export async function loadKnownDevices(): Promise<KnownDevicesStore> {
+	const raw = await readJsonFile<any>(KNOWN_DEVICES_PATH, null);
+	if (raw === null) return EMPTY_KNOWN_DEVICES;
+	if (typeof raw !== 'object' || typeof raw.devices !== 'object' || !AUTO_CONNECT_MODES.some(m => m.key === raw.autoConnect)) {
+		logger.warn('app', 'known_devices.json is invalid, using defaults');
+		return EMPTY_KNOWN_DEVICES;
+	}
+	const devices: Record<string, KnownDevice> = {};
+	for (const [id, d] of Object.entries(raw.devices ?? {})) {
+		// Settings added since the file was written take their defaults
+		if (isValidKnownDevice(d)) devices[id] = { ...d, settings: { ...DEFAULT_DEVICE_SETTINGS, ...d.settings } };
+		else logger.warn('app', `Ignored invalid known device ${id}`);
+	}
+	return { autoConnect: raw.autoConnect, devices };
+}
+
+export async function saveKnownDevices(store: KnownDevicesStore): Promise<void> {
+	await writeJsonFile(KNOWN_DEVICES_PATH, store);
+}
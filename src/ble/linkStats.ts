@@ -0,0 +1,124 @@
+export type LinkStats = {
+	received: number;
+	dropped: number;
+	duplicated: number;
+	outOfOrder: number;
+	samples: number;
+	// Samples per second over the last RATE_WINDOW_MS
+	sampleRateHz: number;
+	meanIntervalMs: number;
+	jitterMs: number;
+	rssi: number | null;
+	startedAt: number | null;
+	lastPacketAt: number | null;
+};
+
+const RATE_WINDOW_MS = 5000;
+// Remembered sequence numbers, used to tell duplicates from late packets
+const RECENT_SEQUENCES = 64;
+// EWMA gain for the inter-arrival mean and jitter, as in RFC 3550
+const JITTER_GAIN = 1 / 16;
+
+export function emptyLinkStats(): LinkStats {
+	return {
+		received: 0,
+		dropped: 0,
+		duplicated: 0,
+		outOfOrder: 0,
+		samples: 0,
+		sampleRateHz: 0,
+		meanIntervalMs: 0,
+		jitterMs: 0,
+		rssi: null,
+		startedAt: null,
+		lastPacketAt: null,
+	};
+}
+
+export class LinkStatsTracker {
+	private stats = emptyLinkStats();
+	private expectedSeq: number | null = null;
+	private recentSeqs: number[] = [];
+	private window: Array<{ t: number; n: number }> = [];
+	private windowSamples = 0;
+
+	reset() {
+		this.stats = emptyLinkStats();
+		this.expectedSeq = null;
+		this.recentSeqs = [];
+		this.window = [];
+		this.windowSamples = 0;
+	}
+
+	/**
+	 * Records one notification. `seq` is the decoded packet counter when the format
+	 * declares one, and `seqBits` its width so wrap-around is handled.
+	 */
+	onPacket(arrivalMs: number, sampleCount: number, seq?: number, seqBits: number = 32) {
+		const s = this.stats;
+		s.received++;
+		s.samples += sampleCount;
+		if (s.startedAt === null) s.startedAt = arrivalMs;
+
+		if (s.lastPacketAt !== null) {
+			const interval = arrivalMs - s.lastPacketAt;
+			if (s.received === 2) {
+				s.meanIntervalMs = interval;
+			} else {
+				s.jitterMs += (Math.abs(interval - s.meanIntervalMs) - s.jitterMs) * JITTER_GAIN;
+				s.meanIntervalMs += (interval - s.meanIntervalMs) * JITTER_GAIN;
+			}
+		}
+		s.lastPacketAt = arrivalMs;
+
+		this.window.push({ t: arrivalMs, n: sampleCount });
+		this.windowSamples += sampleCount;
+		while (this.window.length > 1 && arrivalMs - this.window[0].t > RATE_WINDOW_MS) {
+			this.windowSamples -= this.window.shift()!.n;
+		}
+		const span = arrivalMs - this.window[0].t;
+		// The oldest packet marks the window start, so its samples are not part of the rate
+		s.sampleRateHz = span > 0 ? ((this.windowSamples - this.window[0].n) * 1000) / span : 0;
+
+		if (seq !== undefined) this.trackSequence(seq, seqBits);
+	}
+
+	setRssi(rssi: number | null) {
+		this.stats.rssi = rssi;
+	}
+
+	snapshot(): LinkStats {
+		return { ...this.stats };
+	}
+
+	private trackSequence(seq: number, bits: number) {
+		const s = this.stats;
+		const modulus = 2 ** bits;
+		if (this.recentSeqs.includes(seq)) {
+			s.duplicated++;
+			return;
+		}
+		this.recentSeqs.push(seq);
+		if (this.recentSeqs.length > RECENT_SEQUENCES) this.recentSeqs.shift();
+
+		if (this.expectedSeq === null) {
+			this.expectedSeq = (seq + 1) % modulus;
+			return;
+		}
+		const ahead = (seq - this.expectedSeq + modulus) % modulus;
+		if (ahead < modulus / 2) {
+			// Everything between the expected and the received counter went missing
+			s.dropped += ahead;
+			this.expectedSeq = (seq + 1) % modulus;
+		} else {
+			// A late packet that was already counted as dropped
+			s.outOfOrder++;
+			if (s.dropped > 0) s.dropped--;
+		}
+	}
+}
+
+export function lossPercent(stats: LinkStats): number {
+	const expected = stats.received - stats.duplicated + stats.dropped;
+	return expected > 0 ? (stats.dropped / expected) * 100 : 0;
+}
@@ -0,0 +1,7 @@
+import { BleManager } from 'react-native-ble-plx';
+import { BleTransport } from './transport';
+
+// The real radio; there should be one per app
+export function plxTransport(): BleTransport {
+	return new BleManager();
+}
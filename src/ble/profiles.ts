@@ -0,0 +1,99 @@
+import { isValidFormat, PayloadFormat } from '../decoder/payloadFormat';
+import { logger } from '../logging/logger';
+import { documentPath, readJsonFile } from '../utils/jsonFile';
+
+export type DeviceProfile = {
+	id: string;
+	label: string;
+	// A profile matches when any of the declared matchers matches the device
+	match: {
+		namePrefix?: string;
+		nameRegex?: string;
+		serviceUuids?: string[];
+	};
+	dataService: string;
+	dataCharacteristic: string;
+	// Defaults to the data service when omitted
+	commandService?: string;
+	commandCharacteristic?: string;
+	startCommand?: number[];
+	stopCommand?: number[];
+	format: PayloadFormat;
+};
+
+export type ProfileMatchInput = {
+	name?: string | null;
+	serviceUuids?: string[] | null;
+};
+
+export const BUILTIN_PROFILES: DeviceProfile[] = [
+	{
+		id: 'microbit',
+		label: 'BBC micro:bit',
+		match: { namePrefix: 'BBC micro:bit' },
+		dataService: 'e95d0753-251d-470a-a062-fa1922dfa9a8',
+		dataCharacteristic: 'e95dca4b-251d-470a-a062-fa1922dfa9a8',
+		format: { type: 'int16', endianness: 'little', offset: 0, axisOrder: ['x', 'y', 'z'], scale: 1, units: 'mg' },
+	},
+];
+
+// Team-maintained profiles live next to the recordings so they can be edited without a new build
+export const PROFILES_PATH = documentPath('device_profiles.json');
+
+function normalizeUuid(uuid: string): string {
+	return uuid.toLowerCase();
+}
+
+function isValidProfile(p: any): p is DeviceProfile {
+	return (
+		!!p &&
+		typeof p.id === 'string' &&
+		typeof p.label === 'string' &&
+		typeof p.match === 'object' &&
+		typeof p.dataService === 'string' &&
+		typeof p.dataCharacteristic === 'string' &&
+		isValidFormat(p.format)
+	);
+}
+
+export async function loadUserProfiles(): Promise<DeviceProfile[]> {
+	const raw = await readJsonFile<unknown>(PROFILES_PATH, []);
+	if (!Array.isArray(raw)) {
+		logger.warn('app', 'device_profiles.json must contain an array of profiles');
+		return [];
+	}
+	const valid = raw.filter(isValidProfile);
+	if (valid.length !== raw.length) {
+		logger.warn('app', `Ignored ${raw.length - valid.length} invalid device profile(s)`);
+	}
+	return valid;
+}
+
+// User profiles override built-in ones with the same id and are matched first
+export async function loadProfiles(): Promise<DeviceProfile[]> {
+	const user = await loadUserProfiles();
+	const userIds = new Set(user.map(p => p.id));
+	return [...user, ...BUILTIN_PROFILES.filter(p => !userIds.has(p.id))];
+}
+
+export function profileMatches(profile: DeviceProfile, input: ProfileMatchInput): boolean {
+	const { namePrefix, nameRegex, serviceUuids } = profile.match;
+	const name = input.name ?? '';
+	if (namePrefix && name.startsWith(namePrefix)) return true;
+	if (nameRegex) {
+		try {
+			if (new RegExp(nameRegex).test(name)) return true;
+		} catch {
+			logger.warn('app', `Invalid nameRegex in profile ${profile.id}`);
+		}
+	}
+	if (serviceUuids?.length && input.serviceUuids?.length) {
+		const advertised = input.serviceUuids.map(normalizeUuid);
+		if (serviceUuids.some(u => advertised.includes(normalizeUuid(u)))) return true;
+	}
+	return false;
+}
+
+export function findProfile(profiles: DeviceProfile[], input: ProfileMatchInput): DeviceProfile | null {
+	return profiles.find(p => profileMatches(p, input)) ?? null;
+}
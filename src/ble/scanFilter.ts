@@ -0,0 +1,111 @@
+import { logger } from '../logging/logger';
+import { documentPath, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+
+export type ScanSettings = {
+	// Name prefix, or a regular expression when useRegex is set; empty shows every name
+	namePattern: string;
+	useRegex: boolean;
+	// Advertised service UUID, full or 16-bit short form; empty accepts any
+	serviceUuid: string;
+	minRssi: number | null;
+	// Lists only tags whose adverts carry decodable acceleration
+	broadcastOnly: boolean;
+	// Null scans until stopped
+	durationS: number | null;
+};
+
+// What the scanner tracks for each advertising device
+export type ScanAdvertisement = {
+	name: string;
+	rssi?: number | null;
+	serviceUUIDs?: string[] | null;
+	lastSeen?: number;
+	broadcast?: unknown;
+};
+
+export const SCAN_DURATIONS_S = [5, 10, 15, 30, 60];
+// Devices not heard from for this long are dropped from the list while scanning
+export const STALE_AFTER_MS = 10000;
+
+export const DEFAULT_SCAN_SETTINGS: ScanSettings = {
+	namePattern: '',
+	useRegex: false,
+	serviceUuid: '',
+	minRssi: null,
+	broadcastOnly: false,
+	durationS: 15,
+};
+
+export const SCAN_SETTINGS_PATH = documentPath('scan_settings.json');
+
+// Expands 16-bit short UUIDs (as iOS reports them) to the Bluetooth base UUID form
+export function fullUuid(uuid: string): string {
+	const u = uuid.trim().toLowerCase();
+	return /^[0-9a-f]{4}$/.test(u) ? `0000${u}-0000-1000-8000-00805f9b34fb` : u;
+}
+
+export function uuidMatches(advertised: string, wanted: string): boolean {
+	return fullUuid(advertised) === fullUuid(wanted);
+}
+
+// Builds the predicate for the settings; throws when the regular expression doesn't compile
+export function compileScanFilter(settings: ScanSettings): (adv: ScanAdvertisement) => boolean {
+	const pattern = settings.namePattern.trim();
+	let matchName: (name: string) => boolean = () => true;
+	if (pattern && settings.useRegex) {
+		let re: RegExp;
+		try {
+			re = new RegExp(pattern, 'i');
+		} catch (e: any) {
+			throw new Error(`Invalid name pattern: ${e?.message ?? String(e)}`);
+		}
+		matchName = name => re.test(name);
+	} else if (pattern) {
+		const prefix = pattern.toLowerCase();
+		matchName = name => name.toLowerCase().startsWith(prefix);
+	}
+	const uuid = settings.serviceUuid.trim();
+	return adv => {
+		if (!matchName(adv.name)) return false;
+		if (uuid && !(adv.serviceUUIDs ?? []).some(u => uuidMatches(u, uuid))) return false;
+		if (settings.minRssi !== null && (adv.rssi ?? -Infinity) < settings.minRssi) return false;
+		if (settings.broadcastOnly && !adv.broadcast) return false;
+		return true;
+	};
+}
+
+// Strongest signal first; devices without an RSSI go last
+export function sortByRssi<T extends ScanAdvertisement>(devices: T[]): T[] {
+	return [...devices].sort((a, b) => (b.rssi ?? -Infinity) - (a.rssi ?? -Infinity));
+}
+
+export function isStale(adv: ScanAdvertisement, now: number): boolean {
+	return adv.lastSeen !== undefined && now - adv.lastSeen > STALE_AFTER_MS;
+}
+
+function isValidSettings(s: any): s is ScanSettings {
+	return (
+		!!s &&
+		typeof s.namePattern === 'string' &&
+		typeof s.useRegex === 'boolean' &&
+		typeof s.serviceUuid === 'string' &&
+		(s.minRssi === null || typeof s.minRssi === 'number') &&
+		(s.broadcastOnly === undefined || typeof s.broadcastOnly === 'boolean') &&
+		(s.durationS === null || typeof s.durationS === 'number')
+	);
+}
+
+export async function loadScanSettings(): Promise<ScanSettings> {
+	const raw = await readJsonFile<unknown>(SCAN_SETTINGS_PATH, null);
+	if (raw === null) return DEFAULT_SCAN_SETTINGS;
+	if (!isValidSettings(raw)) {
+		logger.warn('app', 'scan_settings.json is invalid, using defaults');
+		return DEFAULT_SCAN_SETTINGS;
+	}
+	// Files saved before a setting existed get its default
+	return { ...DEFAULT_SCAN_SETTINGS, ...raw };
+}
+
+export async function saveScanSettings(settings: ScanSettings): Promise<void> {
+	await writeJsonFile(SCAN_SETTINGS_PATH, settings);
+}
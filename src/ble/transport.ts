@@ -0,0 +1,64 @@
+/**
+ * The part of the BLE stack the app uses. App receives one at startup: plxTransport() on a
+ * phone, FakeTransport in tests. The shapes follow react-native-ble-plx, whose BleManager
+ * and Device satisfy them as they are; values are base64 strings as in ble-plx.
+ */
+
+export type Subscription = { remove: () => void };
+
+export type TransportError = { message: string };
+
+export type TransportService = { uuid: string };
+
+export type TransportCharacteristic = {
+	uuid: string;
+	serviceUUID: string;
+	value: string | null;
+	isReadable: boolean;
+	isWritableWithResponse: boolean;
+	isWritableWithoutResponse: boolean;
+	isNotifiable: boolean;
+	isIndicatable: boolean;
+};
+
+export type TransportDescriptor = {
+	uuid: string;
+	value: string | null;
+};
+
+export type CharacteristicListener = (error: TransportError | null, characteristic: TransportCharacteristic | null) => void;
+
+export interface TransportDevice {
+	id: string;
+	name: string | null;
+	localName: string | null;
+	rssi: number | null;
+	serviceUUIDs: string[] | null;
+	manufacturerData: string | null;
+	serviceData: { [uuid: string]: string } | null;
+	discoverAllServicesAndCharacteristics(): Promise<TransportDevice>;
+	services(): Promise<TransportService[]>;
+	characteristicsForService(serviceUUID: string): Promise<TransportCharacteristic[]>;
+	descriptorsForService(serviceUUID: string, characteristicUUID: string): Promise<TransportDescriptor[]>;
+	readCharacteristicForService(serviceUUID: string, characteristicUUID: string): Promise<TransportCharacteristic>;
+	writeCharacteristicWithResponseForService(serviceUUID: string, characteristicUUID: string, base64Value: string): Promise<unknown>;
+	writeCharacteristicWithoutResponseForService(serviceUUID: string, characteristicUUID: string, base64Value: string): Promise<unknown>;
+	monitorCharacteristicForService(serviceUUID: string, characteristicUUID: string, listener: CharacteristicListener): Subscription;
+	readRSSI(): Promise<TransportDevice>;
+	// Android only; other platforms may leave them out
+	requestMTU?(mtu: number): Promise<TransportDevice>;
+	requestConnectionPriority?(priority: number): Promise<TransportDevice>;
+}
+
+export type DeviceListener = (error: TransportError | null, device: TransportDevice | null) => void;
+
+export interface BleTransport {
+	// 'PoweredOn' when the radio can be used
+	state(): Promise<string>;
+	onStateChange(listener: (state: string) => void, emitCurrentState?: boolean): Subscription;
+	startDeviceScan(uuids: string[] | null, options: { allowDuplicates?: boolean } | null, listener: DeviceListener): unknown;
+	stopDeviceScan(): unknown;
+	connectToDevice(id: string, options?: { autoConnect?: boolean }): Promise<TransportDevice>;
+	cancelDeviceConnection(id: string): Promise<unknown>;
+	onDeviceDisconnected(id: string, listener: DeviceListener): Subscription;
+}
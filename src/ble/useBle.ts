@@ -1,75 +1,633 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { PermissionsAndroid, Platform, Share } from 'react-native';
-import { BleManager, Device } from 'react-native-ble-plx';
-import RNFS from 'react-native-fs';
+import { PermissionsAndroid, Platform } from 'react-native';
 import { base64ToBytes, bytesToBase64 } from '../utils/base64';
-
-const manager = new BleManager();
+import { SampleRing } from '../utils/SampleRing';
+import { CSV_COLUMNS, EMPTY_RECORDING_SUMMARY, RecordingSummary, StreamRecorder } from '../recorder/StreamRecorder';
+import { CAPTURE_FILE, PacketCapture } from '../recorder/PacketCapture';
+import {
+	DEFAULT_TRIGGER_SETTINGS,
+	loadTriggerSettings,
+	saveTriggerSettings,
+	triggerLabel,
+	TriggerRecorder,
+	TriggerSettings,
+	TriggerStatus,
+} from '../recorder/TriggerRecorder';
+import {
+	addSpectrumSnapshot,
+	deleteSession,
+	deviceFileName,
+	newSession,
+	saveSession,
+	sessionDataPath,
+	sessionFilePath,
+	SESSION_LOG_FILE,
+	SessionMeta,
+} from '../sessions/sessionStore';
+import { EXPORT_FORMATS, ExportFormat, exportSession, shareFile } from '../export/exporters';
+import { FormatProposal, proposeFormat } from '../decoder/autoDetect';
+import { Accel, AccelRow, formatLabel, isValidFormat, PayloadFormat } from '../decoder/payloadFormat';
+import { emptyLinkStats, LinkStats, LinkStatsTracker } from './linkStats';
+import { DeviceProfile, findProfile, loadProfiles } from './profiles';
+import { GattRef, gattRefKey, toHex } from './gatt';
+import {
+	decodeNotification,
+	isCancelled,
+	monitorData,
+	NotifyCandidate,
+	notifyCandidates,
+	sendProfileCommand,
+	subscribeToProfile,
+} from './dataStream';
+import { LinkedDevice, LinkedDeviceStatus } from './LinkedDevice';
+import { AdvertListener } from './AdvertListener';
+import { BleTransport, TransportDevice } from './transport';
+import {
+	ConnectionEvent,
+	ConnectionState,
+	DEFAULT_RECONNECT_POLICY,
+	IDLE,
+	loadReconnectPolicy,
+	ReconnectPolicy,
+	reconnectDelay,
+	saveReconnectPolicy,
+	transition,
+} from './connectionMachine';
+import {
+	AutoConnectMode,
+	autoConnectTarget,
+	DeviceSettings,
+	EMPTY_KNOWN_DEVICES,
+	forgetDevice,
+	KnownDevice,
+	knownDeviceList,
+	KnownDevicePatch,
+	KnownDevicesStore,
+	knownLabel,
+	loadKnownDevices,
+	rememberConnection,
+	saveKnownDevices,
+	updateKnownDevice,
+} from './knownDevices';
+import { loadAdvertDecoders } from '../decoder/advertDecoders';
+import {
+	compileScanFilter,
+	DEFAULT_SCAN_SETTINGS,
+	isStale,
+	loadScanSettings,
+	saveScanSettings,
+	ScanSettings,
+	sortByRssi,
+} from './scanFilter';
+import { ReplayPlayer, ReplayStatus } from '../replay/ReplayPlayer';
+import { ReplaySource } from '../replay/replaySources';
+import {
+	DEFAULT_GENERATOR,
+	GENERATOR_SEQ_BITS,
+	GeneratorSettings,
+	loadGenerators,
+	saveGenerators,
+	SignalGenerator,
+} from '../generator/signalGenerator';
+import {
+	applyCalibration,
+	Calibration,
+	deleteCalibration,
+	loadCalibration,
+	PoseCapture,
+	RAW_COLUMNS,
+	saveCalibration,
+} from '../calibration/calibration';
+import { FilterChain, FilterSpec } from '../filters/filterChain';
+import {
+	computeVibration,
+	DEFAULT_VIBRATION_SETTINGS,
+	loadVibrationSettings,
+	saveVibrationSettings,
+	VibrationSettings,
+	VibrationSnapshot,
+	VibrationSummaryTracker,
+} from '../metrics/vibration';
+import { Spectrum, SpectrumSnapshotInfo } from '../spectrum/spectrum';
+import { logger, writeLogFile } from '../logging/logger';
 
 export type UiDevice = {
 	id: string;
 	name: string;
 	isSample?: boolean;
-	device?: Device;
+	device?: TransportDevice;
+	// Virtual device that plays back a recorded CSV
+	replay?: ReplaySource;
+	// Virtual device producing configured waveforms and faults
+	generator?: GeneratorSettings;
+	// Latest advertisement of a scanned device
+	rssi?: number | null;
+	lastSeen?: number;
+	// Set for tags that broadcast their readings in adverts; they are listened to, not connected
+	broadcast?: BroadcastInfo;
+	// From the known-devices store
+	nickname?: string | null;
+	known?: boolean;
+};
+
+export type BroadcastInfo = {
+	decoder: string;
+	// Latest reading, once the tag has been heard in this scan
+	accel?: Accel;
+	extra?: Record<string, number>;
 };
 
-export type Accel = { x: number; y: number; z: number };
-export type AccelRow = { t: number; x: number; y: number; z: number };
+// Entry for a remembered device that hasn't been seen in a scan yet; connecting goes by its id
+function knownUiDevice(known: KnownDevice): UiDevice {
+	return {
+		id: known.id,
+		name: known.name,
+		nickname: known.nickname,
+		known: true,
+		broadcast: known.broadcastDecoder ? { decoder: known.broadcastDecoder } : undefined,
+	};
+}
+
+// Scanner entry for a signal generator
+export function generatorDevice(settings: GeneratorSettings): UiDevice {
+	return { id: settings.id, name: settings.name, isSample: true, generator: settings };
+}
+
+// Connects and discovers services; used for the first connection and every reconnect attempt
+async function openLink(transport: BleTransport, id: string, onLinkUp?: () => void): Promise<TransportDevice> {
+	// Prefer autoConnect on Android for better stability; known devices connect by id without a scan
+	const d = await transport.connectToDevice(id, { autoConnect: Platform.OS === 'android' });
+	// small stabilization delay helps some devices
+	await new Promise(r => setTimeout(r, 300));
+	// Try to improve reliability on Android by increasing MTU and connection priority
+	try {
+		await d.requestMTU?.(185);
+		await d.requestConnectionPriority?.(2); // CONNECTION_PRIORITY_HIGH
+	} catch {}
+	onLinkUp?.();
+	await d.discoverAllServicesAndCharacteristics();
+	return d;
+}
+
+export type { Accel, AccelRow };
 
-const DEVICE_NAME_PREFIX = '';
-const PAYLOAD_FORMAT: 'int16' | 'float32' = 'int16';
+// Packets kept while no payload format is set, used by auto-detect
+const MAX_PENDING_PACKETS = 32;
+const LINK_STATS_UI_INTERVAL_MS = 1000;
+const RSSI_POLL_INTERVAL_MS = 2000;
+const RECORDING_UI_INTERVAL_MS = 500;
+const REPLAY_UI_INTERVAL_MS = 250;
+// Enough for a 30 s chart window at 500 Hz
+const CHART_BUFFER_SAMPLES = 16384;
+const CALIBRATION_CAPTURE_MS = 2000;
+const VIBRATION_UI_INTERVAL_MS = 500;
+const TRIGGER_UI_INTERVAL_MS = 250;
+const LINKED_UI_INTERVAL_MS = 250;
+const SCAN_UI_INTERVAL_MS = 500;
+// Log entries from this long before a recording started are saved with it
+const SESSION_LOG_LEAD_MS = 60_000;
 
-export function useBle() {
+// The transport is fixed for the life of the app; callbacks keep the one they were created with
+export function useBle(transport: BleTransport) {
+	// Decodes broadcast tags; shares the transport's single scan with the scanner
+	const adverts = useMemo(() => new AdvertListener(transport), [transport]);
 	const [isScanning, setIsScanning] = useState(false);
 	const [devices, setDevices] = useState<UiDevice[]>([]);
-	const [filter, setFilter] = useState(DEVICE_NAME_PREFIX);
+	const [scanSettings, setScanSettings] = useState<ScanSettings>(DEFAULT_SCAN_SETTINGS);
+	const scanSettingsRef = useRef(scanSettings);
+	// Every device heard in the current scan, filtered and sorted when published to the list
+	const scanSeenRef = useRef(new Map<string, UiDevice>());
+	const scanTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+	const [knownDevices, setKnownDevices] = useState<KnownDevicesStore>(EMPTY_KNOWN_DEVICES);
+	const knownRef = useRef(knownDevices);
+	// Set by connectTo for devices whose settings ask to stream right away
+	const pendingAutoStreamRef = useRef(false);
 
-	const [connected, setConnected] = useState<Device | null>(null);
+	const [connected, setConnected] = useState<TransportDevice | null>(null);
 	const [mockConnected, setMockConnected] = useState<UiDevice | null>(null);
 	const isConnected = !!connected || !!mockConnected;
 
 	const [accel, setAccel] = useState<Accel | null>(null);
 	const [recording, setRecording] = useState(false);
-	const [rows, setRows] = useState<AccelRow[]>([]);
+	const [recordingSummary, setRecordingSummary] = useState<RecordingSummary>(EMPTY_RECORDING_SUMMARY);
 	const [errorText, setErrorText] = useState<string | null>(null);
+	const [profile, setProfile] = useState<DeviceProfile | null>(null);
+	// Characteristic to stream from, picked in the GATT explorer; overrides the profile and auto-discovery
+	const [dataSource, setDataSourceState] = useState<GattRef | null>(null);
+	const dataSourceRef = useRef<GattRef | null>(null);
+	// Save raw notification payloads with recordings; a per-device setting
+	const [rawCapture, setRawCaptureState] = useState(false);
+	const rawCaptureRef = useRef(false);
+	const [format, setFormat] = useState<PayloadFormat | null>(null);
+	const [formatProposal, setFormatProposal] = useState<FormatProposal | null>(null);
+	const [linkStats, setLinkStats] = useState<LinkStats>(emptyLinkStats);
 
-	const isStreamingRef = useRef(false);
+	// Where the primary connection is; the ref is read by callbacks that outlive a render
+	const [connection, setConnection] = useState<ConnectionState>(IDLE);
+	const connectionRef = useRef<ConnectionState>(IDLE);
+	const [reconnectPolicy, setReconnectPolicy] = useState<ReconnectPolicy>(DEFAULT_RECONNECT_POLICY);
+	const reconnectPolicyRef = useRef<ReconnectPolicy>(DEFAULT_RECONNECT_POLICY);
+	const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 	const subscriptionRef = useRef<{ remove: () => void } | null>(null);
-	const subscribingRef = useRef(false);
-	const disconnectRequestedRef = useRef(false);
-	const reconnectAttemptsRef = useRef(0);
 	const connectionMonitorRef = useRef<{ remove: () => void } | null>(null);
-	const shouldResumeStreamingRef = useRef(false);
 
 	const mockTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
-	const mockStartEpochRef = useRef<number>(0);
+	const broadcastUnsubscribeRef = useRef<(() => void) | null>(null);
+	// Drives the sample device; kept across a simulated disconnect so the outage can end
+	const signalGeneratorRef = useRef<SignalGenerator | null>(null);
+	const [generators, setGenerators] = useState<GeneratorSettings[]>([]);
+	const generatorsRef = useRef<GeneratorSettings[]>([]);
+	const replayPlayerRef = useRef<ReplayPlayer | null>(null);
+	const [replayStatus, setReplayStatus] = useState<ReplayStatus | null>(null);
 	const recordingRef = useRef(false);
 	const lastUiUpdateRef = useRef(0);
+	const profilesRef = useRef<DeviceProfile[]>([]);
+	const profileRef = useRef<DeviceProfile | null>(null);
+	const formatRef = useRef<PayloadFormat | null>(null);
+	const pendingPacketsRef = useRef<Uint8Array[]>([]);
+	// Link quality for the whole connection and for the current recording only
+	const linkStatsRef = useRef(new LinkStatsTracker());
+	const recordingStatsRef = useRef(new LinkStatsTracker());
+	const recorderRef = useRef<StreamRecorder | null>(null);
+	const packetCaptureRef = useRef<PacketCapture | null>(null);
+	const sessionRef = useRef<SessionMeta | null>(null);
+	const [sessionName, setSessionName] = useState<string | null>(null);
+	// The session library keeps its files out of reach while they are being written
+	const [sessionId, setSessionId] = useState<string | null>(null);
+	// Identity of the connected device, recorded into session metadata
+	const deviceInfoRef = useRef<{ id: string; name: string } | null>(null);
+	// Every decoded sample, read by the live chart on its own schedule
+	const chartBufferRef = useRef(new SampleRing(CHART_BUFFER_SAMPLES));
+	const [calibration, setCalibration] = useState<Calibration | null>(null);
+	const calibrationRef = useRef<Calibration | null>(null);
+	// Running sums of raw samples while the calibration wizard captures a pose
+	const poseCaptureRef = useRef<{ sum: number[]; sumSq: number[]; count: number } | null>(null);
+	// Filters for this connection; the unfiltered stream is kept alongside for comparison
+	const [filterSpecs, setFilterSpecs] = useState<FilterSpec[]>([]);
+	const filterChainRef = useRef<FilterChain | null>(null);
+	const [rawAccel, setRawAccel] = useState<Accel | null>(null);
+	const rawChartBufferRef = useRef(new SampleRing(CHART_BUFFER_SAMPLES));
+	const latestAccelRef = useRef<Accel | null>(null);
+	// Live vibration metrics of the displayed stream, and their summary for the current recording
+	const [vibrationSettings, setVibrationSettings] = useState<VibrationSettings>(DEFAULT_VIBRATION_SETTINGS);
+	const vibrationSettingsRef = useRef<VibrationSettings>(DEFAULT_VIBRATION_SETTINGS);
+	const [vibration, setVibration] = useState<VibrationSnapshot | null>(null);
+	const recordingVibrationRef = useRef<VibrationSummaryTracker | null>(null);
+	// Trigger mode: each capture is written to its own session, independent of manual recording
+	const [triggerSettings, setTriggerSettings] = useState<TriggerSettings>(DEFAULT_TRIGGER_SETTINGS);
+	const triggerRef = useRef<TriggerRecorder | null>(null);
+	const [triggerStatus, setTriggerStatus] = useState<TriggerStatus | null>(null);
+	const captureRef = useRef<{ rec: StreamRecorder; meta: SessionMeta } | null>(null);
+	// Additional devices streaming next to the primary one, recorded into the same sessions
+	const linkedRef = useRef(new Map<string, LinkedDevice>());
+	const [linkedDevices, setLinkedDevices] = useState<LinkedDeviceStatus[]>([]);
 
-	function updateAccel(value: Accel) {
+	function dispatch(event: ConnectionEvent): ConnectionState {
+		const prev = connectionRef.current;
+		const next = transition(prev, event, reconnectPolicyRef.current);
+		if (next === prev) return prev;
+		logger.info('connect', `${prev.type} → ${next.type}${next.type === 'reconnecting' ? ` #${next.attempt}` : ''}`);
+		connectionRef.current = next;
+		setConnection(next);
+		return next;
+	}
+
+	function updateAccel(raw: Accel, t: number = Date.now()) {
+		const capture = poseCaptureRef.current;
+		if (capture) {
+			[raw.x, raw.y, raw.z].forEach((v, i) => {
+				capture.sum[i] += v;
+				capture.sumSq[i] += v * v;
+			});
+			capture.count++;
+		}
+		const cal = calibrationRef.current;
+		const calibrated = cal ? applyCalibration(cal, raw) : raw;
+		const chain = filterChainRef.current;
+		if (chain) rawChartBufferRef.current.push(t, calibrated.x, calibrated.y, calibrated.z);
+		// Filters may hold samples back (decimation), so only what comes out is shown and recorded
+		const out = chain ? chain.push(t, calibrated.x, calibrated.y, calibrated.z) : { t, ...calibrated };
+		if (out) {
+			latestAccelRef.current = out;
+			chartBufferRef.current.push(out.t, out.x, out.y, out.z);
+			if (recordingRef.current) {
+				recorderRef.current?.push(out.t, out.x, out.y, out.z, cal ? [raw.x, raw.y, raw.z] : undefined);
+			}
+			triggerRef.current?.push(out.t, out.x, out.y, out.z, cal ? [raw.x, raw.y, raw.z] : undefined);
+		}
 		// Throttle UI updates to ~30 Hz to keep UI responsive
 		const now = Date.now();
-		if (now - lastUiUpdateRef.current >= 33) {
+		if (now - lastUiUpdateRef.current >= 33 && latestAccelRef.current) {
 			lastUiUpdateRef.current = now;
-			setAccel(value);
-		}
-		if (recordingRef.current) {
-			setRows(prev => [...prev, { t: Date.now(), x: value.x, y: value.y, z: value.z }]);
+			setAccel(latestAccelRef.current);
+			if (chain) setRawAccel(calibrated);
 		}
 	}
 
+	// A session described by the current device, decoder, calibration and filters, with its data file opened
+	function createSession(): { meta: SessionMeta; rec: StreamRecorder } {
+		const device = deviceInfoRef.current;
+		const meta = newSession({
+			deviceName: device?.name ?? 'Unknown device',
+			deviceId: device?.id ?? '',
+			format: formatRef.current,
+			profileId: profileRef.current?.id ?? null,
+			calibration: calibrationRef.current,
+			filters: filterChainRef.current?.specs ?? [],
+		});
+		const rec = new StreamRecorder(sessionDataPath(meta.id), {
+			columns: calibrationRef.current ? [...CSV_COLUMNS, ...RAW_COLUMNS] : CSV_COLUMNS,
+			onError: (e: any) => setErrorText(`Recording write failed: ${e?.message ?? String(e)}`),
+		});
+		rec.open();
+		return { meta, rec };
+	}
+
+	const openRecorder = useCallback(() => {
+		recordingStatsRef.current.reset();
+		recordingStatsRef.current.setRssi(linkStatsRef.current.snapshot().rssi);
+		const { meta, rec } = createSession();
+		packetCaptureRef.current = rawCaptureRef.current ? openPacketCapture(meta) : null;
+		for (const dev of linkedRef.current.values()) attachLinkedRecording(dev, meta);
+		recordingVibrationRef.current = new VibrationSummaryTracker(vibrationSettingsRef.current, meta.startedAt);
+		saveSession(meta).catch((e: any) => setErrorText(`Saving session failed: ${e?.message ?? String(e)}`));
+		recorderRef.current = rec;
+		sessionRef.current = meta;
+		setSessionName(meta.name);
+		setSessionId(meta.id);
+		setRecordingSummary(rec.summary());
+		logger.info('record', `Recording session "${meta.name}"`);
+	}, []);
+
+	// Raw payloads go next to data.csv; only the primary device is captured
+	function openPacketCapture(meta: SessionMeta): PacketCapture {
+		const capture = new PacketCapture(sessionFilePath(meta.id, CAPTURE_FILE), {
+			onError: (e: any) => setErrorText(`Packet capture write failed: ${e?.message ?? String(e)}`),
+		});
+		capture.open();
+		meta.capture = { file: CAPTURE_FILE, packetCount: 0, redecodedAt: null };
+		return capture;
+	}
+
+	// Adds a linked device's file to the session; the device records whenever the primary does
+	function attachLinkedRecording(dev: LinkedDevice, meta: SessionMeta) {
+		const file = deviceFileName(dev.name, meta.devices.length);
+		dev.openRecording(sessionFilePath(meta.id, file));
+		dev.setRecording(recordingRef.current);
+		meta.devices.push({ id: dev.id, name: dev.name, file, format: dev.format, calibration: dev.calibration, sampleCount: 0 });
+	}
+
+	// Writes out a linked device's file and its row count in the session metadata
+	async function flushLinkedRecording(dev: LinkedDevice, meta: SessionMeta) {
+		const path = dev.recordingPath;
+		const summary = await dev.flushRecording();
+		const entry = meta.devices.find(d => sessionFilePath(meta.id, d.file) === path);
+		if (entry && summary) entry.sampleCount = summary.rows;
+	}
+
+	// Flushes buffered samples and writes the up-to-date metadata of the current session
+	const finalizeSession = useCallback(async (rec: StreamRecorder, meta: SessionMeta, capture: PacketCapture | null) => {
+		const linked = [...linkedRef.current.values()];
+		await rec.pause();
+		if (capture && meta.capture) {
+			await capture.pause();
+			meta.capture.packetCount = capture.count;
+		}
+		await Promise.all(linked.map(dev => flushLinkedRecording(dev, meta)));
+		const summary = rec.summary();
+		Object.assign(meta, {
+			endedAt: Date.now(),
+			sampleCount: summary.rows,
+			linkStats: recordingStatsRef.current.snapshot(),
+			vibration: recordingVibrationRef.current?.summary() ?? null,
+		});
+		await saveSession(meta);
+		// From a little before the start, so the connection that led up to it is included
+		await writeLogFile(sessionFilePath(meta.id, SESSION_LOG_FILE), logger.entries(meta.startedAt - SESSION_LOG_LEAD_MS));
+		return summary;
+	}, []);
+
+	// Detaches the current session from the hook; empty sessions are not kept
+	const closeSession = useCallback(async () => {
+		const rec = recorderRef.current;
+		const meta = sessionRef.current;
+		const capture = packetCaptureRef.current;
+		recorderRef.current = null;
+		sessionRef.current = null;
+		packetCaptureRef.current = null;
+		setSessionName(null);
+		setSessionId(null);
+		setRecordingSummary(EMPTY_RECORDING_SUMMARY);
+		if (!rec || !meta) return;
+		const linked = [...linkedRef.current.values()];
+		try {
+			const summary = await finalizeSession(rec, meta, capture);
+			linked.forEach(dev => dev.closeRecording());
+			if (summary.rows === 0) await deleteSession(meta.id);
+		} catch (e: any) {
+			setErrorText(`Saving session failed: ${e?.message ?? String(e)}`);
+		}
+	}, [finalizeSession]);
+
 	useEffect(() => {
 		recordingRef.current = recording;
-	}, [recording]);
+		const rec = recorderRef.current;
+		const meta = sessionRef.current;
+		if (!recording) {
+			// Stopping keeps the session so recording can be resumed or exported
+			if (rec && meta) {
+				finalizeSession(rec, meta, packetCaptureRef.current)
+					.then(setRecordingSummary)
+					.catch((e: any) => setErrorText(`Saving session failed: ${e?.message ?? String(e)}`));
+			}
+			return;
+		}
+		if (rec) {
+			rec.resume();
+			packetCaptureRef.current?.resume();
+			linkedRef.current.forEach(dev => dev.setRecording(true));
+		} else openRecorder();
+		// Only the summary goes to React state, never the samples themselves
+		const timer = setInterval(() => {
+			if (recorderRef.current) setRecordingSummary(recorderRef.current.summary());
+		}, RECORDING_UI_INTERVAL_MS);
+		return () => clearInterval(timer);
+	}, [recording, finalizeSession, openRecorder]);
+
+	// Calibration changes the recorded columns, so it always starts a new session
+	const rollSession = useCallback(async () => {
+		// A triggered capture in progress ends early for the same reason
+		triggerRef.current?.stop();
+		if (!recorderRef.current) return;
+		await closeSession();
+		if (recordingRef.current) openRecorder();
+	}, [closeSession, openRecorder]);
+
+	function setActiveCalibration(cal: Calibration | null) {
+		calibrationRef.current = cal;
+		setCalibration(cal);
+	}
+
+	function applyFilterSpecs(specs: FilterSpec[]) {
+		filterChainRef.current = specs.length
+			? new FilterChain(specs, {
+				sampleRateHz: formatRef.current?.odrHz,
+				onError: (e: any) => setErrorText(`Filters bypassed: ${e?.message ?? String(e)}`),
+			})
+			: null;
+		setFilterSpecs(specs);
+		rawChartBufferRef.current.clear();
+		setRawAccel(null);
+	}
+
+	const loadDeviceCalibration = useCallback(async (deviceId: string) => {
+		try {
+			const cal = await loadCalibration(deviceId);
+			if (cal) logger.info('decode', `Applying calibration for ${deviceId} from ${new Date(cal.createdAt).toLocaleString()}`);
+			setActiveCalibration(cal);
+		} catch (e: any) {
+			setErrorText(`Loading calibration failed: ${e?.message ?? String(e)}`);
+		}
+	}, []);
+
+	function noteLinkPacket(arrivalMs: number, sampleCount: number, seq?: number, seqBits?: number) {
+		linkStatsRef.current.onPacket(arrivalMs, sampleCount, seq, seqBits);
+		if (recordingRef.current) recordingStatsRef.current.onPacket(arrivalMs, sampleCount, seq, seqBits);
+	}
+
+	useEffect(() => {
+		profileRef.current = profile;
+	}, [profile]);
+
+	useEffect(() => {
+		formatRef.current = format;
+	}, [format]);
+
+	const handlePacket = useCallback((bytes: Uint8Array, arrivalMs: number = Date.now(), characteristic?: string) => {
+		// Saved before decoding, so packets that fail to decode are kept too
+		if (characteristic && recordingRef.current) packetCaptureRef.current?.push(arrivalMs, characteristic, bytes);
+		const fmt = formatRef.current;
+		// Checked first so nothing is formatted per packet while it's off
+		const debug = logger.settings.packetDebug;
+		if (!fmt) {
+			// Nothing is decoded until a format is chosen; keep packets for auto-detect
+			pendingPacketsRef.current = [...pendingPacketsRef.current.slice(-(MAX_PENDING_PACKETS - 1)), bytes];
+			noteLinkPacket(arrivalMs, 0);
+			if (debug) logger.debug('decode', `Packet ${toHex(bytes)} kept for format detection`);
+			return;
+		}
+		try {
+			const { rows, seq, seqBits } = decodeNotification(bytes, fmt, arrivalMs);
+			noteLinkPacket(arrivalMs, rows.length, seq, seqBits);
+			if (debug) logger.debug('decode', `Packet ${toHex(bytes)} → ${rows.map(r => `(${r.x}, ${r.y}, ${r.z})`).join(' ')}${seq !== undefined ? ` seq ${seq}` : ''}`);
+			for (const row of rows) {
+				updateAccel(row, row.t);
+			}
+		} catch (e: any) {
+			if (debug) logger.warn('decode', `Packet ${toHex(bytes)} could not be decoded`, e);
+			setErrorText(e?.message ?? String(e));
+		}
+	}, []);
+
+	const reloadProfiles = useCallback(async () => {
+		profilesRef.current = await loadProfiles();
+		logger.info('app', 'Loaded device profiles', profilesRef.current.map(p => p.id).join(', '));
+	}, []);
+
+	useEffect(() => {
+		reloadProfiles();
+	}, [reloadProfiles]);
 
+	// Publish link statistics to the UI at a fixed rate rather than per packet
 	useEffect(() => {
+		if (!isConnected) return;
+		const timer = setInterval(() => setLinkStats(linkStatsRef.current.snapshot()), LINK_STATS_UI_INTERVAL_MS);
+		return () => clearInterval(timer);
+	}, [isConnected]);
+
+	useEffect(() => {
+		if (!connected) return;
+		const timer = setInterval(async () => {
+			try {
+				const d = await connected.readRSSI();
+				linkStatsRef.current.setRssi(d.rssi ?? null);
+				recordingStatsRef.current.setRssi(d.rssi ?? null);
+			} catch (e) {
+				logger.debug('connect', 'RSSI read failed (non-fatal)', e);
+			}
+		}, RSSI_POLL_INTERVAL_MS);
+		return () => clearInterval(timer);
+	}, [connected]);
+
+	useEffect(() => {
+		if (!mockConnected?.replay) return;
+		const timer = setInterval(() => {
+			if (replayPlayerRef.current) setReplayStatus(replayPlayerRef.current.status());
+		}, REPLAY_UI_INTERVAL_MS);
+		return () => clearInterval(timer);
+	}, [mockConnected]);
+
+	useEffect(() => {
+		loadTriggerSettings().then(setTriggerSettings);
+		loadReconnectPolicy().then(policy => {
+			reconnectPolicyRef.current = policy;
+			setReconnectPolicy(policy);
+		});
 		return () => {
-			// Keep manager alive across re-renders/fast refresh to avoid cancellations
-			stopNotifications();
+			if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
 		};
 	}, []);
 
+	const hasLinked = linkedDevices.length > 0;
+	useEffect(() => {
+		if (!hasLinked) return;
+		const timer = setInterval(refreshLinked, LINKED_UI_INTERVAL_MS);
+		return () => clearInterval(timer);
+	}, [hasLinked]);
+
+	const triggerArmed = triggerStatus !== null;
+	useEffect(() => {
+		if (!triggerArmed) return;
+		const timer = setInterval(() => {
+			if (triggerRef.current) setTriggerStatus(triggerRef.current.status());
+		}, TRIGGER_UI_INTERVAL_MS);
+		return () => clearInterval(timer);
+	}, [triggerArmed]);
+
+	useEffect(() => {
+		loadVibrationSettings().then(settings => {
+			vibrationSettingsRef.current = settings;
+			setVibrationSettings(settings);
+		});
+	}, []);
+
+	// Metrics are computed from the chart buffer on a timer rather than per sample
+	useEffect(() => {
+		if (!isConnected) return;
+		const timer = setInterval(() => {
+			const snapshot = computeVibration(chartBufferRef.current, vibrationSettingsRef.current);
+			if (snapshot && recordingRef.current) recordingVibrationRef.current?.add(snapshot);
+			setVibration(snapshot);
+		}, VIBRATION_UI_INTERVAL_MS);
+		return () => clearInterval(timer);
+	}, [isConnected]);
+
 	const uiDevices = useMemo(() => devices, [devices]);
+	// Where the command console writes until the user picks a characteristic
+	const profileCommand = useMemo<GattRef | null>(
+		() => (profile?.commandCharacteristic ? { service: profile.commandService ?? profile.dataService, characteristic: profile.commandCharacteristic } : null),
+		[profile],
+	);
+
+	const waitForBluetooth = useCallback((): Promise<void> => {
+		return new Promise(resolve => {
+			const sub = transport.onStateChange(state => {
+				if (state !== 'PoweredOn') return;
+				sub.remove();
+				resolve();
+			}, true);
+		});
+	}, [transport]);
 
 	async function ensurePermissions() {
 		if (Platform.OS !== 'android') return;
@@ -91,175 +649,354 @@ export function useBle() {
 		}
 	}
 
+	// Rebuilds the scanner list from what has been heard: virtual devices first, then known devices, then matches by signal strength
+	function publishScanResults(pruneStale: boolean) {
+		const seen = scanSeenRef.current;
+		const now = Date.now();
+		if (pruneStale) {
+			for (const [id, d] of seen) if (isStale(d, now)) seen.delete(id);
+		}
+		let matches: UiDevice[];
+		try {
+			const accept = compileScanFilter(scanSettingsRef.current);
+			matches = sortByRssi([...seen.values()].filter(accept));
+		} catch (e: any) {
+			setErrorText(e?.message ?? String(e));
+			matches = sortByRssi([...seen.values()]);
+		}
+		const known = knownRef.current.devices;
+		const annotated = matches.map(d => (known[d.id] ? { ...d, known: true, nickname: known[d.id].nickname } : d));
+		const pinned = annotated.filter(d => d.known).sort((a, b) => known[b.id].lastConnectedAt - known[a.id].lastConnectedAt);
+		setDevices(prev => [...prev.filter(d => d.isSample), ...pinned, ...annotated.filter(d => !d.known)]);
+		return matches.length;
+	}
+
+	const stopScan = useCallback(() => {
+		if (scanTimerRef.current) clearTimeout(scanTimerRef.current);
+		scanTimerRef.current = null;
+		transport.stopDeviceScan();
+		setIsScanning(false);
+		dispatch({ type: 'scanStopped' });
+		// Hands the radio back to broadcast tags still being listened to
+		adverts.resume();
+	}, [adverts, transport]);
+
 	const startScan = useCallback(async () => {
 		try {
 			await ensurePermissions();
-			const bleState = await manager.state();
-			console.log('🔍 BLE State:', bleState);
+			const bleState = await transport.state();
+			logger.info('scan', 'BLE state', bleState);
 			if (bleState !== 'PoweredOn') {
 				setErrorText('Bluetooth is OFF. Please enable Bluetooth and try again.');
 				return;
 			}
-			
-			// Clear previous devices and start fresh
-			setDevices([]);
+
+			// Clear previous devices and start fresh; replay devices and saved generators stay until removed
+			if (scanTimerRef.current) clearTimeout(scanTimerRef.current);
+			adverts.pause();
+			transport.stopDeviceScan();
+			scanSeenRef.current.clear();
+			setDevices(prev => [...prev.filter(d => d.replay), ...generatorsRef.current.map(generatorDevice)]);
 			setIsScanning(true);
+			dispatch({ type: 'scanStarted' });
 			setErrorText(null);
-			
-			let foundAny = false;
-			let totalScanned = 0;
-			let addedToUI = 0;
-			let allDevices: any[] = [];
 
-			console.log('🔍 Starting BLE scan...');
-			manager.startDeviceScan(null, { allowDuplicates: false }, (error, device) => {
+			let totalScanned = 0;
+			const { durationS } = scanSettingsRef.current;
+			logger.info('scan', `Starting BLE scan (${durationS ? `${durationS} s` : 'continuous'})`);
+			// Duplicates keep the RSSI and last-seen time of every device current
+			transport.startDeviceScan(null, { allowDuplicates: true }, (error, device) => {
 				if (error) {
-					console.log('❌ Scan error:', error);
+					logger.error('scan', 'Scan error', error);
 					setErrorText(String(error?.message ?? error));
 					setIsScanning(false);
+					dispatch({ type: 'scanStopped' });
+					adverts.resume();
 					return;
 				}
 				if (!device) return;
 
-				totalScanned++;
-				const dName = device.name ?? '(no name)';
-				const dId = device.id;
-				const rssi = device.rssi;
-				console.log(`📱 Found device ${totalScanned}: "${dName}" (${dId}) RSSI: ${rssi}`);
-				
-				// Store all devices for debugging
-				allDevices.push({ name: dName, id: dId, rssi });
-				
-				// Show ALL devices regardless of filter
-				foundAny = true;
-				setDevices(prev => {
-					// Check if device already exists
-					if (prev.some(d => d.id === device.id)) {
-						console.log(`⏭️ Device already in list: "${dName}"`);
-						return prev;
-					}
-					
-					const ui: UiDevice = { 
-						id: device.id, 
-						name: device.name ?? '(no name)', 
-						device 
-					};
-					console.log(`✅ Added to list: "${ui.name}" (total: ${prev.length + 1})`);
-					addedToUI++;
-					return [...prev, ui];
+				const seen = scanSeenRef.current;
+				if (!seen.has(device.id)) {
+					totalScanned++;
+					logger.debug('scan', `Found device ${totalScanned}: "${device.name ?? '(no name)'}" (${device.id}) RSSI: ${device.rssi}`);
+				}
+				// Scan responses carry no sensor data, so the last decoded reading is kept
+				const decoded = adverts.handle(device);
+				seen.set(device.id, {
+					id: device.id,
+					name: device.name ?? seen.get(device.id)?.name ?? '(no name)',
+					device,
+					rssi: device.rssi,
+					lastSeen: Date.now(),
+					broadcast: decoded
+						? { decoder: decoded.decoder.label, accel: decoded.reading.accel, extra: decoded.reading.extra }
+						: seen.get(device.id)?.broadcast,
 				});
 			});
 
-			setTimeout(() => {
-				console.log(`🔍 Scan complete. Found ${totalScanned} total devices, added ${addedToUI} to UI`);
-				console.log('📋 All discovered devices:', allDevices.map(d => `${d.name} (${d.id}) RSSI: ${d.rssi}`));
+			if (durationS === null) return;
+			scanTimerRef.current = setTimeout(() => {
+				scanTimerRef.current = null;
 				stopScan();
-				if (!foundAny) {
-					console.log('⚠️ No devices found, showing sample device');
-					setDevices([{ id: 'sample-device', name: 'Sample Accelerometer', isSample: true }]);
+				const shown = publishScanResults(false);
+				logger.info('scan', `Scan complete. Found ${totalScanned} total devices, ${shown} match the filter`);
+				if (shown === 0 && !generatorsRef.current.length) {
+					logger.warn('scan', 'No devices found, showing sample device');
+					setDevices(prev => [...prev.filter(d => d.id !== DEFAULT_GENERATOR.id), generatorDevice(DEFAULT_GENERATOR)]);
 				}
-			}, 15000); // 15 seconds scan duration
+			}, durationS * 1000);
 		} catch (e: any) {
-			console.log('❌ Scan setup error:', e);
+			logger.error('scan', 'Scan setup error', e);
 			setErrorText(e?.message ?? String(e));
 			setIsScanning(false);
+			dispatch({ type: 'scanStopped' });
+			adverts.resume();
 		}
-	}, []);
+	}, [adverts, stopScan, transport]);
 
-	const stopScan = useCallback(() => {
-		manager.stopDeviceScan();
-		setIsScanning(false);
+	useEffect(() => {
+		loadAdvertDecoders().then(decoders => adverts.setDecoders(decoders));
+		loadGenerators().then(list => {
+			generatorsRef.current = list;
+			setGenerators(list);
+			setDevices(prev => [...list.map(generatorDevice), ...prev.filter(d => !d.generator)]);
+		});
+		loadScanSettings().then(settings => {
+			scanSettingsRef.current = settings;
+			setScanSettings(settings);
+		});
+	}, [adverts]);
+
+	// The list is refreshed on a timer rather than per advertisement, which arrive many times a second
+	useEffect(() => {
+		if (!isScanning) return;
+		const timer = setInterval(() => publishScanResults(true), SCAN_UI_INTERVAL_MS);
+		return () => clearInterval(timer);
+	}, [isScanning]);
+
+	// Filters apply to what has already been found, so they can be changed mid-scan
+	const changeScanSettings = useCallback((settings: ScanSettings) => {
+		scanSettingsRef.current = settings;
+		setScanSettings(settings);
+		publishScanResults(false);
+		saveScanSettings(settings).catch((e: any) => setErrorText(`Saving scan settings failed: ${e?.message ?? String(e)}`));
 	}, []);
 
+	// Runs the reconnect attempt the state machine asks for, or reports that it has given up
+	const scheduleReconnect = useCallback((deviceId: string, lost: ConnectionState) => {
+		function attempt(state: ConnectionState) {
+			if (state.type === 'failed') {
+				setErrorText(state.error);
+				setRecording(false);
+				return;
+			}
+			if (state.type !== 'reconnecting') return;
+			const delay = reconnectDelay(reconnectPolicyRef.current, state.attempt);
+			logger.info('connect', `Attempting reconnect #${state.attempt} in ${delay}ms`);
+			reconnectTimerRef.current = setTimeout(async () => {
+				reconnectTimerRef.current = null;
+				try {
+					// A signal generator comes back by itself once its simulated outage is over
+					const generator = signalGeneratorRef.current;
+					const virtual = generator?.settings.id === deviceId;
+					if (virtual && !generator.reachable(Date.now())) throw new Error(`${generator.settings.name} is out of range`);
+					const re = virtual ? null : await openLink(transport, deviceId);
+					// The user may have disconnected while the attempt was under way
+					if (connectionRef.current !== state) {
+						if (re) transport.cancelDeviceConnection(re.id).catch(() => {});
+						return;
+					}
+					dispatch({ type: 'ready' });
+					logger.info('connect', 'Reconnected');
+					// Notifications restart once startNotifications sees the new device
+					pendingAutoStreamRef.current = state.wasStreaming && reconnectPolicyRef.current.resumeStreaming;
+					if (re) setConnected(re);
+					else setMockConnected(prev => prev && { ...prev });
+				} catch (e) {
+					logger.warn('connect', 'Reconnect failed', e);
+					if (connectionRef.current !== state) return;
+					attempt(dispatch({ type: 'reconnectFailed' }));
+				}
+			}, delay);
+		}
+		attempt(lost);
+	}, [transport]);
+
 	const connectTo = useCallback(async (item: UiDevice) => {
+		const known = knownRef.current.devices[item.id];
 		try {
 			stopScan();
-			if (item.isSample) {
+			if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+			reconnectTimerRef.current = null;
+			dispatch({ type: 'connect', deviceId: item.id });
+			// Broadcast tags and virtual devices have no connection; their data starts with notifications
+			if (item.isSample || item.broadcast) {
+				replayPlayerRef.current?.stop();
+				replayPlayerRef.current = null;
+				setReplayStatus(null);
+				if (item.replay) {
+					const player = new ReplayPlayer(item.replay.path, {
+						onRow: row => {
+							noteLinkPacket(row.t, 1);
+							updateAccel(row, row.t);
+						},
+						onFinish: () => {
+							dispatch({ type: 'streamStopped' });
+							setReplayStatus(player.status());
+						},
+						onError: (e: any) => {
+							dispatch({ type: 'streamStopped' });
+							setErrorText(`Replay failed: ${e?.message ?? String(e)}`);
+						},
+					});
+					await player.load();
+					replayPlayerRef.current = player;
+					setReplayStatus(player.status());
+				}
+				signalGeneratorRef.current = item.replay || item.broadcast
+					? null
+					: new SignalGenerator({ ...(item.generator ?? DEFAULT_GENERATOR), id: item.id, name: item.name });
+				deviceInfoRef.current = { id: item.id, name: known?.nickname || item.name };
+				chartBufferRef.current.clear();
+				await loadDeviceCalibration(item.id);
+				applyFilterSpecs(known?.settings.filters ?? []);
+				// Sample and replay devices aren't worth remembering; broadcast tags are real sensors
+				if (item.broadcast) commitKnown(rememberConnection(knownRef.current, { id: item.id, name: item.name, broadcastDecoder: item.broadcast.decoder }));
+				pendingAutoStreamRef.current = !!known?.settings.autoStream;
+				linkStatsRef.current.reset();
+				setLinkStats(emptyLinkStats());
+				dispatch({ type: 'ready' });
 				setMockConnected(item);
 				setConnected(null);
 				return;
 			}
-			if (!item.device) throw new Error('Invalid device');
-			disconnectRequestedRef.current = false;
-			reconnectAttemptsRef.current = 0;
-			// Prefer autoConnect on Android for better stability
-			const d = await manager.connectToDevice(item.device.id, { autoConnect: Platform.OS === 'android' });
-			// small stabilization delay helps some devices
-			await new Promise(r => setTimeout(r, 300));
-			// Try to improve reliability on Android by increasing MTU and connection priority
-			try {
-				// @ts-ignore - available on Android
-				await (d as any)?.requestMTU?.(185);
-				// @ts-ignore - available on Android
-				await (d as any)?.requestConnectionPriority?.(2); // CONNECTION_PRIORITY_HIGH
-			} catch {}
-			await d.discoverAllServicesAndCharacteristics();
+			const d = await openLink(transport, item.id, () => dispatch({ type: 'linkUp' }));
+			const discovered = (await d.services()).map(s => s.uuid);
+			const matched = findProfile(profilesRef.current, {
+				name: d.name ?? item.device?.name ?? item.device?.localName ?? item.name,
+				serviceUuids: [...(item.device?.serviceUUIDs ?? []), ...discovered],
+			});
+			logger.info('connect', matched ? `Using device profile "${matched.label}"` : 'No device profile matched, using auto-discovery');
+			profileRef.current = matched;
+			setProfile(matched);
+			// A format picked by hand for this device last time applies when no profile matches
+			const fmt = matched?.format ?? known?.settings.format ?? null;
+			formatRef.current = fmt;
+			setFormat(fmt);
+			setFormatProposal(null);
+			dataSourceRef.current = known?.settings.dataSource ?? null;
+			setDataSourceState(dataSourceRef.current);
+			rawCaptureRef.current = !!known?.settings.rawCapture;
+			setRawCaptureState(rawCaptureRef.current);
+			pendingPacketsRef.current = [];
+			linkStatsRef.current.reset();
+			setLinkStats(emptyLinkStats());
+			deviceInfoRef.current = { id: d.id, name: known?.nickname || (d.name ?? item.name) };
+			chartBufferRef.current.clear();
+			await loadDeviceCalibration(d.id);
+			applyFilterSpecs(known?.settings.filters ?? []);
+			commitKnown(rememberConnection(knownRef.current, { id: d.id, name: d.name ?? item.name }));
+			pendingAutoStreamRef.current = !!known?.settings.autoStream;
+			dispatch({ type: 'ready' });
 			setConnected(d);
 			setMockConnected(null);
+			signalGeneratorRef.current = null;
 			// monitor unexpected disconnections and attempt auto-reconnect
 			try { connectionMonitorRef.current?.remove?.(); } catch {}
-			connectionMonitorRef.current = manager.onDeviceDisconnected(d.id, async (error, dev) => {
-				console.log('📴 Disconnected from device', dev?.id, error ? `error: ${String(error?.message ?? error)}` : '');
-				if (disconnectRequestedRef.current) return;
-				// Remember if we were streaming to resume later
-				shouldResumeStreamingRef.current = isStreamingRef.current;
-				isStreamingRef.current = false;
-				// Backoff attempts
-				const delays = [500, 1000, 2000, 4000, 8000];
-				if (reconnectAttemptsRef.current >= delays.length) {
-					setErrorText('Connection lost. Reconnect attempts exceeded.');
-					return;
-				}
-				const attempt = reconnectAttemptsRef.current++;
-				const delay = delays[attempt];
-				console.log(`↻ Attempting reconnect #${attempt + 1} in ${delay}ms...`);
-				setTimeout(async () => {
-					try {
-						const re = await manager.connectToDevice(item.device!.id, { autoConnect: Platform.OS === 'android' });
-						await new Promise(r => setTimeout(r, 300));
-						try {
-							// @ts-ignore
-							await (re as any)?.requestMTU?.(185);
-							// @ts-ignore
-							await (re as any)?.requestConnectionPriority?.(2);
-						} catch {}
-						await re.discoverAllServicesAndCharacteristics();
-						setConnected(re);
-						reconnectAttemptsRef.current = 0;
-						console.log('✅ Reconnected');
-						if (shouldResumeStreamingRef.current) {
-							// give the stack a moment, then resume
-							setTimeout(() => {
-								startNotifications();
-							}, 300);
-						}
-					} catch (e) {
-						console.log('❌ Reconnect failed:', e);
-						// will trigger next onDeviceDisconnected callback and schedule next retry
-					}
-				}, delay);
+			connectionMonitorRef.current = transport.onDeviceDisconnected(d.id, (error, dev) => {
+				logger.info('connect', `Disconnected from device ${dev?.id}${error ? `, error: ${String(error?.message ?? error)}` : ''}`);
+				// A requested disconnect has already gone back to idle, which ignores the event
+				const prev = connectionRef.current;
+				const state = dispatch({ type: 'linkLost' });
+				if (state === prev) return;
+				if (state.type === 'reconnecting' && !reconnectPolicyRef.current.resumeRecording) setRecording(false);
+				scheduleReconnect(item.id, state);
 			});
 		} catch (e: any) {
-			setErrorText(e?.message ?? String(e));
+			const message = e?.message ?? String(e);
+			dispatch({ type: 'fail', error: message });
+			setErrorText(message);
+		}
+	}, [loadDeviceCalibration, scheduleReconnect, stopScan, transport]);
+
+	const stopMock = useCallback(() => {
+		if (mockTimerRef.current) {
+			clearInterval(mockTimerRef.current);
+			mockTimerRef.current = null;
 		}
-	}, [stopScan]);
+	}, []);
+
+	// Resolves once the profile's stop command has been written, if there is one to send
+	const stopNotifications = useCallback(async () => {
+		const prof = profileRef.current;
+		const stopped = connected && prof?.stopCommand && connectionRef.current.type === 'streaming'
+			? sendProfileCommand(connected, prof, prof.stopCommand).catch(e => logger.warn('gatt', 'Stop command failed (non-fatal)', e))
+			: null;
+		subscriptionRef.current?.remove?.();
+		subscriptionRef.current = null;
+		stopMock();
+		broadcastUnsubscribeRef.current?.();
+		broadcastUnsubscribeRef.current = null;
+		replayPlayerRef.current?.stop();
+		dispatch({ type: 'streamStopped' });
+		await stopped;
+	}, [connected, stopMock]);
+
+	// The unmount cleanup below needs the version that knows the connected device
+	const stopNotificationsRef = useRef(stopNotifications);
+	useEffect(() => {
+		stopNotificationsRef.current = stopNotifications;
+	}, [stopNotifications]);
+
+	useEffect(() => {
+		return () => {
+			// Keep the transport alive across re-renders/fast refresh to avoid cancellations
+			stopNotificationsRef.current();
+		};
+	}, []);
 
 	const disconnect = useCallback(async () => {
+		// The stop command needs the streaming state and the link, so it goes out before anything is torn down
+		await stopNotifications();
+		// Going idle first makes the disconnect callback ignore this one
+		dispatch({ type: 'disconnect' });
+		if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+		reconnectTimerRef.current = null;
 		try {
-			disconnectRequestedRef.current = true;
-			if (connected) await manager.cancelDeviceConnection(connected.id);
+			if (connected) await transport.cancelDeviceConnection(connected.id);
 		} catch {}
 		setConnected(null);
 		setMockConnected(null);
-		stopNotifications();
+		signalGeneratorRef.current = null;
+		setProfile(null);
+		setFormat(null);
+		setFormatProposal(null);
+		dataSourceRef.current = null;
+		setDataSourceState(null);
+		rawCaptureRef.current = false;
+		setRawCaptureState(false);
+		pendingPacketsRef.current = [];
+		replayPlayerRef.current = null;
+		setReplayStatus(null);
 		setAccel(null);
+		setVibration(null);
 		setRecording(false);
+		closeSession();
+		disarm();
+		// closeSession has already taken the linked recordings it needs to flush
+		linkedRef.current.forEach(dev => dev.stop());
+		linkedRef.current.clear();
+		setLinkedDevices([]);
+		setActiveCalibration(null);
+		applyFilterSpecs([]);
+		deviceInfoRef.current = null;
 		try { connectionMonitorRef.current?.remove?.(); } catch {}
-	}, [connected]);
+	}, [closeSession, connected, stopNotifications, transport]);
 
 	const logServices = useCallback(async () => {
 		if (mockConnected) {
-			setErrorText('Sample device has no GATT services. Use a real device to discover UUIDs.');
+			setErrorText(`${mockConnected.broadcast ? 'Broadcast tags' : 'Sample device'} has no GATT services. Use a real device to discover UUIDs.`);
 			return;
 		}
 		if (!connected) {
@@ -269,9 +1006,9 @@ export function useBle() {
 
 		try {
 			const services = await connected.services();
-			console.log('=== DISCOVERED SERVICES ===');
+			logger.info('gatt', 'Discovered services:');
 			for (const s of services) {
-				console.log(`SERVICE: ${s.uuid}`);
+				logger.info('gatt', `Service ${s.uuid}`);
 				try {
 					const chars = await connected.characteristicsForService(s.uuid);
 					for (const c of chars) {
@@ -280,115 +1017,58 @@ export function useBle() {
 							readable: c.isReadable,
 							writable: c.isWritableWithResponse || c.isWritableWithoutResponse,
 						};
-						console.log(`  CHAR: ${c.uuid}`, props, props.notifiable ? '⭐ notifiable' : '');
+						logger.info('gatt', `  Characteristic ${c.uuid}${props.notifiable ? ' ⭐ notifiable' : ''}`, props);
 					}
 				} catch (err) {
-					console.log('  Error loading characteristics', err);
+					logger.warn('gatt', `  Could not load characteristics of ${s.uuid}`, err);
 				}
 			}
-			console.log('=== END SERVICES ===');
 		} catch (e: any) {
 			setErrorText(e?.message ?? String(e));
 		}
 	}, [connected, mockConnected]);
 
-	const parseAccel = (bytes: Uint8Array): Accel => {
-		console.log('🔍 Parsing bytes:', Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join(' '));
-		// Helpers
-		const toFloat32 = (off: number, le: boolean) => {
-			const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
-			return [dv.getFloat32(off, le), dv.getFloat32(off + 4, le), dv.getFloat32(off + 8, le)];
-		};
-		const toInt16Triplet = (b: Uint8Array, off: number, le: boolean) => {
-			const dv = new DataView(b.buffer, b.byteOffset, b.byteLength);
-			return [dv.getInt16(off, le), dv.getInt16(off + 2, le), dv.getInt16(off + 4, le)];
-		};
-		const normalizeInt16 = (xyz: number[]) => {
-			const divisors = [16384, 8192, 4096, 2048]; // ±2g, ±4g, ±8g, ±16g
-			for (const d of divisors) {
-				const [x, y, z] = xyz.map(v => v / d);
-				// choose first scale that yields reasonable range
-				if ([x, y, z].every(v => Number.isFinite(v) && Math.abs(v) <= 32)) return { x, y, z };
-			}
-			const [x, y, z] = xyz.map(v => v / 16384);
-			return { x, y, z };
-		};
-
-		// 1) Float32 triplet LE then BE
-		if (bytes.byteLength >= 12) {
-			try {
-				let [x, y, z] = toFloat32(0, true);
-				if (x || y || z) { console.log('✅ float32 LE'); return { x, y, z }; }
-				[x, y, z] = toFloat32(0, false);
-				if (x || y || z) { console.log('✅ float32 BE'); return { x, y, z }; }
-			} catch {}
-		}
-
-		// 2) Int16 triplet from start (LE, then BE)
-		if (bytes.byteLength >= 6) {
-			try {
-				let raw = toInt16Triplet(bytes, 0, true);
-				if (raw.some(v => v !== 0)) { const v = normalizeInt16(raw); console.log('✅ int16 LE @0', raw, v); return v; }
-				raw = toInt16Triplet(bytes, 0, false);
-				if (raw.some(v => v !== 0)) { const v = normalizeInt16(raw); console.log('✅ int16 BE @0', raw, v); return v; }
-			} catch {}
-		}
-
-		// 3) Int16 triplet from last 6 bytes
-		if (bytes.byteLength >= 6) {
-			try {
-				const tail = bytes.slice(bytes.byteLength - 6);
-				let raw = toInt16Triplet(tail, 0, true);
-				if (raw.some(v => v !== 0)) { const v = normalizeInt16(raw); console.log('✅ int16 LE tail', raw, v); return v; }
-				raw = toInt16Triplet(tail, 0, false);
-				if (raw.some(v => v !== 0)) { const v = normalizeInt16(raw); console.log('✅ int16 BE tail', raw, v); return v; }
-			} catch {}
-		}
-
-		// 4) Heuristic: 2-byte header then 3x int16
-		if (bytes.byteLength >= 8) {
-			try {
-				let raw = toInt16Triplet(bytes, 2, true);
-				if (raw.some(v => v !== 0)) { const v = normalizeInt16(raw); console.log('✅ int16 LE @2', raw, v); return v; }
-				raw = toInt16Triplet(bytes, 2, false);
-				if (raw.some(v => v !== 0)) { const v = normalizeInt16(raw); console.log('✅ int16 BE @2', raw, v); return v; }
-			} catch {}
-		}
-
-		// 5) Fallback to byte triples
-		if (bytes.byteLength >= 3) {
-			const sx = bytes[0] > 127 ? bytes[0] - 256 : bytes[0];
-			const sy = bytes[1] > 127 ? bytes[1] - 256 : bytes[1];
-			const sz = bytes[2] > 127 ? bytes[2] - 256 : bytes[2];
-			if (sx || sy || sz) { const v = { x: sx / 128, y: sy / 128, z: sz / 128 }; console.log('✅ signed bytes', { sx, sy, sz }, v); return v; }
-			const ux = bytes[0], uy = bytes[1], uz = bytes[2];
-			if (ux || uy || uz) { const v = { x: (ux - 128) / 128, y: (uy - 128) / 128, z: (uz - 128) / 128 }; console.log('✅ unsigned bytes', { ux, uy, uz }, v); return v; }
-		}
-
-		console.log('❌ All parsing attempts resulted in zeros or failed');
-		return { x: 0, y: 0, z: 0 };
-	};
+	// Handled like a real link loss, so the reconnect policy and recording resume apply
+	const simulateLinkLoss = useCallback((generator: SignalGenerator) => {
+		if (mockTimerRef.current) clearInterval(mockTimerRef.current);
+		mockTimerRef.current = null;
+		logger.info('connect', `${generator.settings.name}: simulated disconnect for ${generator.settings.faults.outageS} s`);
+		const prev = connectionRef.current;
+		const state = dispatch({ type: 'linkLost' });
+		if (state === prev) return;
+		if (state.type === 'reconnecting' && !reconnectPolicyRef.current.resumeRecording) setRecording(false);
+		scheduleReconnect(generator.settings.id, state);
+	}, [scheduleReconnect]);
 
+	// Each tick of the generator is one packet; dropped packets show as gaps in its counter
 	const startMock = useCallback(() => {
-		if (mockTimerRef.current) return;
-		mockStartEpochRef.current = Date.now();
+		const generator = signalGeneratorRef.current;
+		if (mockTimerRef.current || !generator) return;
+		generator.start(Date.now());
 		mockTimerRef.current = setInterval(() => {
-			const t = (Date.now() - mockStartEpochRef.current) / 1000;
-			const x = Math.sin(t * 1.2) * 0.9 + ((Math.random() - 0.5) * 0.04);
-			const y = Math.cos(t * 0.9) * 0.8 + ((Math.random() - 0.5) * 0.04);
-			const z = 0.98 + Math.sin(t * 0.5) * 0.1 + ((Math.random() - 0.5) * 0.04);
-			updateAccel({ x, y, z });
-		}, 100);
-	}, []);
+			const now = Date.now();
+			const tick = generator.tick(now);
+			if (tick.event === 'disconnect') {
+				simulateLinkLoss(generator);
+				return;
+			}
+			if (tick.event !== 'data') return;
+			noteLinkPacket(now, tick.rows.length, tick.seq, GENERATOR_SEQ_BITS);
+			for (const row of tick.rows) updateAccel(row, row.t);
+		}, generator.tickMs);
+	}, [simulateLinkLoss]);
 
-	const stopMock = useCallback(() => {
-		if (mockTimerRef.current) {
-			clearInterval(mockTimerRef.current);
-			mockTimerRef.current = null;
-		}
-	}, []);
+	// Each decoded advert is one sample; the tag's measurement counter drives loss detection
+	const startBroadcast = useCallback((id: string) => {
+		broadcastUnsubscribeRef.current?.();
+		broadcastUnsubscribeRef.current = adverts.subscribe(id, sample => {
+			linkStatsRef.current.setRssi(sample.rssi);
+			noteLinkPacket(sample.t, 1, sample.sequence, sample.sequenceBits);
+			updateAccel(sample.accel, sample.t);
+		});
+	}, [adverts]);
 
-	const trySubscribeOnce = useCallback(async (device: Device, svcUuid: string, charUuid: string, charsInSvc: any[]) => {
+	const trySubscribeOnce = useCallback(async (device: TransportDevice, { service: svcUuid, characteristic: charUuid, chars: charsInSvc }: NotifyCandidate) => {
 		// Returns true if at least one notification arrives within timeout, otherwise false
 		return await new Promise<boolean>((resolve) => {
 			let gotMeaningful = false;
@@ -405,12 +1085,11 @@ export function useBle() {
 				charUuid,
 				(error, characteristic) => {
 					if (error) {
-						const msg = String(error?.message ?? error);
-						if (msg.includes('Operation was cancelled')) {
-							console.log('Monitor cancelled during attempt.');
+						if (isCancelled(error)) {
+							logger.debug('gatt', 'Monitor cancelled during attempt');
 							return;
 						}
-						console.log('Monitor error on attempt:', error);
+						logger.warn('gatt', 'Monitor error on attempt', error);
 						return;
 					}
 					if (!characteristic?.value) return;
@@ -418,17 +1097,15 @@ export function useBle() {
 					// Treat all-zero payloads as not meaningful so we can try other candidates
 					const isAllZero = bytes.length > 0 && bytes.every(b => b === 0);
 					if (isAllZero) {
-						console.log('Received all-zero payload; waiting for meaningful data...');
+						logger.debug('decode', 'Received all-zero payload; waiting for meaningful data');
 						return;
 					}
-					const v = parseAccel(bytes);
-					updateAccel(v);
+					handlePacket(bytes, Date.now(), charUuid);
 					if (!gotMeaningful) {
 						gotMeaningful = true;
 						// Promote this temp subscription to active one and stop timeout cleanup
 						subscriptionRef.current?.remove?.();
 						subscriptionRef.current = tempSub as any;
-						isStreamingRef.current = true;
 						resolve(true);
 					}
 				},
@@ -447,7 +1124,7 @@ export function useBle() {
 								svcUuid,
 								w.uuid,
 								b64,
-							).then(() => console.log(`▶️ Sent start command 0x${op.toString(16)} to ${w.uuid}`)).catch((e: any) => console.log('Start command write failed (non-fatal):', e));
+							).then(() => logger.info('gatt', `Sent start command 0x${op.toString(16)} to ${w.uuid}`)).catch((e: any) => logger.debug('gatt', 'Start command write failed (non-fatal)', e));
 						}, delay);
 					}
 					// 250ms gap between bursts
@@ -463,80 +1140,78 @@ export function useBle() {
 				}
 			}, 8000);
 		});
-	}, []);
+	}, [handlePacket]);
+
+	// Packets from the data characteristic go through handlePacket, which also captures them for re-decoding
+	const monitorPackets = useCallback((characteristic: string) => {
+		return {
+			onPacket: (bytes: Uint8Array, arrivalMs: number) => handlePacket(bytes, arrivalMs, characteristic),
+			onError: (msg: string) => setErrorText(msg),
+		};
+	}, [handlePacket]);
 
-	const subscribeAuto = useCallback(async (device: Device) => {
+	const subscribeProfile = useCallback(async (device: TransportDevice, prof: DeviceProfile, source: GattRef | null) => {
+		const { onPacket, onError } = monitorPackets(source?.characteristic ?? prof.dataCharacteristic);
+		subscriptionRef.current = await subscribeToProfile(device, prof, source, onPacket, onError);
+		return true;
+	}, [monitorPackets]);
+
+	const subscribeSource = useCallback(async (device: TransportDevice, source: GattRef) => {
+		logger.info('gatt', `Subscribing to ${source.characteristic} picked in the GATT explorer`);
+		const { onPacket, onError } = monitorPackets(source.characteristic);
+		subscriptionRef.current = monitorData(device, source, onPacket, onError);
+		return true;
+	}, [monitorPackets]);
+
+	const subscribeAuto = useCallback(async (device: TransportDevice) => {
 		try {
-			const services = await device.services();
-			console.log('🔍 Auto-discovering notifiable/indicatable characteristics...');
-			// Build a list of candidate pairs (service, char) with preference scoring
-			const candidates: Array<{ svc: string; chr: string; score: number; chars: any[] }> = [];
-			for (const service of services) {
-				let chars: any[] = [];
-				try {
-					chars = await device.characteristicsForService(service.uuid);
-				} catch (e) {
-					continue;
-				}
-				const svcLower = service.uuid.toLowerCase();
-				// Skip common GAP/GATT/DeviceInfo/HID/Battery services that are unlikely to be our data stream
-				const skipServices = ['00001800', '00001801', '0000180a', '00001812', '0000180f'];
-				if (skipServices.some(s => svcLower.includes(s))) {
-					continue;
-				}
-				const hasWritable = chars.some(c => c.isWritableWithResponse || c.isWritableWithoutResponse);
-				for (const c of chars) {
-					const noti = (c as any).isNotifiable || (c as any).isIndicatable || false;
-					if (!noti) continue;
-					let score = 0;
-					if (hasWritable) score += 2;
-					const u = c.uuid.toLowerCase();
-					// Skip known system chars
-					const skipChars = ['00002a05', '00002a22', '00002a4d'];
-					if (skipChars.some(s => u.includes(s))) {
-						continue;
-					}
-					// Prefer vendor-specific or common sensor notifications
-					if (u.includes('ff') || u.includes('fe') || u.includes('fee1') || u.includes('fee3') || u.includes('2a37')) score += 1;
-					candidates.push({ svc: service.uuid, chr: c.uuid, score, chars });
-				}
-			}
-			candidates.sort((a, b) => b.score - a.score);
-			console.log('Candidates (best first):', candidates.map(c => `${c.chr}@${c.svc}[${c.score}]`).join(', '));
+			logger.info('gatt', 'Auto-discovering notifiable/indicatable characteristics');
+			const candidates = await notifyCandidates(device);
+			logger.info('gatt', 'Candidates (best first)', candidates.map(c => `${c.characteristic}@${c.service}[${c.score}]`).join(', '));
 
 			for (const cand of candidates) {
 				// Cancel any lingering subscription before trying
 				subscriptionRef.current?.remove?.();
 				subscriptionRef.current = null;
-				const ok = await trySubscribeOnce(device, cand.svc, cand.chr, cand.chars);
+				const ok = await trySubscribeOnce(device, cand);
 				if (ok) {
-					console.log(`✅ Subscribed successfully to ${cand.chr}`);
+					logger.info('gatt', `Subscribed successfully to ${cand.characteristic}`);
 					return true;
 				}
-				console.log(`Skipping ${cand.chr}, no data within timeout`);
+				logger.info('gatt', `Skipping ${cand.characteristic}, no data within timeout`);
 			}
 			return false;
 		} catch (e) {
-			console.error('❌ Auto-discovery error:', e);
+			logger.error('gatt', 'Auto-discovery error', e);
 			return false;
 		}
 	}, [trySubscribeOnce]);
 
 	const startNotifications = useCallback(async () => {
-		if (isStreamingRef.current || subscribingRef.current) return;
-		subscribingRef.current = true;
-
-		if (mockConnected) {
-			startMock();
-			isStreamingRef.current = true;
-			subscribingRef.current = false;
+		const state = connectionRef.current;
+		if (state.type === 'subscribing' || state.type === 'streaming') return;
+		if (state.type !== 'connected' || (!connected && !mockConnected)) {
+			setErrorText('Not connected. Connect to a device first.');
 			return;
 		}
-		if (!connected) {
-			setErrorText('Not connected. Connect to a device first.');
-			subscribingRef.current = false;
+		dispatch({ type: 'subscribe' });
+
+		if (mockConnected) {
+			const player = replayPlayerRef.current;
+			try {
+				if (player) {
+					await player.start();
+					setReplayStatus(player.status());
+				} else if (mockConnected.broadcast) startBroadcast(mockConnected.id);
+				else startMock();
+				dispatch({ type: 'subscribed' });
+			} catch (e: any) {
+				dispatch({ type: 'subscribeFailed' });
+				setErrorText(e?.message ?? String(e));
+			}
 			return;
 		}
+		if (!connected) return;
 
 		try {
 			// ensure no previous monitor is active
@@ -545,104 +1220,426 @@ export function useBle() {
 			// slight delay to let stack settle
 			await new Promise(r => setTimeout(r, 200));
 			await connected.discoverAllServicesAndCharacteristics();
-			const success = await subscribeAuto(connected);
-			if (!success) {
+			const prof = profileRef.current;
+			const source = dataSourceRef.current;
+			const success = prof
+				? await subscribeProfile(connected, prof, source)
+				: source
+					? await subscribeSource(connected, source)
+					: await subscribeAuto(connected);
+			if (success) dispatch({ type: 'subscribed' });
+			else {
+				dispatch({ type: 'subscribeFailed' });
 				setErrorText('No notifiable characteristics produced data.');
-				isStreamingRef.current = false;
 			}
 		} catch (e: any) {
+			dispatch({ type: 'subscribeFailed' });
 			setErrorText(e?.message ?? String(e));
-			isStreamingRef.current = false;
-		} finally {
-			subscribingRef.current = false;
 		}
-	}, [connected, mockConnected, startMock, subscribeAuto]);
+	}, [connected, mockConnected, startBroadcast, startMock, subscribeAuto, subscribeProfile, subscribeSource]);
 
-	const stopNotifications = useCallback(() => {
-		subscriptionRef.current?.remove?.();
-		subscriptionRef.current = null;
-		stopMock();
-		isStreamingRef.current = false;
-	}, [stopMock]);
+	// Lists a recording as a virtual device in the scanner; connecting to it starts the replay
+	const addReplayDevice = useCallback((source: ReplaySource) => {
+		const ui: UiDevice = { id: `replay:${source.path}`, name: `Replay: ${source.name}`, isSample: true, replay: source };
+		setDevices(prev => [ui, ...prev.filter(d => d.id !== ui.id)]);
+	}, []);
+
+	const removeReplayDevice = useCallback((id: string) => {
+		setDevices(prev => prev.filter(d => d.id !== id));
+	}, []);
+
+	function commitGenerators(list: GeneratorSettings[]) {
+		generatorsRef.current = list;
+		setGenerators(list);
+		saveGenerators(list).catch((e: any) => setErrorText(`Saving signal generators failed: ${e?.message ?? String(e)}`));
+	}
+
+	// Adds or updates a generator and its scanner entry; a connected one picks up changes on its next connect
+	const saveGenerator = useCallback((settings: GeneratorSettings) => {
+		const exists = generatorsRef.current.some(g => g.id === settings.id);
+		commitGenerators(exists ? generatorsRef.current.map(g => (g.id === settings.id ? settings : g)) : [...generatorsRef.current, settings]);
+		const ui = generatorDevice(settings);
+		setDevices(prev => (prev.some(d => d.id === ui.id) ? prev.map(d => (d.id === ui.id ? ui : d)) : [ui, ...prev]));
+	}, []);
+
+	const removeGenerator = useCallback((id: string) => {
+		commitGenerators(generatorsRef.current.filter(g => g.id !== id));
+		setDevices(prev => prev.filter(d => d.id !== id));
+	}, []);
+
+	const toggleReplayPause = useCallback(() => {
+		const player = replayPlayerRef.current;
+		if (!player) return;
+		if (player.status().state === 'paused') player.resume();
+		else player.pause();
+		setReplayStatus(player.status());
+	}, []);
+
+	const setReplaySpeed = useCallback((speed: number) => {
+		replayPlayerRef.current?.setSpeed(speed);
+		if (replayPlayerRef.current) setReplayStatus(replayPlayerRef.current.status());
+	}, []);
+
+	const setReplayLoop = useCallback((loop: boolean) => {
+		replayPlayerRef.current?.setLoop(loop);
+		if (replayPlayerRef.current) setReplayStatus(replayPlayerRef.current.status());
+	}, []);
 
 	const toggleRecording = useCallback(() => {
 		if (!accel && !recording) {
 			setErrorText('Start notifications first to receive data.');
 			return;
 		}
+		if (triggerRef.current && !recording) {
+			setErrorText('Disarm the trigger to record manually.');
+			return;
+		}
 		setRecording(r => !r);
 	}, [accel, recording]);
 
-	const clearRecording = useCallback(() => {
-		if (rows.length === 0) return;
-		setRows([]);
-	}, [rows.length]);
+	const arm = useCallback((settings: TriggerSettings) => {
+		triggerRef.current = new TriggerRecorder(settings, {
+			onCaptureStart: (event, pre) => {
+				const capture = createSession();
+				capture.meta.name = `${capture.meta.name} (trigger)`;
+				capture.meta.trigger = event;
+				for (const r of pre) capture.rec.push(r[0], r[1], r[2], r[3], r.length > 4 ? r.slice(4) : undefined);
+				saveSession(capture.meta).catch((e: any) => setErrorText(`Saving capture failed: ${e?.message ?? String(e)}`));
+				captureRef.current = capture;
+				logger.info('record', `Triggered: ${triggerLabel(event.condition)} (${event.value.toFixed(3)})`);
+			},
+			onCaptureRow: r => captureRef.current?.rec.push(r[0], r[1], r[2], r[3], r.length > 4 ? r.slice(4) : undefined),
+			onCaptureEnd: () => {
+				const capture = captureRef.current;
+				captureRef.current = null;
+				if (!capture) return;
+				const { rec, meta } = capture;
+				rec.pause()
+					.then(() => {
+						Object.assign(meta, { endedAt: Date.now(), sampleCount: rec.summary().rows, linkStats: linkStatsRef.current.snapshot() });
+						return saveSession(meta);
+					})
+					.then(() => logger.info('record', `Saved capture ${meta.name} (${meta.sampleCount} rows)`))
+					.catch((e: any) => setErrorText(`Saving capture failed: ${e?.message ?? String(e)}`));
+			},
+		});
+		setTriggerStatus(triggerRef.current.status());
+	}, []);
+
+	// Finishes any capture in progress; completed captures stay in the session library
+	function disarm() {
+		triggerRef.current?.stop();
+		triggerRef.current = null;
+		setTriggerStatus(null);
+	}
+
+	const armTrigger = useCallback(() => {
+		if (!accel) {
+			setErrorText('Start notifications first to receive data.');
+			return;
+		}
+		// Triggered captures replace manual recording while armed
+		setRecording(false);
+		arm(triggerSettings);
+	}, [accel, arm, triggerSettings]);
+
+	const disarmTrigger = useCallback(() => disarm(), []);
+
+	const changeTriggerSettings = useCallback(async (settings: TriggerSettings) => {
+		setTriggerSettings(settings);
+		if (triggerRef.current) {
+			disarm();
+			arm(settings);
+		}
+		try {
+			await saveTriggerSettings(settings);
+		} catch (e: any) {
+			setErrorText(`Saving trigger settings failed: ${e?.message ?? String(e)}`);
+		}
+	}, [arm]);
+
+	// Applies from the next dropped link; an attempt already scheduled keeps its delay
+	const changeReconnectPolicy = useCallback(async (policy: ReconnectPolicy) => {
+		reconnectPolicyRef.current = policy;
+		setReconnectPolicy(policy);
+		try {
+			await saveReconnectPolicy(policy);
+		} catch (e: any) {
+			setErrorText(`Saving reconnect policy failed: ${e?.message ?? String(e)}`);
+		}
+	}, []);
+
+	// Closes the current session, which stays in the session library, and starts a new one
+	const clearRecording = useCallback(async () => {
+		await rollSession();
+	}, [rollSession]);
+
+	// Averages raw samples while the device rests in one calibration pose
+	const captureCalibrationPose = useCallback(async (durationMs: number = CALIBRATION_CAPTURE_MS): Promise<PoseCapture> => {
+		const acc = { sum: [0, 0, 0], sumSq: [0, 0, 0], count: 0 };
+		poseCaptureRef.current = acc;
+		await new Promise(r => setTimeout(r, durationMs));
+		if (poseCaptureRef.current === acc) poseCaptureRef.current = null;
+		const n = Math.max(1, acc.count);
+		const mean = acc.sum.map(s => s / n);
+		const std = Math.sqrt(Math.max(...acc.sumSq.map((s, i) => Math.max(0, s / n - mean[i] * mean[i]))));
+		return { mean: { x: mean[0], y: mean[1], z: mean[2] }, std, count: acc.count };
+	}, []);
+
+	const applyCalibrationResult = useCallback(async (cal: Calibration) => {
+		try {
+			await saveCalibration(cal);
+			setActiveCalibration(cal);
+			await rollSession();
+		} catch (e: any) {
+			setErrorText(`Saving calibration failed: ${e?.message ?? String(e)}`);
+		}
+	}, [rollSession]);
+
+	function commitKnown(next: KnownDevicesStore) {
+		knownRef.current = next;
+		setKnownDevices(next);
+		saveKnownDevices(next).catch((e: any) => setErrorText(`Saving known devices failed: ${e?.message ?? String(e)}`));
+	}
+
+	// Keeps the connected device's settings for its next connection
+	const rememberDeviceSettings = useCallback((settings: Partial<DeviceSettings>) => {
+		const id = deviceInfoRef.current?.id;
+		if (!id || !knownRef.current.devices[id]) return;
+		commitKnown(updateKnownDevice(knownRef.current, id, { settings }));
+	}, []);
+
+	const setFilters = useCallback(async (specs: FilterSpec[]) => {
+		applyFilterSpecs(specs);
+		rememberDeviceSettings({ filters: specs });
+		// The session metadata describes one filter chain, so a change starts a new session
+		await rollSession();
+	}, [rememberDeviceSettings, rollSession]);
+
+	const changeVibrationSettings = useCallback(async (settings: VibrationSettings) => {
+		vibrationSettingsRef.current = settings;
+		setVibrationSettings(settings);
+		try {
+			await saveVibrationSettings(settings);
+		} catch (e: any) {
+			setErrorText(`Saving vibration settings failed: ${e?.message ?? String(e)}`);
+		}
+		// The summary in the session metadata is computed with one set of settings
+		await rollSession();
+	}, [rollSession]);
+
+	function refreshLinked() {
+		setLinkedDevices([...linkedRef.current.values()].map(dev => dev.status()));
+	}
 
-	const exportCsv = useCallback(async () => {
-		if (rows.length === 0) {
+	const addLinkedDevice = useCallback(async (item: UiDevice) => {
+		if (!deviceInfoRef.current) {
+			setErrorText('Connect a primary device first.');
+			return;
+		}
+		if (item.id === deviceInfoRef.current.id || linkedRef.current.has(item.id)) {
+			setErrorText(`${item.name} is already connected.`);
+			return;
+		}
+		stopScan();
+		const dev = new LinkedDevice(item, {
+			transport,
+			adverts,
+			profiles: profilesRef.current,
+			fallbackFormat: formatRef.current,
+			formatLabel,
+			reconnectPolicy: () => reconnectPolicyRef.current,
+			onError: (e: any) => setErrorText(`${item.name}: ${e?.message ?? String(e)}`),
+		});
+		linkedRef.current.set(item.id, dev);
+		refreshLinked();
+		await dev.start();
+		// Joins a session in progress; its file starts at the time it was added
+		const meta = sessionRef.current;
+		if (meta && recorderRef.current && linkedRef.current.get(item.id) === dev) {
+			attachLinkedRecording(dev, meta);
+			saveSession(meta).catch((e: any) => setErrorText(`Saving session failed: ${e?.message ?? String(e)}`));
+		}
+		refreshLinked();
+	}, [adverts, stopScan, transport]);
+
+	const removeLinkedDevice = useCallback(async (id: string) => {
+		const dev = linkedRef.current.get(id);
+		if (!dev) return;
+		linkedRef.current.delete(id);
+		const meta = sessionRef.current;
+		try {
+			if (meta && dev.recordingPath) {
+				await flushLinkedRecording(dev, meta);
+				await saveSession(meta);
+			}
+		} catch (e: any) {
+			setErrorText(`Saving session failed: ${e?.message ?? String(e)}`);
+		}
+		dev.closeRecording();
+		await dev.stop();
+		refreshLinked();
+	}, []);
+
+	const removeCalibration = useCallback(async () => {
+		const id = deviceInfoRef.current?.id;
+		if (!id) return;
+		try {
+			await deleteCalibration(id);
+			setActiveCalibration(null);
+			await rollSession();
+		} catch (e: any) {
+			setErrorText(e?.message ?? String(e));
+		}
+	}, [rollSession]);
+
+	const exportRecording = useCallback(async (exportFormat: ExportFormat = 'csv') => {
+		const rec = recorderRef.current;
+		const meta = sessionRef.current;
+		if (!rec || !meta || rec.summary().rows === 0) {
 			setErrorText('No recorded data to export.');
 			return;
 		}
 		try {
-			const header = 'timestamp_ms,x,y,z\n';
-			const body = rows.map(r => `${r.t},${r.x},${r.y},${r.z}`).join('\n');
-			const csv = header + body + '\n';
-			const path = `${RNFS.DocumentDirectoryPath}/accel_${Date.now()}.csv`;
-			await RNFS.writeFile(path, csv, 'utf8');
-
-			await Share.share({
-				title: 'Accelerometer CSV',
-				message: Platform.OS === 'android' ? 'CSV saved. Share or open with a compatible app.' : '',
-				url: Platform.OS === 'ios' ? path : `file://${path}`,
+			// The session file already is the CSV; make sure everything buffered is on disk
+			await rec.flush();
+			Object.assign(meta, {
+				sampleCount: rec.summary().rows,
+				linkStats: recordingStatsRef.current.snapshot(),
+				vibration: recordingVibrationRef.current?.summary() ?? null,
 			});
+			await saveSession(meta);
+			setSessionName(meta.name);
+			const label = EXPORT_FORMATS.find(f => f.key === exportFormat)?.label ?? exportFormat;
+			await shareFile(await exportSession(meta, exportFormat), `Accelerometer ${label}`);
 		} catch (e: any) {
 			setErrorText(e?.message ?? String(e));
 		}
-	}, [rows]);
+	}, []);
 
-	const sendStartCommand = useCallback(async (opcode: number = 1) => {
-		if (!connected) {
-			setErrorText('Not connected to a device.');
-			return;
+	// Snapshots belong to the current session so they are exported together with its data
+	const saveSpectrumSnapshot = useCallback(async (spectrum: Spectrum): Promise<SpectrumSnapshotInfo | null> => {
+		const meta = sessionRef.current;
+		if (!meta) {
+			setErrorText('Start a recording to save a spectrum snapshot alongside it.');
+			return null;
 		}
-		
 		try {
-			const services = await connected.services();
-			for (const service of services) {
-				const chars = await connected.characteristicsForService(service.uuid);
-				const writer = chars.find(c => c.isWritableWithResponse || c.isWritableWithoutResponse);
-				if (writer) {
-					const payload = new Uint8Array([opcode]);
-					const payloadB64 = bytesToBase64(payload);
-					try {
-						if (writer.isWritableWithoutResponse) {
-						await connected.writeCharacteristicWithoutResponseForService(
-							service.uuid,
-							writer.uuid,
-							payloadB64,
-						);
-						} else {
-							await connected.writeCharacteristicWithResponseForService(
-							service.uuid,
-							writer.uuid,
-							payloadB64,
-						);
-						}
-					} catch (err: any) {
-						const msg = err?.message ?? String(err);
-						setErrorText(`Start command failed: ${msg}${msg.toLowerCase().includes('rejected') || msg.toLowerCase().includes('insufficient') ? ' • Device may require pairing. Pair it in system Bluetooth settings, then reconnect.' : ''}`);
-						return;
-					}
-					console.log(`▶️ Sent start command 0x${opcode.toString(16)} to ${writer.uuid} in ${service.uuid}`);
-					return;
-				}
-			}
-			setErrorText('No writable characteristics found. The device may require pairing. Pair it in Bluetooth settings, then reconnect.');
+			const info = await addSpectrumSnapshot(meta, spectrum);
+			logger.info('record', `Saved spectrum snapshot ${info.file} to ${meta.id}`);
+			return info;
 		} catch (e: any) {
-			const msg = e?.message ?? String(e);
-			setErrorText(`Start command failed: ${msg}${msg.toLowerCase().includes('rejected') || msg.toLowerCase().includes('insufficient') ? ' • Device may require pairing. Pair it in Bluetooth settings, then reconnect.' : ''}`);
+			setErrorText(`Saving spectrum failed: ${e?.message ?? String(e)}`);
+			return null;
 		}
-	}, [connected]);
+	}, []);
+
+	const autoDetectFormat = useCallback(() => {
+		const packets = pendingPacketsRef.current;
+		if (packets.length === 0) {
+			setErrorText('No packets received yet. Start notifications first.');
+			return;
+		}
+		const best = proposeFormat(packets);
+		if (!best) {
+			setErrorText(`Could not find a plausible format in ${packets.length} packet(s).`);
+			return;
+		}
+		logger.info('decode', `Proposed format ${formatLabel(best.format)}, score ${best.score.toFixed(3)}`);
+		setFormatProposal(best);
+	}, []);
+
+	const confirmFormatProposal = useCallback(() => {
+		if (!formatProposal) return;
+		// Auto-detect looks at single frames; keep any batch settings the user already entered
+		const next: PayloadFormat = {
+			...formatProposal.format,
+			headerSize: formatRef.current?.headerSize,
+			frameSize: formatRef.current?.frameSize,
+			odrHz: formatRef.current?.odrHz,
+		};
+		formatRef.current = next;
+		setFormat(next);
+		setFormatProposal(null);
+		rememberDeviceSettings({ format: next });
+	}, [formatProposal, rememberDeviceSettings]);
+
+	const selectFormat = useCallback((next: PayloadFormat | null) => {
+		if (next && !isValidFormat(next)) {
+			setErrorText('Invalid payload format: the frame must be at least as long as the three fields.');
+			return;
+		}
+		formatRef.current = next;
+		setFormat(next);
+		setFormatProposal(null);
+		if (!next) pendingPacketsRef.current = [];
+		rememberDeviceSettings({ format: next });
+	}, [rememberDeviceSettings]);
+
+	// Takes effect the next time notifications start
+	const setDataSource = useCallback((source: GattRef | null) => {
+		dataSourceRef.current = source;
+		setDataSourceState(source);
+		logger.info('gatt', source ? `Data source set to ${gattRefKey(source)}` : 'Data source cleared');
+		rememberDeviceSettings({ dataSource: source });
+	}, [rememberDeviceSettings]);
+
+	// Applies from the next recording session
+	const setRawCapture = useCallback((on: boolean) => {
+		rawCaptureRef.current = on;
+		setRawCaptureState(on);
+		logger.info('record', `Raw packet capture ${on ? 'on' : 'off'}`);
+		rememberDeviceSettings({ rawCapture: on });
+	}, [rememberDeviceSettings]);
+
+	const changeKnownDevice = useCallback((id: string, patch: KnownDevicePatch) => {
+		commitKnown(updateKnownDevice(knownRef.current, id, patch));
+	}, []);
+
+	const forgetKnownDevice = useCallback((id: string) => {
+		commitKnown(forgetDevice(knownRef.current, id));
+	}, []);
+
+	const setAutoConnect = useCallback((mode: AutoConnectMode) => {
+		commitKnown({ ...knownRef.current, autoConnect: mode });
+	}, []);
+
+	const connectKnown = useCallback((id: string) => {
+		const known = knownRef.current.devices[id];
+		if (known) connectTo(knownUiDevice(known));
+	}, [connectTo]);
+
+	useEffect(() => {
+		let cancelled = false;
+		loadKnownDevices().then(async store => {
+			if (cancelled) return;
+			knownRef.current = store;
+			setKnownDevices(store);
+			const target = autoConnectTarget(store);
+			if (!target) return;
+			try {
+				await ensurePermissions();
+				await waitForBluetooth();
+			} catch (e: any) {
+				setErrorText(`Auto-connect skipped: ${e?.message ?? String(e)}`);
+				return;
+			}
+			// The user may have picked a device while Bluetooth was coming up
+			if (cancelled || deviceInfoRef.current) return;
+			logger.info('connect', `Auto-connecting to ${knownLabel(target)}`);
+			connectTo(knownUiDevice(target));
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [connectTo, waitForBluetooth]);
+
+	// Waits after a connection until startNotifications sees the new device
+	useEffect(() => {
+		if (!isConnected || !pendingAutoStreamRef.current) return;
+		pendingAutoStreamRef.current = false;
+		startNotifications();
+	}, [isConnected, startNotifications]);
 
 	const error = errorText;
 	const clearError = () => setErrorText(null);
@@ -651,13 +1648,45 @@ export function useBle() {
 		// state
 		isScanning,
 		devices: uiDevices,
-		filter, setFilter,
+		scanSettings, changeScanSettings,
+		knownDevices: knownDeviceList(knownDevices),
+		autoConnect: knownDevices.autoConnect,
 		isConnected,
+		isSample: !!mockConnected,
 		connectedName: mockConnected ? mockConnected.name : (connected?.name ?? connected?.id ?? ''),
 		accel,
 		recording,
-		rows,
-		streaming: isStreamingRef.current,
+		recordingSummary,
+		sessionName,
+		sessionId,
+		connection,
+		streaming: connection.type === 'streaming',
+		reconnectPolicy, changeReconnectPolicy,
+		profileLabel: profile?.label ?? null,
+		// The connected GATT device for the explorer; null for virtual devices and broadcast tags
+		gattDevice: connected,
+		dataSource, setDataSource,
+		rawCapture, setRawCapture,
+		profileCommand,
+		broadcastDecoder: mockConnected?.broadcast?.decoder ?? null,
+		format,
+		formatProposal,
+		linkStats,
+		calibration,
+		deviceId: deviceInfoRef.current?.id ?? null,
+		chartBuffer: chartBufferRef.current,
+		filters: filterSpecs,
+		rawAccel,
+		rawChartBuffer: rawChartBufferRef.current,
+		replay: replayStatus,
+		// Settings of the connected signal generator; null for everything else
+		generator: signalGeneratorRef.current?.settings ?? null,
+		generators,
+		vibration,
+		vibrationSettings,
+		triggerSettings,
+		trigger: triggerStatus,
+		linkedDevices,
 		error, clearError,
 
 		// actions
@@ -665,8 +1694,19 @@ export function useBle() {
 		connectTo, disconnect,
 		logServices,
 		startNotifications, stopNotifications,
-		toggleRecording, clearRecording, exportCsv,
-		sendStartCommand,
+		toggleRecording, clearRecording, exportRecording, saveSpectrumSnapshot,
+		reloadProfiles,
+		autoDetectFormat, confirmFormatProposal, dismissFormatProposal: () => setFormatProposal(null),
+		selectFormat,
+		addReplayDevice, removeReplayDevice,
+		saveGenerator, removeGenerator,
+		toggleReplayPause, setReplaySpeed, setReplayLoop,
+		captureCalibrationPose, applyCalibrationResult, removeCalibration,
+		setFilters,
+		changeVibrationSettings,
+		armTrigger, disarmTrigger, changeTriggerSettings,
+		addLinkedDevice, removeLinkedDevice,
+		connectKnown, changeKnownDevice, forgetKnownDevice, setAutoConnect,
 	};
 }
 
@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { logger } from '../logging/logger';
+import { base64ToBytes } from '../utils/base64';
+import {
+	CommandStore,
+	deviceCommands,
+	DeviceCommands,
+	EMPTY_DEVICE_COMMANDS,
+	loadCommands,
+	MacroStep,
+	SavedCommand,
+	saveCommands,
+	updateDeviceCommands,
+	upsertCommand,
+} from './commands';
+import { GattRef, loadGattTree, toAscii, toHex, writeBytes } from './gatt';
+import { Subscription, TransportDevice } from './transport';
+
+export type ConsoleEntry = {
+	t: number;
+	kind: 'sent' | 'wait' | 'response' | 'info' | 'error';
+	text: string;
+};
+
+// Entries kept for the console, newest last
+export const CONSOLE_LOG_MAX = 200;
+// A chatty response characteristic shouldn't re-render on every notification
+export const CONSOLE_UI_INTERVAL_MS = 250;
+
+function pairingHint(message: string): string {
+	const m = message.toLowerCase();
+	return m.includes('rejected') || m.includes('insufficient') ? ' • Device may require pairing. Pair it in Bluetooth settings, then reconnect.' : '';
+}
+
+/**
+ * Sends hex payloads and saved macros to a chosen characteristic of the connected device and
+ * shows the notifications of another as responses. Commands are saved per device in
+ * device_commands.json; those marked run on connect are sent after every connection.
+ */
+export function useCommandConsole(device: TransportDevice | null, defaultTarget: GattRef | null) {
+	const [store, setStore] = useState<CommandStore>({});
+	const storeRef = useRef<CommandStore>({});
+	const [loaded, setLoaded] = useState(false);
+	const [writable, setWritable] = useState<GattRef[]>([]);
+	const [notifiable, setNotifiable] = useState<GattRef[]>([]);
+	const [log, setLog] = useState<ConsoleEntry[]>([]);
+	const [running, setRunning] = useState<string | null>(null);
+	const [errorText, setErrorText] = useState<string | null>(null);
+	const logRef = useRef<ConsoleEntry[]>([]);
+	const logDirtyRef = useRef(false);
+	// Bumped to stop the running macro before its next step
+	const runTokenRef = useRef(0);
+	const defaultTargetRef = useRef(defaultTarget);
+	defaultTargetRef.current = defaultTarget;
+
+	const config: DeviceCommands = device ? deviceCommands(store, device.id) : EMPTY_DEVICE_COMMANDS;
+	const target = config.target ?? defaultTarget;
+	const { response, commands } = config;
+
+	const addLog = useCallback((kind: ConsoleEntry['kind'], text: string) => {
+		const entries = logRef.current;
+		entries.push({ t: Date.now(), kind, text });
+		if (entries.length > CONSOLE_LOG_MAX) entries.splice(0, entries.length - CONSOLE_LOG_MAX);
+		logDirtyRef.current = true;
+	}, []);
+
+	// Changes the connected device's entry, saved right away
+	const patchDevice = useCallback((patch: (current: DeviceCommands) => Partial<DeviceCommands>) => {
+		if (!device) return;
+		const next = updateDeviceCommands(storeRef.current, device.id, patch(deviceCommands(storeRef.current, device.id)));
+		storeRef.current = next;
+		setStore(next);
+		saveCommands(next).catch((e: any) => setErrorText(`Saving commands failed: ${e?.message ?? String(e)}`));
+	}, [device]);
+
+	const stop = useCallback(() => {
+		runTokenRef.current++;
+		setRunning(null);
+	}, []);
+
+	const execute = useCallback(async (dev: TransportDevice, ref: GattRef, name: string, steps: MacroStep[]): Promise<boolean> => {
+		const token = ++runTokenRef.current;
+		setRunning(name);
+		try {
+			for (const step of steps) {
+				if (runTokenRef.current !== token) {
+					addLog('info', `${name} stopped`);
+					return false;
+				}
+				if (step.type === 'wait') {
+					addLog('wait', `wait ${step.ms} ms`);
+					await new Promise(r => setTimeout(r, step.ms));
+					continue;
+				}
+				await writeBytes(dev, ref, new Uint8Array(step.bytes));
+				addLog('sent', toHex(new Uint8Array(step.bytes)));
+			}
+			return true;
+		} catch (e: any) {
+			const msg = e?.message ?? String(e);
+			addLog('error', msg);
+			setErrorText(`${name} failed: ${msg}${pairingHint(msg)}`);
+			return false;
+		} finally {
+			if (runTokenRef.current === token) setRunning(null);
+		}
+	}, [addLog]);
+
+	useEffect(() => {
+		let cancelled = false;
+		loadCommands().then(loadedStore => {
+			if (cancelled) return;
+			storeRef.current = loadedStore;
+			setStore(loadedStore);
+			setLoaded(true);
+		});
+		const timer = setInterval(() => {
+			if (!logDirtyRef.current) return;
+			logDirtyRef.current = false;
+			setLog([...logRef.current]);
+		}, CONSOLE_UI_INTERVAL_MS);
+		return () => {
+			cancelled = true;
+			clearInterval(timer);
+		};
+	}, []);
+
+	// Characteristics to pick from, and the macros that run on connect
+	useEffect(() => {
+		setWritable([]);
+		setNotifiable([]);
+		if (!device || !loaded) return;
+		let cancelled = false;
+		(async () => {
+			try {
+				const tree = await loadGattTree(device);
+				if (cancelled) return;
+				const refs = tree.flatMap(s => s.characteristics.map(c => ({ ref: { service: s.uuid, characteristic: c.uuid }, p: c.properties })));
+				setWritable(refs.filter(r => r.p.write || r.p.writeWithoutResponse).map(r => r.ref));
+				setNotifiable(refs.filter(r => r.p.notify || r.p.indicate).map(r => r.ref));
+			} catch (e: any) {
+				if (!cancelled) setErrorText(`Loading characteristics failed: ${e?.message ?? String(e)}`);
+				return;
+			}
+			const current = deviceCommands(storeRef.current, device.id);
+			const ref = current.target ?? defaultTargetRef.current;
+			for (const command of current.commands.filter(c => c.runOnConnect)) {
+				if (cancelled) return;
+				if (!ref) {
+					setErrorText('Commands set to run on connect need a target characteristic.');
+					return;
+				}
+				logger.info('gatt', `Running "${command.name}" on connect`);
+				addLog('info', `${command.name} (on connect)`);
+				if (!(await execute(device, ref, command.name, command.steps))) return;
+			}
+		})();
+		return () => {
+			cancelled = true;
+			stop();
+		};
+	}, [device, loaded, addLog, execute, stop]);
+
+	useEffect(() => {
+		if (!device || !response) return;
+		let sub: Subscription | null = null;
+		try {
+			sub = device.monitorCharacteristicForService(response.service, response.characteristic, (error, characteristic) => {
+				if (error) {
+					const msg = String(error?.message ?? error);
+					if (!msg.includes('Operation was cancelled')) addLog('error', `Responses stopped: ${msg}`);
+					return;
+				}
+				if (!characteristic?.value) return;
+				const bytes = base64ToBytes(characteristic.value);
+				addLog('response', `${toHex(bytes)}  "${toAscii(bytes)}"`);
+			});
+		} catch (e: any) {
+			setErrorText(`Listening for responses failed: ${e?.message ?? String(e)}`);
+		}
+		return () => {
+			try { sub?.remove(); } catch {}
+		};
+	}, [device, response, addLog]);
+
+	const run = useCallback(async (name: string, steps: MacroStep[]) => {
+		if (!device) {
+			setErrorText('Not connected. Connect to a device first.');
+			return false;
+		}
+		if (!target) {
+			setErrorText('Pick the characteristic to send commands to.');
+			return false;
+		}
+		return execute(device, target, name, steps);
+	}, [device, target, execute]);
+
+	const runCommand = useCallback((name: string) => {
+		const command = commands.find(c => c.name === name);
+		return command ? run(command.name, command.steps) : Promise.resolve(false);
+	}, [commands, run]);
+
+	const saveCommand = useCallback((command: SavedCommand) => {
+		patchDevice(current => ({ commands: upsertCommand(current.commands, command) }));
+	}, [patchDevice]);
+
+	const deleteCommand = useCallback((name: string) => {
+		patchDevice(current => ({ commands: current.commands.filter(c => c.name !== name) }));
+	}, [patchDevice]);
+
+	const setRunOnConnect = useCallback((name: string, runOnConnect: boolean) => {
+		patchDevice(current => ({ commands: current.commands.map(c => (c.name === name ? { ...c, runOnConnect } : c)) }));
+	}, [patchDevice]);
+
+	const setTarget = useCallback((ref: GattRef | null) => patchDevice(() => ({ target: ref })), [patchDevice]);
+	const setResponse = useCallback((ref: GattRef | null) => patchDevice(() => ({ response: ref })), [patchDevice]);
+
+	const clearLog = useCallback(() => {
+		logRef.current = [];
+		logDirtyRef.current = false;
+		setLog([]);
+	}, []);
+
+	return {
+		available: !!device,
+		target,
+		response,
+		commands,
+		writable,
+		notifiable,
+		log,
+		running,
+		error: errorText,
+		clearError: () => setErrorText(null),
+		run, runCommand, stop,
+		saveCommand, deleteCommand, setRunOnConnect,
+		setTarget, setResponse,
+		clearLog,
+	};
+}
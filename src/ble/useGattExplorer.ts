@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { base64ToBytes, bytesToBase64 } from '../utils/base64';
+import { GattRef, gattRefKey, GattServiceInfo, loadGattTree, toHex } from './gatt';
+import { Subscription, TransportDevice } from './transport';
+
+export type GattLogEntry = {
+	t: number;
+	kind: 'read' | 'write' | 'notify';
+	ref: GattRef;
+	hex: string;
+};
+
+// Entries kept for the live log, newest last
+export const GATT_LOG_MAX = 200;
+// Notifications can arrive far faster than is worth rendering
+export const GATT_LOG_UI_INTERVAL_MS = 250;
+
+/**
+ * Raw access to the connected device's GATT table: the tree of services, reads, writes and
+ * notifications from any characteristic, with a live log. Works beside the accelerometer
+ * stream; its subscriptions end when the device changes.
+ */
+export function useGattExplorer(device: TransportDevice | null) {
+	// null until loaded for the current device
+	const [tree, setTree] = useState<GattServiceInfo[] | null>(null);
+	const [loading, setLoading] = useState(false);
+	// Last value read from each characteristic, by gattRefKey
+	const [values, setValues] = useState<Record<string, Uint8Array>>({});
+	const [subscribed, setSubscribed] = useState<string[]>([]);
+	const [log, setLog] = useState<GattLogEntry[]>([]);
+	const [errorText, setErrorText] = useState<string | null>(null);
+	const subscriptionsRef = useRef(new Map<string, Subscription>());
+	const logRef = useRef<GattLogEntry[]>([]);
+	const logDirtyRef = useRef(false);
+
+	function addLog(kind: GattLogEntry['kind'], ref: GattRef, bytes: Uint8Array) {
+		const entries = logRef.current;
+		entries.push({ t: Date.now(), kind, ref, hex: toHex(bytes) });
+		if (entries.length > GATT_LOG_MAX) entries.splice(0, entries.length - GATT_LOG_MAX);
+		logDirtyRef.current = true;
+	}
+
+	function removeAll() {
+		subscriptionsRef.current.forEach(sub => {
+			try { sub.remove(); } catch {}
+		});
+		subscriptionsRef.current.clear();
+		setSubscribed([]);
+	}
+
+	useEffect(() => {
+		setTree(null);
+		setValues({});
+		setErrorText(null);
+		return removeAll;
+	}, [device]);
+
+	useEffect(() => {
+		const timer = setInterval(() => {
+			if (!logDirtyRef.current) return;
+			logDirtyRef.current = false;
+			setLog([...logRef.current]);
+		}, GATT_LOG_UI_INTERVAL_MS);
+		return () => clearInterval(timer);
+	}, []);
+
+	const refresh = useCallback(async () => {
+		if (!device) return;
+		setLoading(true);
+		try {
+			setTree(await loadGattTree(device));
+		} catch (e: any) {
+			setTree([]);
+			setErrorText(`Loading services failed: ${e?.message ?? String(e)}`);
+		} finally {
+			setLoading(false);
+		}
+	}, [device]);
+
+	const read = useCallback(async (ref: GattRef): Promise<Uint8Array | null> => {
+		if (!device) return null;
+		try {
+			const c = await device.readCharacteristicForService(ref.service, ref.characteristic);
+			const bytes = c.value ? base64ToBytes(c.value) : new Uint8Array(0);
+			setValues(prev => ({ ...prev, [gattRefKey(ref)]: bytes }));
+			addLog('read', ref, bytes);
+			return bytes;
+		} catch (e: any) {
+			setErrorText(`Read failed: ${e?.message ?? String(e)}`);
+			return null;
+		}
+	}, [device]);
+
+	const write = useCallback(async (ref: GattRef, bytes: Uint8Array, withResponse: boolean): Promise<boolean> => {
+		if (!device) return false;
+		try {
+			const b64 = bytesToBase64(bytes);
+			if (withResponse) await device.writeCharacteristicWithResponseForService(ref.service, ref.characteristic, b64);
+			else await device.writeCharacteristicWithoutResponseForService(ref.service, ref.characteristic, b64);
+			addLog('write', ref, bytes);
+			return true;
+		} catch (e: any) {
+			setErrorText(`Write failed: ${e?.message ?? String(e)}`);
+			return false;
+		}
+	}, [device]);
+
+	const unsubscribe = useCallback((ref: GattRef) => {
+		const key = gattRefKey(ref);
+		try { subscriptionsRef.current.get(key)?.remove(); } catch {}
+		subscriptionsRef.current.delete(key);
+		setSubscribed(prev => prev.filter(k => k !== key));
+	}, []);
+
+	const subscribe = useCallback((ref: GattRef) => {
+		const key = gattRefKey(ref);
+		if (!device || subscriptionsRef.current.has(key)) return;
+		try {
+			const sub = device.monitorCharacteristicForService(ref.service, ref.characteristic, (error, characteristic) => {
+				if (error) {
+					const msg = String(error?.message ?? error);
+					if (!msg.includes('Operation was cancelled')) setErrorText(`Notifications from ${ref.characteristic} stopped: ${msg}`);
+					subscriptionsRef.current.delete(key);
+					setSubscribed(prev => prev.filter(k => k !== key));
+					return;
+				}
+				if (!characteristic?.value) return;
+				addLog('notify', ref, base64ToBytes(characteristic.value));
+			});
+			subscriptionsRef.current.set(key, sub);
+			setSubscribed(prev => [...prev, key]);
+		} catch (e: any) {
+			setErrorText(`Subscribe failed: ${e?.message ?? String(e)}`);
+		}
+	}, [device]);
+
+	const clearLog = useCallback(() => {
+		logRef.current = [];
+		logDirtyRef.current = false;
+		setLog([]);
+	}, []);
+
+	return {
+		device,
+		tree,
+		loading,
+		values,
+		subscribed,
+		log,
+		error: errorText,
+		clearError: () => setErrorText(null),
+		refresh,
+		read, write,
+		subscribe, unsubscribe,
+		clearLog,
+	};
+}
@@ -0,0 +1,189 @@
+import { Accel, Axis } from '../decoder/payloadFormat';
+import { logger } from '../logging/logger';
+import { documentPath, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+
+export type Vec3 = [number, number, number];
+
+export type Calibration = {
+	deviceId: string;
+	createdAt: number;
+	// Zero-g reading and gain per axis, in g: calibrated = (raw - offset) / scale
+	offset: Vec3;
+	scale: Vec3;
+	// Full affine fit including cross-axis terms; used instead of offset/scale when present
+	crossAxis: { matrix: [Vec3, Vec3, Vec3]; bias: Vec3 } | null;
+	// RMS deviation of the calibrated poses from 1 g
+	residualG: number;
+};
+
+export type PoseKey = '+x' | '-x' | '+y' | '-y' | '+z' | '-z';
+
+export type CalibrationPose = {
+	key: PoseKey;
+	label: string;
+	// Gravity as a perfect sensor reads it in this pose
+	gravity: Vec3;
+};
+
+export const CALIBRATION_POSES: CalibrationPose[] = [
+	{ key: '+z', label: 'Flat, Z axis up', gravity: [0, 0, 1] },
+	{ key: '-z', label: 'Upside down, Z axis down', gravity: [0, 0, -1] },
+	{ key: '+x', label: 'On its edge, X axis up', gravity: [1, 0, 0] },
+	{ key: '-x', label: 'On the opposite edge, X axis down', gravity: [-1, 0, 0] },
+	{ key: '+y', label: 'On its end, Y axis up', gravity: [0, 1, 0] },
+	{ key: '-y', label: 'On the opposite end, Y axis down', gravity: [0, -1, 0] },
+];
+
+// Mean and spread of the raw samples collected while the device rested in one pose
+export type PoseCapture = {
+	mean: Accel;
+	std: number;
+	count: number;
+};
+
+const AXES: Axis[] = ['x', 'y', 'z'];
+const MIN_POSE_SAMPLES = 10;
+// Larger spread than this means the device was moved during the capture
+const MAX_POSE_STD_G = 0.05;
+
+export const CALIBRATIONS_PATH = documentPath('calibrations.json');
+
+// Recorded after x, y, z while a calibration is applied, so the uncorrected data stays exportable
+export const RAW_COLUMNS = ['raw_x', 'raw_y', 'raw_z'];
+
+function poseAxis(pose: CalibrationPose): number {
+	return pose.gravity.findIndex(g => g !== 0);
+}
+
+// Why a capture can't be used for the pose, or null when it looks right
+export function poseProblem(pose: CalibrationPose, capture: PoseCapture): string | null {
+	if (capture.count < MIN_POSE_SAMPLES) return `Only ${capture.count} samples; keep notifications running`;
+	if (capture.std > MAX_POSE_STD_G) return `Device moved during capture (±${capture.std.toFixed(3)} g); hold it still`;
+	const v = AXES.map(a => capture.mean[a]);
+	const dominant = v.reduce((best, _, i) => (Math.abs(v[i]) > Math.abs(v[best]) ? i : best), 0);
+	const axis = poseAxis(pose);
+	if (dominant !== axis || Math.sign(v[axis]) !== pose.gravity[axis]) {
+		return `Reads as ${v[dominant] > 0 ? '+' : '-'}${AXES[dominant].toUpperCase()} up; turn it to "${pose.label}"`;
+	}
+	return null;
+}
+
+// Solves A·u = b for a small dense system using Gaussian elimination with partial pivoting
+function solveLinear(A: number[][], b: number[]): number[] {
+	const n = b.length;
+	const m = A.map((row, i) => [...row, b[i]]);
+	for (let c = 0; c < n; c++) {
+		let pivot = c;
+		for (let r = c + 1; r < n; r++) if (Math.abs(m[r][c]) > Math.abs(m[pivot][c])) pivot = r;
+		if (Math.abs(m[pivot][c]) < 1e-12) throw new Error('Calibration poses are degenerate; capture each face separately');
+		[m[c], m[pivot]] = [m[pivot], m[c]];
+		for (let r = c + 1; r < n; r++) {
+			const f = m[r][c] / m[c][c];
+			for (let k = c; k <= n; k++) m[r][k] -= f * m[c][k];
+		}
+	}
+	const u = new Array(n).fill(0);
+	for (let r = n - 1; r >= 0; r--) {
+		let s = m[r][n];
+		for (let k = r + 1; k < n; k++) s -= m[r][k] * u[k];
+		u[r] = s / m[r][r];
+	}
+	return u;
+}
+
+// Least-squares affine map from raw readings to the expected gravity vectors
+function fitAffine(poses: CalibrationPose[], raw: Vec3[]): { matrix: [Vec3, Vec3, Vec3]; bias: Vec3 } {
+	const rows = raw.map(r => [r[0], r[1], r[2], 1]);
+	const normal = [0, 1, 2, 3].map(i => [0, 1, 2, 3].map(j => rows.reduce((s, r) => s + r[i] * r[j], 0)));
+	const solved = [0, 1, 2].map(k =>
+		solveLinear(normal, [0, 1, 2, 3].map(i => rows.reduce((s, r, p) => s + r[i] * poses[p].gravity[k], 0))),
+	);
+	return {
+		matrix: solved.map(u => [u[0], u[1], u[2]]) as [Vec3, Vec3, Vec3],
+		bias: solved.map(u => u[3]) as Vec3,
+	};
+}
+
+export function applyCalibration(cal: Calibration, a: Accel): Accel {
+	if (cal.crossAxis) {
+		const { matrix: m, bias } = cal.crossAxis;
+		return {
+			x: m[0][0] * a.x + m[0][1] * a.y + m[0][2] * a.z + bias[0],
+			y: m[1][0] * a.x + m[1][1] * a.y + m[1][2] * a.z + bias[1],
+			z: m[2][0] * a.x + m[2][1] * a.y + m[2][2] * a.z + bias[2],
+		};
+	}
+	return {
+		x: (a.x - cal.offset[0]) / cal.scale[0],
+		y: (a.y - cal.offset[1]) / cal.scale[1],
+		z: (a.z - cal.offset[2]) / cal.scale[2],
+	};
+}
+
+/**
+ * Six-position calibration: with each axis measured pointing up and down, the mean of the pair
+ * is that axis's offset and half the difference its gain. With `crossAxis`, a full 3×3 matrix
+ * plus bias is fitted to all six poses instead, which also corrects misaligned axes.
+ */
+export function solveCalibration(deviceId: string, captures: Record<PoseKey, Accel>, crossAxis: boolean): Calibration {
+	const offset = [0, 0, 0] as Vec3;
+	const scale = [1, 1, 1] as Vec3;
+	AXES.forEach((a, i) => {
+		const up = captures[`+${a}` as PoseKey][a];
+		const down = captures[`-${a}` as PoseKey][a];
+		offset[i] = (up + down) / 2;
+		scale[i] = (up - down) / 2;
+		if (!(scale[i] > 0)) throw new Error(`${a.toUpperCase()} axis reads the same facing up and down; recapture its poses`);
+	});
+	const raw = CALIBRATION_POSES.map(p => AXES.map(a => captures[p.key][a]) as Vec3);
+	const cal: Calibration = {
+		deviceId,
+		createdAt: Date.now(),
+		offset,
+		scale,
+		crossAxis: crossAxis ? fitAffine(CALIBRATION_POSES, raw) : null,
+		residualG: 0,
+	};
+	const errors = CALIBRATION_POSES.map(p => {
+		const c = applyCalibration(cal, captures[p.key]);
+		return Math.hypot(c.x, c.y, c.z) - 1;
+	});
+	cal.residualG = Math.sqrt(errors.reduce((s, e) => s + e * e, 0) / errors.length);
+	return cal;
+}
+
+export function calibrationLabel(cal: Calibration): string {
+	const fmt = (v: Vec3, digits: number) => v.map(n => n.toFixed(digits)).join('/');
+	return `offset ${fmt(cal.offset, 3)} g • scale ${fmt(cal.scale, 3)}${cal.crossAxis ? ' • cross-axis' : ''} • residual ${(cal.residualG * 1000).toFixed(1)} mg`;
+}
+
+function isValidCalibration(c: any): c is Calibration {
+	const isVec = (v: any) => Array.isArray(v) && v.length === 3 && v.every((n: any) => typeof n === 'number');
+	return !!c && typeof c.deviceId === 'string' && isVec(c.offset) && isVec(c.scale) && c.scale.every((s: number) => s !== 0);
+}
+
+async function loadAll(): Promise<Record<string, Calibration>> {
+	const raw = await readJsonFile<Record<string, unknown>>(CALIBRATIONS_PATH, {});
+	const valid: Record<string, Calibration> = {};
+	for (const [id, c] of Object.entries(raw ?? {})) {
+		if (isValidCalibration(c)) valid[id] = c;
+		else logger.warn('app', `Ignored invalid calibration for ${id}`);
+	}
+	return valid;
+}
+
+export async function loadCalibration(deviceId: string): Promise<Calibration | null> {
+	return (await loadAll())[deviceId] ?? null;
+}
+
+export async function saveCalibration(cal: Calibration): Promise<void> {
+	const all = await loadAll();
+	all[cal.deviceId] = cal;
+	await writeJsonFile(CALIBRATIONS_PATH, all);
+}
+
+export async function deleteCalibration(deviceId: string): Promise<void> {
+	const all = await loadAll();
+	delete all[deviceId];
+	await writeJsonFile(CALIBRATIONS_PATH, all);
+}
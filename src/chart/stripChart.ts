@@ -0,0 +1,127 @@
+import { SampleRing } from '../utils/SampleRing';
+
+export type ChartSeries = 'x' | 'y' | 'z' | 'm';
+
+export const CHART_SERIES: Array<{ key: ChartSeries; label: string; color: string }> = [
+	{ key: 'x', label: 'X', color: '#f87171' },
+	{ key: 'y', label: 'Y', color: '#4ade80' },
+	{ key: 'z', label: 'Z', color: '#60a5fa' },
+	{ key: 'm', label: '|a|', color: '#fbbf24' },
+];
+
+// 'auto' fits the visible data, a number is a fixed ±g range
+export type ChartRange = 'auto' | number;
+
+export const CHART_RANGES: ChartRange[] = ['auto', 1, 2, 4, 8, 16];
+export const CHART_WINDOWS_S = [2, 5, 10, 30];
+
+export type ChartView = {
+	endMs: number;
+	spanMs: number;
+	width: number;
+	height: number;
+	range: ChartRange;
+	visible: Record<ChartSeries, boolean>;
+};
+
+export type ChartTraces = {
+	paths: Record<ChartSeries, string>;
+	yMin: number;
+	yMax: number;
+	samples: number;
+};
+
+const SERIES_COUNT = 4;
+// Smallest autoscaled half-range, so a device lying still doesn't fill the chart with noise
+const MIN_AUTO_HALF_RANGE = 0.05;
+
+/**
+ * Turns the samples in the view window into one SVG path per series. Samples are reduced to
+ * the min and max per pixel column, so drawing cost depends on the chart width, not the
+ * sample rate, and short spikes stay visible.
+ */
+export function buildTraces(ring: SampleRing, view: ChartView): ChartTraces {
+	const cols = Math.max(1, Math.floor(view.width));
+	const start = view.endMs - view.spanMs;
+	const from = ring.indexAtOrAfter(start);
+	const to = ring.indexAtOrAfter(view.endMs + 0.001);
+	const mins = new Float64Array(cols * SERIES_COUNT).fill(Infinity);
+	const maxs = new Float64Array(cols * SERIES_COUNT).fill(-Infinity);
+
+	const note = (base: number, s: number, v: number) => {
+		if (v < mins[base + s]) mins[base + s] = v;
+		if (v > maxs[base + s]) maxs[base + s] = v;
+	};
+	ring.forEachInRange(from, to, (t, x, y, z) => {
+		const col = Math.min(cols - 1, Math.max(0, Math.floor(((t - start) / view.spanMs) * cols)));
+		const base = col * SERIES_COUNT;
+		note(base, 0, x);
+		note(base, 1, y);
+		note(base, 2, z);
+		note(base, 3, Math.sqrt(x * x + y * y + z * z));
+	});
+
+	let yMin: number;
+	let yMax: number;
+	if (view.range === 'auto') {
+		let lo = Infinity;
+		let hi = -Infinity;
+		CHART_SERIES.forEach((series, s) => {
+			if (!view.visible[series.key]) return;
+			for (let c = 0; c < cols; c++) {
+				lo = Math.min(lo, mins[c * SERIES_COUNT + s]);
+				hi = Math.max(hi, maxs[c * SERIES_COUNT + s]);
+			}
+		});
+		if (!Number.isFinite(lo)) {
+			lo = -1;
+			hi = 1;
+		}
+		const mid = (lo + hi) / 2;
+		const half = Math.max(MIN_AUTO_HALF_RANGE, ((hi - lo) / 2) * 1.1);
+		yMin = mid - half;
+		yMax = mid + half;
+	} else {
+		yMin = -view.range;
+		yMax = view.range;
+	}
+
+	const toY = (v: number) => {
+		const y = view.height - ((v - yMin) / (yMax - yMin)) * view.height;
+		return Math.min(view.height, Math.max(0, y)).toFixed(1);
+	};
+	const paths = {} as Record<ChartSeries, string>;
+	CHART_SERIES.forEach((series, s) => {
+		if (!view.visible[series.key]) {
+			paths[series.key] = '';
+			return;
+		}
+		let d = '';
+		for (let c = 0; c < cols; c++) {
+			const lo = mins[c * SERIES_COUNT + s];
+			if (lo === Infinity) continue;
+			const hi = maxs[c * SERIES_COUNT + s];
+			const x = (c + 0.5).toFixed(1);
+			d += `${d ? 'L' : 'M'}${x} ${toY(lo)}`;
+			if (hi !== lo) d += `L${x} ${toY(hi)}`;
+		}
+		paths[series.key] = d;
+	});
+
+	return { paths, yMin, yMax, samples: Math.max(0, to - from) };
+}
+
+// Evenly spaced round values between min and max for horizontal grid lines
+export function gridLines(min: number, max: number, target: number = 4): number[] {
+	const span = max - min;
+	if (!(span > 0)) return [];
+	const raw = span / target;
+	const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+	// Small tolerance so float noise in the span doesn't push the step up a size
+	const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw * (1 - 1e-9)) ?? raw;
+	const lines: number[] = [];
+	for (let i = Math.ceil(min / step - 1e-9); i * step <= max + step * 1e-9; i++) {
+		lines.push(Number((i * step).toPrecision(12)));
+	}
+	return lines;
+}
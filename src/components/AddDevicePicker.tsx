@@ -0,0 +1,69 @@
+import React from 'react';
+import { FlatList, Modal, Text, View } from 'react-native';
+import { UiDevice } from '../ble/useBle';
+import { DeviceListItem } from './DeviceListItem';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	visible: boolean;
+	devices: UiDevice[];
+	// Ids already connected, left out of the list
+	connectedIds: string[];
+	isScanning: boolean;
+	onScan: () => void;
+	onStopScan: () => void;
+	onClose: () => void;
+	onPick: (device: UiDevice) => void;
+};
+
+export const AddDevicePicker: React.FC<Props> = ({ visible, devices, connectedIds, isScanning, onScan, onStopScan, onClose, onPick }) => {
+	const available = devices.filter(d => !connectedIds.includes(d.id));
+	// Each extra sample device needs its own id to be told apart from the others
+	let sampleNumber = 2;
+	while (connectedIds.includes(`sample-device-${sampleNumber}`)) sampleNumber++;
+
+	const pick = (device: UiDevice) => {
+		onPick(device);
+		onClose();
+	};
+
+	return (
+		<Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+			<View style={{ flex: 1, backgroundColor: '#000000aa', justifyContent: 'center', padding: 24 }}>
+				<View
+					style={{
+						backgroundColor: '#111827',
+						borderRadius: 14,
+						padding: 16,
+						borderWidth: 1,
+						borderColor: '#1f2937',
+						gap: 10,
+						maxHeight: '85%',
+					}}
+				>
+					<Text style={{ color: 'white', fontWeight: '800', fontSize: 16 }}>Add Device</Text>
+					<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+						{isScanning ? `Scanning… (${available.length} found)` : 'The device streams next to the connected one and is recorded into the same sessions'}
+					</Text>
+					<FlatList
+						data={available}
+						keyExtractor={d => d.id}
+						contentContainerStyle={{ gap: 8 }}
+						renderItem={({ item }) => <DeviceListItem item={item} onPress={pick} />}
+						ListEmptyComponent={
+							<Text style={{ color: '#9ca3af', textAlign: 'center' }}>No other devices found. Tap Scan to discover devices.</Text>
+						}
+					/>
+					<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+						<PrimaryButton title={isScanning ? 'Stop Scan' : 'Scan'} onPress={isScanning ? onStopScan : onScan} active={isScanning} />
+						<PrimaryButton
+							title="Add Sample Device"
+							onPress={() => pick({ id: `sample-device-${sampleNumber}`, name: `Sample Accelerometer ${sampleNumber}`, isSample: true })}
+						/>
+						<PrimaryButton title="Close" onPress={onClose} />
+					</View>
+				</View>
+			</View>
+		</Modal>
+	);
+};
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Modal, ScrollView, Switch, Text, TouchableOpacity, View } from 'react-native';
+import {
+	CALIBRATION_POSES,
+	Calibration,
+	calibrationLabel,
+	PoseCapture,
+	PoseKey,
+	poseProblem,
+	solveCalibration,
+} from '../calibration/calibration';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	visible: boolean;
+	deviceId: string | null;
+	streaming: boolean;
+	onClose: () => void;
+	onCapture: () => Promise<PoseCapture>;
+	onApply: (cal: Calibration) => Promise<void>;
+};
+
+export const CalibrationWizard: React.FC<Props> = ({ visible, deviceId, streaming, onClose, onCapture, onApply }) => {
+	const [captures, setCaptures] = useState<Partial<Record<PoseKey, PoseCapture>>>({});
+	const [current, setCurrent] = useState(0);
+	const [crossAxis, setCrossAxis] = useState(false);
+	const [busy, setBusy] = useState(false);
+	const [message, setMessage] = useState<string | null>(null);
+	const [result, setResult] = useState<Calibration | null>(null);
+
+	useEffect(() => {
+		if (!visible) return;
+		setCaptures({});
+		setCurrent(0);
+		setMessage(null);
+		setResult(null);
+	}, [visible]);
+
+	const pose = CALIBRATION_POSES[current];
+	const complete = CALIBRATION_POSES.every(p => captures[p.key]);
+
+	const capture = async () => {
+		setBusy(true);
+		setMessage(null);
+		setResult(null);
+		try {
+			const c = await onCapture();
+			const problem = poseProblem(pose, c);
+			if (problem) {
+				setMessage(problem);
+				return;
+			}
+			const next = { ...captures, [pose.key]: c };
+			setCaptures(next);
+			const missing = CALIBRATION_POSES.findIndex(p => !next[p.key]);
+			if (missing >= 0) setCurrent(missing);
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const compute = () => {
+		try {
+			const means = Object.fromEntries(CALIBRATION_POSES.map(p => [p.key, captures[p.key]!.mean])) as Record<PoseKey, PoseCapture['mean']>;
+			setResult(solveCalibration(deviceId ?? '', means, crossAxis));
+			setMessage(null);
+		} catch (e: any) {
+			setMessage(e?.message ?? String(e));
+		}
+	};
+
+	const apply = async () => {
+		if (!result) return;
+		setBusy(true);
+		try {
+			await onApply(result);
+		} finally {
+			setBusy(false);
+		}
+		onClose();
+	};
+
+	return (
+		<Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+			<View style={{ flex: 1, backgroundColor: '#000000aa', justifyContent: 'center', padding: 24 }}>
+				<ScrollView
+					style={{ flexGrow: 0 }}
+					contentContainerStyle={{
+						backgroundColor: '#111827',
+						borderRadius: 14,
+						padding: 16,
+						borderWidth: 1,
+						borderColor: '#1f2937',
+						gap: 10,
+					}}
+				>
+					<Text style={{ color: 'white', fontWeight: '800', fontSize: 16 }}>Calibrate Accelerometer</Text>
+					<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+						Rest the device on each face in turn, keep it still, then tap Capture. Raw readings are averaged for 2 seconds.
+					</Text>
+					{!streaming && (
+						<Text style={{ color: '#fbbf24', fontSize: 12 }}>Start notifications first so samples arrive.</Text>
+					)}
+
+					{CALIBRATION_POSES.map((p, i) => {
+						const c = captures[p.key];
+						return (
+							<TouchableOpacity
+								key={p.key}
+								onPress={() => setCurrent(i)}
+								disabled={busy}
+								style={{
+									borderWidth: 1,
+									borderColor: i === current ? '#2563eb' : '#374151',
+									backgroundColor: i === current ? '#1e3a8a' : 'transparent',
+									borderRadius: 10,
+									padding: 10,
+								}}
+							>
+								<Text style={{ color: 'white', fontWeight: '700' }}>
+									{c ? '✅' : '⬜️'} {p.label}
+								</Text>
+								{c && (
+									<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+										{c.mean.x.toFixed(4)} / {c.mean.y.toFixed(4)} / {c.mean.z.toFixed(4)} g • ±{c.std.toFixed(4)} • {c.count} samples
+									</Text>
+								)}
+							</TouchableOpacity>
+						);
+					})}
+
+					<View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+						<Text style={{ color: '#e5e7eb' }}>Estimate cross-axis terms</Text>
+						<Switch value={crossAxis} onValueChange={v => { setCrossAxis(v); setResult(null); }} />
+					</View>
+
+					{message && <Text style={{ color: '#f87171' }}>{message}</Text>}
+					{result && (
+						<Text selectable style={{ color: '#86efac', fontSize: 12 }}>{calibrationLabel(result)}</Text>
+					)}
+
+					{busy ? (
+						<View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+							<ActivityIndicator color="#93c5fd" />
+							<Text style={{ color: '#93c5fd' }}>Hold still…</Text>
+						</View>
+					) : (
+						<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+							<PrimaryButton title={`Capture ${pose.key.toUpperCase()}`} onPress={capture} disabled={!streaming} />
+							<PrimaryButton title="Compute" onPress={compute} disabled={!complete} />
+							<PrimaryButton title="Save & Apply" onPress={apply} disabled={!result} active={!!result} />
+							<PrimaryButton title="Cancel" onPress={onClose} />
+						</View>
+					)}
+				</ScrollView>
+			</View>
+		</Modal>
+	);
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Text, TouchableOpacity } from 'react-native';
+
+type Props = {
+	label: string;
+	selected: boolean;
+	// Outline and text color when selected, used for series toggles; blue fill otherwise
+	color?: string;
+	onPress: () => void;
+};
+
+export const Chip: React.FC<Props> = ({ label, selected, color, onPress }) => (
+	<TouchableOpacity
+		onPress={onPress}
+		style={{
+			borderWidth: 1,
+			borderColor: selected ? color ?? '#2563eb' : '#374151',
+			backgroundColor: selected && !color ? '#1e3a8a' : 'transparent',
+			paddingHorizontal: 10,
+			paddingVertical: 6,
+			borderRadius: 8,
+		}}
+	>
+		<Text style={{ color: selected ? color ?? 'white' : '#6b7280', fontSize: 12, fontWeight: '600' }}>{label}</Text>
+	</TouchableOpacity>
+);
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { macroLabel, macroText, MacroStep, parseMacro } from '../ble/commands';
+import { gattLabel, GattRef, sameGattRef } from '../ble/gatt';
+import { ConsoleEntry, useCommandConsole } from '../ble/useCommandConsole';
+import { Chip } from './Chip';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = { commandConsole: ReturnType<typeof useCommandConsole> };
+
+// Log lines shown; the console keeps more
+const LOG_ROWS = 30;
+
+const ENTRY_COLORS: Record<ConsoleEntry['kind'], string> = {
+	sent: '#93c5fd',
+	wait: '#6b7280',
+	response: '#86efac',
+	info: '#9ca3af',
+	error: '#f87171',
+};
+
+const ENTRY_PREFIXES: Record<ConsoleEntry['kind'], string> = {
+	sent: '→',
+	wait: '…',
+	response: '←',
+	info: '•',
+	error: '!',
+};
+
+const RefChips: React.FC<{ refs: GattRef[]; selected: GattRef | null; onSelect: (ref: GattRef | null) => void; noneLabel?: string }> = ({
+	refs,
+	selected,
+	onSelect,
+	noneLabel,
+}) => (
+	<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+		{noneLabel && <Chip label={noneLabel} selected={!selected} onPress={() => onSelect(null)} />}
+		{refs.map(ref => (
+			<Chip key={`${ref.service}/${ref.characteristic}`} label={gattLabel(ref.characteristic)} selected={sameGattRef(ref, selected)} onPress={() => onSelect(ref)} />
+		))}
+	</View>
+);
+
+export const CommandConsoleCard: React.FC<Props> = ({ commandConsole: c }) => {
+	const [input, setInput] = useState('');
+	const [name, setName] = useState('');
+
+	let steps: MacroStep[] | null = null;
+	let inputError: string | null = null;
+	if (input.trim()) {
+		try {
+			steps = parseMacro(input);
+		} catch (e: any) {
+			inputError = e?.message ?? String(e);
+		}
+	}
+	const trimmedName = name.trim();
+	const log = c.log.slice(-LOG_ROWS).reverse();
+
+	const save = () => {
+		if (!steps || !trimmedName) return;
+		const existing = c.commands.find(cmd => cmd.name === trimmedName);
+		c.saveCommand({ name: trimmedName, steps, runOnConnect: existing?.runOnConnect ?? false });
+	};
+
+	return (
+		<View
+			style={{
+				backgroundColor: '#111827',
+				padding: 14,
+				borderRadius: 14,
+				borderWidth: 1,
+				borderColor: '#1f2937',
+				gap: 10,
+			}}
+		>
+			<View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+				<Text style={{ color: 'white', fontWeight: '800' }}>Command Console</Text>
+				{c.running && <PrimaryButton title={`Stop "${c.running}"`} onPress={c.stop} danger />}
+			</View>
+
+			<Text style={{ color: '#9ca3af', fontSize: 12 }}>Send to</Text>
+			{c.writable.length ? (
+				<RefChips refs={c.writable} selected={c.target} onSelect={c.setTarget} />
+			) : (
+				<Text style={{ color: '#6b7280', fontSize: 12 }}>No writable characteristics found.</Text>
+			)}
+			<Text style={{ color: '#9ca3af', fontSize: 12 }}>Responses from</Text>
+			<RefChips refs={c.notifiable} selected={c.response} onSelect={c.setResponse} noneLabel="None" />
+
+			<TextInput
+				value={input}
+				onChangeText={setInput}
+				multiline
+				autoCapitalize="none"
+				autoCorrect={false}
+				placeholder={'Hex, one payload per line, e.g.\n01 64\nwait 100ms\n02'}
+				placeholderTextColor="#6b7280"
+				style={{
+					borderWidth: 1,
+					borderColor: inputError ? '#f87171' : '#374151',
+					paddingHorizontal: 10,
+					paddingVertical: 6,
+					borderRadius: 8,
+					color: 'white',
+					fontFamily: 'monospace',
+					minHeight: 60,
+				}}
+			/>
+			{inputError && <Text style={{ color: '#f87171', fontSize: 12 }}>{inputError}</Text>}
+			<View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+				<PrimaryButton title="Send" onPress={() => steps && c.run('Command', steps)} disabled={!steps || !c.target || !!c.running} />
+				<TextInput
+					value={name}
+					onChangeText={setName}
+					placeholder="Name to save as"
+					placeholderTextColor="#6b7280"
+					style={{
+						flex: 1,
+						borderWidth: 1,
+						borderColor: '#374151',
+						paddingHorizontal: 10,
+						paddingVertical: 6,
+						borderRadius: 8,
+						color: 'white',
+					}}
+				/>
+				<PrimaryButton title="Save" onPress={save} disabled={!steps || !trimmedName} />
+			</View>
+
+			{c.commands.map(cmd => (
+				<View key={cmd.name} style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+					<TouchableOpacity
+						style={{ flex: 1 }}
+						onPress={() => {
+							setName(cmd.name);
+							setInput(macroText(cmd.steps));
+						}}
+					>
+						<Text style={{ color: 'white', fontWeight: '600' }}>{cmd.name}</Text>
+						<Text style={{ color: '#6b7280', fontSize: 12 }}>{macroLabel(cmd.steps)}</Text>
+					</TouchableOpacity>
+					<Chip label="On connect" selected={cmd.runOnConnect} onPress={() => c.setRunOnConnect(cmd.name, !cmd.runOnConnect)} />
+					<PrimaryButton title="Run" onPress={() => c.runCommand(cmd.name)} disabled={!c.target || !!c.running} />
+					<PrimaryButton title="✕" onPress={() => c.deleteCommand(cmd.name)} danger />
+				</View>
+			))}
+
+			{c.error && (
+				<Text style={{ color: '#f87171', fontSize: 12 }} onPress={c.clearError}>
+					{c.error} (tap to dismiss)
+				</Text>
+			)}
+
+			{log.length > 0 && (
+				<View style={{ gap: 2 }}>
+					{log.map((entry, i) => (
+						<Text key={`${entry.t}-${i}`} selectable style={{ color: ENTRY_COLORS[entry.kind], fontSize: 11, fontFamily: 'monospace' }}>
+							{ENTRY_PREFIXES[entry.kind]} {entry.text}
+						</Text>
+					))}
+					<TouchableOpacity onPress={c.clearLog}>
+						<Text style={{ color: '#6b7280', fontSize: 12 }}>Clear log</Text>
+					</TouchableOpacity>
+				</View>
+			)}
+			<Text style={{ color: '#6b7280', fontSize: 12 }}>
+				Tap a saved command to edit it; saving under the same name replaces it. Commands marked on connect run after every connection, in order.
+			</Text>
+		</View>
+	);
+};
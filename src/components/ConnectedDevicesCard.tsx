@@ -0,0 +1,90 @@
+import React from 'react';
+import { Text, View } from 'react-native';
+import { Accel } from '../ble/useBle';
+import { LinkedDeviceStatus, LinkedState } from '../ble/LinkedDevice';
+import { lossPercent, LinkStats } from '../ble/linkStats';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	primaryName: string | null;
+	primaryAccel: Accel | null;
+	primaryStats: LinkStats;
+	recordedRows: number;
+	linked: LinkedDeviceStatus[];
+	onAdd: () => void;
+	onRemove: (id: string) => void;
+};
+
+const STATE_LABELS: Record<LinkedState, string> = {
+	connecting: '🟡 Connecting',
+	streaming: '🟢 Streaming',
+	reconnecting: '🟠 Reconnecting',
+	failed: '🔴 Failed',
+	stopped: '⚪ Stopped',
+};
+
+function formatAccel(a: Accel | null): string {
+	return a ? `X ${a.x.toFixed(3)}  Y ${a.y.toFixed(3)}  Z ${a.z.toFixed(3)}` : 'X --  Y --  Z --';
+}
+
+const DeviceRow: React.FC<{
+	name: string;
+	state: string;
+	accel: Accel | null;
+	stats: LinkStats;
+	rows: number;
+	detail?: string | null;
+	error?: string | null;
+	onRemove?: () => void;
+}> = ({ name, state, accel, stats, rows, detail, error, onRemove }) => (
+	<View style={{ borderWidth: 1, borderColor: '#374151', borderRadius: 10, padding: 10, gap: 2 }}>
+		<View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+			<Text style={{ color: 'white', fontWeight: '700', flex: 1 }} numberOfLines={1}>{name}</Text>
+			<Text style={{ color: '#9ca3af', fontSize: 12 }}>{state}</Text>
+			{onRemove && (
+				<Text style={{ color: '#9ca3af', fontSize: 18, paddingHorizontal: 4 }} onPress={onRemove}>✕</Text>
+			)}
+		</View>
+		<Text style={{ color: '#e5e7eb', fontVariant: ['tabular-nums'] }}>{formatAccel(accel)}</Text>
+		<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+			{stats.sampleRateHz.toFixed(1)} Hz • {stats.received} packets{stats.dropped > 0 ? ` • ${lossPercent(stats).toFixed(2)}% lost` : ''} • {rows} rows recorded
+		</Text>
+		{!!detail && <Text style={{ color: '#6b7280', fontSize: 12 }}>{detail}</Text>}
+		{!!error && <Text style={{ color: '#f87171', fontSize: 12 }}>{error}</Text>}
+	</View>
+);
+
+export const ConnectedDevicesCard: React.FC<Props> = ({ primaryName, primaryAccel, primaryStats, recordedRows, linked, onAdd, onRemove }) => (
+	<View
+		style={{
+			backgroundColor: '#111827',
+			padding: 14,
+			borderRadius: 14,
+			borderWidth: 1,
+			borderColor: '#1f2937',
+			gap: 10,
+		}}
+	>
+		<Text style={{ color: 'white', fontWeight: '800' }}>Devices</Text>
+		<DeviceRow name={`${primaryName ?? '--'} (primary)`} state="" accel={primaryAccel} stats={primaryStats} rows={recordedRows} />
+		{linked.map(d => (
+			<DeviceRow
+				key={d.id}
+				name={d.name}
+				state={STATE_LABELS[d.state]}
+				accel={d.accel}
+				stats={d.linkStats}
+				rows={d.recordedRows}
+				detail={[d.profileLabel ?? d.formatLabel, d.calibrated ? 'calibrated' : null].filter(Boolean).join(' • ')}
+				error={d.error}
+				onRemove={() => onRemove(d.id)}
+			/>
+		))}
+		<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+			<PrimaryButton title="Add Device…" onPress={onAdd} />
+		</View>
+		<Text style={{ color: '#6b7280', fontSize: 12 }}>
+			Added devices are recorded into the current session, each in its own file on the same clock. Filters, metrics and triggers apply to the primary device.
+		</Text>
+	</View>
+);
@@ -1,13 +1,43 @@
 import React from 'react';
 import { TouchableOpacity, View, Text } from 'react-native';
 import { UiDevice } from '../ble/useBle';
+import { generatorLabel } from '../generator/signalGenerator';
 
 type Props = {
 	item: UiDevice;
 	onPress: (d: UiDevice) => void;
+	// Shown for entries the user added, such as replay devices and signal generators
+	onRemove?: () => void;
 };
 
-export const DeviceListItem: React.FC<Props> = ({ item, onPress }) => {
+// Four bars at -60 dBm and above, one below -80 dBm
+function signalBars(rssi: number): string {
+	const bars = rssi >= -60 ? 4 : rssi >= -70 ? 3 : rssi >= -80 ? 2 : 1;
+	return '▂▄▆█'.slice(0, bars).padEnd(4, '·');
+}
+
+// Sensor values a broadcast tag sends along with acceleration
+const EXTRA_LABELS: Record<string, (v: number) => string> = {
+	temperatureC: v => `${v.toFixed(1)} °C`,
+	humidityPct: v => `${v.toFixed(0)} %RH`,
+	batteryMv: v => `${(v / 1000).toFixed(2)} V`,
+};
+
+function broadcastLine(item: UiDevice): string {
+	const b = item.broadcast!;
+	const extras = Object.entries(b.extra ?? {})
+		.filter(([key]) => EXTRA_LABELS[key])
+		.map(([key, v]) => EXTRA_LABELS[key](v));
+	if (!b.accel) return `${b.decoder}: waiting for adverts`;
+	return [`${b.decoder}: X ${b.accel.x.toFixed(3)}  Y ${b.accel.y.toFixed(3)}  Z ${b.accel.z.toFixed(3)}`, ...extras].join(' • ');
+}
+
+function seenAgo(lastSeen: number): string {
+	const s = Math.max(0, Math.round((Date.now() - lastSeen) / 1000));
+	return s < 1 ? 'just now' : `${s} s ago`;
+}
+
+export const DeviceListItem: React.FC<Props> = ({ item, onPress, onRemove }) => {
 	return (
 		<TouchableOpacity
 			onPress={() => onPress(item)}
@@ -16,7 +46,7 @@ export const DeviceListItem: React.FC<Props> = ({ item, onPress }) => {
 				borderRadius: 14,
 				padding: 16,
 				borderWidth: 1,
-				borderColor: item.isSample ? '#22c55e55' : '#1f2937',
+				borderColor: item.isSample ? '#22c55e55' : item.known ? '#2563eb88' : '#1f2937',
 				flexDirection: 'row',
 				alignItems: 'center',
 				gap: 12,
@@ -31,24 +61,39 @@ export const DeviceListItem: React.FC<Props> = ({ item, onPress }) => {
 				justifyContent: 'center',
 			}}>
 				<Text style={{ color: 'white', fontSize: 18, fontWeight: 'bold' }}>
-					{item.isSample ? '📱' : '📶'}
+					{item.replay ? '⏯️' : item.isSample ? '📱' : item.broadcast ? '📡' : '📶'}
 				</Text>
 			</View>
 			
 			<View style={{ flex: 1 }}>
 				<Text style={{ color: 'white', fontWeight: '800', fontSize: 16 }}>
-					{item.name ?? '(no name)'}
+					{item.known ? '📌 ' : ''}{item.nickname || item.name || '(no name)'}
 				</Text>
 				<Text selectable style={{ color: '#9ca3af', marginTop: 2, fontSize: 12 }}>
-					{item.id}
+					{item.nickname ? `${item.name} • ${item.id}` : item.id}
 				</Text>
+				{typeof item.rssi === 'number' && (
+					<Text style={{ color: '#93c5fd', marginTop: 4, fontSize: 12, fontVariant: ['tabular-nums'] }}>
+						{signalBars(item.rssi)} {item.rssi} dBm{item.lastSeen !== undefined ? ` • seen ${seenAgo(item.lastSeen)}` : ''}
+					</Text>
+				)}
+				{item.broadcast && (
+					<Text style={{ color: '#fcd34d', marginTop: 4, fontSize: 12, fontVariant: ['tabular-nums'] }}>{broadcastLine(item)}</Text>
+				)}
 				{item.isSample && (
 					<Text style={{ color: '#86efac', marginTop: 4, fontSize: 12 }}>
-						Simulated accelerometer data
+						{item.replay
+							? `Replays recorded data • ${item.replay.detail}`
+							: item.generator
+								? generatorLabel(item.generator)
+								: 'Simulated accelerometer data'}
 					</Text>
 				)}
 			</View>
 			
+			{onRemove && (
+				<Text style={{ color: '#9ca3af', fontSize: 18, paddingHorizontal: 4 }} onPress={onRemove}>✕</Text>
+			)}
 			<Text style={{ color: '#6b7280', fontSize: 20 }}>›</Text>
 		</TouchableOpacity>
 	);
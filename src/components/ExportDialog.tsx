@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Modal, Text, TouchableOpacity, View } from 'react-native';
+import { EXPORT_FORMATS, ExportFormat } from '../export/exporters';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	visible: boolean;
+	title?: string;
+	onClose: () => void;
+	onShare: (format: ExportFormat) => Promise<void>;
+	// Optional second action that writes the file without opening the share sheet
+	onSave?: (format: ExportFormat) => Promise<void>;
+};
+
+export const ExportDialog: React.FC<Props> = ({ visible, title = 'Export Recording', onClose, onShare, onSave }) => {
+	const [format, setFormat] = useState<ExportFormat>('csv');
+	const [busy, setBusy] = useState(false);
+
+	const run = async (action: (format: ExportFormat) => Promise<void>) => {
+		setBusy(true);
+		try {
+			await action(format);
+		} finally {
+			setBusy(false);
+		}
+		onClose();
+	};
+
+	return (
+		<Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+			<View style={{ flex: 1, backgroundColor: '#000000aa', justifyContent: 'center', padding: 24 }}>
+				<View
+					style={{
+						backgroundColor: '#111827',
+						borderRadius: 14,
+						padding: 16,
+						borderWidth: 1,
+						borderColor: '#1f2937',
+						gap: 10,
+					}}
+				>
+					<Text style={{ color: 'white', fontWeight: '800', fontSize: 16 }}>{title}</Text>
+					{EXPORT_FORMATS.map(f => (
+						<TouchableOpacity
+							key={f.key}
+							onPress={() => setFormat(f.key)}
+							disabled={busy}
+							style={{
+								borderWidth: 1,
+								borderColor: format === f.key ? '#2563eb' : '#374151',
+								backgroundColor: format === f.key ? '#1e3a8a' : 'transparent',
+								borderRadius: 10,
+								padding: 10,
+							}}
+						>
+							<Text style={{ color: 'white', fontWeight: '700' }}>{f.label}</Text>
+							<Text style={{ color: '#9ca3af', fontSize: 12 }}>{f.description}</Text>
+						</TouchableOpacity>
+					))}
+					{busy ? (
+						<View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+							<ActivityIndicator color="#93c5fd" />
+							<Text style={{ color: '#93c5fd' }}>Exporting…</Text>
+						</View>
+					) : (
+						<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+							<PrimaryButton title="Share" onPress={() => run(onShare)} active />
+							{onSave && <PrimaryButton title="Save" onPress={() => run(onSave)} />}
+							<PrimaryButton title="Cancel" onPress={onClose} />
+						</View>
+					)}
+				</View>
+			</View>
+		</Modal>
+	);
+};
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import { FILTER_DEFAULTS, FILTER_NAMES, filterChainLabel, FilterSpec, FilterType } from '../filters/filterChain';
+import { NumberField } from './NumberField';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	filters: FilterSpec[];
+	onApply: (filters: FilterSpec[]) => void;
+	compareRaw: boolean;
+	onCompareRaw: (on: boolean) => void;
+};
+
+const PARAM_LABELS: Record<string, string> = {
+	cutoffHz: 'Cutoff Hz',
+	order: 'Order',
+	lowHz: 'Low Hz',
+	highHz: 'High Hz',
+	window: 'Samples',
+	thresholdG: 'Spike > g (0 = median)',
+	timeConstantS: 'Time const. s',
+	factor: 'Factor',
+};
+
+// Parameters that may legitimately be zero
+const ZERO_ALLOWED = new Set(['thresholdG']);
+
+export const FilterChainCard: React.FC<Props> = ({ filters, onApply, compareRaw, onCompareRaw }) => {
+	// Edits are collected in a draft so a half-edited chain never reaches the data path
+	const [draft, setDraft] = useState<FilterSpec[]>(filters);
+	useEffect(() => setDraft(filters), [filters]);
+	const dirty = JSON.stringify(draft) !== JSON.stringify(filters);
+
+	const update = (index: number, key: string, value: number | undefined) => {
+		if (value === undefined) return;
+		setDraft(d => d.map((f, i) => (i === index ? ({ ...f, [key]: value } as FilterSpec) : f)));
+	};
+	const move = (index: number, delta: number) => {
+		const target = index + delta;
+		if (target < 0 || target >= draft.length) return;
+		const next = [...draft];
+		[next[index], next[target]] = [next[target], next[index]];
+		setDraft(next);
+	};
+
+	return (
+		<View
+			style={{
+				backgroundColor: '#111827',
+				padding: 14,
+				borderRadius: 14,
+				borderWidth: 1,
+				borderColor: '#1f2937',
+				gap: 10,
+			}}
+		>
+			<Text style={{ color: 'white', fontWeight: '800' }}>Filters</Text>
+			<Text style={{ color: '#9ca3af', fontSize: 12 }}>Active: {filterChainLabel(filters)}</Text>
+
+			{draft.map((f, i) => (
+				<View key={i} style={{ borderWidth: 1, borderColor: '#374151', borderRadius: 10, padding: 10, gap: 8 }}>
+					<View style={{ flexDirection: 'row', alignItems: 'center', gap: 12 }}>
+						<Text style={{ color: 'white', fontWeight: '700', flex: 1 }}>{i + 1}. {FILTER_NAMES[f.type]}</Text>
+						<Text style={{ color: '#9ca3af', fontSize: 16 }} onPress={() => move(i, -1)}>↑</Text>
+						<Text style={{ color: '#9ca3af', fontSize: 16 }} onPress={() => move(i, 1)}>↓</Text>
+						<Text style={{ color: '#f87171', fontSize: 16 }} onPress={() => setDraft(d => d.filter((_, j) => j !== i))}>✕</Text>
+					</View>
+					<View style={{ flexDirection: 'row', gap: 8 }}>
+						{Object.keys(f).filter(k => k !== 'type').map(k => (
+							<NumberField
+								key={k}
+								label={PARAM_LABELS[k] ?? k}
+								value={(f as Record<string, any>)[k]}
+								editable
+								allowZero={ZERO_ALLOWED.has(k)}
+								onCommit={v => update(i, k, v)}
+							/>
+						))}
+					</View>
+				</View>
+			))}
+
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				{(Object.keys(FILTER_DEFAULTS) as FilterType[]).map(type => (
+					<TouchableOpacity
+						key={type}
+						onPress={() => setDraft(d => [...d, { ...FILTER_DEFAULTS[type] }])}
+						style={{ backgroundColor: '#1f2937', paddingHorizontal: 10, paddingVertical: 8, borderRadius: 8 }}
+					>
+						<Text style={{ color: 'white', fontSize: 12 }}>+ {FILTER_NAMES[type]}</Text>
+					</TouchableOpacity>
+				))}
+			</View>
+
+			<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+				<PrimaryButton title="Apply" onPress={() => onApply(draft)} disabled={!dirty} active={dirty} />
+				<PrimaryButton title="Revert" onPress={() => setDraft(filters)} disabled={!dirty} />
+				<PrimaryButton
+					title={compareRaw ? 'Hide Unfiltered' : 'Compare Unfiltered'}
+					onPress={() => onCompareRaw(!compareRaw)}
+					disabled={filters.length === 0}
+				/>
+			</View>
+			{filters.length > 0 && (
+				<Text style={{ color: '#6b7280', fontSize: 12 }}>
+					Recordings store the filtered values; changing the chain starts a new session
+				</Text>
+			)}
+		</View>
+	);
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Alert, Text, TextInput, View } from 'react-native';
+import { AUTO_CONNECT_MODES, AutoConnectMode, KnownDevice, knownLabel, KnownDevicePatch } from '../ble/knownDevices';
+import { filterChainLabel } from '../filters/filterChain';
+import { formatLabel } from '../decoder/payloadFormat';
+import { Chip } from './Chip';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	devices: KnownDevice[];
+	autoConnect: AutoConnectMode;
+	onConnect: (id: string) => void;
+	onChange: (id: string, patch: KnownDevicePatch) => void;
+	onForget: (id: string) => void;
+	onAutoConnect: (mode: AutoConnectMode) => void;
+};
+
+function formatAgo(t: number): string {
+	const s = Math.round((Date.now() - t) / 1000);
+	if (s < 60) return 'just now';
+	if (s < 3600) return `${Math.round(s / 60)} min ago`;
+	if (s < 86400) return `${Math.round(s / 3600)} h ago`;
+	return new Date(t).toLocaleDateString();
+}
+
+const KnownDeviceRow: React.FC<{
+	device: KnownDevice;
+	onConnect: () => void;
+	onChange: Props['onChange'];
+	onForget: () => void;
+}> = ({ device, onConnect, onChange, onForget }) => {
+	const [editing, setEditing] = useState(false);
+	const [nickname, setNickname] = useState(device.nickname ?? '');
+	const { settings } = device;
+
+	const confirmForget = () => {
+		Alert.alert('Forget device?', `"${knownLabel(device)}" and its saved settings will be removed. Its calibration is kept.`, [
+			{ text: 'Cancel', style: 'cancel' },
+			{ text: 'Forget', style: 'destructive', onPress: onForget },
+		]);
+	};
+
+	return (
+		<View style={{ borderWidth: 1, borderColor: '#374151', borderRadius: 10, padding: 10, gap: 6 }}>
+			<View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+				<Text style={{ color: device.favorite ? '#fcd34d' : '#6b7280', fontSize: 18 }} onPress={() => onChange(device.id, { favorite: !device.favorite })}>
+					{device.favorite ? '★' : '☆'}
+				</Text>
+				<View style={{ flex: 1 }}>
+					<Text style={{ color: 'white', fontWeight: '700' }} numberOfLines={1}>
+						{device.broadcastDecoder ? '📡 ' : ''}{knownLabel(device)}
+					</Text>
+					<Text style={{ color: '#9ca3af', fontSize: 12 }} numberOfLines={1}>
+						{device.nickname ? `${device.name} • ` : ''}last connected {formatAgo(device.lastConnectedAt)}
+					</Text>
+				</View>
+				<PrimaryButton title="Connect" onPress={onConnect} active />
+			</View>
+			{editing && (
+				<View style={{ gap: 8 }}>
+					<TextInput
+						value={nickname}
+						onChangeText={setNickname}
+						onEndEditing={() => onChange(device.id, { nickname: nickname.trim() || null })}
+						placeholder="Nickname"
+						placeholderTextColor="#6b7280"
+						style={{ borderWidth: 1, borderColor: '#374151', paddingHorizontal: 10, paddingVertical: 6, borderRadius: 8, color: 'white' }}
+					/>
+					<Text selectable style={{ color: '#6b7280', fontSize: 12 }}>
+						{device.id}
+						{'\n'}Decoder: {device.broadcastDecoder ?? (settings.format ? formatLabel(settings.format) : 'from profile or auto-detect')}
+						{'\n'}Filters: {settings.filters.length ? filterChainLabel(settings.filters) : 'none'}
+					</Text>
+					<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+						<Chip
+							label="Stream on connect"
+							selected={settings.autoStream}
+							onPress={() => onChange(device.id, { settings: { autoStream: !settings.autoStream } })}
+						/>
+					</View>
+					<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+						<PrimaryButton title="Forget" onPress={confirmForget} danger />
+					</View>
+				</View>
+			)}
+			<Text style={{ color: '#93c5fd', fontSize: 12 }} onPress={() => setEditing(e => !e)}>
+				{editing ? 'Done' : 'Edit…'}
+			</Text>
+		</View>
+	);
+};
+
+export const KnownDevicesCard: React.FC<Props> = ({ devices, autoConnect, onConnect, onChange, onForget, onAutoConnect }) => {
+	if (!devices.length) return null;
+	return (
+		<View
+			style={{
+				backgroundColor: '#111827',
+				borderRadius: 14,
+				padding: 12,
+				borderWidth: 1,
+				borderColor: '#1f2937',
+				gap: 10,
+			}}
+		>
+			<Text style={{ color: 'white', fontWeight: '800' }}>Known Devices</Text>
+			{devices.map(d => (
+				<KnownDeviceRow key={d.id} device={d} onConnect={() => onConnect(d.id)} onChange={onChange} onForget={() => onForget(d.id)} />
+			))}
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap', alignItems: 'center' }}>
+				<Text style={{ color: '#9ca3af', fontSize: 12 }}>Auto-connect at launch:</Text>
+				{AUTO_CONNECT_MODES.map(m => (
+					<Chip key={m.key} label={m.label} selected={autoConnect === m.key} onPress={() => onAutoConnect(m.key)} />
+				))}
+			</View>
+		</View>
+	);
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Text, View } from 'react-native';
+import { LinkStats, lossPercent } from '../ble/linkStats';
+
+type Props = {
+	stats: LinkStats;
+	hasSequence: boolean;
+};
+
+const Stat: React.FC<{ label: string; value: string; warn?: boolean }> = ({ label, value, warn }) => (
+	<View style={{ minWidth: 90 }}>
+		<Text style={{ color: '#9ca3af', fontSize: 12 }}>{label}</Text>
+		<Text style={{ color: warn ? '#f87171' : '#e5e7eb', fontWeight: '600' }}>{value}</Text>
+	</View>
+);
+
+export const LinkStatsCard: React.FC<Props> = ({ stats, hasSequence }) => {
+	const loss = lossPercent(stats);
+	return (
+		<View
+			style={{
+				backgroundColor: '#111827',
+				padding: 14,
+				borderRadius: 14,
+				borderWidth: 1,
+				borderColor: '#1f2937',
+				gap: 10,
+			}}
+		>
+			<Text style={{ color: 'white', fontWeight: '800' }}>Link Quality</Text>
+			<View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 12 }}>
+				<Stat label="Packets" value={String(stats.received)} />
+				<Stat label="Sample rate" value={`${stats.sampleRateHz.toFixed(1)} Hz`} />
+				<Stat label="Interval" value={`${stats.meanIntervalMs.toFixed(1)} ms`} />
+				<Stat label="Jitter" value={`${stats.jitterMs.toFixed(1)} ms`} />
+				<Stat label="RSSI" value={stats.rssi !== null ? `${stats.rssi} dBm` : '--'} />
+			</View>
+			{hasSequence ? (
+				<View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 12 }}>
+					<Stat label="Dropped" value={`${stats.dropped} (${loss.toFixed(2)}%)`} warn={stats.dropped > 0} />
+					<Stat label="Duplicated" value={String(stats.duplicated)} warn={stats.duplicated > 0} />
+					<Stat label="Out of order" value={String(stats.outOfOrder)} warn={stats.outOfOrder > 0} />
+				</View>
+			) : (
+				<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+					Set a sequence counter in the payload format to detect lost packets.
+				</Text>
+			)}
+		</View>
+	);
+};
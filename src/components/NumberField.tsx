@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { Text, TextInput, View } from 'react-native';
+
+type Props = {
+	label: string;
+	value?: number;
+	onCommit: (v: number | undefined) => void;
+	editable: boolean;
+	allowZero?: boolean;
+	// For levels that may be negative, such as a trigger level on one axis
+	allowNegative?: boolean;
+};
+
+// Numeric input that reports a value when editing ends; invalid text commits undefined
+export const NumberField: React.FC<Props> = ({ label, value, onCommit, editable, allowZero, allowNegative }) => {
+	const [text, setText] = useState(value !== undefined ? String(value) : '');
+	useEffect(() => {
+		setText(value !== undefined ? String(value) : '');
+	}, [value]);
+	const commit = () => {
+		const n = Number(text);
+		const valid = text.trim() !== '' && Number.isFinite(n) && (allowNegative || (allowZero ? n >= 0 : n > 0));
+		onCommit(valid ? n : undefined);
+	};
+	return (
+		<View style={{ flex: 1, gap: 4 }}>
+			<Text style={{ color: '#9ca3af', fontSize: 12 }}>{label}</Text>
+			<TextInput
+				value={text}
+				onChangeText={setText}
+				onEndEditing={commit}
+				onSubmitEditing={commit}
+				editable={editable}
+				keyboardType="numeric"
+				placeholder="—"
+				placeholderTextColor="#6b7280"
+				style={{
+					borderWidth: 1,
+					borderColor: '#374151',
+					paddingHorizontal: 10,
+					paddingVertical: 6,
+					borderRadius: 8,
+					color: 'white',
+				}}
+			/>
+		</View>
+	);
+};
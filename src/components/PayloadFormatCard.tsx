@@ -0,0 +1,151 @@
+import React from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import { FormatProposal } from '../decoder/autoDetect';
+import { FORMAT_PRESETS, formatLabel, PayloadFormat, SequenceType } from '../decoder/payloadFormat';
+import { NumberField } from './NumberField';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	format: PayloadFormat | null;
+	proposal: FormatProposal | null;
+	onSelect: (format: PayloadFormat) => void;
+	onAutoDetect: () => void;
+	onConfirm: () => void;
+	onDismiss: () => void;
+};
+
+type BatchField = 'headerSize' | 'frameSize' | 'odrHz';
+
+const BATCH_FIELDS: Array<{ key: BatchField; label: string }> = [
+	{ key: 'headerSize', label: 'Header bytes' },
+	{ key: 'frameSize', label: 'Frame bytes' },
+	{ key: 'odrHz', label: 'ODR Hz' },
+];
+
+const SEQUENCE_TYPES: Array<SequenceType | null> = [null, 'uint8', 'uint16', 'uint32'];
+
+function batchOf(format: PayloadFormat | null): Pick<PayloadFormat, BatchField | 'sequence'> {
+	return { headerSize: format?.headerSize, frameSize: format?.frameSize, odrHz: format?.odrHz, sequence: format?.sequence };
+}
+
+export const PayloadFormatCard: React.FC<Props> = ({ format, proposal, onSelect, onAutoDetect, onConfirm, onDismiss }) => {
+	const current = format ? formatLabel(format) : null;
+	// Presets describe the field layout only, so switching presets keeps the batch settings
+	const layoutOf = (f: PayloadFormat) => formatLabel({ ...f, headerSize: undefined, frameSize: undefined, odrHz: undefined, sequence: undefined });
+	const setBatch = (key: BatchField, value: number | undefined) => {
+		if (!format) return;
+		onSelect({ ...format, [key]: value });
+	};
+	const setSequence = (type: SequenceType | null, offset?: number) => {
+		if (!format) return;
+		onSelect({
+			...format,
+			sequence: type ? { type, offset: offset ?? format.sequence?.offset ?? 0, endianness: format.endianness } : undefined,
+		});
+	};
+	return (
+		<View
+			style={{
+				backgroundColor: '#111827',
+				padding: 14,
+				borderRadius: 14,
+				borderWidth: 1,
+				borderColor: '#1f2937',
+				gap: 10,
+			}}
+		>
+			<Text style={{ color: 'white', fontWeight: '800' }}>Payload Format</Text>
+			<Text style={{ color: current ? '#e5e7eb' : '#fbbf24' }}>
+				{current ?? 'Not set • incoming packets are not decoded'}
+			</Text>
+
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				{FORMAT_PRESETS.map(p => {
+					const selected = !!format && layoutOf(format) === layoutOf(p.format);
+					return (
+						<TouchableOpacity
+							key={p.id}
+							onPress={() => onSelect({ ...p.format, ...batchOf(format) })}
+							style={{
+								backgroundColor: selected ? '#059669' : '#1f2937',
+								paddingHorizontal: 10,
+								paddingVertical: 6,
+								borderRadius: 8,
+							}}
+						>
+							<Text style={{ color: 'white', fontSize: 12 }}>{p.label}</Text>
+						</TouchableOpacity>
+					);
+				})}
+			</View>
+
+			<View style={{ flexDirection: 'row', gap: 8 }}>
+				<NumberField
+					label={`Scale (${format?.units ?? 'g'} per count)`}
+					value={format?.scale}
+					editable={!!format}
+					onCommit={v => format && v !== undefined && onSelect({ ...format, scale: v })}
+				/>
+			</View>
+
+			<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+				Batched sensors: set the frame size to split each notification into samples, and the ODR to timestamp them.
+			</Text>
+			<View style={{ flexDirection: 'row', gap: 8 }}>
+				{BATCH_FIELDS.map(f => (
+					<NumberField
+						key={f.key}
+						label={f.label}
+						value={format?.[f.key]}
+						editable={!!format}
+						onCommit={v => setBatch(f.key, v)}
+					/>
+				))}
+			</View>
+
+			<Text style={{ color: '#9ca3af', fontSize: 12 }}>Sequence counter (packet loss detection)</Text>
+			<View style={{ flexDirection: 'row', gap: 6, alignItems: 'flex-end' }}>
+				{SEQUENCE_TYPES.map(t => {
+					const selected = (format?.sequence?.type ?? null) === t;
+					return (
+						<TouchableOpacity
+							key={t ?? 'none'}
+							disabled={!format}
+							onPress={() => setSequence(t)}
+							style={{
+								backgroundColor: selected ? '#059669' : '#1f2937',
+								paddingHorizontal: 10,
+								paddingVertical: 8,
+								borderRadius: 8,
+							}}
+						>
+							<Text style={{ color: 'white', fontSize: 12 }}>{t ?? 'none'}</Text>
+						</TouchableOpacity>
+					);
+				})}
+				<NumberField
+					label="Offset"
+					value={format?.sequence?.offset}
+					editable={!!format?.sequence}
+					allowZero
+					onCommit={v => setSequence(format?.sequence?.type ?? null, v ?? 0)}
+				/>
+			</View>
+
+			{proposal ? (
+				<View style={{ gap: 8 }}>
+					<Text style={{ color: '#93c5fd' }}>Proposed: {formatLabel(proposal.format)}</Text>
+					<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+						First packet → X {proposal.preview.x.toFixed(3)} Y {proposal.preview.y.toFixed(3)} Z {proposal.preview.z.toFixed(3)} g
+					</Text>
+					<View style={{ flexDirection: 'row', gap: 8 }}>
+						<PrimaryButton title="Use Proposed" onPress={onConfirm} active />
+						<PrimaryButton title="Dismiss" onPress={onDismiss} />
+					</View>
+				</View>
+			) : (
+				<PrimaryButton title="Auto-detect" onPress={onAutoDetect} />
+			)}
+		</View>
+	);
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Text, TextInput, View } from 'react-native';
+import { ReconnectPolicy, reconnectPolicyLabel } from '../ble/connectionMachine';
+import { Chip } from './Chip';
+import { NumberField } from './NumberField';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	policy: ReconnectPolicy;
+	onApply: (policy: ReconnectPolicy) => void;
+};
+
+function backoffText(backoffMs: number[]): string {
+	return backoffMs.join(', ');
+}
+
+// Comma or space separated delays in ms; null when any entry isn't a number of 0 or more
+function parseBackoff(text: string): number[] | null {
+	const parts = text.split(/[\s,]+/).filter(Boolean);
+	const delays = parts.map(Number);
+	return delays.every(d => Number.isFinite(d) && d >= 0) ? delays.map(Math.round) : null;
+}
+
+export const ReconnectPolicyCard: React.FC<Props> = ({ policy, onApply }) => {
+	const [draft, setDraft] = useState(policy);
+	const [backoff, setBackoff] = useState(backoffText(policy.backoffMs));
+	useEffect(() => {
+		setDraft(policy);
+		setBackoff(backoffText(policy.backoffMs));
+	}, [policy]);
+	const parsed = parseBackoff(backoff);
+	const next = parsed ? { ...draft, backoffMs: parsed } : draft;
+	const dirty = JSON.stringify(next) !== JSON.stringify(policy);
+
+	const revert = () => {
+		setDraft(policy);
+		setBackoff(backoffText(policy.backoffMs));
+	};
+
+	return (
+		<View
+			style={{
+				backgroundColor: '#111827',
+				padding: 14,
+				borderRadius: 14,
+				borderWidth: 1,
+				borderColor: '#1f2937',
+				gap: 10,
+			}}
+		>
+			<Text style={{ color: 'white', fontWeight: '800' }}>Reconnect</Text>
+			<Text style={{ color: '#9ca3af', fontSize: 12 }}>{reconnectPolicyLabel(policy)}</Text>
+
+			<View style={{ flexDirection: 'row', gap: 8 }}>
+				<View style={{ flex: 2, gap: 4 }}>
+					<Text style={{ color: '#9ca3af', fontSize: 12 }}>Backoff ms</Text>
+					<TextInput
+						value={backoff}
+						onChangeText={setBackoff}
+						keyboardType="numbers-and-punctuation"
+						placeholder="e.g. 500, 1000, 2000"
+						placeholderTextColor="#6b7280"
+						style={{
+							borderWidth: 1,
+							borderColor: parsed ? '#374151' : '#f87171',
+							paddingHorizontal: 10,
+							paddingVertical: 6,
+							borderRadius: 8,
+							color: 'white',
+						}}
+					/>
+				</View>
+				<NumberField
+					label="Max attempts"
+					value={draft.maxAttempts}
+					editable
+					allowZero
+					onCommit={v => v !== undefined && setDraft(d => ({ ...d, maxAttempts: Math.round(v) }))}
+				/>
+			</View>
+
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				<Chip label="Resume streaming" selected={draft.resumeStreaming} onPress={() => setDraft(d => ({ ...d, resumeStreaming: !d.resumeStreaming }))} />
+				<Chip label="Resume recording" selected={draft.resumeRecording} onPress={() => setDraft(d => ({ ...d, resumeRecording: !d.resumeRecording }))} />
+			</View>
+
+			<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+				<PrimaryButton title="Apply" onPress={() => onApply(next)} disabled={!dirty || !parsed} active={dirty && !!parsed} />
+				<PrimaryButton title="Revert" onPress={revert} disabled={!dirty && !!parsed} />
+			</View>
+			<Text style={{ color: '#6b7280', fontSize: 12 }}>
+				The last delay repeats when there are more attempts than delays. Without resume recording, recording stops when the link drops.
+			</Text>
+		</View>
+	);
+};
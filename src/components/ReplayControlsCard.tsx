@@ -0,0 +1,79 @@
+import React from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+import { REPLAY_SPEEDS, ReplayStatus } from '../replay/ReplayPlayer';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	status: ReplayStatus;
+	onTogglePause: () => void;
+	onSpeed: (speed: number) => void;
+	onLoop: (loop: boolean) => void;
+};
+
+function formatTime(ms: number): string {
+	const s = Math.floor(ms / 1000);
+	return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+const STATE_LABEL: Record<ReplayStatus['state'], string> = {
+	idle: 'Stopped',
+	playing: 'Playing',
+	paused: 'Paused',
+	finished: 'Finished',
+};
+
+export const ReplayControlsCard: React.FC<Props> = ({ status, onTogglePause, onSpeed, onLoop }) => {
+	const progress = status.durationMs > 0 ? status.positionMs / status.durationMs : 0;
+	const canPause = status.state === 'playing' || status.state === 'paused';
+
+	return (
+		<View
+			style={{
+				backgroundColor: '#111827',
+				padding: 14,
+				borderRadius: 14,
+				borderWidth: 1,
+				borderColor: '#1f2937',
+				gap: 10,
+			}}
+		>
+			<Text style={{ color: 'white', fontWeight: '800' }}>Replay</Text>
+			<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+				{STATE_LABEL[status.state]} • {formatTime(status.positionMs)} / {formatTime(status.durationMs)} • {status.rows} samples
+				{status.loops > 0 ? ` • pass ${status.loops + 1}` : ''}
+			</Text>
+			<View style={{ height: 6, borderRadius: 3, backgroundColor: '#374151', overflow: 'hidden' }}>
+				<View style={{ height: 6, width: `${Math.round(progress * 100)}%`, backgroundColor: '#2563eb' }} />
+			</View>
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				{REPLAY_SPEEDS.map(s => (
+					<TouchableOpacity
+						key={s}
+						onPress={() => onSpeed(s)}
+						style={{
+							borderWidth: 1,
+							borderColor: status.speed === s ? '#2563eb' : '#374151',
+							backgroundColor: status.speed === s ? '#1e3a8a' : 'transparent',
+							paddingHorizontal: 10,
+							paddingVertical: 6,
+							borderRadius: 8,
+						}}
+					>
+						<Text style={{ color: 'white', fontSize: 12, fontWeight: '600' }}>{s}×</Text>
+					</TouchableOpacity>
+				))}
+			</View>
+			<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+				<PrimaryButton
+					title={status.state === 'paused' ? 'Resume' : 'Pause'}
+					onPress={onTogglePause}
+					disabled={!canPause}
+				/>
+				<PrimaryButton title={status.loop ? 'Loop: On' : 'Loop: Off'} onPress={() => onLoop(!status.loop)} active={status.loop} />
+			</View>
+			{status.state === 'finished' && (
+				<Text style={{ color: '#9ca3af', fontSize: 12 }}>Start notifications again to replay from the beginning</Text>
+			)}
+		</View>
+	);
+};
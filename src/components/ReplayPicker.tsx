@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, FlatList, Modal, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { listReplaySources, ReplaySource, replaySourceFromPath } from '../replay/replaySources';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	visible: boolean;
+	onClose: () => void;
+	onPick: (source: ReplaySource) => void;
+};
+
+export const ReplayPicker: React.FC<Props> = ({ visible, onClose, onPick }) => {
+	const [sources, setSources] = useState<ReplaySource[]>([]);
+	const [loading, setLoading] = useState(false);
+	const [path, setPath] = useState('');
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!visible) return;
+		setLoading(true);
+		setError(null);
+		listReplaySources()
+			.then(setSources)
+			.catch((e: any) => setError(e?.message ?? String(e)))
+			.finally(() => setLoading(false));
+	}, [visible]);
+
+	const pick = (source: ReplaySource) => {
+		onPick(source);
+		onClose();
+	};
+
+	const importPath = async () => {
+		try {
+			pick(await replaySourceFromPath(path));
+			setPath('');
+		} catch (e: any) {
+			setError(e?.message ?? String(e));
+		}
+	};
+
+	return (
+		<Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+			<View style={{ flex: 1, backgroundColor: '#000000aa', justifyContent: 'center', padding: 24 }}>
+				<View
+					style={{
+						backgroundColor: '#111827',
+						borderRadius: 14,
+						padding: 16,
+						borderWidth: 1,
+						borderColor: '#1f2937',
+						gap: 10,
+						maxHeight: '85%',
+					}}
+				>
+					<Text style={{ color: 'white', fontWeight: '800', fontSize: 16 }}>Replay a Recording</Text>
+					<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+						Saved sessions and CSV files in the app's Documents and exports folders
+					</Text>
+					{loading ? (
+						<ActivityIndicator color="#93c5fd" />
+					) : (
+						<FlatList
+							data={sources}
+							keyExtractor={s => s.path}
+							contentContainerStyle={{ gap: 8 }}
+							renderItem={({ item }) => (
+								<TouchableOpacity
+									onPress={() => pick(item)}
+									style={{ borderWidth: 1, borderColor: '#374151', borderRadius: 10, padding: 10 }}
+								>
+									<Text style={{ color: 'white', fontWeight: '700' }}>
+										{item.origin === 'session' ? '🗂️' : '📄'} {item.name}
+									</Text>
+									<Text style={{ color: '#9ca3af', fontSize: 12 }} numberOfLines={1}>{item.detail}</Text>
+								</TouchableOpacity>
+							)}
+							ListEmptyComponent={
+								<Text style={{ color: '#9ca3af', textAlign: 'center' }}>No recordings found.</Text>
+							}
+						/>
+					)}
+					<View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+						<TextInput
+							value={path}
+							onChangeText={setPath}
+							placeholder="…or a CSV file path"
+							placeholderTextColor="#6b7280"
+							autoCapitalize="none"
+							autoCorrect={false}
+							style={{
+								flex: 1,
+								borderWidth: 1,
+								borderColor: '#374151',
+								paddingHorizontal: 10,
+								paddingVertical: 8,
+								borderRadius: 8,
+								color: 'white',
+							}}
+						/>
+						<PrimaryButton title="Import" onPress={importPath} disabled={!path.trim()} />
+					</View>
+					{error && (
+						<Text style={{ color: '#f87171' }} onPress={() => setError(null)}>
+							{error} (tap to dismiss)
+						</Text>
+					)}
+					<PrimaryButton title="Cancel" onPress={onClose} />
+				</View>
+			</View>
+		</Modal>
+	);
+};
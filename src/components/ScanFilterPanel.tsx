@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { Text, TextInput, View } from 'react-native';
+import { SCAN_DURATIONS_S, ScanSettings, STALE_AFTER_MS } from '../ble/scanFilter';
+import { Chip } from './Chip';
+import { NumberField } from './NumberField';
+
+type Props = {
+	settings: ScanSettings;
+	onChange: (settings: ScanSettings) => void;
+};
+
+export const ScanFilterPanel: React.FC<Props> = ({ settings, onChange }) => {
+	// Committed when editing ends, like the number fields
+	const [uuid, setUuid] = useState(settings.serviceUuid);
+	useEffect(() => setUuid(settings.serviceUuid), [settings.serviceUuid]);
+	const update = (patch: Partial<ScanSettings>) => onChange({ ...settings, ...patch });
+
+	return (
+		<View style={{ gap: 8 }}>
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				<Chip label="Prefix" selected={!settings.useRegex} onPress={() => update({ useRegex: false })} />
+				<Chip label="Regex" selected={settings.useRegex} onPress={() => update({ useRegex: true })} />
+				<Chip label="📡 Broadcast tags only" selected={settings.broadcastOnly} onPress={() => update({ broadcastOnly: !settings.broadcastOnly })} />
+			</View>
+			<View style={{ flexDirection: 'row', gap: 8 }}>
+				<View style={{ flex: 2, gap: 4 }}>
+					<Text style={{ color: '#9ca3af', fontSize: 12 }}>Service UUID</Text>
+					<TextInput
+						value={uuid}
+						onChangeText={setUuid}
+						onEndEditing={() => uuid !== settings.serviceUuid && update({ serviceUuid: uuid.trim() })}
+						autoCapitalize="none"
+						autoCorrect={false}
+						placeholder="any, e.g. fff0"
+						placeholderTextColor="#6b7280"
+						style={{
+							borderWidth: 1,
+							borderColor: '#374151',
+							paddingHorizontal: 10,
+							paddingVertical: 6,
+							borderRadius: 8,
+							color: 'white',
+						}}
+					/>
+				</View>
+				<NumberField
+					label="Min RSSI dBm"
+					value={settings.minRssi ?? undefined}
+					editable
+					allowNegative
+					onCommit={v => update({ minRssi: v ?? null })}
+				/>
+			</View>
+			<Text style={{ color: '#9ca3af', fontSize: 12 }}>Scan duration</Text>
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				{SCAN_DURATIONS_S.map(d => (
+					<Chip key={d} label={`${d} s`} selected={settings.durationS === d} onPress={() => update({ durationS: d })} />
+				))}
+				<Chip label="Continuous" selected={settings.durationS === null} onPress={() => update({ durationS: null })} />
+			</View>
+			<Text style={{ color: '#6b7280', fontSize: 12 }}>
+				Filters apply to the list as you change them. Devices not heard from for {STALE_AFTER_MS / 1000} s drop out while scanning.
+			</Text>
+		</View>
+	);
+};
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Modal, ScrollView, Text, TextInput, View } from 'react-native';
+import { Axis } from '../decoder/payloadFormat';
+import {
+	AxisSignal,
+	DEFAULT_GENERATOR,
+	GENERATOR_AXES,
+	GeneratorFaults,
+	GeneratorSettings,
+	MAX_SAMPLE_RATE_HZ,
+	WAVEFORMS,
+} from '../generator/signalGenerator';
+import { Chip } from './Chip';
+import { NumberField } from './NumberField';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	generators: GeneratorSettings[];
+	onClose: () => void;
+	onSave: (settings: GeneratorSettings) => void;
+	onRemove: (id: string) => void;
+};
+
+function newGenerator(existing: GeneratorSettings[]): GeneratorSettings {
+	return { ...DEFAULT_GENERATOR, id: `generator-${Date.now()}`, name: `Signal Generator ${existing.length + 1}` };
+}
+
+// Fields of the waveform itself; offset and noise apply to every waveform
+const WAVEFORM_FIELDS: Record<AxisSignal['waveform'], Array<{ key: keyof AxisSignal; label: string }>> = {
+	sine: [{ key: 'amplitude', label: 'Amplitude (g)' }, { key: 'frequencyHz', label: 'Frequency (Hz)' }],
+	square: [{ key: 'amplitude', label: 'Amplitude (g)' }, { key: 'frequencyHz', label: 'Frequency (Hz)' }],
+	chirp: [
+		{ key: 'amplitude', label: 'Amplitude (g)' },
+		{ key: 'frequencyHz', label: 'From (Hz)' },
+		{ key: 'chirpEndHz', label: 'To (Hz)' },
+		{ key: 'sweepS', label: 'Sweep (s)' },
+	],
+	noise: [{ key: 'amplitude', label: 'Std dev (g)' }],
+	step: [{ key: 'amplitude', label: 'Height (g)' }, { key: 'stepAtS', label: 'At (s)' }],
+	impulse: [{ key: 'amplitude', label: 'Height (g)' }, { key: 'frequencyHz', label: 'Rate (Hz)' }],
+	tilt: [{ key: 'amplitude', label: 'Gravity (g)' }, { key: 'tiltDeg', label: 'Angle from vertical (°)' }],
+};
+
+const FAULT_FIELDS: Array<Array<{ key: keyof GeneratorFaults; label: string }>> = [
+	[{ key: 'dropoutsPerMin', label: 'Dropouts / min' }, { key: 'dropoutMs', label: 'Dropout length (ms)' }],
+	[{ key: 'spikesPerMin', label: 'Spikes / min' }, { key: 'spikeG', label: 'Spike size (g)' }],
+	[{ key: 'disconnectsPerMin', label: 'Disconnects / min' }, { key: 'outageS', label: 'Outage (s)' }],
+];
+
+const AxisEditor: React.FC<{ axis: Axis; signal: AxisSignal; onChange: (s: AxisSignal) => void }> = ({ axis, signal, onChange }) => {
+	const set = (key: keyof AxisSignal, v: number | undefined) => {
+		if (v !== undefined) onChange({ ...signal, [key]: v });
+	};
+	const fields = [
+		...WAVEFORM_FIELDS[signal.waveform],
+		{ key: 'offset' as const, label: 'Offset (g)' },
+		{ key: 'noise' as const, label: 'Added noise (g)' },
+	];
+	return (
+		<View style={{ gap: 8, borderTopWidth: 1, borderTopColor: '#1f2937', paddingTop: 10 }}>
+			<Text style={{ color: 'white', fontWeight: '700' }}>{axis.toUpperCase()} axis</Text>
+			<View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}>
+				{WAVEFORMS.map(w => (
+					<Chip key={w.key} label={w.label} selected={signal.waveform === w.key} onPress={() => onChange({ ...signal, waveform: w.key })} />
+				))}
+			</View>
+			<View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+				{fields.map(f => (
+					<View key={f.key} style={{ width: '47%' }}>
+						<NumberField
+							label={f.label}
+							value={signal[f.key] as number}
+							onCommit={v => set(f.key, v)}
+							editable
+							allowZero
+							allowNegative={f.key === 'offset' || f.key === 'amplitude' || f.key === 'tiltDeg' || f.key === 'stepAtS'}
+						/>
+					</View>
+				))}
+			</View>
+		</View>
+	);
+};
+
+/**
+ * Editor for the virtual devices listed in the scanner. Each generator has its own sample
+ * rate, a waveform per axis and the faults to inject; saving lists it as a device. Mounted
+ * only while open, so it starts from the first saved generator each time.
+ */
+export const SignalGeneratorDialog: React.FC<Props> = ({ generators, onClose, onSave, onRemove }) => {
+	const [draft, setDraft] = useState<GeneratorSettings>(() => generators[0] ?? newGenerator(generators));
+
+	const saved = generators.some(g => g.id === draft.id);
+	const remove = () => {
+		onRemove(draft.id);
+		setDraft(newGenerator(generators.filter(g => g.id !== draft.id)));
+	};
+	const setFault = (key: keyof GeneratorFaults, v: number | undefined) => {
+		if (v !== undefined) setDraft({ ...draft, faults: { ...draft.faults, [key]: v } });
+	};
+
+	return (
+		<Modal visible transparent animationType="fade" onRequestClose={onClose}>
+			<View style={{ flex: 1, backgroundColor: '#000000aa', justifyContent: 'center', padding: 24 }}>
+				<View
+					style={{
+						backgroundColor: '#111827',
+						borderRadius: 14,
+						padding: 16,
+						borderWidth: 1,
+						borderColor: '#1f2937',
+						gap: 10,
+						maxHeight: '90%',
+					}}
+				>
+					<Text style={{ color: 'white', fontWeight: '800', fontSize: 16 }}>Signal Generators</Text>
+					<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+						Virtual accelerometers listed in the scanner, for testing analysis against known signals
+					</Text>
+					<View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}>
+						{generators.map(g => (
+							<Chip key={g.id} label={g.name} selected={draft.id === g.id} onPress={() => setDraft(g)} />
+						))}
+						<Chip label="+ New" selected={!saved} onPress={() => setDraft(newGenerator(generators))} />
+					</View>
+					<ScrollView contentContainerStyle={{ gap: 10 }} keyboardShouldPersistTaps="handled">
+						<View style={{ flexDirection: 'row', gap: 8, alignItems: 'flex-end' }}>
+							<View style={{ flex: 2, gap: 4 }}>
+								<Text style={{ color: '#9ca3af', fontSize: 12 }}>Name</Text>
+								<TextInput
+									value={draft.name}
+									onChangeText={name => setDraft({ ...draft, name })}
+									placeholderTextColor="#6b7280"
+									style={{
+										borderWidth: 1,
+										borderColor: '#374151',
+										paddingHorizontal: 10,
+										paddingVertical: 6,
+										borderRadius: 8,
+										color: 'white',
+									}}
+								/>
+							</View>
+							<NumberField
+								label="Sample rate (Hz)"
+								value={draft.sampleRateHz}
+								onCommit={v => v !== undefined && setDraft({ ...draft, sampleRateHz: Math.min(v, MAX_SAMPLE_RATE_HZ) })}
+								editable
+							/>
+						</View>
+						{GENERATOR_AXES.map(axis => (
+							<AxisEditor
+								key={axis}
+								axis={axis}
+								signal={draft.axes[axis]}
+								onChange={signal => setDraft({ ...draft, axes: { ...draft.axes, [axis]: signal } })}
+							/>
+						))}
+						<View style={{ gap: 8, borderTopWidth: 1, borderTopColor: '#1f2937', paddingTop: 10 }}>
+							<Text style={{ color: 'white', fontWeight: '700' }}>Faults</Text>
+							<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+								Injected at random times. Disconnects go through the reconnect policy like a real link loss.
+							</Text>
+							{FAULT_FIELDS.map(row => (
+								<View key={row[0].key} style={{ flexDirection: 'row', gap: 8 }}>
+									{row.map(f => (
+										<NumberField key={f.key} label={f.label} value={draft.faults[f.key]} onCommit={v => setFault(f.key, v)} editable allowZero />
+									))}
+								</View>
+							))}
+						</View>
+					</ScrollView>
+					<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+						<PrimaryButton title={saved ? 'Save' : 'Add to Scanner'} onPress={() => onSave({ ...draft, name: draft.name.trim() || 'Signal Generator' })} />
+						{saved && <PrimaryButton title="Delete" danger onPress={remove} />}
+						<PrimaryButton title="Close" onPress={onClose} />
+					</View>
+				</View>
+			</View>
+		</Modal>
+	);
+};
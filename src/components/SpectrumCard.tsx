@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { Text, View } from 'react-native';
+import Svg, { Line, Path } from 'react-native-svg';
+import { CHART_SERIES, ChartSeries, gridLines } from '../chart/stripChart';
+import {
+	computeSpectrum,
+	FFT_SIZES,
+	Spectrum,
+	SPECTRUM_AXES,
+	SPECTRUM_DB_RANGE,
+	spectrumMax,
+	spectrumPath,
+	SpectrumSnapshotInfo,
+	WINDOW_FUNCTIONS,
+	WindowFunction,
+} from '../spectrum/spectrum';
+import { SampleRing } from '../utils/SampleRing';
+import { Chip } from './Chip';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	buffer: SampleRing;
+	// Snapshots are stored with the open session; without one there is nowhere to put them
+	canSave: boolean;
+	onSaveSnapshot: (spectrum: Spectrum) => Promise<SpectrumSnapshotInfo | null>;
+};
+
+const PLOT_HEIGHT = 160;
+// FFTs of up to 4096 points on four channels are cheap enough for a few updates per second
+const UPDATE_MS = 250;
+
+export const SpectrumCard: React.FC<Props> = ({ buffer, canSave, onSaveSnapshot }) => {
+	const [size, setSize] = useState(1024);
+	const [windowType, setWindowType] = useState<WindowFunction>('hann');
+	const [visible, setVisible] = useState<Record<ChartSeries, boolean>>({ x: true, y: true, z: true, m: false });
+	const [db, setDb] = useState(false);
+	const [paused, setPaused] = useState(false);
+	const [spectrum, setSpectrum] = useState<Spectrum | null>(null);
+	const [width, setWidth] = useState(0);
+	const [savedFile, setSavedFile] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (paused) return;
+		const update = () => setSpectrum(computeSpectrum(buffer, size, windowType));
+		update();
+		const timer = setInterval(update, UPDATE_MS);
+		return () => clearInterval(timer);
+	}, [buffer, size, windowType, paused]);
+
+	const axes = SPECTRUM_AXES.filter(a => visible[a]);
+	const max = spectrum ? spectrumMax(spectrum, axes) : 0;
+	const nyquist = spectrum ? spectrum.sampleRateHz / 2 : 0;
+	const toX = (hz: number) => (nyquist > 0 ? (hz / nyquist) * width : 0);
+
+	const save = async () => {
+		if (!spectrum) return;
+		const info = await onSaveSnapshot(spectrum);
+		if (info) setSavedFile(info.file);
+	};
+
+	return (
+		<View
+			style={{
+				backgroundColor: '#111827',
+				padding: 14,
+				borderRadius: 14,
+				borderWidth: 1,
+				borderColor: '#1f2937',
+				gap: 10,
+			}}
+		>
+			<View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+				<Text style={{ color: 'white', fontWeight: '800' }}>Spectrum</Text>
+				<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+					{spectrum
+						? `${spectrum.sampleRateHz.toFixed(1)} Hz measured • Δf ${spectrum.binHz.toFixed(3)} Hz • ${(spectrum.size / spectrum.sampleRateHz).toFixed(1)} s`
+						: `Collecting ${Math.min(buffer.size, size)}/${size} samples`}
+				</Text>
+			</View>
+
+			<View
+				style={{ height: PLOT_HEIGHT, backgroundColor: '#0b1220', borderRadius: 8, overflow: 'hidden' }}
+				onLayout={e => setWidth(e.nativeEvent.layout.width)}
+			>
+				{spectrum && width > 0 && (
+					<Svg width={width} height={PLOT_HEIGHT}>
+						{gridLines(0, nyquist).map(hz => (
+							<Line key={hz} x1={toX(hz)} x2={toX(hz)} y1={0} y2={PLOT_HEIGHT} stroke="#1f2937" strokeWidth={1} />
+						))}
+						{CHART_SERIES.filter(s => visible[s.key]).map(s => (
+							<Path
+								key={s.key}
+								d={spectrumPath(spectrum.amplitudes[s.key], width, PLOT_HEIGHT, max, db)}
+								stroke={s.color}
+								strokeWidth={1.5}
+								fill="none"
+							/>
+						))}
+					</Svg>
+				)}
+				{spectrum &&
+					width > 0 &&
+					gridLines(0, nyquist).map(hz => (
+						<Text
+							key={hz}
+							style={{ position: 'absolute', bottom: 2, left: Math.min(width - 40, toX(hz) + 2), color: '#6b7280', fontSize: 10 }}
+						>
+							{Number(hz.toFixed(2))} Hz
+						</Text>
+					))}
+				{spectrum && max > 0 && (
+					<Text style={{ position: 'absolute', top: 2, left: 4, color: '#6b7280', fontSize: 10 }}>
+						{db ? `0 dB = ${max.toPrecision(3)} g, ${SPECTRUM_DB_RANGE} dB range` : `${max.toPrecision(3)} g`}
+					</Text>
+				)}
+				{!spectrum && (
+					<Text style={{ position: 'absolute', top: PLOT_HEIGHT / 2 - 8, width: '100%', textAlign: 'center', color: '#6b7280', fontSize: 12 }}>
+						Waiting for {size} samples
+					</Text>
+				)}
+			</View>
+
+			{spectrum && (
+				<View style={{ gap: 4 }}>
+					{CHART_SERIES.filter(s => visible[s.key]).map(s => (
+						<Text key={s.key} style={{ color: s.color, fontSize: 12, fontVariant: ['tabular-nums'] }}>
+							{s.label}:{' '}
+							{spectrum.peaks[s.key].length
+								? spectrum.peaks[s.key].map(p => `${p.frequencyHz.toFixed(2)} Hz ${p.amplitude.toFixed(4)} g`).join(' • ')
+								: 'no peaks'}
+						</Text>
+					))}
+				</View>
+			)}
+
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				{CHART_SERIES.map(s => (
+					<Chip
+						key={s.key}
+						label={s.label}
+						color={s.color}
+						selected={visible[s.key]}
+						onPress={() => setVisible(v => ({ ...v, [s.key]: !v[s.key] }))}
+					/>
+				))}
+				<Chip label="dB" selected={db} onPress={() => setDb(d => !d)} />
+			</View>
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				{FFT_SIZES.map(n => (
+					<Chip key={n} label={String(n)} selected={size === n} onPress={() => setSize(n)} />
+				))}
+			</View>
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				{WINDOW_FUNCTIONS.map(w => (
+					<Chip key={w.key} label={w.label} selected={windowType === w.key} onPress={() => setWindowType(w.key)} />
+				))}
+			</View>
+			<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+				<PrimaryButton title={paused ? 'Live' : 'Hold'} onPress={() => setPaused(p => !p)} active={paused} />
+				<PrimaryButton title="Save Snapshot" onPress={save} disabled={!spectrum || !canSave} />
+			</View>
+			<Text style={{ color: '#6b7280', fontSize: 12 }}>
+				{savedFile
+					? `Saved ${savedFile} with the current session`
+					: canSave
+						? 'Snapshots are saved with the current session and included in its archive export'
+						: 'Start a recording to save snapshots alongside it'}
+			</Text>
+		</View>
+	);
+};
@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GestureResponderEvent, PanResponder, PanResponderGestureState, Text, View } from 'react-native';
+import Svg, { Line, Path } from 'react-native-svg';
+import { buildTraces, CHART_RANGES, CHART_SERIES, CHART_WINDOWS_S, ChartRange, ChartSeries, gridLines } from '../chart/stripChart';
+import { SampleRing } from '../utils/SampleRing';
+import { Chip } from './Chip';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	buffer: SampleRing;
+	title?: string;
+};
+
+const CHART_HEIGHT = 180;
+// Redraw rate; independent of the sample rate because the chart polls the buffer
+const FRAME_MS = 50;
+const MAX_ZOOM = 20;
+// Horizontal travel before a one-finger drag pans the chart instead of scrolling the screen
+const PAN_SLOP_PX = 8;
+
+function touchDistance(e: GestureResponderEvent): number | null {
+	const touches = e.nativeEvent.touches;
+	if (touches.length < 2) return null;
+	return Math.hypot(touches[0].pageX - touches[1].pageX, touches[0].pageY - touches[1].pageY);
+}
+
+// Pinches and mostly horizontal drags belong to the chart; vertical drags scroll the screen
+function claimsGesture(e: GestureResponderEvent, g: PanResponderGestureState): boolean {
+	if (e.nativeEvent.touches.length >= 2) return true;
+	return Math.abs(g.dx) > PAN_SLOP_PX && Math.abs(g.dx) > 2 * Math.abs(g.dy);
+}
+
+export const StripChart: React.FC<Props> = ({ buffer, title = 'Live Chart' }) => {
+	const [windowS, setWindowS] = useState(5);
+	const [range, setRange] = useState<ChartRange>('auto');
+	const [visible, setVisible] = useState<Record<ChartSeries, boolean>>({ x: true, y: true, z: true, m: false });
+	const [paused, setPaused] = useState(false);
+	const [zoom, setZoom] = useState(1);
+	const [panMs, setPanMs] = useState(0);
+	const [width, setWidth] = useState(0);
+	const [, setFrame] = useState(0);
+
+	// Gesture handlers are created once, so they read the current view through refs
+	const viewRef = useRef({ width: 0, spanMs: windowS * 1000, zoom: 1, panMs: 0 });
+	const gestureRef = useRef<{ distance: number | null; zoom: number; panMs: number }>({ distance: null, zoom: 1, panMs: 0 });
+	// Newest sample time when the chart was frozen; the live view follows the buffer instead
+	const frozenEndRef = useRef<number | null>(null);
+
+	const spanMs = (windowS * 1000) / zoom;
+	viewRef.current = { width, spanMs, zoom, panMs };
+
+	useEffect(() => {
+		if (paused) return;
+		const timer = setInterval(() => setFrame(f => f + 1), FRAME_MS);
+		return () => clearInterval(timer);
+	}, [paused]);
+
+	const freeze = () => {
+		if (frozenEndRef.current === null && buffer.size > 0) frozenEndRef.current = buffer.timeAt(buffer.size - 1);
+		setPaused(true);
+	};
+
+	const goLive = () => {
+		frozenEndRef.current = null;
+		setPanMs(0);
+		setPaused(false);
+	};
+
+	const panResponder = useRef(
+		PanResponder.create({
+			onStartShouldSetPanResponder: e => e.nativeEvent.touches.length >= 2,
+			onMoveShouldSetPanResponder: claimsGesture,
+			onPanResponderTerminationRequest: () => true,
+			onPanResponderGrant: e => {
+				gestureRef.current = { distance: touchDistance(e), zoom: viewRef.current.zoom, panMs: viewRef.current.panMs };
+			},
+			onPanResponderMove: (e, g) => {
+				const distance = touchDistance(e);
+				const start = gestureRef.current;
+				if (distance !== null) {
+					// Pinch scales the time axis
+					if (start.distance === null) start.distance = distance;
+					else setZoom(Math.min(MAX_ZOOM, Math.max(1, (start.zoom * distance) / start.distance)));
+					return;
+				}
+				if (Math.abs(g.dx) < 4 || !viewRef.current.width) return;
+				// Dragging scrolls back through the buffer, which needs a frozen end time
+				freeze();
+				setPanMs(Math.max(0, start.panMs + (g.dx / viewRef.current.width) * viewRef.current.spanMs));
+			},
+		}),
+	).current;
+
+	const latest = buffer.size > 0 ? buffer.timeAt(buffer.size - 1) : 0;
+	const endMs = (paused && frozenEndRef.current !== null ? frozenEndRef.current : latest) - panMs;
+	const traces = width > 0 ? buildTraces(buffer, { endMs, spanMs, width, height: CHART_HEIGHT, range, visible }) : null;
+	const toY = (v: number) => traces ? CHART_HEIGHT - ((v - traces.yMin) / (traces.yMax - traces.yMin)) * CHART_HEIGHT : 0;
+
+	return (
+		<View
+			style={{
+				backgroundColor: '#111827',
+				padding: 14,
+				borderRadius: 14,
+				borderWidth: 1,
+				borderColor: '#1f2937',
+				gap: 10,
+			}}
+		>
+			<View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+				<Text style={{ color: 'white', fontWeight: '800' }}>{title}</Text>
+				<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+					{(spanMs / 1000).toFixed(spanMs < 10000 ? 1 : 0)} s{panMs > 0 ? ` • -${(panMs / 1000).toFixed(1)} s` : ''}
+					{traces ? ` • ${traces.samples} samples` : ''}
+				</Text>
+			</View>
+
+			<View
+				style={{ height: CHART_HEIGHT, backgroundColor: '#0b1220', borderRadius: 8, overflow: 'hidden' }}
+				onLayout={e => setWidth(e.nativeEvent.layout.width)}
+				{...panResponder.panHandlers}
+			>
+				{traces && (
+					<Svg width={width} height={CHART_HEIGHT}>
+						{gridLines(traces.yMin, traces.yMax).map(v => (
+							<Line
+								key={v}
+								x1={0}
+								x2={width}
+								y1={toY(v)}
+								y2={toY(v)}
+								stroke={v === 0 ? '#4b5563' : '#1f2937'}
+								strokeWidth={1}
+							/>
+						))}
+						{CHART_SERIES.map(s =>
+							traces.paths[s.key] ? (
+								<Path key={s.key} d={traces.paths[s.key]} stroke={s.color} strokeWidth={1.5} fill="none" />
+							) : null,
+						)}
+					</Svg>
+				)}
+				{traces &&
+					gridLines(traces.yMin, traces.yMax).map(v => (
+						<Text
+							key={v}
+							style={{ position: 'absolute', left: 4, top: Math.min(CHART_HEIGHT - 14, Math.max(0, toY(v) - 14)), color: '#6b7280', fontSize: 10 }}
+						>
+							{Number(v.toFixed(3))} g
+						</Text>
+					))}
+				{buffer.size === 0 && (
+					<Text style={{ position: 'absolute', top: CHART_HEIGHT / 2 - 8, width: '100%', textAlign: 'center', color: '#6b7280', fontSize: 12 }}>
+						Waiting for data
+					</Text>
+				)}
+			</View>
+
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				{CHART_SERIES.map(s => (
+					<Chip
+						key={s.key}
+						label={s.label}
+						color={s.color}
+						selected={visible[s.key]}
+						onPress={() => setVisible(v => ({ ...v, [s.key]: !v[s.key] }))}
+					/>
+				))}
+			</View>
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				{CHART_WINDOWS_S.map(w => (
+					<Chip key={w} label={`${w} s`} selected={windowS === w && zoom === 1} onPress={() => { setWindowS(w); setZoom(1); }} />
+				))}
+			</View>
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				{CHART_RANGES.map(r => (
+					<Chip key={String(r)} label={r === 'auto' ? 'Auto' : `±${r} g`} selected={range === r} onPress={() => setRange(r)} />
+				))}
+			</View>
+			<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+				<PrimaryButton title={paused ? 'Live' : 'Pause'} onPress={paused ? goLive : freeze} active={paused} />
+				<PrimaryButton title="Reset Zoom" onPress={() => setZoom(1)} disabled={zoom === 1} />
+			</View>
+			<Text style={{ color: '#6b7280', fontSize: 12 }}>Pinch to zoom the time axis, drag to scroll back</Text>
+		</View>
+	);
+};
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { Text, View } from 'react-native';
+import {
+	TRIGGER_DEFAULTS,
+	TRIGGER_NAMES,
+	triggerLabel,
+	TriggerSettings,
+	TriggerState,
+	TriggerStatus,
+	TriggerType,
+} from '../recorder/TriggerRecorder';
+import { Chip } from './Chip';
+import { NumberField } from './NumberField';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	settings: TriggerSettings;
+	// Null while disarmed
+	status: TriggerStatus | null;
+	canArm: boolean;
+	onApply: (settings: TriggerSettings) => void;
+	onArm: () => void;
+	onDisarm: () => void;
+};
+
+const STATE_LABELS: Record<TriggerState, string> = {
+	armed: '🟡 Armed',
+	capturing: '🔴 Capturing',
+	holdoff: '⏳ Hold-off',
+};
+
+export const TriggerCard: React.FC<Props> = ({ settings, status, canArm, onApply, onArm, onDisarm }) => {
+	const [draft, setDraft] = useState(settings);
+	useEffect(() => setDraft(settings), [settings]);
+	const dirty = JSON.stringify(draft) !== JSON.stringify(settings);
+	const condition = draft.condition;
+
+	const setCondition = (patch: Record<string, unknown>) => {
+		setDraft(d => ({ ...d, condition: { ...d.condition, ...patch } as TriggerSettings['condition'] }));
+	};
+	const setTiming = (key: 'preMs' | 'postMs' | 'holdOffMs', value: number | undefined) => {
+		if (value === undefined) return;
+		setDraft(d => ({ ...d, [key]: value }));
+	};
+
+	return (
+		<View
+			style={{
+				backgroundColor: '#111827',
+				padding: 14,
+				borderRadius: 14,
+				borderWidth: 1,
+				borderColor: '#1f2937',
+				gap: 10,
+			}}
+		>
+			<View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+				<Text style={{ color: 'white', fontWeight: '800' }}>Trigger Recording</Text>
+				<Text style={{ color: status ? '#e5e7eb' : '#6b7280', fontSize: 12 }}>{status ? STATE_LABELS[status.state] : 'Disarmed'}</Text>
+			</View>
+			<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+				{triggerLabel(settings.condition)} • {settings.preMs} ms before, {settings.postMs} ms after • hold-off {settings.holdOffMs} ms
+			</Text>
+
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				{(Object.keys(TRIGGER_DEFAULTS) as TriggerType[]).map(type => (
+					<Chip
+						key={type}
+						label={TRIGGER_NAMES[type]}
+						selected={condition.type === type}
+						onPress={() => condition.type !== type && setDraft(d => ({ ...d, condition: { ...TRIGGER_DEFAULTS[type] } }))}
+					/>
+				))}
+			</View>
+
+			{condition.type === 'magnitude' && (
+				<View style={{ flexDirection: 'row', gap: 8 }}>
+					<NumberField label="|a| above g" value={condition.thresholdG} editable onCommit={v => v !== undefined && setCondition({ thresholdG: v })} />
+				</View>
+			)}
+			{condition.type === 'axis' && (
+				<View style={{ gap: 8 }}>
+					<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+						{(['x', 'y', 'z'] as const).map(axis => (
+							<Chip key={axis} label={axis.toUpperCase()} selected={condition.axis === axis} onPress={() => setCondition({ axis })} />
+						))}
+						<Chip label="Rising" selected={condition.direction === 'rising'} onPress={() => setCondition({ direction: 'rising' })} />
+						<Chip label="Falling" selected={condition.direction === 'falling'} onPress={() => setCondition({ direction: 'falling' })} />
+					</View>
+					<View style={{ flexDirection: 'row', gap: 8 }}>
+						<NumberField
+							label="Level g"
+							value={condition.levelG}
+							editable
+							allowNegative
+							onCommit={v => v !== undefined && setCondition({ levelG: v })}
+						/>
+					</View>
+				</View>
+			)}
+			{condition.type === 'rate' && (
+				<View style={{ flexDirection: 'row', gap: 8 }}>
+					<NumberField label="|Δa/Δt| above g/s" value={condition.limitGPerS} editable onCommit={v => v !== undefined && setCondition({ limitGPerS: v })} />
+				</View>
+			)}
+
+			<View style={{ flexDirection: 'row', gap: 8 }}>
+				<NumberField label="Pre-trigger ms" value={draft.preMs} editable allowZero onCommit={v => setTiming('preMs', v)} />
+				<NumberField label="Post-trigger ms" value={draft.postMs} editable onCommit={v => setTiming('postMs', v)} />
+				<NumberField label="Hold-off ms" value={draft.holdOffMs} editable allowZero onCommit={v => setTiming('holdOffMs', v)} />
+			</View>
+
+			<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+				<PrimaryButton title="Apply" onPress={() => onApply(draft)} disabled={!dirty} active={dirty} />
+				<PrimaryButton title="Revert" onPress={() => setDraft(settings)} disabled={!dirty} />
+				<PrimaryButton
+					title={status ? 'Disarm' : 'Arm'}
+					onPress={status ? onDisarm : onArm}
+					disabled={!status && !canArm}
+					active={!!status}
+				/>
+			</View>
+			{status && (
+				<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+					Captures: {status.captures} • Pre-trigger buffer: {(status.bufferedMs / 1000).toFixed(1)} s
+				</Text>
+			)}
+			<Text style={{ color: '#6b7280', fontSize: 12 }}>
+				Each trigger is saved as its own session in the Sessions tab. Manual recording is paused while armed.
+			</Text>
+		</View>
+	);
+};
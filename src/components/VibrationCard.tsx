@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { Text, View } from 'react-native';
+import {
+	metricSeverity,
+	SEVERITY_COLORS,
+	Severity,
+	VIBRATION_AXES,
+	VIBRATION_METRICS,
+	VIBRATION_WINDOWS_S,
+	VibrationMetric,
+	VibrationSettings,
+	VibrationSnapshot,
+} from '../metrics/vibration';
+import { Chip } from './Chip';
+import { NumberField } from './NumberField';
+import { PrimaryButton } from './PrimaryButton';
+
+type Props = {
+	vibration: VibrationSnapshot | null;
+	settings: VibrationSettings;
+	onChangeSettings: (settings: VibrationSettings) => void;
+};
+
+const SEVERITY_LABELS: Record<Severity, string> = { ok: 'OK', warning: 'Warning', alarm: 'Alarm' };
+
+function formatMetric(value: number | null, digits: number): string {
+	return value === null ? '--' : value.toFixed(digits);
+}
+
+// Green, amber and red zones of the velocity thresholds with a marker for the worst axis
+const ZoneBar: React.FC<{ value: number; warning: number; alarm: number }> = ({ value, warning, alarm }) => {
+	const full = alarm * 1.5;
+	const pct = (v: number) => `${Math.min(100, (v / full) * 100)}%` as const;
+	return (
+		<View style={{ gap: 4 }}>
+			<View style={{ height: 10, flexDirection: 'row', borderRadius: 5, overflow: 'hidden' }}>
+				<View style={{ width: pct(warning), backgroundColor: '#14532d' }} />
+				<View style={{ width: pct(alarm - warning), backgroundColor: '#78350f' }} />
+				<View style={{ flex: 1, backgroundColor: '#7f1d1d' }} />
+				<View style={{ position: 'absolute', left: pct(value), top: 0, bottom: 0, width: 3, marginLeft: -1, backgroundColor: 'white' }} />
+			</View>
+			<Text style={{ color: '#6b7280', fontSize: 11 }}>
+				Velocity zones: &lt; {warning} mm/s good • {warning}–{alarm} warning • ≥ {alarm} alarm
+			</Text>
+		</View>
+	);
+};
+
+export const VibrationCard: React.FC<Props> = ({ vibration, settings, onChangeSettings }) => {
+	const [editing, setEditing] = useState(false);
+	// Threshold edits are collected in a draft and applied together, like the filter chain
+	const [draft, setDraft] = useState(settings);
+	useEffect(() => setDraft(settings), [settings]);
+	const dirty = JSON.stringify(draft) !== JSON.stringify(settings);
+	const invalid = Object.values(draft.thresholds).some(t => t && t.alarm < t.warning) || !(draft.bandHighHz > draft.bandLowHz);
+
+	const updateThreshold = (metric: VibrationMetric, key: 'warning' | 'alarm', value: number | undefined) => {
+		setDraft(d => {
+			const thresholds = { ...d.thresholds };
+			const current = thresholds[metric];
+			if (value === undefined) {
+				// Clearing either level removes the alarm for that metric
+				delete thresholds[metric];
+			} else {
+				thresholds[metric] = { warning: current?.warning ?? value, alarm: current?.alarm ?? value, [key]: value };
+			}
+			return { ...d, thresholds };
+		});
+	};
+
+	const velocityThreshold = settings.thresholds.velocityRms;
+	const worstVelocity = vibration
+		? Math.max(0, ...VIBRATION_AXES.map(a => vibration.axes[a].velocityRms ?? 0))
+		: 0;
+
+	return (
+		<View
+			style={{
+				backgroundColor: '#111827',
+				padding: 14,
+				borderRadius: 14,
+				borderWidth: 1,
+				borderColor: '#1f2937',
+				gap: 10,
+			}}
+		>
+			<View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+				<Text style={{ color: 'white', fontWeight: '800' }}>Vibration</Text>
+				{vibration && (
+					<View style={{ backgroundColor: SEVERITY_COLORS[vibration.severity], paddingHorizontal: 8, paddingVertical: 4, borderRadius: 6 }}>
+						<Text style={{ color: '#111827', fontSize: 12, fontWeight: '700' }}>{SEVERITY_LABELS[vibration.severity]}</Text>
+					</View>
+				)}
+			</View>
+			<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+				{vibration
+					? `${vibration.windowS} s window • ${vibration.samples} samples at ${vibration.sampleRateHz.toFixed(1)} Hz • velocity ${
+						vibration.bandHz ? `${vibration.bandHz[0].toFixed(1)}–${vibration.bandHz[1].toFixed(1)} Hz` : 'n/a (band above Nyquist)'
+					}`
+					: 'Waiting for data'}
+			</Text>
+
+			{vibration && (
+				<View style={{ gap: 4 }}>
+					<View style={{ flexDirection: 'row' }}>
+						<Text style={{ color: '#6b7280', fontSize: 11, width: 24 }} />
+						{VIBRATION_METRICS.map(m => (
+							<Text key={m.key} style={{ color: '#6b7280', fontSize: 11, flex: 1, textAlign: 'right' }}>
+								{m.label}{m.unit ? `\n${m.unit}` : '\n'}
+							</Text>
+						))}
+					</View>
+					{VIBRATION_AXES.map(axis => (
+						<View key={axis} style={{ flexDirection: 'row' }}>
+							<Text style={{ color: 'white', fontWeight: '700', width: 24 }}>{axis.toUpperCase()}</Text>
+							{VIBRATION_METRICS.map(m => {
+								const value = vibration.axes[axis][m.key];
+								return (
+									<Text
+										key={m.key}
+										style={{
+											color: SEVERITY_COLORS[metricSeverity(settings, m.key, value)],
+											fontSize: 12,
+											flex: 1,
+											textAlign: 'right',
+											fontVariant: ['tabular-nums'],
+										}}
+									>
+										{formatMetric(value, m.digits)}
+									</Text>
+								);
+							})}
+						</View>
+					))}
+				</View>
+			)}
+
+			{vibration && velocityThreshold && (
+				<ZoneBar value={worstVelocity} warning={velocityThreshold.warning} alarm={velocityThreshold.alarm} />
+			)}
+
+			<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+				{VIBRATION_WINDOWS_S.map(w => (
+					<Chip key={w} label={`${w} s`} selected={settings.windowS === w} onPress={() => onChangeSettings({ ...settings, windowS: w })} />
+				))}
+			</View>
+
+			{editing && (
+				<View style={{ gap: 8 }}>
+					<View style={{ flexDirection: 'row', gap: 8 }}>
+						<NumberField label="Velocity band low Hz" value={draft.bandLowHz} editable onCommit={v => v !== undefined && setDraft(d => ({ ...d, bandLowHz: v }))} />
+						<NumberField label="High Hz" value={draft.bandHighHz} editable onCommit={v => v !== undefined && setDraft(d => ({ ...d, bandHighHz: v }))} />
+					</View>
+					{VIBRATION_METRICS.map(m => (
+						<View key={m.key} style={{ flexDirection: 'row', gap: 8 }}>
+							<NumberField
+								label={`${m.label} warning${m.unit ? ` (${m.unit})` : ''}`}
+								value={draft.thresholds[m.key]?.warning}
+								editable
+								onCommit={v => updateThreshold(m.key, 'warning', v)}
+							/>
+							<NumberField label="Alarm" value={draft.thresholds[m.key]?.alarm} editable onCommit={v => updateThreshold(m.key, 'alarm', v)} />
+						</View>
+					))}
+					<Text style={{ color: invalid ? '#f87171' : '#6b7280', fontSize: 12 }}>
+						{invalid ? 'Alarm levels must not be below warning levels, and the band must be non-empty' : 'Leave a level empty to disable alarms for that metric'}
+					</Text>
+				</View>
+			)}
+
+			<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+				<PrimaryButton title={editing ? 'Hide Thresholds' : 'Edit Thresholds'} onPress={() => setEditing(e => !e)} />
+				{editing && <PrimaryButton title="Apply" onPress={() => onChangeSettings(draft)} disabled={!dirty || invalid} active={dirty && !invalid} />}
+				{editing && <PrimaryButton title="Revert" onPress={() => setDraft(settings)} disabled={!dirty} />}
+			</View>
+			<Text style={{ color: '#6b7280', fontSize: 12 }}>
+				RMS, peak and kurtosis are taken about the mean, so gravity is excluded. Recordings store a summary of these metrics; changing the settings starts a new session.
+			</Text>
+		</View>
+	);
+};
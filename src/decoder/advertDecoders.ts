@@ -0,0 +1,168 @@
+import { uuidMatches } from '../ble/scanFilter';
+import { logger } from '../logging/logger';
+import { documentPath, readJsonFile } from '../utils/jsonFile';
+import { Accel, decodeSample, formatByteLength, isValidFormat, PayloadFormat, readSequence, SEQUENCE_BITS } from './payloadFormat';
+
+// The data fields of one advertisement, already converted from base64
+export type AdvertPayload = {
+	manufacturerData: Uint8Array | null;
+	serviceData: Record<string, Uint8Array>;
+};
+
+export type AdvertReading = {
+	accel: Accel;
+	// Measurement counter, used to skip repeated adverts and count lost ones
+	sequence?: number;
+	sequenceBits?: number;
+	// Other sensor values the format carries, e.g. temperatureC or batteryMv
+	extra?: Record<string, number>;
+};
+
+export type AdvertDecoder = {
+	id: string;
+	label: string;
+	// Returns null when the advertisement isn't in this decoder's format
+	decode: (payload: AdvertPayload) => AdvertReading | null;
+};
+
+// Decoder declared in advert_decoders.json: a payload format applied to manufacturer or service data
+export type AdvertDecoderSpec = {
+	id: string;
+	label: string;
+	// Manufacturer data whose first two bytes are this company id (little endian); the format's offsets start after it
+	companyId?: number;
+	// Or the service data advertised under this UUID
+	serviceUuid?: string;
+	format: PayloadFormat;
+};
+
+const RUUVI_COMPANY_ID = 0x0499;
+
+function companyId(data: Uint8Array): number {
+	return data.length >= 2 ? data[0] | (data[1] << 8) : -1;
+}
+
+// Ruuvi data format 5 (RAWv2): big-endian fields after the company id, acceleration in mg
+export const RUUVI_RAWV2: AdvertDecoder = {
+	id: 'ruuvi-rawv2',
+	label: 'Ruuvi RAWv2',
+	decode: ({ manufacturerData }) => {
+		if (!manufacturerData || companyId(manufacturerData) !== RUUVI_COMPANY_ID) return null;
+		const p = manufacturerData.subarray(2);
+		if (p.length < 18 || p[0] !== 5) return null;
+		const dv = new DataView(p.buffer, p.byteOffset, p.byteLength);
+		const ax = dv.getInt16(7);
+		const ay = dv.getInt16(9);
+		const az = dv.getInt16(11);
+		// -32768 marks a value the tag couldn't measure
+		if (ax === -32768 || ay === -32768 || az === -32768) return null;
+		const extra: Record<string, number> = {};
+		const temperature = dv.getInt16(1);
+		if (temperature !== -32768) extra.temperatureC = temperature * 0.005;
+		const humidity = dv.getUint16(3);
+		if (humidity !== 0xffff) extra.humidityPct = humidity * 0.0025;
+		const pressure = dv.getUint16(5);
+		if (pressure !== 0xffff) extra.pressurePa = pressure + 50000;
+		const power = dv.getUint16(13);
+		if (power >> 5 !== 0x7ff) extra.batteryMv = (power >> 5) + 1600;
+		if ((power & 0x1f) !== 0x1f) extra.txPowerDbm = (power & 0x1f) * 2 - 40;
+		if (p[15] !== 0xff) extra.movementCounter = p[15];
+		const sequence = dv.getUint16(16);
+		return {
+			accel: { x: ax / 1000, y: ay / 1000, z: az / 1000 },
+			...(sequence !== 0xffff ? { sequence, sequenceBits: 16 } : {}),
+			extra,
+		};
+	},
+};
+
+// Ruuvi data format 3 (RAWv1): older firmware, no measurement counter
+export const RUUVI_RAWV1: AdvertDecoder = {
+	id: 'ruuvi-rawv1',
+	label: 'Ruuvi RAWv1',
+	decode: ({ manufacturerData }) => {
+		if (!manufacturerData || companyId(manufacturerData) !== RUUVI_COMPANY_ID) return null;
+		const p = manufacturerData.subarray(2);
+		if (p.length < 14 || p[0] !== 3) return null;
+		const dv = new DataView(p.buffer, p.byteOffset, p.byteLength);
+		// Temperature is sign-and-magnitude whole degrees plus hundredths
+		const whole = p[2] & 0x7f;
+		const temperature = (whole + p[3] / 100) * (p[2] & 0x80 ? -1 : 1);
+		return {
+			accel: { x: dv.getInt16(6) / 1000, y: dv.getInt16(8) / 1000, z: dv.getInt16(10) / 1000 },
+			extra: {
+				temperatureC: temperature,
+				humidityPct: p[1] * 0.5,
+				pressurePa: dv.getUint16(4) + 50000,
+				batteryMv: dv.getUint16(12),
+			},
+		};
+	},
+};
+
+export const BUILTIN_ADVERT_DECODERS: AdvertDecoder[] = [RUUVI_RAWV2, RUUVI_RAWV1];
+
+export function specDecoder(spec: AdvertDecoderSpec): AdvertDecoder {
+	const uuid = spec.serviceUuid;
+	return {
+		id: spec.id,
+		label: spec.label,
+		decode: ({ manufacturerData, serviceData }) => {
+			let data: Uint8Array | null = null;
+			if (spec.companyId !== undefined) {
+				if (manufacturerData && companyId(manufacturerData) === spec.companyId) data = manufacturerData.subarray(2);
+			} else if (uuid) {
+				const key = Object.keys(serviceData).find(k => uuidMatches(k, uuid));
+				if (key) data = serviceData[key];
+			}
+			if (!data || data.length < formatByteLength(spec.format)) return null;
+			const { sequence } = spec.format;
+			return {
+				accel: decodeSample(data, spec.format),
+				...(sequence ? { sequence: readSequence(data, sequence), sequenceBits: SEQUENCE_BITS[sequence.type] } : {}),
+			};
+		},
+	};
+}
+
+// First decoder that understands the advertisement, or null for ordinary adverts
+export function decodeAdvert(
+	payload: AdvertPayload,
+	decoders: AdvertDecoder[],
+): { decoder: AdvertDecoder; reading: AdvertReading } | null {
+	if (!payload.manufacturerData && !Object.keys(payload.serviceData).length) return null;
+	for (const decoder of decoders) {
+		try {
+			const reading = decoder.decode(payload);
+			if (reading) return { decoder, reading };
+		} catch {}
+	}
+	return null;
+}
+
+export const ADVERT_DECODERS_PATH = documentPath('advert_decoders.json');
+
+function isValidSpec(s: any): s is AdvertDecoderSpec {
+	return (
+		!!s &&
+		typeof s.id === 'string' &&
+		typeof s.label === 'string' &&
+		(typeof s.companyId === 'number' || typeof s.serviceUuid === 'string') &&
+		isValidFormat(s.format)
+	);
+}
+
+// User decoders come first so they can take over a format the built-ins would also match
+export async function loadAdvertDecoders(): Promise<AdvertDecoder[]> {
+	const raw = await readJsonFile<unknown>(ADVERT_DECODERS_PATH, []);
+	if (!Array.isArray(raw)) {
+		logger.warn('app', 'advert_decoders.json is not an array, ignoring it');
+		return BUILTIN_ADVERT_DECODERS;
+	}
+	const specs = raw.filter(s => {
+		const ok = isValidSpec(s);
+		if (!ok) logger.warn('app', 'Skipping invalid advert decoder', s);
+		return ok;
+	});
+	return [...specs.map(specDecoder), ...BUILTIN_ADVERT_DECODERS];
+}
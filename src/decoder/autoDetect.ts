@@ -0,0 +1,91 @@
+import { Accel, decodeSample, FieldType, PayloadFormat } from './payloadFormat';
+
+export type FormatProposal = {
+	format: PayloadFormat;
+	// Distance of the median magnitude from 1 g plus its spread across packets, on a log scale; lower is better
+	score: number;
+	preview: Accel;
+};
+
+// Full-scale divisors for ±2g, ±4g, ±8g and ±16g sensors
+const INT16_DIVISORS = [16384, 8192, 4096, 2048];
+const INT8_DIVISORS = [64, 32, 16, 8];
+const MAX_PLAUSIBLE_G = 32;
+
+type Layout = { type: FieldType; littleEndian: boolean; offset: number };
+
+function candidateLayouts(length: number): Layout[] {
+	const layouts: Layout[] = [];
+	const push = (type: FieldType, offset: number) => {
+		layouts.push({ type, littleEndian: true, offset });
+		if (type !== 'int8') layouts.push({ type, littleEndian: false, offset });
+	};
+	// Same search order the old per-packet heuristic used
+	if (length >= 12) push('float32', 0);
+	if (length >= 6) push('int16', 0);
+	if (length > 6) push('int16', length - 6);
+	if (length >= 8 && length - 6 !== 2) push('int16', 2);
+	if (length >= 3) push('int8', 0);
+	return layouts;
+}
+
+function median(values: number[]): number {
+	const sorted = [...values].sort((a, b) => a - b);
+	const mid = Math.floor(sorted.length / 2);
+	return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function evaluate(packets: Uint8Array[], format: PayloadFormat): FormatProposal | null {
+	const samples: Accel[] = [];
+	try {
+		for (const p of packets) samples.push(decodeSample(p, format));
+	} catch {
+		return null;
+	}
+	const values = samples.flatMap(s => [s.x, s.y, s.z]);
+	if (values.some(v => !Number.isFinite(v) || Math.abs(v) > MAX_PLAUSIBLE_G)) return null;
+	if (values.every(v => v === 0)) return null;
+	const magnitudes = samples.map(s => Math.hypot(s.x, s.y, s.z));
+	const magnitude = median(magnitudes);
+	if (magnitude <= 0) return null;
+	// A wrong layout decodes noise, so its magnitude jumps around between packets
+	const spread = magnitudes.reduce((sum, m) => sum + (m > 0 ? Math.abs(Math.log(m / magnitude)) : 1), 0) / magnitudes.length;
+	return { format, score: Math.abs(Math.log(magnitude)) + spread, preview: samples[0] };
+}
+
+/**
+ * Ranks plausible payload formats for a set of raw notifications.
+ * Each candidate must decode every packet to finite values within ±32 g; candidates
+ * whose magnitude sits steadily closest to 1 g (a sensor at rest) rank first.
+ * This only proposes specs: the caller decides which one the connection uses.
+ */
+export function detectFormats(packets: Uint8Array[]): FormatProposal[] {
+	const usable = packets.filter(p => p.byteLength > 0 && p.some(b => b !== 0));
+	if (usable.length === 0) return [];
+	const length = Math.min(...usable.map(p => p.byteLength));
+	const proposals: FormatProposal[] = [];
+	for (const layout of candidateLayouts(length)) {
+		const base = {
+			type: layout.type,
+			endianness: layout.littleEndian ? 'little' : 'big',
+			offset: layout.offset,
+			axisOrder: ['x', 'y', 'z'],
+		} as const;
+		const scaled: Array<Pick<PayloadFormat, 'scale' | 'units'>> =
+			layout.type === 'float32'
+				? [{ scale: 1, units: 'g' }, { scale: 1, units: 'm/s2' }]
+				: (layout.type === 'int16' ? INT16_DIVISORS : INT8_DIVISORS).map(d => ({ scale: 1 / d, units: 'g' }));
+		let best: FormatProposal | null = null;
+		for (const s of scaled) {
+			const p = evaluate(usable, { ...base, axisOrder: [...base.axisOrder], ...s });
+			if (p && (!best || p.score < best.score)) best = p;
+		}
+		if (best) proposals.push(best);
+	}
+	// Array.prototype.sort is stable, so ties keep the search order above
+	return proposals.sort((a, b) => a.score - b.score);
+}
+
+export function proposeFormat(packets: Uint8Array[]): FormatProposal | null {
+	return detectFormats(packets)[0] ?? null;
+}
@@ -0,0 +1,190 @@
+export type FieldType = 'int8' | 'int16' | 'int32' | 'float32';
+export type Endianness = 'little' | 'big';
+export type Axis = 'x' | 'y' | 'z';
+export type AccelUnits = 'g' | 'mg' | 'm/s2';
+export type SequenceType = 'uint8' | 'uint16' | 'uint32';
+
+// Packet counter position, counted from the start of the notification
+export type SequenceField = {
+	type: SequenceType;
+	offset: number;
+	endianness: Endianness;
+};
+
+export type Accel = { x: number; y: number; z: number };
+export type AccelRow = { t: number; x: number; y: number; z: number };
+
+// Three consecutive fields of the same type starting at `offset` within a frame.
+// `scale` converts a raw field value into `units`; decoded samples are always reported in g.
+// Batched payloads carry several frames after an optional header; single-sample payloads
+// leave `frameSize` unset and are one frame starting at byte 0.
+export type PayloadFormat = {
+	type: FieldType;
+	endianness: Endianness;
+	offset: number;
+	axisOrder: [Axis, Axis, Axis];
+	scale: number;
+	units: AccelUnits;
+	headerSize?: number;
+	frameSize?: number;
+	// Sensor output data rate, used to timestamp samples within a batch
+	odrHz?: number;
+	sequence?: SequenceField;
+};
+
+export const FIELD_SIZE: Record<FieldType, number> = {
+	int8: 1,
+	int16: 2,
+	int32: 4,
+	float32: 4,
+};
+
+export const SEQUENCE_BITS: Record<SequenceType, number> = {
+	uint8: 8,
+	uint16: 16,
+	uint32: 32,
+};
+
+const STANDARD_GRAVITY = 9.80665;
+
+export const UNIT_TO_G: Record<AccelUnits, number> = {
+	'g': 1,
+	'mg': 0.001,
+	'm/s2': 1 / STANDARD_GRAVITY,
+};
+
+export const FORMAT_PRESETS: Array<{ id: string; label: string; format: PayloadFormat }> = [
+	{ id: 'int16-le-2g', label: 'int16 LE ±2g', format: { type: 'int16', endianness: 'little', offset: 0, axisOrder: ['x', 'y', 'z'], scale: 1 / 16384, units: 'g' } },
+	{ id: 'int16-le-4g', label: 'int16 LE ±4g', format: { type: 'int16', endianness: 'little', offset: 0, axisOrder: ['x', 'y', 'z'], scale: 1 / 8192, units: 'g' } },
+	{ id: 'int16-le-8g', label: 'int16 LE ±8g', format: { type: 'int16', endianness: 'little', offset: 0, axisOrder: ['x', 'y', 'z'], scale: 1 / 4096, units: 'g' } },
+	{ id: 'int16-le-16g', label: 'int16 LE ±16g', format: { type: 'int16', endianness: 'little', offset: 0, axisOrder: ['x', 'y', 'z'], scale: 1 / 2048, units: 'g' } },
+	{ id: 'int16-le-mg', label: 'int16 LE milli-g', format: { type: 'int16', endianness: 'little', offset: 0, axisOrder: ['x', 'y', 'z'], scale: 1, units: 'mg' } },
+	{ id: 'float32-le-g', label: 'float32 LE g', format: { type: 'float32', endianness: 'little', offset: 0, axisOrder: ['x', 'y', 'z'], scale: 1, units: 'g' } },
+	{ id: 'float32-le-ms2', label: 'float32 LE m/s²', format: { type: 'float32', endianness: 'little', offset: 0, axisOrder: ['x', 'y', 'z'], scale: 1, units: 'm/s2' } },
+	{ id: 'int8-2g', label: 'int8 ±2g', format: { type: 'int8', endianness: 'little', offset: 0, axisOrder: ['x', 'y', 'z'], scale: 1 / 64, units: 'g' } },
+];
+
+export function formatByteLength(format: PayloadFormat): number {
+	return format.offset + FIELD_SIZE[format.type] * 3;
+}
+
+export function framesInPacket(byteLength: number, format: PayloadFormat): number {
+	if (!format.frameSize) return 1;
+	return Math.max(0, Math.floor((byteLength - (format.headerSize ?? 0)) / format.frameSize));
+}
+
+export function readField(dv: DataView, type: FieldType, offset: number, littleEndian: boolean): number {
+	switch (type) {
+		case 'int8':
+			return dv.getInt8(offset);
+		case 'int16':
+			return dv.getInt16(offset, littleEndian);
+		case 'int32':
+			return dv.getInt32(offset, littleEndian);
+		case 'float32':
+			return dv.getFloat32(offset, littleEndian);
+	}
+}
+
+// Reads the three raw field values in payload order, before scaling or axis mapping
+export function readRawTriplet(bytes: Uint8Array, format: PayloadFormat): [number, number, number] {
+	const needed = formatByteLength(format);
+	if (bytes.byteLength < needed) {
+		throw new Error(`Payload too short for ${formatLabel(format)}: ${bytes.byteLength} < ${needed} bytes`);
+	}
+	const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const size = FIELD_SIZE[format.type];
+	const le = format.endianness === 'little';
+	return [
+		readField(dv, format.type, format.offset, le),
+		readField(dv, format.type, format.offset + size, le),
+		readField(dv, format.type, format.offset + size * 2, le),
+	];
+}
+
+export function decodeSample(bytes: Uint8Array, format: PayloadFormat): Accel {
+	const raw = readRawTriplet(bytes, format);
+	const k = format.scale * UNIT_TO_G[format.units];
+	const out: Accel = { x: 0, y: 0, z: 0 };
+	format.axisOrder.forEach((axis, i) => {
+		out[axis] = raw[i] * k;
+	});
+	return out;
+}
+
+export function readSequence(bytes: Uint8Array, field: SequenceField): number {
+	const size = SEQUENCE_BITS[field.type] / 8;
+	if (bytes.byteLength < field.offset + size) {
+		throw new Error(`Payload too short for ${field.type} sequence at @${field.offset}: ${bytes.byteLength} bytes`);
+	}
+	const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const le = field.endianness === 'little';
+	switch (field.type) {
+		case 'uint8':
+			return dv.getUint8(field.offset);
+		case 'uint16':
+			return dv.getUint16(field.offset, le);
+		case 'uint32':
+			return dv.getUint32(field.offset, le);
+	}
+}
+
+/**
+ * Splits a notification into its frames and decodes each one.
+ * The last sample is stamped with the packet arrival time and earlier samples are spaced
+ * one output-data-rate period apart before it. Without `odrHz` every sample gets the arrival time.
+ */
+export function decodePacket(bytes: Uint8Array, format: PayloadFormat, arrivalMs: number): AccelRow[] {
+	if (!format.frameSize) {
+		return [{ t: arrivalMs, ...decodeSample(bytes, format) }];
+	}
+	const count = framesInPacket(bytes.byteLength, format);
+	if (count === 0) {
+		throw new Error(`Payload too short for one ${format.frameSize}-byte frame: ${bytes.byteLength} bytes`);
+	}
+	const header = format.headerSize ?? 0;
+	const periodMs = format.odrHz ? 1000 / format.odrHz : 0;
+	const rows: AccelRow[] = [];
+	for (let i = 0; i < count; i++) {
+		const start = header + i * format.frameSize;
+		const frame = bytes.subarray(start, start + format.frameSize);
+		rows.push({ t: arrivalMs - (count - 1 - i) * periodMs, ...decodeSample(frame, format) });
+	}
+	return rows;
+}
+
+export function formatLabel(format: PayloadFormat): string {
+	const endian = format.type === 'int8' ? '' : format.endianness === 'little' ? ' LE' : ' BE';
+	const order = format.axisOrder.join('').toUpperCase();
+	const base = `${format.type}${endian} @${format.offset} ${order} ×${Number(format.scale.toPrecision(4))} ${format.units}`;
+	const batch = format.frameSize ? ` • ${format.frameSize}B frames${format.headerSize ? ` after ${format.headerSize}B header` : ''}` : '';
+	const odr = format.odrHz ? ` • ${format.odrHz} Hz` : '';
+	const seq = format.sequence ? ` • seq ${format.sequence.type} @${format.sequence.offset}` : '';
+	return base + batch + odr + seq;
+}
+
+export function isValidFormat(f: any): f is PayloadFormat {
+	return (
+		!!f &&
+		f.type in FIELD_SIZE &&
+		(f.endianness === 'little' || f.endianness === 'big') &&
+		Number.isInteger(f.offset) && f.offset >= 0 &&
+		Array.isArray(f.axisOrder) && f.axisOrder.length === 3 &&
+		['x', 'y', 'z'].every(a => f.axisOrder.includes(a)) &&
+		typeof f.scale === 'number' && Number.isFinite(f.scale) &&
+		f.units in UNIT_TO_G &&
+		(f.headerSize === undefined || (Number.isInteger(f.headerSize) && f.headerSize >= 0)) &&
+		(f.frameSize === undefined || (Number.isInteger(f.frameSize) && f.frameSize >= formatByteLength(f))) &&
+		(f.odrHz === undefined || (typeof f.odrHz === 'number' && f.odrHz > 0)) &&
+		(f.sequence === undefined || isValidSequence(f.sequence))
+	);
+}
+
+function isValidSequence(s: any): s is SequenceField {
+	return (
+		!!s &&
+		s.type in SEQUENCE_BITS &&
+		Number.isInteger(s.offset) && s.offset >= 0 &&
+		(s.endianness === 'little' || s.endianness === 'big')
+	);
+}
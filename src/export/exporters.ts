@@ -0,0 +1,257 @@
+import { strToU8, Zip, ZipDeflate } from 'fflate';
+import { Platform, Share } from 'react-native';
+import RNFS from 'react-native-fs';
+import { CsvChunkReader, forEachCsvChunk } from '../recorder/csvReader';
+import { sessionDataPath, sessionDir, sessionFilePath, SessionMeta } from '../sessions/sessionStore';
+import { base64ToBytes, bytesToBase64 } from '../utils/base64';
+import { documentPath } from '../utils/jsonFile';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'npy' | 'npz' | 'zip' | 'merged';
+
+export const EXPORT_FORMATS: Array<{ key: ExportFormat; label: string; description: string; extension: string }> = [
+	{ key: 'csv', label: 'CSV', description: 'Plain columns, opens anywhere', extension: 'csv' },
+	{ key: 'jsonl', label: 'JSON Lines', description: 'Metadata record, then one sample per line', extension: 'jsonl' },
+	{ key: 'npy', label: 'NumPy .npy', description: 'float64 array of shape (N, columns)', extension: 'npy' },
+	{ key: 'npz', label: 'NumPy .npz', description: 'Compressed, one float64 array per column', extension: 'npz' },
+	{ key: 'zip', label: 'Archive .zip', description: 'Data, metadata and logs in one compressed file', extension: 'zip' },
+	{ key: 'merged', label: 'Merged CSV', description: 'All devices interpolated onto the primary device timestamps', extension: 'merged.csv' },
+];
+
+export const EXPORTS_DIR = documentPath('exports');
+
+// Multiple of 3 so every chunk is whole base64 without padding
+const ARCHIVE_CHUNK_BYTES = 3 * 64 * 1024;
+
+function safeFileName(name: string): string {
+	return name.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^_+|_+$/g, '') || 'session';
+}
+
+// NPY format 1.0: magic, version, little-endian header length, then a Python dict literal
+// padded with spaces so the data starts on a 64-byte boundary
+export function npyHeader(shape: number[]): Uint8Array {
+	const dims = shape.length === 1 ? `${shape[0]},` : shape.join(', ');
+	const dict = `{'descr': '<f8', 'fortran_order': False, 'shape': (${dims}), }`;
+	const preamble = 10;
+	const padded = Math.ceil((preamble + dict.length + 1) / 64) * 64;
+	const header = dict + ' '.repeat(padded - preamble - dict.length - 1) + '\n';
+	const out = new Uint8Array(preamble + header.length);
+	out.set([0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59, 1, 0, header.length & 0xff, header.length >> 8]);
+	out.set(strToU8(header), preamble);
+	return out;
+}
+
+// Typed arrays use the platform byte order, which is little-endian on every device we ship to
+function float64Bytes(values: number[]): Uint8Array {
+	return new Uint8Array(new Float64Array(values).buffer);
+}
+
+async function countRows(path: string): Promise<{ rows: number; columns: string[] }> {
+	let rows = 0;
+	const columns = await forEachCsvChunk(path, chunk => {
+		rows += chunk.length;
+	});
+	return { rows, columns };
+}
+
+async function writeJsonLines(meta: SessionMeta, out: string) {
+	await RNFS.writeFile(out, JSON.stringify({ type: 'meta', ...meta }) + '\n', 'utf8');
+	await forEachCsvChunk(sessionDataPath(meta.id), async (rows, columns) => {
+		const lines = rows.map(r => JSON.stringify(Object.fromEntries(columns.map((c, i) => [c, r[i]]))));
+		await RNFS.appendFile(out, lines.join('\n') + '\n', 'utf8');
+	});
+}
+
+async function writeNpy(meta: SessionMeta, out: string) {
+	const data = sessionDataPath(meta.id);
+	const { rows, columns } = await countRows(data);
+	await RNFS.writeFile(out, bytesToBase64(npyHeader([rows, columns.length])), 'base64');
+	await forEachCsvChunk(data, async chunk => {
+		await RNFS.appendFile(out, bytesToBase64(float64Bytes(chunk.flat())), 'base64');
+	});
+}
+
+/**
+ * Streams a ZIP archive to `out`. Entries are added one after another; every chunk
+ * pushed into an entry is compressed and appended to the file before the next one is read.
+ */
+function createZipWriter(out: string) {
+	let writes: Promise<void> = RNFS.writeFile(out, '', 'utf8');
+	let failure: unknown = null;
+	const zip = new Zip((err, chunk) => {
+		if (err) {
+			failure = err;
+			return;
+		}
+		const b64 = bytesToBase64(chunk);
+		writes = writes.then(() => RNFS.appendFile(out, b64, 'base64'));
+	});
+	const settle = async () => {
+		await writes;
+		if (failure) throw failure;
+	};
+	return {
+		async addEntry(name: string, produce: (push: (bytes: Uint8Array) => Promise<void>) => Promise<void>) {
+			const entry = new ZipDeflate(name, { level: 6 });
+			zip.add(entry);
+			await produce(async bytes => {
+				entry.push(bytes);
+				await settle();
+			});
+			entry.push(new Uint8Array(0), true);
+			await settle();
+		},
+		async end() {
+			zip.end();
+			await settle();
+		},
+	};
+}
+
+async function writeNpz(meta: SessionMeta, out: string) {
+	const data = sessionDataPath(meta.id);
+	const { rows, columns } = await countRows(data);
+	const zip = createZipWriter(out);
+	// np.load(...)['x'] style access: one 1-D array per column, one pass over the data each
+	for (let c = 0; c < columns.length; c++) {
+		await zip.addEntry(`${columns[c]}.npy`, async push => {
+			await push(npyHeader([rows]));
+			await forEachCsvChunk(data, async chunk => {
+				await push(float64Bytes(chunk.map(r => r[c])));
+			});
+		});
+	}
+	await zip.end();
+}
+
+/**
+ * Reads one device's CSV in time order and linearly interpolates x, y, z at increasing
+ * timestamps. Outside the recorded range there is no value.
+ */
+export class StreamInterpolator {
+	private reader: CsvChunkReader;
+	private rows: number[][] = [];
+	private index = 0;
+	private prev: number[] | null = null;
+	private eof = false;
+	private columns: number[] = [];
+
+	constructor(path: string) {
+		this.reader = new CsvChunkReader(path);
+	}
+
+	async valueAt(t: number): Promise<number[] | null> {
+		let next: number[] | null = null;
+		while (!next) {
+			if (this.index >= this.rows.length) {
+				if (this.eof) break;
+				const chunk = await this.reader.next();
+				if (!chunk) {
+					this.eof = true;
+					break;
+				}
+				if (!this.columns.length) this.columns = this.findColumns(this.reader.columns ?? []);
+				this.rows = chunk;
+				this.index = 0;
+				continue;
+			}
+			const row = this.rows[this.index];
+			if (row[this.columns[0]] < t) {
+				this.prev = row;
+				this.index++;
+			} else {
+				next = row;
+			}
+		}
+		const [ct, cx, cy, cz] = this.columns;
+		if (next && next[ct] === t) return [next[cx], next[cy], next[cz]];
+		const prev = this.prev;
+		if (!prev || !next) return null;
+		const f = (t - prev[ct]) / (next[ct] - prev[ct]);
+		return [cx, cy, cz].map(c => prev[c] + (next![c] - prev[c]) * f);
+	}
+
+	private findColumns(columns: string[]): number[] {
+		const index = ['timestamp_ms', 'x', 'y', 'z'].map(name => columns.indexOf(name));
+		if (index.some(i => i < 0)) throw new Error(`${this.reader.path} needs timestamp_ms, x, y and z columns`);
+		return index;
+	}
+}
+
+// The primary device's rows with x, y, z of every linked device appended, on the primary's timestamps
+async function writeMerged(meta: SessionMeta, out: string) {
+	const devices = (meta.devices ?? []).map(d => ({
+		prefix: d.file.replace(/^data_/, '').replace(/\.csv$/, ''),
+		stream: new StreamInterpolator(sessionFilePath(meta.id, d.file)),
+	}));
+	let headerWritten = false;
+	await RNFS.writeFile(out, '', 'utf8');
+	await forEachCsvChunk(sessionDataPath(meta.id), async (rows, columns) => {
+		let chunk = '';
+		if (!headerWritten) {
+			const extra = devices.flatMap(d => ['x', 'y', 'z'].map(a => `${d.prefix}_${a}`));
+			chunk += [...columns, ...extra].join(',') + '\n';
+			headerWritten = true;
+		}
+		for (const row of rows) {
+			let line = row.join(',');
+			for (const d of devices) {
+				const v = await d.stream.valueAt(row[0]);
+				line += v ? `,${v.join(',')}` : ',NaN,NaN,NaN';
+			}
+			chunk += line + '\n';
+		}
+		await RNFS.appendFile(out, chunk, 'utf8');
+	});
+}
+
+async function writeArchive(meta: SessionMeta, out: string) {
+	const zip = createZipWriter(out);
+	// Everything stored with the session: data.csv, meta.json and any logs or snapshots
+	const files = (await RNFS.readDir(sessionDir(meta.id))).filter(f => f.isFile());
+	for (const f of files) {
+		await zip.addEntry(f.name, async push => {
+			for (let position = 0; position < f.size; position += ARCHIVE_CHUNK_BYTES) {
+				await push(base64ToBytes(await RNFS.read(f.path, ARCHIVE_CHUNK_BYTES, position, 'base64')));
+			}
+		});
+	}
+	await zip.end();
+}
+
+// Writes the session in the chosen format to the exports directory and returns the file path
+export async function exportSession(meta: SessionMeta, format: ExportFormat = 'csv'): Promise<string> {
+	const spec = EXPORT_FORMATS.find(f => f.key === format);
+	if (!spec) throw new Error(`Unknown export format: ${format}`);
+	await RNFS.mkdir(EXPORTS_DIR);
+	const out = `${EXPORTS_DIR}/${safeFileName(meta.name)}.${spec.extension}`;
+	if (await RNFS.exists(out)) await RNFS.unlink(out);
+	switch (format) {
+		case 'csv':
+			await RNFS.copyFile(sessionDataPath(meta.id), out);
+			break;
+		case 'jsonl':
+			await writeJsonLines(meta, out);
+			break;
+		case 'npy':
+			await writeNpy(meta, out);
+			break;
+		case 'npz':
+			await writeNpz(meta, out);
+			break;
+		case 'zip':
+			await writeArchive(meta, out);
+			break;
+		case 'merged':
+			await writeMerged(meta, out);
+			break;
+	}
+	return out;
+}
+
+export async function shareFile(path: string, title: string): Promise<void> {
+	await Share.share({
+		title,
+		message: Platform.OS === 'android' ? 'File saved. Share or open with a compatible app.' : '',
+		url: Platform.OS === 'ios' ? path : `file://${path}`,
+	});
+}
@@ -0,0 +1,63 @@
+export type BiquadCoefficients = { b0: number; b1: number; b2: number; a1: number; a2: number };
+
+export type FilterKind = 'lowpass' | 'highpass';
+
+/**
+ * Butterworth filter of the given order as a cascade of second-order sections, designed with
+ * the bilinear transform (pre-warped cutoff). Odd orders add one first-order section, written
+ * as a biquad with b2 = a2 = 0.
+ */
+export function designButterworth(kind: FilterKind, order: number, cutoffHz: number, sampleRateHz: number): BiquadCoefficients[] {
+	if (!(order >= 1 && order <= 8 && Number.isInteger(order))) throw new Error(`Filter order must be 1–8, got ${order}`);
+	const nyquist = sampleRateHz / 2;
+	if (!(cutoffHz > 0 && cutoffHz < nyquist)) {
+		throw new Error(`Cutoff ${cutoffHz} Hz must be between 0 and Nyquist (${nyquist.toFixed(1)} Hz)`);
+	}
+	const w0 = (2 * Math.PI * cutoffHz) / sampleRateHz;
+	const cos = Math.cos(w0);
+	const sections: BiquadCoefficients[] = [];
+
+	for (let k = 0; k < Math.floor(order / 2); k++) {
+		// Pole pairs of the analog prototype set the Q of each section
+		const q = -1 / (2 * Math.cos(((2 * k + order + 1) * Math.PI) / (2 * order)));
+		const alpha = Math.sin(w0) / (2 * q);
+		const a0 = 1 + alpha;
+		const b = kind === 'lowpass' ? [(1 - cos) / 2, 1 - cos, (1 - cos) / 2] : [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2];
+		sections.push({ b0: b[0] / a0, b1: b[1] / a0, b2: b[2] / a0, a1: (-2 * cos) / a0, a2: (1 - alpha) / a0 });
+	}
+	if (order % 2 === 1) {
+		const K = Math.tan(w0 / 2);
+		const a1 = (K - 1) / (K + 1);
+		const b0 = kind === 'lowpass' ? K / (1 + K) : 1 / (1 + K);
+		sections.push({ b0, b1: kind === 'lowpass' ? b0 : -b0, b2: 0, a1, a2: 0 });
+	}
+	return sections;
+}
+
+// Direct form II transposed state for one section and one channel
+export class Biquad {
+	private c: BiquadCoefficients;
+	private z1 = 0;
+	private z2 = 0;
+
+	constructor(c: BiquadCoefficients) {
+		this.c = c;
+	}
+
+	process(x: number): number {
+		const { b0, b1, b2, a1, a2 } = this.c;
+		const y = b0 * x + this.z1;
+		this.z1 = b1 * x - a1 * y + this.z2;
+		this.z2 = b2 * x - a2 * y;
+		return y;
+	}
+
+	// Starts from the steady state for a constant input, so filters don't ring at stream start
+	prime(x: number) {
+		const { b0, b1, b2, a1, a2 } = this.c;
+		const gain = (b0 + b1 + b2) / (1 + a1 + a2);
+		const y = gain * x;
+		this.z2 = b2 * x - a2 * y;
+		this.z1 = b1 * x - a1 * y + this.z2;
+	}
+}
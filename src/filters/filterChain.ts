@@ -0,0 +1,272 @@
+import { AccelRow } from '../decoder/payloadFormat';
+import { Biquad, designButterworth } from './butterworth';
+
+export type FilterSpec =
+	| { type: 'lowpass'; cutoffHz: number; order: number }
+	| { type: 'highpass'; cutoffHz: number; order: number }
+	| { type: 'bandpass'; lowHz: number; highHz: number; order: number }
+	| { type: 'movingAverage'; window: number }
+	// thresholdG 0 is a plain median; otherwise only samples that far from the median are replaced
+	| { type: 'median'; window: number; thresholdG: number }
+	| { type: 'gravity'; timeConstantS: number }
+	| { type: 'decimate'; factor: number };
+
+export type FilterType = FilterSpec['type'];
+
+export const FILTER_DEFAULTS: Record<FilterType, FilterSpec> = {
+	lowpass: { type: 'lowpass', cutoffHz: 10, order: 4 },
+	highpass: { type: 'highpass', cutoffHz: 0.5, order: 2 },
+	bandpass: { type: 'bandpass', lowHz: 1, highHz: 20, order: 2 },
+	movingAverage: { type: 'movingAverage', window: 5 },
+	median: { type: 'median', window: 5, thresholdG: 0 },
+	gravity: { type: 'gravity', timeConstantS: 1 },
+	decimate: { type: 'decimate', factor: 2 },
+};
+
+export const FILTER_NAMES: Record<FilterType, string> = {
+	lowpass: 'Low-pass',
+	highpass: 'High-pass',
+	bandpass: 'Band-pass',
+	movingAverage: 'Moving average',
+	median: 'Median / despike',
+	gravity: 'Gravity removal',
+	decimate: 'Decimate',
+};
+
+// Intervals averaged to estimate the sample rate when the format doesn't declare one
+const RATE_ESTIMATE_INTERVALS = 16;
+
+export function filterLabel(spec: FilterSpec): string {
+	switch (spec.type) {
+		case 'lowpass':
+		case 'highpass':
+			return `${FILTER_NAMES[spec.type]} ${spec.cutoffHz} Hz (order ${spec.order})`;
+		case 'bandpass':
+			return `Band-pass ${spec.lowHz}–${spec.highHz} Hz (order ${spec.order})`;
+		case 'movingAverage':
+			return `Moving average ${spec.window}`;
+		case 'median':
+			return spec.thresholdG > 0 ? `Despike ${spec.window} > ${spec.thresholdG} g` : `Median ${spec.window}`;
+		case 'gravity':
+			return `Gravity removal τ ${spec.timeConstantS} s`;
+		case 'decimate':
+			return `Decimate ÷${spec.factor}`;
+	}
+}
+
+export function filterChainLabel(specs: FilterSpec[]): string {
+	return specs.length ? specs.map(filterLabel).join(' → ') : 'none';
+}
+
+interface Stage {
+	// Returns the filtered sample, or null when the stage swallows it (decimation)
+	push(t: number, v: number[]): number[] | null;
+}
+
+class ButterworthStage implements Stage {
+	private sections: Biquad[][];
+	private primed = false;
+
+	constructor(designs: ReturnType<typeof designButterworth>[]) {
+		this.sections = [0, 1, 2].map(() => designs.flat().map(c => new Biquad(c)));
+	}
+
+	push(_t: number, v: number[]) {
+		return v.map((x, axis) => {
+			const chain = this.sections[axis];
+			if (!this.primed) {
+				let y = x;
+				for (const s of chain) {
+					s.prime(y);
+					y = s.process(y);
+				}
+				if (axis === 2) this.primed = true;
+				return y;
+			}
+			return chain.reduce((y, s) => s.process(y), x);
+		});
+	}
+}
+
+class MovingAverageStage implements Stage {
+	private window: number;
+	private history: number[][] = [];
+	private sums = [0, 0, 0];
+
+	constructor(window: number) {
+		this.window = window;
+	}
+
+	push(_t: number, v: number[]) {
+		this.history.push(v);
+		v.forEach((x, i) => (this.sums[i] += x));
+		if (this.history.length > this.window) {
+			this.history.shift()!.forEach((x, i) => (this.sums[i] -= x));
+		}
+		return this.sums.map(s => s / this.history.length);
+	}
+}
+
+class MedianStage implements Stage {
+	private window: number;
+	private thresholdG: number;
+	private history: number[][] = [[], [], []];
+
+	constructor(window: number, thresholdG: number) {
+		this.window = window;
+		this.thresholdG = thresholdG;
+	}
+
+	push(_t: number, v: number[]) {
+		return v.map((x, axis) => {
+			const h = this.history[axis];
+			h.push(x);
+			if (h.length > this.window) h.shift();
+			const sorted = [...h].sort((a, b) => a - b);
+			const median = sorted[sorted.length >> 1];
+			return this.thresholdG > 0 && Math.abs(x - median) <= this.thresholdG ? x : median;
+		});
+	}
+}
+
+// Subtracts a slow first-order low-pass estimate of gravity from each axis
+class GravityStage implements Stage {
+	private tau: number;
+	private gravity: number[] | null = null;
+	private lastT = 0;
+
+	constructor(timeConstantS: number) {
+		this.tau = timeConstantS * 1000;
+	}
+
+	push(t: number, v: number[]) {
+		if (!this.gravity) {
+			this.gravity = [...v];
+		} else {
+			const dt = Math.max(0, t - this.lastT);
+			const alpha = dt / (this.tau + dt);
+			this.gravity = this.gravity.map((g, i) => g + alpha * (v[i] - g));
+		}
+		this.lastT = t;
+		return v.map((x, i) => x - this.gravity![i]);
+	}
+}
+
+// Averages each block of `factor` samples into one, which doubles as a simple anti-alias filter
+class DecimateStage implements Stage {
+	private factor: number;
+	private sums = [0, 0, 0];
+	private count = 0;
+
+	constructor(factor: number) {
+		this.factor = factor;
+	}
+
+	push(_t: number, v: number[]) {
+		v.forEach((x, i) => (this.sums[i] += x));
+		if (++this.count < this.factor) return null;
+		const out = this.sums.map(s => s / this.factor);
+		this.sums = [0, 0, 0];
+		this.count = 0;
+		return out;
+	}
+}
+
+// Builds the stages, tracking the rate each one runs at so filters after a decimation are designed correctly
+function buildStages(specs: FilterSpec[], sampleRateHz: number): Stage[] {
+	let fs = sampleRateHz;
+	return specs.map(spec => {
+		switch (spec.type) {
+			case 'lowpass':
+			case 'highpass':
+				return new ButterworthStage([designButterworth(spec.type, spec.order, spec.cutoffHz, fs)]);
+			case 'bandpass':
+				if (!(spec.lowHz < spec.highHz)) throw new Error('Band-pass low edge must be below the high edge');
+				return new ButterworthStage([
+					designButterworth('highpass', spec.order, spec.lowHz, fs),
+					designButterworth('lowpass', spec.order, spec.highHz, fs),
+				]);
+			case 'movingAverage':
+				return new MovingAverageStage(Math.max(1, Math.round(spec.window)));
+			case 'median':
+				return new MedianStage(Math.max(1, Math.round(spec.window)), spec.thresholdG);
+			case 'gravity':
+				return new GravityStage(spec.timeConstantS);
+			case 'decimate': {
+				const factor = Math.max(1, Math.round(spec.factor));
+				fs /= factor;
+				return new DecimateStage(factor);
+			}
+		}
+	});
+}
+
+type Options = {
+	// Known input rate, e.g. the format's ODR; estimated from timestamps when omitted
+	sampleRateHz?: number;
+	onError?: (e: unknown) => void;
+};
+
+/**
+ * Runs samples through a list of filter stages in order. Chains with Butterworth stages need
+ * the sample rate; until it is known, samples pass through unfiltered. If the chain can't be
+ * built for that rate (a cutoff above Nyquist, say), it reports the error once and keeps
+ * passing samples through.
+ */
+export class FilterChain {
+	readonly specs: FilterSpec[];
+	sampleRateHz: number | null;
+	private stages: Stage[] | null = null;
+	private failed = false;
+	private onError?: (e: unknown) => void;
+	private firstT: number | null = null;
+	private intervals = 0;
+	// Samples after the first timestamp; batched packets without an ODR share one timestamp per packet
+	private samples = 0;
+	private lastT = 0;
+
+	constructor(specs: FilterSpec[], options: Options = {}) {
+		this.specs = specs;
+		this.sampleRateHz = options.sampleRateHz ?? null;
+		this.onError = options.onError;
+		// Only the Butterworth stages are designed for a rate; anything else can start right away
+		const needsRate = specs.some(s => s.type === 'lowpass' || s.type === 'highpass' || s.type === 'bandpass');
+		if (this.sampleRateHz || !needsRate) this.build(this.sampleRateHz ?? 0);
+	}
+
+	push(t: number, x: number, y: number, z: number): AccelRow | null {
+		if (!this.stages && !this.failed) this.estimateRate(t);
+		if (!this.stages) return { t, x, y, z };
+		let v: number[] | null = [x, y, z];
+		for (const stage of this.stages) {
+			v = stage.push(t, v);
+			if (!v) return null;
+		}
+		return { t, x: v[0], y: v[1], z: v[2] };
+	}
+
+	// Samples over elapsed time, counted up to the last complete timestamp
+	private estimateRate(t: number) {
+		if (this.firstT === null) {
+			this.firstT = t;
+		} else if (t > this.lastT) {
+			if (this.intervals >= RATE_ESTIMATE_INTERVALS) {
+				this.sampleRateHz = (this.samples * 1000) / (this.lastT - this.firstT);
+				this.build(this.sampleRateHz);
+				return;
+			}
+			this.intervals++;
+		}
+		if (t > this.firstT) this.samples++;
+		this.lastT = t;
+	}
+
+	private build(rate: number) {
+		try {
+			this.stages = buildStages(this.specs, rate);
+		} catch (e) {
+			this.failed = true;
+			this.onError?.(e);
+		}
+	}
+}
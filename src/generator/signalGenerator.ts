@@ -0,0 +1,309 @@
+import { Accel, AccelRow, Axis } from '../decoder/payloadFormat';
+import { logger } from '../logging/logger';
+import { documentPath, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+
+export type Waveform = 'sine' | 'square' | 'chirp' | 'noise' | 'step' | 'impulse' | 'tilt';
+
+// Parameters a waveform doesn't use are kept, so switching back and forth loses nothing
+export type AxisSignal = {
+	waveform: Waveform;
+	// Peak value in g; the standard deviation for noise, the gravity magnitude for tilt
+	amplitude: number;
+	// Sine, square and impulse train rate; where a chirp starts
+	frequencyHz: number;
+	// A chirp sweeps linearly to this over sweepS seconds, then starts over
+	chirpEndHz: number;
+	sweepS: number;
+	// Seconds after the start when a step goes from 0 to the amplitude
+	stepAtS: number;
+	// Gravity at tilt: angle between the axis and vertical
+	tiltDeg: number;
+	// Added to every sample, in g
+	offset: number;
+	// Standard deviation of white noise added to every sample, in g
+	noise: number;
+};
+
+// Rates are per minute of streaming; each fault happens at random times
+export type GeneratorFaults = {
+	// Packets stop arriving for dropoutMs, which the sequence counter shows as loss
+	dropoutsPerMin: number;
+	dropoutMs: number;
+	// One sample on a random axis is off by ±spikeG
+	spikesPerMin: number;
+	spikeG: number;
+	// The link drops and the device can't be reached for outageS seconds
+	disconnectsPerMin: number;
+	outageS: number;
+};
+
+export type GeneratorSettings = {
+	id: string;
+	name: string;
+	sampleRateHz: number;
+	axes: Record<Axis, AxisSignal>;
+	faults: GeneratorFaults;
+};
+
+// What one tick produced: a packet of samples, a lost packet, a dropped link, or nothing due yet
+export type GeneratorTick = {
+	event: 'data' | 'dropout' | 'disconnect' | 'idle';
+	rows: AccelRow[];
+	seq: number;
+};
+
+export const WAVEFORMS: Array<{ key: Waveform; label: string }> = [
+	{ key: 'sine', label: 'Sine' },
+	{ key: 'square', label: 'Square' },
+	{ key: 'chirp', label: 'Chirp' },
+	{ key: 'noise', label: 'White noise' },
+	{ key: 'step', label: 'Step' },
+	{ key: 'impulse', label: 'Impulse train' },
+	{ key: 'tilt', label: 'Gravity at tilt' },
+];
+
+export const GENERATOR_AXES: Axis[] = ['x', 'y', 'z'];
+
+export const MAX_SAMPLE_RATE_HZ = 1000;
+// Above 50 Hz samples are sent in batches, as a real sensor with a FIFO would
+export const MIN_TICK_MS = 20;
+// Packet counter width reported to the link statistics
+export const GENERATOR_SEQ_BITS = 16;
+
+export const DEFAULT_AXIS_SIGNAL: AxisSignal = {
+	waveform: 'sine',
+	amplitude: 1,
+	frequencyHz: 1,
+	chirpEndHz: 20,
+	sweepS: 10,
+	stepAtS: 2,
+	tiltDeg: 0,
+	offset: 0,
+	noise: 0,
+};
+
+export const NO_FAULTS: GeneratorFaults = {
+	dropoutsPerMin: 0,
+	dropoutMs: 500,
+	spikesPerMin: 0,
+	spikeG: 4,
+	disconnectsPerMin: 0,
+	outageS: 3,
+};
+
+// The slow sway the sample device has always shown, device lying flat
+export const DEFAULT_GENERATOR: GeneratorSettings = {
+	id: 'sample-device',
+	name: 'Sample Accelerometer',
+	sampleRateHz: 10,
+	axes: {
+		x: { ...DEFAULT_AXIS_SIGNAL, amplitude: 0.9, frequencyHz: 0.19, noise: 0.01 },
+		y: { ...DEFAULT_AXIS_SIGNAL, amplitude: 0.8, frequencyHz: 0.14, noise: 0.01 },
+		z: { ...DEFAULT_AXIS_SIGNAL, amplitude: 0.1, frequencyHz: 0.08, offset: 0.98, noise: 0.01 },
+	},
+	faults: NO_FAULTS,
+};
+
+export const GENERATORS_PATH = documentPath('signal_generators.json');
+
+// Standard normal deviate (Box-Muller); 1 - random() keeps the log finite
+function gaussian(random: () => number): number {
+	return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Value of the waveform alone at `t` seconds after the start, before offset and noise.
+ * `dt` is the sample period, which places each impulse on the first sample of its period.
+ */
+export function waveValue(s: AxisSignal, t: number, dt: number, random: () => number = Math.random): number {
+	switch (s.waveform) {
+		case 'sine':
+			return s.amplitude * Math.sin(2 * Math.PI * s.frequencyHz * t);
+		case 'square':
+			return Math.sin(2 * Math.PI * s.frequencyHz * t) >= 0 ? s.amplitude : -s.amplitude;
+		case 'chirp': {
+			const tau = s.sweepS > 0 ? t % s.sweepS : t;
+			const rate = s.sweepS > 0 ? (s.chirpEndHz - s.frequencyHz) / s.sweepS : 0;
+			return s.amplitude * Math.sin(2 * Math.PI * (s.frequencyHz * tau + (rate * tau * tau) / 2));
+		}
+		case 'noise':
+			return s.amplitude * gaussian(random);
+		case 'step':
+			return t >= s.stepAtS ? s.amplitude : 0;
+		case 'impulse': {
+			// Tolerates sample times a rounding error short of a period boundary
+			const period = (time: number) => Math.floor(time * s.frequencyHz + 1e-9);
+			return period(t) !== period(t - dt) ? s.amplitude : 0;
+		}
+		case 'tilt':
+			return s.amplitude * Math.cos((s.tiltDeg * Math.PI) / 180);
+	}
+}
+
+/**
+ * Produces the samples of a virtual accelerometer on a wall-clock time base. The caller
+ * ticks it on a timer and gets every sample due since the last tick as one packet, with
+ * faults injected at random. After a simulated disconnect the device stays unreachable
+ * until its outage is over.
+ */
+export class SignalGenerator {
+	readonly settings: GeneratorSettings;
+	private random: () => number;
+	private startMs: number | null = null;
+	private index = 0;
+	private seq = 0;
+	private lastTickMs = 0;
+	private dropoutUntil = 0;
+	private outageUntil = 0;
+
+	constructor(settings: GeneratorSettings, random: () => number = Math.random) {
+		this.settings = settings;
+		this.random = random;
+	}
+
+	get tickMs(): number {
+		return Math.max(1000 / this.settings.sampleRateHz, MIN_TICK_MS);
+	}
+
+	// Starts streaming, or resumes after a disconnect with the signal carrying on in wall-clock time
+	start(now: number) {
+		if (this.startMs === null) this.startMs = now;
+		this.index = Math.ceil(((now - this.startMs) * this.settings.sampleRateHz) / 1000);
+		this.lastTickMs = now;
+	}
+
+	reachable(now: number): boolean {
+		return now >= this.outageUntil;
+	}
+
+	tick(now: number): GeneratorTick {
+		if (this.startMs === null) this.start(now);
+		const { faults, sampleRateHz } = this.settings;
+		const dtS = Math.max(0, now - this.lastTickMs) / 1000;
+		this.lastTickMs = now;
+		if (this.chance(faults.disconnectsPerMin, dtS)) {
+			this.outageUntil = now + faults.outageS * 1000;
+			return { event: 'disconnect', rows: [], seq: this.seq };
+		}
+		const rows: AccelRow[] = [];
+		for (let t = this.sampleTime(this.index); t <= now; t = this.sampleTime(++this.index)) {
+			rows.push({ t, ...this.sample((t - this.startMs!) / 1000, 1 / sampleRateHz) });
+		}
+		if (!rows.length) return { event: 'idle', rows, seq: this.seq };
+		const seq = this.seq;
+		this.seq = (this.seq + 1) % 2 ** GENERATOR_SEQ_BITS;
+		if (now < this.dropoutUntil) return { event: 'dropout', rows: [], seq };
+		if (this.chance(faults.dropoutsPerMin, dtS)) {
+			this.dropoutUntil = now + faults.dropoutMs;
+			return { event: 'dropout', rows: [], seq };
+		}
+		if (this.chance(faults.spikesPerMin, dtS)) {
+			const row = rows[Math.floor(this.random() * rows.length)];
+			const axis = GENERATOR_AXES[Math.floor(this.random() * 3)];
+			row[axis] += this.random() < 0.5 ? -faults.spikeG : faults.spikeG;
+		}
+		return { event: 'data', rows, seq };
+	}
+
+	private sampleTime(index: number): number {
+		return this.startMs! + (index * 1000) / this.settings.sampleRateHz;
+	}
+
+	private sample(t: number, dt: number): Accel {
+		const out: Accel = { x: 0, y: 0, z: 0 };
+		for (const axis of GENERATOR_AXES) {
+			const s = this.settings.axes[axis];
+			out[axis] = waveValue(s, t, dt, this.random) + s.offset + (s.noise ? s.noise * gaussian(this.random) : 0);
+		}
+		return out;
+	}
+
+	// Whether an event at `perMin` happens within the last `dtS` seconds
+	private chance(perMin: number, dtS: number): boolean {
+		return perMin > 0 && this.random() < 1 - Math.exp(-(perMin / 60) * dtS);
+	}
+}
+
+function num(v: number): string {
+	return String(Number(v.toPrecision(3)));
+}
+
+export function axisSignalLabel(s: AxisSignal): string {
+	const base = (() => {
+		switch (s.waveform) {
+			case 'sine':
+			case 'square':
+				return `${s.waveform} ${num(s.amplitude)} g ${num(s.frequencyHz)} Hz`;
+			case 'chirp':
+				return `chirp ${num(s.amplitude)} g ${num(s.frequencyHz)}–${num(s.chirpEndHz)} Hz`;
+			case 'noise':
+				return `noise ${num(s.amplitude)} g`;
+			case 'step':
+				return `step ${num(s.amplitude)} g at ${num(s.stepAtS)} s`;
+			case 'impulse':
+				return `impulses ${num(s.amplitude)} g ${num(s.frequencyHz)} Hz`;
+			case 'tilt':
+				return `tilt ${num(s.tiltDeg)}°`;
+		}
+	})();
+	return base + (s.offset ? ` ${s.offset > 0 ? '+' : '−'}${num(Math.abs(s.offset))} g` : '') + (s.noise ? ` ±${num(s.noise)}` : '');
+}
+
+// "100 Hz • X sine 1 g 5 Hz • Y noise 0.1 g • Z tilt 30° • dropouts, spikes"
+export function generatorLabel(g: GeneratorSettings): string {
+	const { faults } = g;
+	const faultNames = [
+		faults.dropoutsPerMin > 0 && 'dropouts',
+		faults.spikesPerMin > 0 && 'spikes',
+		faults.disconnectsPerMin > 0 && 'disconnects',
+	].filter(Boolean);
+	return [
+		`${num(g.sampleRateHz)} Hz`,
+		...GENERATOR_AXES.map(axis => `${axis.toUpperCase()} ${axisSignalLabel(g.axes[axis])}`),
+		...(faultNames.length ? [faultNames.join(', ')] : []),
+	].join(' • ');
+}
+
+function isFiniteNumber(v: any): v is number {
+	return typeof v === 'number' && Number.isFinite(v);
+}
+
+function isValidAxisSignal(s: any): s is AxisSignal {
+	return (
+		!!s &&
+		WAVEFORMS.some(w => w.key === s.waveform) &&
+		['amplitude', 'frequencyHz', 'chirpEndHz', 'sweepS', 'stepAtS', 'tiltDeg', 'offset', 'noise'].every(k => isFiniteNumber(s[k])) &&
+		s.frequencyHz >= 0 && s.chirpEndHz >= 0 && s.sweepS >= 0 && s.noise >= 0
+	);
+}
+
+export function isValidGenerator(g: any): g is GeneratorSettings {
+	return (
+		!!g &&
+		typeof g.id === 'string' &&
+		typeof g.name === 'string' &&
+		isFiniteNumber(g.sampleRateHz) && g.sampleRateHz > 0 && g.sampleRateHz <= MAX_SAMPLE_RATE_HZ &&
+		!!g.axes &&
+		GENERATOR_AXES.every(axis => isValidAxisSignal(g.axes[axis])) &&
+		!!g.faults &&
+		Object.keys(NO_FAULTS).every(k => isFiniteNumber(g.faults[k]) && g.faults[k] >= 0)
+	);
+}
+
+export async function loadGenerators(): Promise<GeneratorSettings[]> {
+	const raw = await readJsonFile<any>(GENERATORS_PATH, null);
+	if (raw === null) return [];
+	if (!Array.isArray(raw)) {
+		logger.warn('app', 'signal_generators.json is invalid, using defaults');
+		return [];
+	}
+	return raw.filter((g, i) => {
+		if (isValidGenerator(g)) return true;
+		logger.warn('app', `Ignored invalid signal generator #${i + 1}`);
+		return false;
+	});
+}
+
+export async function saveGenerators(generators: GeneratorSettings[]): Promise<void> {
+	await writeJsonFile(GENERATORS_PATH, generators);
+}
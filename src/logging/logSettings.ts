@@ -0,0 +1,18 @@
+import { documentPath, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+import { DEFAULT_LOG_SETTINGS, logger, LogSettings } from './logger';
+
+export const LOG_SETTINGS_PATH = documentPath('log_settings.json');
+
+export async function loadLogSettings(): Promise<LogSettings> {
+	const raw = await readJsonFile<any>(LOG_SETTINGS_PATH, null);
+	if (raw === null) return DEFAULT_LOG_SETTINGS;
+	if (typeof raw?.packetDebug !== 'boolean') {
+		logger.warn('app', 'log_settings.json is invalid, using defaults');
+		return DEFAULT_LOG_SETTINGS;
+	}
+	return { packetDebug: raw.packetDebug };
+}
+
+export async function saveLogSettings(settings: LogSettings): Promise<void> {
+	await writeJsonFile(LOG_SETTINGS_PATH, settings);
+}
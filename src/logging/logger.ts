@@ -0,0 +1,128 @@
+import RNFS from 'react-native-fs';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// 'app' covers settings files and anything not tied to the radio or a recording
+export type LogCategory = 'scan' | 'connect' | 'gatt' | 'decode' | 'record' | 'app';
+
+export type LogEntry = {
+	t: number;
+	level: LogLevel;
+	category: LogCategory;
+	message: string;
+};
+
+export type LogSettings = {
+	// One debug entry per received packet; off by default as it costs time on every packet
+	packetDebug: boolean;
+};
+
+export type LogFilter = {
+	minLevel: LogLevel;
+	// Empty for every category
+	categories: LogCategory[];
+	text: string;
+};
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export const LOG_CATEGORIES: LogCategory[] = ['scan', 'connect', 'gatt', 'decode', 'record', 'app'];
+
+// Oldest entries are dropped past this
+export const LOG_BUFFER_SIZE = 2000;
+
+export const DEFAULT_LOG_SETTINGS: LogSettings = { packetDebug: false };
+
+const LEVEL_ICONS: Record<LogLevel, string> = { debug: '·', info: 'ℹ️', warn: '⚠️', error: '❌' };
+
+// Errors read as their message; anything else as JSON when it can be
+function describe(detail: unknown): string {
+	if (typeof detail === 'string') return detail;
+	if (detail instanceof Error) return detail.message;
+	const message = (detail as any)?.message;
+	if (typeof message === 'string') return message;
+	try {
+		return JSON.stringify(detail);
+	} catch {
+		return String(detail);
+	}
+}
+
+/**
+ * Keeps the most recent diagnostics in memory, where the log viewer and session exports read
+ * them. In development every entry is also printed to the Metro console, except under jest,
+ * where it would bury the test output.
+ */
+export class Logger {
+	settings: LogSettings = DEFAULT_LOG_SETTINGS;
+	private buffer: LogEntry[] = [];
+	private listeners = new Set<(entry: LogEntry) => void>();
+	private capacity: number;
+	private mirror: boolean;
+
+	constructor(capacity: number = LOG_BUFFER_SIZE, mirror: boolean = __DEV__ && !process.env.JEST_WORKER_ID) {
+		this.capacity = capacity;
+		this.mirror = mirror;
+	}
+
+	debug(category: LogCategory, message: string, detail?: unknown) {
+		this.add('debug', category, message, detail);
+	}
+
+	info(category: LogCategory, message: string, detail?: unknown) {
+		this.add('info', category, message, detail);
+	}
+
+	warn(category: LogCategory, message: string, detail?: unknown) {
+		this.add('warn', category, message, detail);
+	}
+
+	error(category: LogCategory, message: string, detail?: unknown) {
+		this.add('error', category, message, detail);
+	}
+
+	add(level: LogLevel, category: LogCategory, message: string, detail?: unknown) {
+		const entry: LogEntry = { t: Date.now(), level, category, message: detail === undefined ? message : `${message}: ${describe(detail)}` };
+		this.buffer.push(entry);
+		if (this.buffer.length > this.capacity) this.buffer.shift();
+		if (this.mirror) console.log(`${LEVEL_ICONS[level]} [${category}] ${entry.message}`);
+		this.listeners.forEach(listener => listener(entry));
+	}
+
+	// Oldest first; from a time on when given
+	entries(since?: number): LogEntry[] {
+		return since === undefined ? [...this.buffer] : this.buffer.filter(e => e.t >= since);
+	}
+
+	clear() {
+		this.buffer = [];
+	}
+
+	subscribe(listener: (entry: LogEntry) => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+}
+
+// The app's one log, shared by every module
+export const logger = new Logger();
+
+export function filterLogs(entries: LogEntry[], filter: LogFilter): LogEntry[] {
+	const min = LOG_LEVELS.indexOf(filter.minLevel);
+	const text = filter.text.trim().toLowerCase();
+	return entries.filter(
+		e =>
+			LOG_LEVELS.indexOf(e.level) >= min &&
+			(!filter.categories.length || filter.categories.includes(e.category)) &&
+			(!text || e.message.toLowerCase().includes(text)),
+	);
+}
+
+// "2026-01-31T12:00:00.123Z INFO  [scan] message"
+export function formatLogEntry(entry: LogEntry): string {
+	return `${new Date(entry.t).toISOString()} ${entry.level.toUpperCase().padEnd(5)} [${entry.category}] ${entry.message}`;
+}
+
+export async function writeLogFile(path: string, entries: LogEntry[]): Promise<void> {
+	await RNFS.writeFile(path, entries.map(formatLogEntry).join('\n') + '\n', 'utf8');
+}
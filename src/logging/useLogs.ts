@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from 'react';
+import RNFS from 'react-native-fs';
+import { EXPORTS_DIR, shareFile } from '../export/exporters';
+import { DEFAULT_LOG_SETTINGS, logger, LogEntry, LogSettings, writeLogFile } from './logger';
+import { loadLogSettings, saveLogSettings } from './logSettings';
+
+// New entries are shown in batches rather than one render per entry
+const LOG_UI_INTERVAL_MS = 500;
+
+function fileStamp(t: number): string {
+	return new Date(t).toISOString().replace(/[:.]/g, '-');
+}
+
+/**
+ * Follows the shared logger for the log viewer and holds the log settings, loaded from
+ * log_settings.json at launch so packet debugging stays on across restarts when turned on.
+ */
+export function useLogs() {
+	const [entries, setEntries] = useState<LogEntry[]>(() => logger.entries());
+	const [settings, setSettings] = useState<LogSettings>(DEFAULT_LOG_SETTINGS);
+	const [errorText, setErrorText] = useState<string | null>(null);
+
+	useEffect(() => {
+		let dirty = false;
+		const unsubscribe = logger.subscribe(() => {
+			dirty = true;
+		});
+		const timer = setInterval(() => {
+			if (!dirty) return;
+			dirty = false;
+			setEntries(logger.entries());
+		}, LOG_UI_INTERVAL_MS);
+		loadLogSettings().then(loaded => {
+			logger.settings = loaded;
+			setSettings(loaded);
+		});
+		return () => {
+			unsubscribe();
+			clearInterval(timer);
+		};
+	}, []);
+
+	const changeSettings = useCallback(async (next: LogSettings) => {
+		logger.settings = next;
+		setSettings(next);
+		try {
+			await saveLogSettings(next);
+		} catch (e: any) {
+			setErrorText(`Saving log settings failed: ${e?.message ?? String(e)}`);
+		}
+	}, []);
+
+	const clear = useCallback(() => {
+		logger.clear();
+		setEntries([]);
+	}, []);
+
+	// Writes the given entries, or the whole buffer, to the exports directory and shares the file
+	const share = useCallback(async (selection?: LogEntry[]) => {
+		try {
+			await RNFS.mkdir(EXPORTS_DIR);
+			const path = `${EXPORTS_DIR}/log_${fileStamp(Date.now())}.txt`;
+			await writeLogFile(path, selection ?? logger.entries());
+			await shareFile(path, 'BLE Accelerometer log');
+		} catch (e: any) {
+			setErrorText(`Sharing the log failed: ${e?.message ?? String(e)}`);
+		}
+	}, []);
+
+	return {
+		entries,
+		settings,
+		error: errorText,
+		clearError: () => setErrorText(null),
+		changeSettings,
+		clear,
+		share,
+	};
+}
@@ -0,0 +1,279 @@
+import { logger } from '../logging/logger';
+import { fft, windowCoefficients } from '../spectrum/spectrum';
+import { documentPath, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+import { SampleRing } from '../utils/SampleRing';
+
+export type VibrationAxis = 'x' | 'y' | 'z';
+
+export const VIBRATION_AXES: VibrationAxis[] = ['x', 'y', 'z'];
+
+export type VibrationMetric = 'rms' | 'peak' | 'peakToPeak' | 'crest' | 'kurtosis' | 'velocityRms';
+
+export const VIBRATION_METRICS: Array<{ key: VibrationMetric; label: string; unit: string; digits: number }> = [
+	{ key: 'rms', label: 'RMS', unit: 'g', digits: 4 },
+	{ key: 'peak', label: 'Peak', unit: 'g', digits: 3 },
+	{ key: 'peakToPeak', label: 'P-P', unit: 'g', digits: 3 },
+	{ key: 'crest', label: 'Crest', unit: '', digits: 2 },
+	{ key: 'kurtosis', label: 'Kurt.', unit: '', digits: 2 },
+	{ key: 'velocityRms', label: 'Vel. RMS', unit: 'mm/s', digits: 2 },
+];
+
+// Velocity is null when the integration band is empty at the measured rate
+export type AxisMetrics = Record<VibrationMetric, number | null>;
+
+export type Severity = 'ok' | 'warning' | 'alarm';
+
+export const SEVERITY_COLORS: Record<Severity, string> = { ok: '#86efac', warning: '#fbbf24', alarm: '#f87171' };
+
+export type Threshold = { warning: number; alarm: number };
+
+export type VibrationSettings = {
+	windowS: number;
+	// Band for velocity integration; the upper edge is clipped to Nyquist
+	bandLowHz: number;
+	bandHighHz: number;
+	// Metrics without a threshold never raise an alarm
+	thresholds: Partial<Record<VibrationMetric, Threshold>>;
+};
+
+export const VIBRATION_WINDOWS_S = [0.5, 1, 2, 5, 10];
+
+// ISO 10816-3 style defaults: 10–1000 Hz velocity with the zone boundaries of medium-sized machines
+export const DEFAULT_VIBRATION_SETTINGS: VibrationSettings = {
+	windowS: 1,
+	bandLowHz: 10,
+	bandHighHz: 1000,
+	thresholds: {
+		velocityRms: { warning: 2.8, alarm: 4.5 },
+		crest: { warning: 6, alarm: 10 },
+		kurtosis: { warning: 5, alarm: 10 },
+	},
+};
+
+export type VibrationSnapshot = {
+	at: number;
+	windowS: number;
+	samples: number;
+	sampleRateHz: number;
+	// Band actually integrated, or null when it is empty
+	bandHz: [number, number] | null;
+	axes: Record<VibrationAxis, AxisMetrics>;
+	// Worst zone of any metric on any axis
+	severity: Severity;
+};
+
+// One row per axis and metric: average and worst over the recording's windows
+export type VibrationSummary = {
+	windowS: number;
+	bandHz: [number, number];
+	windows: number;
+	severity: Severity;
+	thresholds: VibrationSettings['thresholds'];
+	axes: Record<VibrationAxis, Partial<Record<VibrationMetric, { mean: number; max: number }>>>;
+};
+
+const MIN_WINDOW_SAMPLES = 16;
+// g to mm/s² for the velocity integration
+const G_TO_MM_S2 = 9806.65;
+
+export const VIBRATION_SETTINGS_PATH = documentPath('vibration_settings.json');
+
+const SEVERITY_RANK: Record<Severity, number> = { ok: 0, warning: 1, alarm: 2 };
+
+export function worseSeverity(a: Severity, b: Severity): Severity {
+	return SEVERITY_RANK[b] > SEVERITY_RANK[a] ? b : a;
+}
+
+export function metricSeverity(settings: VibrationSettings, metric: VibrationMetric, value: number | null): Severity {
+	const threshold = settings.thresholds[metric];
+	if (!threshold || value === null || !Number.isFinite(value)) return 'ok';
+	if (value >= threshold.alarm) return 'alarm';
+	return value >= threshold.warning ? 'warning' : 'ok';
+}
+
+/**
+ * Time-domain statistics of one axis. The mean is removed first, so RMS, peak and kurtosis
+ * describe the vibration rather than gravity or a sensor offset.
+ */
+export function axisStatistics(values: Float64Array): Omit<AxisMetrics, 'velocityRms'> {
+	const n = values.length;
+	let mean = 0;
+	let min = Infinity;
+	let max = -Infinity;
+	for (let i = 0; i < n; i++) {
+		mean += values[i];
+		if (values[i] < min) min = values[i];
+		if (values[i] > max) max = values[i];
+	}
+	mean /= n;
+	let m2 = 0;
+	let m4 = 0;
+	let peak = 0;
+	for (let i = 0; i < n; i++) {
+		const d = values[i] - mean;
+		const d2 = d * d;
+		m2 += d2;
+		m4 += d2 * d2;
+		if (Math.abs(d) > peak) peak = Math.abs(d);
+	}
+	m2 /= n;
+	m4 /= n;
+	const rms = Math.sqrt(m2);
+	return {
+		rms,
+		peak,
+		peakToPeak: max - min,
+		crest: rms > 0 ? peak / rms : null,
+		kurtosis: m2 > 0 ? m4 / (m2 * m2) : null,
+	};
+}
+
+/**
+ * RMS velocity in mm/s, integrated in the frequency domain: each bin of the Hann-windowed
+ * acceleration spectrum inside the band is divided by 2πf and the energy summed (Parseval).
+ */
+export function velocityRms(values: Float64Array, sampleRateHz: number, lowHz: number, highHz: number): { rms: number; bandHz: [number, number] } | null {
+	const n = values.length;
+	let size = 1;
+	while (size < n) size <<= 1;
+	const binHz = sampleRateHz / size;
+	const low = Math.max(lowHz, binHz);
+	const high = Math.min(highHz, sampleRateHz / 2);
+	if (!(high > low)) return null;
+	let mean = 0;
+	for (let i = 0; i < n; i++) mean += values[i];
+	mean /= n;
+	// Zero-padded to a power of two; the energy scaling uses the unpadded window
+	const w = windowCoefficients('hann', n);
+	const re = new Float64Array(size);
+	const im = new Float64Array(size);
+	let energy = 0;
+	for (let i = 0; i < n; i++) {
+		re[i] = (values[i] - mean) * w[i];
+		energy += w[i] * w[i];
+	}
+	fft(re, im);
+	let sum = 0;
+	for (let k = Math.ceil(low / binHz); k < size / 2 && k * binHz <= high; k++) {
+		const omega = 2 * Math.PI * k * binHz;
+		sum += (re[k] * re[k] + im[k] * im[k]) / (omega * omega);
+	}
+	return { rms: G_TO_MM_S2 * Math.sqrt((2 * sum) / (size * energy)), bandHz: [low, high] };
+}
+
+// Metrics over the newest `settings.windowS` seconds of the ring, or null with too few samples
+export function computeVibration(ring: SampleRing, settings: VibrationSettings): VibrationSnapshot | null {
+	if (ring.size < MIN_WINDOW_SAMPLES) return null;
+	const end = ring.timeAt(ring.size - 1);
+	const from = ring.indexAtOrAfter(end - settings.windowS * 1000);
+	const n = ring.size - from;
+	if (n < MIN_WINDOW_SAMPLES) return null;
+	const spanMs = end - ring.timeAt(from);
+	if (!(spanMs > 0)) return null;
+	const sampleRateHz = ((n - 1) * 1000) / spanMs;
+
+	const channels = VIBRATION_AXES.map(() => new Float64Array(n));
+	let i = 0;
+	ring.forEachInRange(from, ring.size, (_t, x, y, z) => {
+		channels[0][i] = x;
+		channels[1][i] = y;
+		channels[2][i] = z;
+		i++;
+	});
+
+	const axes = {} as Record<VibrationAxis, AxisMetrics>;
+	let bandHz: [number, number] | null = null;
+	let severity: Severity = 'ok';
+	VIBRATION_AXES.forEach((axis, c) => {
+		const velocity = velocityRms(channels[c], sampleRateHz, settings.bandLowHz, settings.bandHighHz);
+		if (velocity) bandHz = velocity.bandHz;
+		axes[axis] = { ...axisStatistics(channels[c]), velocityRms: velocity?.rms ?? null };
+		for (const { key } of VIBRATION_METRICS) {
+			severity = worseSeverity(severity, metricSeverity(settings, key, axes[axis][key]));
+		}
+	});
+	return { at: end, windowS: settings.windowS, samples: n, sampleRateHz, bandHz, axes, severity };
+}
+
+/**
+ * Condenses the live snapshots of a recording into its summary table. Snapshots are taken more
+ * often than the window is long, so only windows starting after the recording start and after
+ * the previous counted window are used.
+ */
+export class VibrationSummaryTracker {
+	private settings: VibrationSettings;
+	private windows = 0;
+	private lastAt: number;
+	private severity: Severity = 'ok';
+	private bandHz: [number, number] | null = null;
+	private totals = new Map<string, { sum: number; max: number; count: number }>();
+
+	constructor(settings: VibrationSettings, startedAt: number) {
+		this.settings = settings;
+		this.lastAt = startedAt;
+	}
+
+	add(snapshot: VibrationSnapshot) {
+		if (snapshot.at - this.lastAt < snapshot.windowS * 1000) return;
+		this.lastAt = snapshot.at;
+		this.windows++;
+		this.severity = worseSeverity(this.severity, snapshot.severity);
+		if (snapshot.bandHz) this.bandHz = snapshot.bandHz;
+		for (const axis of VIBRATION_AXES) {
+			for (const { key } of VIBRATION_METRICS) {
+				const value = snapshot.axes[axis][key];
+				if (value === null) continue;
+				const id = `${axis}.${key}`;
+				const total = this.totals.get(id) ?? { sum: 0, max: -Infinity, count: 0 };
+				total.sum += value;
+				total.max = Math.max(total.max, value);
+				total.count++;
+				this.totals.set(id, total);
+			}
+		}
+	}
+
+	summary(): VibrationSummary | null {
+		if (this.windows === 0) return null;
+		const axes = {} as VibrationSummary['axes'];
+		for (const axis of VIBRATION_AXES) {
+			axes[axis] = {};
+			for (const { key } of VIBRATION_METRICS) {
+				const total = this.totals.get(`${axis}.${key}`);
+				if (total) axes[axis][key] = { mean: total.sum / total.count, max: total.max };
+			}
+		}
+		return {
+			windowS: this.settings.windowS,
+			bandHz: this.bandHz ?? [this.settings.bandLowHz, this.settings.bandHighHz],
+			windows: this.windows,
+			severity: this.severity,
+			thresholds: this.settings.thresholds,
+			axes,
+		};
+	}
+}
+
+function isValidSettings(s: any): s is VibrationSettings {
+	return (
+		!!s &&
+		VIBRATION_WINDOWS_S.includes(s.windowS) &&
+		typeof s.bandLowHz === 'number' &&
+		typeof s.bandHighHz === 'number' &&
+		typeof s.thresholds === 'object'
+	);
+}
+
+export async function loadVibrationSettings(): Promise<VibrationSettings> {
+	const raw = await readJsonFile<unknown>(VIBRATION_SETTINGS_PATH, null);
+	if (raw === null) return DEFAULT_VIBRATION_SETTINGS;
+	if (!isValidSettings(raw)) {
+		logger.warn('app', 'vibration_settings.json is invalid, using defaults');
+		return DEFAULT_VIBRATION_SETTINGS;
+	}
+	return raw;
+}
+
+export async function saveVibrationSettings(settings: VibrationSettings): Promise<void> {
+	await writeJsonFile(VIBRATION_SETTINGS_PATH, settings);
+}
@@ -0,0 +1,146 @@
+import RNFS from 'react-native-fs';
+import { decodePacket, PayloadFormat } from '../decoder/payloadFormat';
+import { logger } from '../logging/logger';
+import { readLinesInChunks } from './csvReader';
+import { StreamRecorder } from './StreamRecorder';
+
+export type CapturedPacket = {
+	t: number;
+	characteristic: string;
+	bytes: Uint8Array;
+};
+
+export type RedecodeResult = {
+	packets: number;
+	// Packets the format could not decode, left out of the output
+	failed: number;
+	rows: number;
+};
+
+// Saved in the session directory next to data.csv
+export const CAPTURE_FILE = 'packets.csv';
+export const CAPTURE_COLUMNS = ['arrival_ms', 'characteristic', 'payload_hex'];
+
+// Packets held in memory between flushes before writing early
+const CAPTURE_CAPACITY = 1024;
+
+function packetHex(bytes: Uint8Array): string {
+	let hex = '';
+	for (let i = 0; i < bytes.length; i++) hex += bytes[i].toString(16).padStart(2, '0');
+	return hex;
+}
+
+// One line of a capture file; null for the header and anything unreadable
+export function parseCaptureLine(line: string): CapturedPacket | null {
+	const [t, characteristic, hex] = line.trim().split(',');
+	const arrival = Number(t);
+	if (!t || !Number.isFinite(arrival) || hex === undefined || hex.length % 2 || !/^[0-9a-f]*$/i.test(hex)) return null;
+	const bytes = new Uint8Array(hex.length / 2);
+	for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+	return { t: arrival, characteristic, bytes };
+}
+
+/**
+ * Saves every notification payload as received, with its arrival time and characteristic,
+ * so a recording can be decoded again later. Lines are buffered and appended on a timer
+ * like the decoded samples.
+ */
+export class PacketCapture {
+	readonly path: string;
+	private lines: string[] = [];
+	private packets = 0;
+	private flushIntervalMs: number;
+	private onError?: (e: unknown) => void;
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private writeChain: Promise<void> = Promise.resolve();
+
+	constructor(path: string, options: { flushIntervalMs?: number; onError?: (e: unknown) => void } = {}) {
+		this.path = path;
+		this.flushIntervalMs = options.flushIntervalMs ?? 500;
+		this.onError = options.onError;
+	}
+
+	get count(): number {
+		return this.packets;
+	}
+
+	open() {
+		const dir = this.path.substring(0, this.path.lastIndexOf('/'));
+		this.enqueue(async () => {
+			await RNFS.mkdir(dir);
+			await RNFS.writeFile(this.path, CAPTURE_COLUMNS.join(',') + '\n', 'utf8');
+		});
+		this.resume();
+	}
+
+	resume() {
+		if (this.timer) return;
+		this.timer = setInterval(() => this.flushLines(), this.flushIntervalMs);
+	}
+
+	async pause(): Promise<void> {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+		this.flushLines();
+		await this.writeChain;
+	}
+
+	push(t: number, characteristic: string, bytes: Uint8Array) {
+		this.lines.push(`${t},${characteristic},${packetHex(bytes)}`);
+		this.packets++;
+		if (this.lines.length >= CAPTURE_CAPACITY) this.flushLines();
+	}
+
+	private flushLines() {
+		if (!this.lines.length) return;
+		const chunk = this.lines.join('\n') + '\n';
+		this.lines = [];
+		this.enqueue(() => RNFS.appendFile(this.path, chunk, 'utf8'));
+	}
+
+	private enqueue(write: () => Promise<void>) {
+		this.writeChain = this.writeChain.then(write).catch(e => {
+			logger.error('record', 'Packet capture write failed', e);
+			this.onError?.(e);
+		});
+	}
+}
+
+// The first payloads of a capture, for format detection
+export async function readCapturedPayloads(path: string, max: number = 64): Promise<Uint8Array[]> {
+	const text = await RNFS.read(path, 64 * 1024, 0, 'utf8');
+	const payloads: Uint8Array[] = [];
+	for (const line of text.split('\n').slice(0, -1)) {
+		const packet = parseCaptureLine(line);
+		if (packet?.bytes.length) payloads.push(packet.bytes);
+		if (payloads.length === max) break;
+	}
+	return payloads;
+}
+
+// Decodes a capture with the given format into a CSV at `outPath`, stamped with the arrival times
+export async function redecodeCapture(capturePath: string, format: PayloadFormat, outPath: string): Promise<RedecodeResult> {
+	let writeError: unknown = null;
+	const rec = new StreamRecorder(outPath, { onError: e => (writeError = writeError ?? e) });
+	rec.open();
+	let packets = 0;
+	let failed = 0;
+	await readLinesInChunks(capturePath, async lines => {
+		for (const line of lines) {
+			const packet = parseCaptureLine(line);
+			if (!packet) continue;
+			packets++;
+			try {
+				for (const row of decodePacket(packet.bytes, format, packet.t)) rec.push(row.t, row.x, row.y, row.z);
+			} catch {
+				failed++;
+			}
+		}
+		await rec.flush();
+	});
+	await rec.pause();
+	if (writeError) throw writeError;
+	return { packets, failed, rows: rec.summary().rows };
+}
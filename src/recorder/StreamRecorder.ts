@@ -0,0 +1,127 @@
+import RNFS from 'react-native-fs';
+import { logger } from '../logging/logger';
+
+export type RecordingSummary = {
+	rows: number;
+	durationMs: number;
+	bytes: number;
+};
+
+export const EMPTY_RECORDING_SUMMARY: RecordingSummary = { rows: 0, durationMs: 0, bytes: 0 };
+
+export const CSV_COLUMNS = ['timestamp_ms', 'x', 'y', 'z'];
+
+type Options = {
+	// Defaults to CSV_COLUMNS; anything after z is filled from the `extra` values of push()
+	columns?: string[];
+	// Samples held in memory between flushes
+	capacity?: number;
+	flushIntervalMs?: number;
+	onError?: (e: unknown) => void;
+};
+
+/**
+ * Appends samples to a CSV session file without keeping them in memory.
+ * Samples go into a fixed-size buffer that is flushed to disk on a timer, or as soon as
+ * it fills up. Writes are chained so chunks always land in order.
+ */
+export class StreamRecorder {
+	readonly path: string;
+	readonly columns: string[];
+	private capacity: number;
+	private buffer: Float64Array;
+	private buffered = 0;
+	private flushIntervalMs: number;
+	private onError?: (e: unknown) => void;
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private writeChain: Promise<void> = Promise.resolve();
+	private rows = 0;
+	private bytes = 0;
+	private firstT: number | null = null;
+	private lastT: number | null = null;
+
+	constructor(path: string, options: Options = {}) {
+		this.path = path;
+		this.columns = options.columns ?? CSV_COLUMNS;
+		this.capacity = options.capacity ?? 4096;
+		this.buffer = new Float64Array(this.capacity * this.columns.length);
+		this.flushIntervalMs = options.flushIntervalMs ?? 500;
+		this.onError = options.onError;
+	}
+
+	// Creates the file with its header; samples pushed before the write completes are kept
+	open() {
+		const dir = this.path.substring(0, this.path.lastIndexOf('/'));
+		const header = this.columns.join(',') + '\n';
+		this.enqueue(async () => {
+			await RNFS.mkdir(dir);
+			await RNFS.writeFile(this.path, header, 'utf8');
+		});
+		this.bytes += header.length;
+		this.resume();
+	}
+
+	resume() {
+		if (this.timer) return;
+		this.timer = setInterval(() => this.flushBuffer(), this.flushIntervalMs);
+	}
+
+	// Stops the flush timer and writes out whatever is buffered
+	async pause(): Promise<void> {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+		await this.flush();
+	}
+
+	push(t: number, x: number, y: number, z: number, extra?: ArrayLike<number>) {
+		if (this.buffered === this.capacity) this.flushBuffer();
+		const width = this.columns.length;
+		const i = this.buffered * width;
+		this.buffer[i] = t;
+		this.buffer[i + 1] = x;
+		this.buffer[i + 2] = y;
+		this.buffer[i + 3] = z;
+		for (let k = 4; k < width; k++) this.buffer[i + k] = extra?.[k - 4] ?? NaN;
+		this.buffered++;
+		this.rows++;
+		if (this.firstT === null) this.firstT = t;
+		this.lastT = t;
+	}
+
+	async flush(): Promise<void> {
+		this.flushBuffer();
+		await this.writeChain;
+	}
+
+	summary(): RecordingSummary {
+		return {
+			rows: this.rows,
+			durationMs: this.firstT !== null && this.lastT !== null ? this.lastT - this.firstT : 0,
+			bytes: this.bytes,
+		};
+	}
+
+	private flushBuffer() {
+		if (this.buffered === 0) return;
+		const width = this.columns.length;
+		let chunk = '';
+		for (let r = 0; r < this.buffered; r++) {
+			let line = String(this.buffer[r * width]);
+			for (let k = 1; k < width; k++) line += ',' + this.buffer[r * width + k];
+			chunk += line + '\n';
+		}
+		this.buffered = 0;
+		// CSV is ASCII, so the string length is the byte count
+		this.bytes += chunk.length;
+		this.enqueue(() => RNFS.appendFile(this.path, chunk, 'utf8'));
+	}
+
+	private enqueue(write: () => Promise<void>) {
+		this.writeChain = this.writeChain.then(write).catch(e => {
+			logger.error('record', 'Recorder write failed', e);
+			this.onError?.(e);
+		});
+	}
+}
@@ -0,0 +1,216 @@
+import { logger } from '../logging/logger';
+import { documentPath, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+
+export type TriggerCondition =
+	| { type: 'magnitude'; thresholdG: number }
+	// Fires when the axis crosses the level in the given direction
+	| { type: 'axis'; axis: 'x' | 'y' | 'z'; levelG: number; direction: 'rising' | 'falling' }
+	// Rate of change of the acceleration vector, |Δa| / Δt
+	| { type: 'rate'; limitGPerS: number };
+
+export type TriggerType = TriggerCondition['type'];
+
+export type TriggerSettings = {
+	condition: TriggerCondition;
+	preMs: number;
+	postMs: number;
+	// Quiet time after a capture ends before the trigger re-arms
+	holdOffMs: number;
+};
+
+export const TRIGGER_DEFAULTS: Record<TriggerType, TriggerCondition> = {
+	magnitude: { type: 'magnitude', thresholdG: 1.5 },
+	axis: { type: 'axis', axis: 'z', levelG: 0.5, direction: 'rising' },
+	rate: { type: 'rate', limitGPerS: 20 },
+};
+
+export const TRIGGER_NAMES: Record<TriggerType, string> = {
+	magnitude: 'Magnitude',
+	axis: 'Axis level',
+	rate: 'Rate of change',
+};
+
+export const DEFAULT_TRIGGER_SETTINGS: TriggerSettings = {
+	condition: TRIGGER_DEFAULTS.magnitude,
+	preMs: 500,
+	postMs: 2000,
+	holdOffMs: 1000,
+};
+
+export type TriggerState = 'armed' | 'capturing' | 'holdoff';
+
+export type TriggerStatus = {
+	state: TriggerState;
+	captures: number;
+	// Span of samples currently held for the next pre-trigger window
+	bufferedMs: number;
+};
+
+// Written into the metadata of each capture's session
+export type TriggerEvent = {
+	condition: TriggerCondition;
+	triggeredAt: number;
+	// Value that crossed the threshold, in g or g/s
+	value: number;
+	preMs: number;
+	postMs: number;
+};
+
+export const TRIGGER_SETTINGS_PATH = documentPath('trigger_settings.json');
+
+export function triggerLabel(condition: TriggerCondition): string {
+	switch (condition.type) {
+		case 'magnitude':
+			return `|a| > ${condition.thresholdG} g`;
+		case 'axis':
+			return `${condition.axis.toUpperCase()} ${condition.direction === 'rising' ? 'rises above' : 'falls below'} ${condition.levelG} g`;
+		case 'rate':
+			return `|Δa/Δt| > ${condition.limitGPerS} g/s`;
+	}
+}
+
+type Options = {
+	// Receives the trigger and the pre-trigger rows (t, x, y, z, ...extra), oldest first
+	onCaptureStart: (event: TriggerEvent, pre: number[][]) => void;
+	onCaptureRow: (row: number[]) => void;
+	onCaptureEnd: (event: TriggerEvent) => void;
+};
+
+/**
+ * Watches the sample stream for a trigger condition and cuts it into captures. A rolling
+ * buffer holds the last `preMs` of samples so each capture starts before the trigger.
+ * Conditions fire on a crossing, not while they stay true, so a signal that stays above
+ * the threshold yields one capture.
+ */
+export class TriggerRecorder {
+	readonly settings: TriggerSettings;
+	private options: Options;
+	private state: TriggerState = 'armed';
+	private buffer: number[][] = [];
+	private head = 0;
+	private wasActive: boolean | null = null;
+	private previous: number[] | null = null;
+	private event: TriggerEvent | null = null;
+	private rearmAt = 0;
+	private captures = 0;
+
+	constructor(settings: TriggerSettings, options: Options) {
+		this.settings = settings;
+		this.options = options;
+	}
+
+	push(t: number, x: number, y: number, z: number, extra?: ArrayLike<number>) {
+		const row = extra ? [t, x, y, z, ...Array.from(extra)] : [t, x, y, z];
+		const value = this.evaluate(row);
+		const active = value !== null && this.isActive(value);
+		const fired = active && this.wasActive === false;
+		this.wasActive = active;
+		this.previous = row;
+
+		if (this.state === 'capturing') {
+			const event = this.event!;
+			if (t <= event.triggeredAt + this.settings.postMs) {
+				this.options.onCaptureRow(row);
+			} else {
+				this.endCapture(t);
+			}
+		}
+		if (this.state === 'holdoff' && t >= this.rearmAt) this.state = 'armed';
+		if (this.state === 'armed' && fired) this.startCapture(t, value!);
+		this.remember(row);
+	}
+
+	// Ends a capture in progress, e.g. when the trigger is disarmed or the device disconnects
+	stop() {
+		if (this.state === 'capturing') this.endCapture(this.previous?.[0] ?? 0);
+	}
+
+	status(): TriggerStatus {
+		const first = this.buffer[this.head];
+		const last = this.buffer[this.buffer.length - 1];
+		return { state: this.state, captures: this.captures, bufferedMs: first && last ? last[0] - first[0] : 0 };
+	}
+
+	private startCapture(t: number, value: number) {
+		const { condition, preMs, postMs } = this.settings;
+		this.event = { condition, triggeredAt: t, value, preMs, postMs };
+		this.state = 'capturing';
+		this.captures++;
+		const pre = this.buffer.slice(this.head).filter(r => r[0] >= t - preMs);
+		this.options.onCaptureStart(this.event, pre);
+		this.options.onCaptureRow(this.previous!);
+	}
+
+	private endCapture(t: number) {
+		const event = this.event!;
+		this.event = null;
+		this.state = 'holdoff';
+		this.rearmAt = t + this.settings.holdOffMs;
+		this.options.onCaptureEnd(event);
+	}
+
+	// The quantity the condition compares, or null when it can't be computed yet
+	private evaluate(row: number[]): number | null {
+		const c = this.settings.condition;
+		const [t, x, y, z] = row;
+		switch (c.type) {
+			case 'magnitude':
+				return Math.sqrt(x * x + y * y + z * z);
+			case 'axis':
+				return c.axis === 'x' ? x : c.axis === 'y' ? y : z;
+			case 'rate': {
+				const p = this.previous;
+				if (!p || t <= p[0]) return null;
+				return (Math.hypot(x - p[1], y - p[2], z - p[3]) * 1000) / (t - p[0]);
+			}
+		}
+	}
+
+	private isActive(value: number): boolean {
+		const c = this.settings.condition;
+		switch (c.type) {
+			case 'magnitude':
+				return value > c.thresholdG;
+			case 'axis':
+				return c.direction === 'rising' ? value > c.levelG : value < c.levelG;
+			case 'rate':
+				return value > c.limitGPerS;
+		}
+	}
+
+	// Keeps rows back to preMs; dropped rows are compacted away in batches
+	private remember(row: number[]) {
+		this.buffer.push(row);
+		const cutoff = row[0] - this.settings.preMs;
+		while (this.head < this.buffer.length && this.buffer[this.head][0] < cutoff) this.head++;
+		if (this.head > 1024 && this.head * 2 > this.buffer.length) {
+			this.buffer = this.buffer.slice(this.head);
+			this.head = 0;
+		}
+	}
+}
+
+function isValidSettings(s: any): s is TriggerSettings {
+	return (
+		!!s &&
+		typeof s.condition === 'object' &&
+		s.condition.type in TRIGGER_DEFAULTS &&
+		typeof s.preMs === 'number' &&
+		typeof s.postMs === 'number' &&
+		typeof s.holdOffMs === 'number'
+	);
+}
+
+export async function loadTriggerSettings(): Promise<TriggerSettings> {
+	const raw = await readJsonFile<unknown>(TRIGGER_SETTINGS_PATH, null);
+	if (raw === null) return DEFAULT_TRIGGER_SETTINGS;
+	if (!isValidSettings(raw)) {
+		logger.warn('app', 'trigger_settings.json is invalid, using defaults');
+		return DEFAULT_TRIGGER_SETTINGS;
+	}
+	return raw;
+}
+
+export async function saveTriggerSettings(settings: TriggerSettings): Promise<void> {
+	await writeJsonFile(TRIGGER_SETTINGS_PATH, settings);
+}
@@ -0,0 +1,87 @@
+import RNFS from 'react-native-fs';
+
+const DEFAULT_CHUNK_BYTES = 256 * 1024;
+
+/**
+ * Reads a text file in fixed-size pieces so large recordings never have to fit in memory.
+ * Pieces are split on line boundaries; `onLines` receives whole lines only.
+ */
+export async function readLinesInChunks(
+	path: string,
+	onLines: (lines: string[]) => void | Promise<void>,
+	chunkBytes: number = DEFAULT_CHUNK_BYTES,
+): Promise<void> {
+	const size = Number((await RNFS.stat(path)).size);
+	let position = 0;
+	let carry = '';
+	while (position < size) {
+		const text = await RNFS.read(path, chunkBytes, position, 'utf8');
+		position += chunkBytes;
+		const parts = (carry + text).split('\n');
+		carry = parts.pop() ?? '';
+		if (parts.length) await onLines(parts);
+	}
+	if (carry) await onLines([carry]);
+}
+
+/**
+ * Pull-based reader for a numeric CSV with a header row. Each `next()` call parses one
+ * chunk of the file, so callers decide how far ahead of the consumer they read.
+ */
+export class CsvChunkReader {
+	readonly path: string;
+	columns: string[] | null = null;
+	private chunkBytes: number;
+	private size: number | null = null;
+	private position = 0;
+	private carry = '';
+
+	constructor(path: string, chunkBytes: number = DEFAULT_CHUNK_BYTES) {
+		this.path = path;
+		this.chunkBytes = chunkBytes;
+	}
+
+	// Resolves to null once the whole file has been read
+	async next(): Promise<number[][] | null> {
+		if (this.size === null) this.size = Number((await RNFS.stat(this.path)).size);
+		while (this.position < this.size || this.carry) {
+			let lines: string[];
+			if (this.position < this.size) {
+				const text = await RNFS.read(this.path, this.chunkBytes, this.position, 'utf8');
+				this.position += this.chunkBytes;
+				lines = (this.carry + text).split('\n');
+				this.carry = lines.pop() ?? '';
+			} else {
+				lines = [this.carry];
+				this.carry = '';
+			}
+			const rows: number[][] = [];
+			for (const line of lines) {
+				if (!line.trim()) continue;
+				if (!this.columns) {
+					this.columns = line.trim().split(',');
+					continue;
+				}
+				rows.push(line.split(',').map(Number));
+			}
+			if (rows.length) return rows;
+		}
+		return null;
+	}
+}
+
+/**
+ * Streams a numeric CSV with a header row. `onRows` gets batches of parsed rows
+ * together with the column names from the header.
+ */
+export async function forEachCsvChunk(
+	path: string,
+	onRows: (rows: number[][], columns: string[]) => void | Promise<void>,
+): Promise<string[]> {
+	const reader = new CsvChunkReader(path);
+	for (let rows = await reader.next(); rows; rows = await reader.next()) {
+		await onRows(rows, reader.columns!);
+	}
+	if (!reader.columns) throw new Error(`${path} has no CSV header`);
+	return reader.columns;
+}
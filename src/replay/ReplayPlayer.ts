@@ -0,0 +1,234 @@
+import { AccelRow } from '../decoder/payloadFormat';
+import { CsvChunkReader, forEachCsvChunk } from '../recorder/csvReader';
+
+export type ReplayState = 'idle' | 'playing' | 'paused' | 'finished';
+
+export type ReplayStatus = {
+	state: ReplayState;
+	speed: number;
+	loop: boolean;
+	// Position and length in recording time, i.e. independent of the playback speed
+	positionMs: number;
+	durationMs: number;
+	rows: number;
+	loops: number;
+};
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 10];
+
+const TICK_MS = 20;
+// Next chunk is requested once fewer rows than this are queued
+const READ_AHEAD_ROWS = 2000;
+
+type ColumnIndex = { t: number; x: number; y: number; z: number };
+
+function findColumns(columns: string[]): ColumnIndex {
+	const find = (names: string[]) => columns.findIndex(c => names.includes(c.trim().toLowerCase()));
+	const index = { t: find(['timestamp_ms', 'time_ms', 't']), x: find(['x']), y: find(['y']), z: find(['z']) };
+	if (Object.values(index).some(i => i < 0)) {
+		throw new Error(`CSV needs timestamp_ms, x, y and z columns (found: ${columns.join(', ')})`);
+	}
+	return index;
+}
+
+type Options = {
+	onRow: (row: AccelRow) => void;
+	onFinish?: () => void;
+	onError?: (e: unknown) => void;
+};
+
+/**
+ * Plays a recorded CSV back in real time. Rows are read a chunk at a time and emitted when the
+ * playhead passes their timestamp. Emitted timestamps keep the original sample spacing whatever
+ * the speed, and continue from the previous pass when looping.
+ */
+export class ReplayPlayer {
+	readonly path: string;
+	speed = 1;
+	loop = false;
+	private options: Options;
+	private columns: ColumnIndex | null = null;
+	private firstT = 0;
+	private durationMs = 0;
+	private periodMs = 0;
+	private rowCount = 0;
+	private state: ReplayState = 'idle';
+	private reader: CsvChunkReader | null = null;
+	private queue: number[][] = [];
+	private queueIndex = 0;
+	private reading: Promise<void> | null = null;
+	private eof = false;
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private playheadMs = 0;
+	private lastTickAt = 0;
+	// Wall-clock time the first sample of the first pass is mapped to
+	private epoch = 0;
+	private loopOffsetMs = 0;
+	private loops = 0;
+
+	constructor(path: string, options: Options) {
+		this.path = path;
+		this.options = options;
+	}
+
+	// Scans the file once for its columns, length and sample spacing
+	async load(): Promise<void> {
+		let first: number | null = null;
+		let last = 0;
+		let rows = 0;
+		let index: ColumnIndex | null = null;
+		await forEachCsvChunk(this.path, (chunk, columns) => {
+			index = index ?? findColumns(columns);
+			for (const r of chunk) {
+				const t = r[index.t];
+				if (!Number.isFinite(t)) continue;
+				first = first ?? t;
+				last = t;
+				rows++;
+			}
+		});
+		if (first === null || !index) throw new Error('Recording has no samples to replay');
+		this.columns = index;
+		this.firstT = first;
+		this.durationMs = Math.max(0, last - first);
+		this.periodMs = rows > 1 ? this.durationMs / (rows - 1) : 0;
+		this.rowCount = rows;
+	}
+
+	async start(): Promise<void> {
+		if (!this.columns) throw new Error('Replay not loaded');
+		if (this.state === 'playing') return;
+		if (this.state === 'paused') {
+			this.resume();
+			return;
+		}
+		this.rewind();
+		this.loopOffsetMs = 0;
+		this.loops = 0;
+		await this.fill();
+		this.epoch = Date.now();
+		this.state = 'playing';
+		this.startTimer();
+	}
+
+	pause() {
+		if (this.state !== 'playing') return;
+		this.state = 'paused';
+		this.stopTimer();
+	}
+
+	resume() {
+		if (this.state !== 'paused') return;
+		this.state = 'playing';
+		this.startTimer();
+	}
+
+	stop() {
+		this.stopTimer();
+		this.reader = null;
+		this.queue = [];
+		this.queueIndex = 0;
+		this.state = 'idle';
+	}
+
+	setSpeed(speed: number) {
+		if (speed > 0) this.speed = speed;
+	}
+
+	setLoop(loop: boolean) {
+		this.loop = loop;
+	}
+
+	status(): ReplayStatus {
+		return {
+			state: this.state,
+			speed: this.speed,
+			loop: this.loop,
+			positionMs: Math.min(this.playheadMs, this.durationMs),
+			durationMs: this.durationMs,
+			rows: this.rowCount,
+			loops: this.loops,
+		};
+	}
+
+	private rewind() {
+		this.reader = new CsvChunkReader(this.path);
+		this.queue = [];
+		this.queueIndex = 0;
+		this.reading = null;
+		this.eof = false;
+		this.playheadMs = 0;
+	}
+
+	private fill(): Promise<void> {
+		if (this.reading) return this.reading;
+		if (this.eof || !this.reader) return Promise.resolve();
+		const reader = this.reader;
+		this.reading = reader
+			.next()
+			.then(rows => {
+				// A rewind or stop while reading makes this chunk stale
+				if (reader !== this.reader) return;
+				if (!rows) this.eof = true;
+				else {
+					this.queue = this.queue.slice(this.queueIndex).concat(rows);
+					this.queueIndex = 0;
+				}
+			})
+			.catch(e => {
+				this.stop();
+				this.options.onError?.(e);
+			})
+			.finally(() => {
+				if (reader === this.reader) this.reading = null;
+			});
+		return this.reading;
+	}
+
+	private startTimer() {
+		this.lastTickAt = Date.now();
+		this.timer = setInterval(() => this.tick(), TICK_MS);
+	}
+
+	private stopTimer() {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	private tick() {
+		const cols = this.columns!;
+		const now = Date.now();
+		this.playheadMs += (now - this.lastTickAt) * this.speed;
+		this.lastTickAt = now;
+
+		while (this.queueIndex < this.queue.length) {
+			const r = this.queue[this.queueIndex];
+			const rel = r[cols.t] - this.firstT;
+			if (rel > this.playheadMs) break;
+			this.queueIndex++;
+			if (!Number.isFinite(rel)) continue;
+			this.options.onRow({ t: this.epoch + this.loopOffsetMs + rel, x: r[cols.x], y: r[cols.y], z: r[cols.z] });
+		}
+
+		if (this.queue.length - this.queueIndex < READ_AHEAD_ROWS) this.fill();
+		if (!this.eof || this.reading || this.queueIndex < this.queue.length) return;
+
+		if (this.loop) {
+			// Next pass starts one sample period after the last sample of this one
+			const passMs = this.durationMs + this.periodMs;
+			const carry = Math.max(0, this.playheadMs - passMs);
+			this.rewind();
+			this.playheadMs = carry;
+			this.loopOffsetMs += passMs;
+			this.loops++;
+			this.fill();
+			return;
+		}
+		this.stopTimer();
+		this.state = 'finished';
+		this.playheadMs = this.durationMs;
+		this.options.onFinish?.();
+	}
+}
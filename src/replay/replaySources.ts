@@ -0,0 +1,42 @@
+import RNFS from 'react-native-fs';
+import { EXPORTS_DIR } from '../export/exporters';
+import { listSessions, sessionDataPath } from '../sessions/sessionStore';
+
+export type ReplaySource = {
+	path: string;
+	name: string;
+	origin: 'session' | 'file';
+	detail: string;
+};
+
+async function csvFilesIn(dir: string): Promise<ReplaySource[]> {
+	if (!(await RNFS.exists(dir))) return [];
+	const entries = await RNFS.readDir(dir);
+	return entries
+		.filter(e => e.isFile() && e.name.toLowerCase().endsWith('.csv'))
+		.map(e => ({ path: e.path, name: e.name, origin: 'file' as const, detail: `${(Number(e.size) / 1024).toFixed(1)} KB • ${e.path}` }));
+}
+
+/**
+ * Everything that can be replayed: saved sessions, exported CSVs, and CSV files copied into the
+ * app's Documents folder (iTunes/Finder file sharing on iOS, `adb push` on Android).
+ */
+export async function listReplaySources(): Promise<ReplaySource[]> {
+	const sessions = (await listSessions())
+		.filter(s => s.sampleCount > 0)
+		.map(s => ({
+			path: sessionDataPath(s.id),
+			name: s.name,
+			origin: 'session' as const,
+			detail: `${s.deviceName} • ${s.sampleCount} samples`,
+		}));
+	const files = [...(await csvFilesIn(RNFS.DocumentDirectoryPath)), ...(await csvFilesIn(EXPORTS_DIR))];
+	return [...sessions, ...files];
+}
+
+// Source for a CSV picked by path, e.g. one downloaded by another app
+export async function replaySourceFromPath(path: string): Promise<ReplaySource> {
+	const trimmed = path.trim().replace(/^file:\/\//, '');
+	if (!trimmed || !(await RNFS.exists(trimmed))) throw new Error(`File not found: ${path}`);
+	return { path: trimmed, name: trimmed.split('/').pop() ?? trimmed, origin: 'file', detail: trimmed };
+}
@@ -1,13 +1,54 @@
-import React from 'react';
-import { View, Text } from 'react-native';
+import React, { useState } from 'react';
+import { ScrollView, View, Text } from 'react-native';
+import { connectionLabel, ConnectionStateType } from '../ble/connectionMachine';
 import { useBle } from '../ble/useBle';
+import { useCommandConsole } from '../ble/useCommandConsole';
+import { calibrationLabel } from '../calibration/calibration';
+import { AddDevicePicker } from '../components/AddDevicePicker';
+import { CalibrationWizard } from '../components/CalibrationWizard';
+import { Chip } from '../components/Chip';
+import { CommandConsoleCard } from '../components/CommandConsoleCard';
+import { ConnectedDevicesCard } from '../components/ConnectedDevicesCard';
+import { ExportDialog } from '../components/ExportDialog';
+import { FilterChainCard } from '../components/FilterChainCard';
+import { LinkStatsCard } from '../components/LinkStatsCard';
+import { PayloadFormatCard } from '../components/PayloadFormatCard';
 import { PrimaryButton } from '../components/PrimaryButton';
+import { ReconnectPolicyCard } from '../components/ReconnectPolicyCard';
+import { ReplayControlsCard } from '../components/ReplayControlsCard';
+import { SpectrumCard } from '../components/SpectrumCard';
+import { StripChart } from '../components/StripChart';
+import { TriggerCard } from '../components/TriggerCard';
+import { VibrationCard } from '../components/VibrationCard';
 
-type Props = { ble: ReturnType<typeof useBle> };
+type Props = {
+	ble: ReturnType<typeof useBle>;
+	commandConsole: ReturnType<typeof useCommandConsole>;
+};
+
+const CONNECTION_BADGES: Record<ConnectionStateType, { icon: string; color: string }> = {
+	idle: { icon: '⚪', color: '#6b7280' },
+	scanning: { icon: '🔍', color: '#6b7280' },
+	connecting: { icon: '🟡', color: '#d97706' },
+	discovering: { icon: '🟡', color: '#d97706' },
+	connected: { icon: '⚪', color: '#6b7280' },
+	subscribing: { icon: '🟡', color: '#d97706' },
+	streaming: { icon: '🟢', color: '#059669' },
+	reconnecting: { icon: '↻', color: '#d97706' },
+	failed: { icon: '❌', color: '#dc2626' },
+};
 
-export const DeviceScreen: React.FC<Props> = ({ ble }) => {
+export const DeviceScreen: React.FC<Props> = ({ ble, commandConsole }) => {
+	const [exportVisible, setExportVisible] = useState(false);
+	const [calibrationVisible, setCalibrationVisible] = useState(false);
+	const [compareRaw, setCompareRaw] = useState(false);
+	const [addDeviceVisible, setAddDeviceVisible] = useState(false);
+	const filtered = ble.filters.length > 0;
+	const badge = CONNECTION_BADGES[ble.connection.type];
+	// Notifications can be started or stopped only with the link up and nothing in progress
+	const canToggleStream = ble.connection.type === 'connected' || ble.streaming;
 	return (
-		<View style={{ flex: 1, padding: 16, gap: 12 }}>
+		<ScrollView style={{ flex: 1 }} contentContainerStyle={{ padding: 16, gap: 12 }}>
 			<View
 				style={{
 					backgroundColor: '#111827',
@@ -21,16 +62,26 @@ export const DeviceScreen: React.FC<Props> = ({ ble }) => {
 				<Text style={{ color: 'white', fontWeight: '800' }}>
 					Connected: {ble.connectedName}
 				</Text>
+				<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+					{ble.broadcastDecoder
+						? `Broadcast: ${ble.broadcastDecoder} (read from adverts, no connection)`
+						: `Profile: ${ble.profileLabel ?? 'none (auto-discovery)'}`}
+				</Text>
+				{ble.dataSource && (
+					<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+						Data source: {ble.dataSource.characteristic} (picked in GATT)
+					</Text>
+				)}
 
 				<View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
 					<View style={{
-						backgroundColor: ble.streaming ? '#059669' : '#6b7280',
+						backgroundColor: badge.color,
 						paddingHorizontal: 8,
 						paddingVertical: 4,
 						borderRadius: 6
 					}}>
 						<Text style={{ color: 'white', fontSize: 12, fontWeight: '600' }}>
-							{ble.streaming ? '🟢 Streaming' : '⚪ Not Streaming'}
+							{badge.icon} {connectionLabel(ble.connection, ble.reconnectPolicy)}
 						</Text>
 					</View>
 					<View style={{
@@ -51,16 +102,37 @@ export const DeviceScreen: React.FC<Props> = ({ ble }) => {
 						title={ble.streaming ? "Stop Notifications" : "Start Notifications"}
 						onPress={ble.streaming ? ble.stopNotifications : ble.startNotifications}
 						active={ble.streaming}
+						disabled={!canToggleStream}
 					/>
 					<PrimaryButton title="Disconnect" onPress={ble.disconnect} danger />
 				</View>
-				<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap', marginTop: 8 }}>
-					<PrimaryButton title="Send Start (0x01)" onPress={() => ble.sendStartCommand(1)} />
-					<PrimaryButton title="Send Start (0x02)" onPress={() => ble.sendStartCommand(2)} />
-					<PrimaryButton title="Send Start (0xFF)" onPress={() => ble.sendStartCommand(255)} />
-				</View>
+				{ble.connection.type === 'failed' && (
+					<Text style={{ color: '#f87171', fontSize: 12 }}>{ble.connection.error} Disconnect and connect again to retry.</Text>
+				)}
 			</View>
 
+			{commandConsole.available && <CommandConsoleCard commandConsole={commandConsole} />}
+
+			{ble.replay && (
+				<ReplayControlsCard
+					status={ble.replay}
+					onTogglePause={ble.toggleReplayPause}
+					onSpeed={ble.setReplaySpeed}
+					onLoop={ble.setReplayLoop}
+				/>
+			)}
+
+			{!ble.isSample && (
+				<PayloadFormatCard
+					format={ble.format}
+					proposal={ble.formatProposal}
+					onSelect={ble.selectFormat}
+					onAutoDetect={ble.autoDetectFormat}
+					onConfirm={ble.confirmFormatProposal}
+					onDismiss={ble.dismissFormatProposal}
+				/>
+			)}
+
 			<View
 				style={{
 					backgroundColor: '#111827',
@@ -75,14 +147,59 @@ export const DeviceScreen: React.FC<Props> = ({ ble }) => {
 					<Text style={{ color: '#e5e7eb' }}>X: {ble.accel ? ble.accel.x.toFixed(4) : '--'}</Text>
 					<Text style={{ color: '#e5e7eb' }}>Y: {ble.accel ? ble.accel.y.toFixed(4) : '--'}</Text>
 					<Text style={{ color: '#e5e7eb' }}>Z: {ble.accel ? ble.accel.z.toFixed(4) : '--'}</Text>
+					{filtered && <Text style={{ color: '#9ca3af' }}>filtered</Text>}
 				</View>
+				{filtered && (
+					<View style={{ flexDirection: 'row', gap: 18, marginTop: 4 }}>
+						<Text style={{ color: '#9ca3af' }}>X: {ble.rawAccel ? ble.rawAccel.x.toFixed(4) : '--'}</Text>
+						<Text style={{ color: '#9ca3af' }}>Y: {ble.rawAccel ? ble.rawAccel.y.toFixed(4) : '--'}</Text>
+						<Text style={{ color: '#9ca3af' }}>Z: {ble.rawAccel ? ble.rawAccel.z.toFixed(4) : '--'}</Text>
+						<Text style={{ color: '#6b7280' }}>unfiltered</Text>
+					</View>
+				)}
 				{!ble.accel && (
 					<Text style={{ color: '#9ca3af', marginTop: 8, fontSize: 12 }}>
 						Start notifications to see live data
 					</Text>
 				)}
+				<Text style={{ color: ble.calibration ? '#86efac' : '#9ca3af', marginTop: 8, fontSize: 12 }}>
+					Calibration: {ble.calibration ? calibrationLabel(ble.calibration) : 'none (raw values)'}
+				</Text>
+				<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap', marginTop: 8 }}>
+					<PrimaryButton title="Calibrate…" onPress={() => setCalibrationVisible(true)} />
+					{ble.calibration && <PrimaryButton title="Remove Calibration" onPress={ble.removeCalibration} danger />}
+				</View>
 			</View>
 
+			<StripChart buffer={ble.chartBuffer} title={filtered ? 'Live Chart (filtered)' : 'Live Chart'} />
+			{filtered && compareRaw && <StripChart buffer={ble.rawChartBuffer} title="Live Chart (unfiltered)" />}
+			<VibrationCard vibration={ble.vibration} settings={ble.vibrationSettings} onChangeSettings={ble.changeVibrationSettings} />
+			<SpectrumCard buffer={ble.chartBuffer} canSave={ble.sessionName !== null} onSaveSnapshot={ble.saveSpectrumSnapshot} />
+
+			<FilterChainCard
+				filters={ble.filters}
+				onApply={ble.setFilters}
+				compareRaw={compareRaw}
+				onCompareRaw={setCompareRaw}
+			/>
+
+			<LinkStatsCard stats={ble.linkStats} hasSequence={!!ble.format?.sequence || !!ble.generator} />
+
+			{/* Virtual devices only lose their link when a generator simulates it */}
+			{(!ble.isSample || !!ble.generator?.faults.disconnectsPerMin) && (
+				<ReconnectPolicyCard policy={ble.reconnectPolicy} onApply={ble.changeReconnectPolicy} />
+			)}
+
+			<ConnectedDevicesCard
+				primaryName={ble.connectedName}
+				primaryAccel={ble.accel}
+				primaryStats={ble.linkStats}
+				recordedRows={ble.recordingSummary.rows}
+				linked={ble.linkedDevices}
+				onAdd={() => setAddDeviceVisible(true)}
+				onRemove={ble.removeLinkedDevice}
+			/>
+
 			<View
 				style={{
 					backgroundColor: '#111827',
@@ -97,31 +214,82 @@ export const DeviceScreen: React.FC<Props> = ({ ble }) => {
 					<PrimaryButton
 						title={ble.recording ? 'Stop Recording' : 'Start Recording'}
 						onPress={ble.toggleRecording}
-						disabled={!ble.accel && !ble.recording}
+						disabled={(!ble.accel && !ble.recording) || !!ble.trigger}
 						active={ble.recording}
 					/>
 					<PrimaryButton
-						title="Clear"
+						title="New Session"
 						onPress={ble.clearRecording}
-						disabled={ble.rows.length === 0}
+						disabled={ble.recordingSummary.rows === 0}
 					/>
 					<PrimaryButton
-						title="Export CSV"
-						onPress={ble.exportCsv}
-						disabled={ble.rows.length === 0}
+						title="Export…"
+						onPress={() => setExportVisible(true)}
+						disabled={ble.recordingSummary.rows === 0}
 					/>
 				</View>
+				{ble.sessionName && (
+					<Text style={{ color: '#e5e7eb' }}>Session: {ble.sessionName}</Text>
+				)}
 				<Text style={{ color: '#9ca3af' }}>
-					Recorded rows: {ble.rows.length}{ble.rows.length > 0 ? ' • Ready to export' : ''}
+					Recorded rows: {ble.recordingSummary.rows}{ble.recordingSummary.rows > 0 ? ' • Ready to export' : ''}
 				</Text>
+				{ble.recordingSummary.rows > 0 && (
+					<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+						Duration: {(ble.recordingSummary.durationMs / 1000).toFixed(1)} s • File: {(ble.recordingSummary.bytes / 1024).toFixed(1)} KB
+					</Text>
+				)}
+				{ble.gattDevice && (
+					<View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+						<Chip label="Raw capture" selected={ble.rawCapture} onPress={() => ble.setRawCapture(!ble.rawCapture)} />
+						<Text style={{ color: '#6b7280', fontSize: 12, flex: 1 }}>
+							Also save every packet as received, so the session can be re-decoded from the Sessions tab. Applies from the next session.
+						</Text>
+					</View>
+				)}
 			</View>
 
+			<TriggerCard
+				settings={ble.triggerSettings}
+				status={ble.trigger}
+				canArm={!!ble.accel}
+				onApply={ble.changeTriggerSettings}
+				onArm={ble.armTrigger}
+				onDisarm={ble.disarmTrigger}
+			/>
+
 			{ble.error && (
 				<Text style={{ color: '#f87171' }} onPress={ble.clearError}>
 					{ble.error} (tap to dismiss)
 				</Text>
 			)}
-		</View>
+
+			<CalibrationWizard
+				visible={calibrationVisible}
+				deviceId={ble.deviceId}
+				streaming={ble.streaming}
+				onClose={() => setCalibrationVisible(false)}
+				onCapture={() => ble.captureCalibrationPose()}
+				onApply={ble.applyCalibrationResult}
+			/>
+
+			<AddDevicePicker
+				visible={addDeviceVisible}
+				devices={ble.devices}
+				connectedIds={[ble.deviceId ?? '', ...ble.linkedDevices.map(d => d.id)]}
+				isScanning={ble.isScanning}
+				onScan={ble.startScan}
+				onStopScan={ble.stopScan}
+				onClose={() => setAddDeviceVisible(false)}
+				onPick={ble.addLinkedDevice}
+			/>
+
+			<ExportDialog
+				visible={exportVisible}
+				onClose={() => setExportVisible(false)}
+				onShare={ble.exportRecording}
+			/>
+		</ScrollView>
 	);
 };
 
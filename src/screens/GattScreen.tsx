@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import {
+	GattCharacteristicInfo,
+	gattLabel,
+	GattRef,
+	gattRefKey,
+	numberViews,
+	parseHex,
+	propertiesLabel,
+	sameGattRef,
+	shortUuid,
+	toAscii,
+	toHex,
+	utf8Bytes,
+} from '../ble/gatt';
+import { useBle } from '../ble/useBle';
+import { useGattExplorer } from '../ble/useGattExplorer';
+import { Chip } from '../components/Chip';
+import { PrimaryButton } from '../components/PrimaryButton';
+
+type Props = {
+	ble: ReturnType<typeof useBle>;
+	gatt: ReturnType<typeof useGattExplorer>;
+};
+
+// Log lines shown; the explorer keeps more
+const LOG_ROWS = 50;
+
+function formatNumber(v: number): string {
+	return Number.isInteger(v) ? String(v) : v.toPrecision(6);
+}
+
+function formatTime(t: number): string {
+	const d = new Date(t);
+	return `${d.toTimeString().slice(0, 8)}.${String(d.getMilliseconds()).padStart(3, '0')}`;
+}
+
+const ValueView: React.FC<{ bytes: Uint8Array }> = ({ bytes }) => (
+	<View style={{ gap: 2 }}>
+		<Text selectable style={{ color: '#e5e7eb', fontSize: 12, fontFamily: 'monospace' }}>
+			hex: {bytes.length ? toHex(bytes) : '(empty)'}
+		</Text>
+		<Text selectable style={{ color: '#e5e7eb', fontSize: 12, fontFamily: 'monospace' }}>ascii: {toAscii(bytes)}</Text>
+		{numberViews(bytes).map(v => (
+			<Text key={v.label} selectable style={{ color: '#9ca3af', fontSize: 11, fontFamily: 'monospace' }}>
+				{v.label}: {v.values.map(formatNumber).join(', ')}
+			</Text>
+		))}
+	</View>
+);
+
+const CharacteristicRow: React.FC<{ serviceUuid: string; info: GattCharacteristicInfo } & Props> = ({ serviceUuid, info, ble, gatt }) => {
+	const [expanded, setExpanded] = useState(false);
+	const [input, setInput] = useState('');
+	const [asText, setAsText] = useState(false);
+	const { properties: p } = info;
+	const [withResponse, setWithResponse] = useState(p.write);
+	const ref: GattRef = { service: serviceUuid, characteristic: info.uuid };
+	const key = gattRefKey(ref);
+	const value = gatt.values[key];
+	const live = gatt.subscribed.includes(key);
+	const isSource = sameGattRef(ble.dataSource, ref);
+	const canWrite = p.write || p.writeWithoutResponse;
+	const canNotify = p.notify || p.indicate;
+
+	let payload: Uint8Array | null = null;
+	let inputError: string | null = null;
+	try {
+		payload = asText ? utf8Bytes(input) : parseHex(input);
+	} catch (e: any) {
+		inputError = e?.message ?? String(e);
+	}
+
+	const send = async () => {
+		if (!payload) return;
+		if (await gatt.write(ref, payload, withResponse)) setInput('');
+	};
+
+	return (
+		<View style={{ borderTopWidth: 1, borderTopColor: '#1f2937', paddingTop: 8, gap: 8 }}>
+			<TouchableOpacity onPress={() => setExpanded(e => !e)}>
+				<Text style={{ color: 'white', fontWeight: '600' }}>
+					{expanded ? '▾' : '▸'} {gattLabel(info.uuid)}
+					{live ? '  ● live' : ''}
+					{isSource ? '  ★ data source' : ''}
+				</Text>
+				<Text style={{ color: '#9ca3af', fontSize: 12 }}>{propertiesLabel(p)}</Text>
+			</TouchableOpacity>
+
+			{expanded && (
+				<View style={{ gap: 8, paddingLeft: 12 }}>
+					<Text selectable style={{ color: '#6b7280', fontSize: 11 }}>{info.uuid}</Text>
+					{info.descriptors.map(d => (
+						<Text key={d.uuid} style={{ color: '#9ca3af', fontSize: 12 }}>
+							{gattLabel(d.uuid)}: {d.value ? `${toHex(d.value)}  "${toAscii(d.value)}"` : 'not read'}
+						</Text>
+					))}
+
+					{p.read && (
+						<View style={{ gap: 6 }}>
+							<View style={{ flexDirection: 'row' }}>
+								<PrimaryButton title="Read" onPress={() => gatt.read(ref)} />
+							</View>
+							{value && <ValueView bytes={value} />}
+						</View>
+					)}
+
+					{canWrite && (
+						<View style={{ gap: 6 }}>
+							<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+								<Chip label="Hex" selected={!asText} onPress={() => setAsText(false)} />
+								<Chip label="Text" selected={asText} onPress={() => setAsText(true)} />
+								{p.write && <Chip label="With response" selected={withResponse} onPress={() => setWithResponse(true)} />}
+								{p.writeWithoutResponse && (
+									<Chip label="Without response" selected={!withResponse} onPress={() => setWithResponse(false)} />
+								)}
+							</View>
+							<TextInput
+								value={input}
+								onChangeText={setInput}
+								autoCapitalize="none"
+								autoCorrect={false}
+								placeholder={asText ? 'Text to send' : 'e.g. 01 02 ff'}
+								placeholderTextColor="#6b7280"
+								style={{
+									borderWidth: 1,
+									borderColor: inputError ? '#f87171' : '#374151',
+									paddingHorizontal: 10,
+									paddingVertical: 6,
+									borderRadius: 8,
+									color: 'white',
+									fontFamily: 'monospace',
+								}}
+							/>
+							{inputError && <Text style={{ color: '#f87171', fontSize: 12 }}>{inputError}</Text>}
+							<View style={{ flexDirection: 'row' }}>
+								<PrimaryButton title="Write" onPress={send} disabled={!payload?.length} />
+							</View>
+						</View>
+					)}
+
+					{canNotify && (
+						<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+							<PrimaryButton
+								title={live ? 'Unsubscribe' : 'Subscribe'}
+								onPress={() => (live ? gatt.unsubscribe(ref) : gatt.subscribe(ref))}
+								active={live}
+							/>
+							<PrimaryButton
+								title={isSource ? 'Data source ✓' : 'Use as data source'}
+								onPress={() => ble.setDataSource(isSource ? null : ref)}
+								active={isSource}
+							/>
+						</View>
+					)}
+				</View>
+			)}
+		</View>
+	);
+};
+
+export const GattScreen: React.FC<Props> = ({ ble, gatt }) => {
+	const { device, tree, loading, refresh } = gatt;
+	// Loads once per device; Refresh reloads after the device changed its table
+	useEffect(() => {
+		if (device && tree === null && !loading) refresh();
+	}, [device, tree, loading, refresh]);
+
+	if (!gatt.device) {
+		return (
+			<View style={{ flex: 1, padding: 16 }}>
+				<Text style={{ color: '#9ca3af' }}>
+					{ble.isSample
+						? 'Sample devices, replays and broadcast tags have no GATT services.'
+						: 'Connect to a device to explore its services.'}
+				</Text>
+			</View>
+		);
+	}
+
+	const log = gatt.log.slice(-LOG_ROWS).reverse();
+
+	return (
+		<ScrollView style={{ flex: 1 }} contentContainerStyle={{ padding: 16, gap: 12 }}>
+			<View
+				style={{
+					backgroundColor: '#111827',
+					padding: 14,
+					borderRadius: 14,
+					borderWidth: 1,
+					borderColor: '#1f2937',
+					gap: 10,
+				}}
+			>
+				<Text style={{ color: 'white', fontWeight: '800' }}>GATT: {ble.connectedName}</Text>
+				<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+					Data source: {ble.dataSource
+						? gattLabel(ble.dataSource.characteristic)
+						: ble.profileLabel
+							? `profile "${ble.profileLabel}"`
+							: 'auto-discovery'}
+				</Text>
+				<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+					<PrimaryButton title={gatt.loading ? 'Loading…' : 'Refresh'} onPress={gatt.refresh} disabled={gatt.loading} />
+					{ble.dataSource && <PrimaryButton title="Clear Data Source" onPress={() => ble.setDataSource(null)} />}
+				</View>
+				<Text style={{ color: '#6b7280', fontSize: 12 }}>
+					A picked data source is used the next time notifications start.
+				</Text>
+			</View>
+
+			{gatt.error && (
+				<Text style={{ color: '#f87171' }} onPress={gatt.clearError}>
+					{gatt.error} (tap to dismiss)
+				</Text>
+			)}
+
+			{gatt.tree?.map(service => (
+				<View
+					key={service.uuid}
+					style={{
+						backgroundColor: '#111827',
+						padding: 14,
+						borderRadius: 14,
+						borderWidth: 1,
+						borderColor: '#1f2937',
+						gap: 8,
+					}}
+				>
+					<Text style={{ color: 'white', fontWeight: '800' }}>{gattLabel(service.uuid)}</Text>
+					<Text selectable style={{ color: '#6b7280', fontSize: 11 }}>{service.uuid}</Text>
+					{service.characteristics.map(c => (
+						<CharacteristicRow key={c.uuid} serviceUuid={service.uuid} info={c} ble={ble} gatt={gatt} />
+					))}
+				</View>
+			))}
+
+			<View
+				style={{
+					backgroundColor: '#111827',
+					padding: 14,
+					borderRadius: 14,
+					borderWidth: 1,
+					borderColor: '#1f2937',
+					gap: 6,
+				}}
+			>
+				<View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }}>
+					<Text style={{ color: 'white', fontWeight: '800' }}>Live Log ({gatt.subscribed.length} subscribed)</Text>
+					<PrimaryButton title="Clear" onPress={gatt.clearLog} disabled={!gatt.log.length} />
+				</View>
+				{log.length === 0 && <Text style={{ color: '#6b7280', fontSize: 12 }}>Reads, writes and notifications appear here.</Text>}
+				{log.map((entry, i) => (
+					<Text key={`${entry.t}-${i}`} selectable style={{ color: '#e5e7eb', fontSize: 11, fontFamily: 'monospace' }}>
+						{formatTime(entry.t)} {entry.kind.padEnd(6)} {shortUuid(entry.ref.characteristic)}  {entry.hex}
+					</Text>
+				))}
+			</View>
+		</ScrollView>
+	);
+};
@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { ScrollView, Text, TextInput, View } from 'react-native';
+import { Chip } from '../components/Chip';
+import { PrimaryButton } from '../components/PrimaryButton';
+import { filterLogs, LOG_CATEGORIES, LOG_LEVELS, LogCategory, LogLevel } from '../logging/logger';
+import { useLogs } from '../logging/useLogs';
+
+type Props = { logs: ReturnType<typeof useLogs> };
+
+// Entries shown; sharing writes every matching entry
+const LOG_ROWS = 300;
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+	debug: '#6b7280',
+	info: '#e5e7eb',
+	warn: '#fbbf24',
+	error: '#f87171',
+};
+
+function formatTime(t: number): string {
+	const d = new Date(t);
+	return `${d.toTimeString().slice(0, 8)}.${String(d.getMilliseconds()).padStart(3, '0')}`;
+}
+
+export const LogsScreen: React.FC<Props> = ({ logs }) => {
+	const [minLevel, setMinLevel] = useState<LogLevel>('info');
+	const [categories, setCategories] = useState<LogCategory[]>([]);
+	const [text, setText] = useState('');
+
+	const matching = useMemo(() => filterLogs(logs.entries, { minLevel, categories, text }), [logs.entries, minLevel, categories, text]);
+	const shown = matching.slice(-LOG_ROWS).reverse();
+
+	const toggleCategory = (category: LogCategory) =>
+		setCategories(current => (current.includes(category) ? current.filter(c => c !== category) : [...current, category]));
+
+	return (
+		<ScrollView style={{ flex: 1 }} contentContainerStyle={{ padding: 16, gap: 12 }}>
+			<View
+				style={{
+					backgroundColor: '#111827',
+					padding: 14,
+					borderRadius: 14,
+					borderWidth: 1,
+					borderColor: '#1f2937',
+					gap: 10,
+				}}
+			>
+				<Text style={{ color: '#9ca3af', fontSize: 12 }}>Level</Text>
+				<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+					{LOG_LEVELS.map(level => (
+						<Chip key={level} label={level === 'debug' ? 'All' : `${level}+`} selected={minLevel === level} onPress={() => setMinLevel(level)} />
+					))}
+				</View>
+				<Text style={{ color: '#9ca3af', fontSize: 12 }}>Categories (none selected shows all)</Text>
+				<View style={{ flexDirection: 'row', gap: 6, flexWrap: 'wrap' }}>
+					{LOG_CATEGORIES.map(category => (
+						<Chip key={category} label={category} selected={categories.includes(category)} onPress={() => toggleCategory(category)} />
+					))}
+				</View>
+				<TextInput
+					value={text}
+					onChangeText={setText}
+					autoCapitalize="none"
+					autoCorrect={false}
+					placeholder="Search messages"
+					placeholderTextColor="#6b7280"
+					style={{
+						borderWidth: 1,
+						borderColor: '#374151',
+						paddingHorizontal: 10,
+						paddingVertical: 6,
+						borderRadius: 8,
+						color: 'white',
+					}}
+				/>
+				<View style={{ flexDirection: 'row', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+					<Chip
+						label="Packet debug"
+						selected={logs.settings.packetDebug}
+						onPress={() => logs.changeSettings({ ...logs.settings, packetDebug: !logs.settings.packetDebug })}
+					/>
+					<PrimaryButton title={`Share ${matching.length}`} onPress={() => logs.share(matching)} disabled={!matching.length} />
+					<PrimaryButton title="Clear" onPress={logs.clear} danger disabled={!logs.entries.length} />
+				</View>
+				{logs.settings.packetDebug && (
+					<Text style={{ color: '#fbbf24', fontSize: 12 }}>Every packet is logged at debug level, which slows fast streams. Turn it off when done.</Text>
+				)}
+				{logs.error && (
+					<Text style={{ color: '#f87171', fontSize: 12 }} onPress={logs.clearError}>
+						{logs.error} (tap to dismiss)
+					</Text>
+				)}
+			</View>
+
+			<View
+				style={{
+					backgroundColor: '#111827',
+					padding: 14,
+					borderRadius: 14,
+					borderWidth: 1,
+					borderColor: '#1f2937',
+					gap: 4,
+				}}
+			>
+				<Text style={{ color: 'white', fontWeight: '800' }}>
+					{matching.length} of {logs.entries.length} entries
+				</Text>
+				{shown.map((entry, i) => (
+					<Text key={`${entry.t}-${i}`} selectable style={{ color: LEVEL_COLORS[entry.level], fontSize: 11, fontFamily: 'monospace' }}>
+						{formatTime(entry.t)} [{entry.category}] {entry.message}
+					</Text>
+				))}
+				{matching.length > LOG_ROWS && <Text style={{ color: '#6b7280', fontSize: 12 }}>Showing the newest {LOG_ROWS}. Share to get all of them.</Text>}
+			</View>
+		</ScrollView>
+	);
+};
@@ -1,11 +1,33 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { FlatList, Text, TextInput, TouchableOpacity, View } from 'react-native';
-import { useBle } from '../ble/useBle';
+import { connectionLabel } from '../ble/connectionMachine';
+import { generatorDevice, useBle } from '../ble/useBle';
 import { DeviceListItem } from '../components/DeviceListItem';
+import { KnownDevicesCard } from '../components/KnownDevicesCard';
+import { PrimaryButton } from '../components/PrimaryButton';
+import { ReplayPicker } from '../components/ReplayPicker';
+import { ScanFilterPanel } from '../components/ScanFilterPanel';
+import { SignalGeneratorDialog } from '../components/SignalGeneratorDialog';
+import { DEFAULT_GENERATOR } from '../generator/signalGenerator';
 
 type Props = { ble: ReturnType<typeof useBle> };
 
+// Typing pauses this long before the list is filtered and the settings are saved
+const NAME_FILTER_DEBOUNCE_MS = 400;
+
 export const ScannerScreen: React.FC<Props> = ({ ble }) => {
+	const [replayVisible, setReplayVisible] = useState(false);
+	const [filtersVisible, setFiltersVisible] = useState(false);
+	const [generatorVisible, setGeneratorVisible] = useState(false);
+	const { scanSettings, changeScanSettings } = ble;
+	const [namePattern, setNamePattern] = useState(scanSettings.namePattern);
+	useEffect(() => setNamePattern(scanSettings.namePattern), [scanSettings.namePattern]);
+	useEffect(() => {
+		if (namePattern === scanSettings.namePattern) return;
+		const timer = setTimeout(() => changeScanSettings({ ...scanSettings, namePattern }), NAME_FILTER_DEBOUNCE_MS);
+		return () => clearTimeout(timer);
+	}, [changeScanSettings, namePattern, scanSettings]);
+	const commitNamePattern = () => namePattern !== scanSettings.namePattern && changeScanSettings({ ...scanSettings, namePattern });
 	return (
 		<View style={{ flex: 1 }}>
 			<View style={{ paddingHorizontal: 16, gap: 12 }}>
@@ -23,10 +45,13 @@ export const ScannerScreen: React.FC<Props> = ({ ble }) => {
 				>
 					<View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
 						<TextInput
-							placeholder="Filter by device name prefix"
+							placeholder={scanSettings.useRegex ? 'Filter by name regex' : 'Filter by device name prefix'}
 							placeholderTextColor="#9ca3af"
-							value={ble.filter}
-							onChangeText={ble.setFilter}
+							value={namePattern}
+							onChangeText={setNamePattern}
+							onEndEditing={commitNamePattern}
+							autoCapitalize="none"
+							autoCorrect={false}
 							style={{
 								flex: 1,
 								borderWidth: 1,
@@ -51,15 +76,36 @@ export const ScannerScreen: React.FC<Props> = ({ ble }) => {
 							</Text>
 						</TouchableOpacity>
 					</View>
-					<Text style={{ color: '#9ca3af' }}>
-						{ble.isScanning ? 'Scanning…' : 'Tap Scan to discover nearby devices'}
-					</Text>
+					<View style={{ flexDirection: 'row', gap: 8, alignItems: 'center', justifyContent: 'space-between' }}>
+						<Text style={{ color: '#9ca3af', flex: 1 }}>
+							{ble.connection.type === 'connecting' || ble.connection.type === 'discovering'
+								? connectionLabel(ble.connection)
+								: ble.isScanning
+									? scanSettings.durationS === null ? 'Scanning until stopped…' : 'Scanning…'
+									: 'Tap Scan to discover nearby devices'}
+						</Text>
+						<PrimaryButton title={filtersVisible ? 'Hide Filters' : 'Filters…'} onPress={() => setFiltersVisible(v => !v)} />
+						<PrimaryButton title="Replay…" onPress={() => setReplayVisible(true)} />
+						<PrimaryButton title="Generator…" onPress={() => setGeneratorVisible(true)} />
+					</View>
+					{filtersVisible && <ScanFilterPanel settings={scanSettings} onChange={ble.changeScanSettings} />}
 					{ble.error && (
 						<Text style={{ color: '#f87171' }} onPress={ble.clearError}>
 							{ble.error} (tap to dismiss)
 						</Text>
 					)}
 				</View>
+				{/* While scanning, known devices in range are pinned to the top of the list instead */}
+				{!ble.isScanning && (
+					<KnownDevicesCard
+						devices={ble.knownDevices}
+						autoConnect={ble.autoConnect}
+						onConnect={ble.connectKnown}
+						onChange={ble.changeKnownDevice}
+						onForget={ble.forgetKnownDevice}
+						onAutoConnect={ble.setAutoConnect}
+					/>
+				)}
 			</View>
 
 			<View style={{ flex: 1, paddingHorizontal: 16, paddingTop: 10 }}>
@@ -98,7 +144,17 @@ export const ScannerScreen: React.FC<Props> = ({ ble }) => {
 					keyExtractor={(d) => d.id}
 					contentContainerStyle={{ gap: 10, paddingBottom: 16 }}
 					renderItem={({ item }) => (
-						<DeviceListItem item={item as any} onPress={ble.connectTo} />
+						<DeviceListItem
+							item={item as any}
+							onPress={ble.connectTo}
+							onRemove={
+								item.replay
+									? () => ble.removeReplayDevice(item.id)
+									: ble.generators.some(g => g.id === item.id)
+										? () => ble.removeGenerator(item.id)
+										: undefined
+							}
+						/>
 					)}
 					ListEmptyComponent={
 						<View style={{ alignItems: 'center', marginTop: 16 }}>
@@ -106,7 +162,7 @@ export const ScannerScreen: React.FC<Props> = ({ ble }) => {
 								{ble.isScanning ? 'Scanning for nearby devices...' : 'No devices found. Tap Scan to discover devices.'}
 							</Text>
 							<TouchableOpacity 
-								onPress={() => ble.connectTo({ id: 'sample-device', name: 'Sample Accelerometer', isSample: true })} 
+								onPress={() => ble.connectTo(generatorDevice(DEFAULT_GENERATOR))} 
 								style={{ 
 									backgroundColor: '#22c55e',
 									paddingHorizontal: 20,
@@ -120,6 +176,20 @@ export const ScannerScreen: React.FC<Props> = ({ ble }) => {
 					}
 				/>
 			</View>
+
+			<ReplayPicker
+				visible={replayVisible}
+				onClose={() => setReplayVisible(false)}
+				onPick={ble.addReplayDevice}
+			/>
+			{generatorVisible && (
+				<SignalGeneratorDialog
+					generators={ble.generators}
+					onClose={() => setGeneratorVisible(false)}
+					onSave={ble.saveGenerator}
+					onRemove={ble.removeGenerator}
+				/>
+			)}
 		</View>
 	);
 };
@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, FlatList, Text, TextInput, View } from 'react-native';
+import { ExportDialog } from '../components/ExportDialog';
+import { PayloadFormatCard } from '../components/PayloadFormatCard';
+import { PrimaryButton } from '../components/PrimaryButton';
+import { calibrationLabel } from '../calibration/calibration';
+import { FormatProposal } from '../decoder/autoDetect';
+import { formatLabel, PayloadFormat } from '../decoder/payloadFormat';
+import { filterChainLabel } from '../filters/filterChain';
+import { SEVERITY_COLORS, VIBRATION_AXES, VIBRATION_METRICS, VibrationSummary } from '../metrics/vibration';
+import { triggerLabel } from '../recorder/TriggerRecorder';
+import { RECORDED_DATA_FILE, SessionMeta } from '../sessions/sessionStore';
+import { useSessions } from '../sessions/useSessions';
+
+type Props = {
+	sessions: ReturnType<typeof useSessions>;
+	// Session the connected device is recording into; its files can't be rewritten or removed
+	activeSessionId: string | null;
+};
+
+function formatDuration(meta: SessionMeta): string {
+	if (!meta.endedAt) return 'in progress';
+	const s = Math.round((meta.endedAt - meta.startedAt) / 1000);
+	return s >= 60 ? `${Math.floor(s / 60)}m ${s % 60}s` : `${s}s`;
+}
+
+// Mean / worst of each metric over the recording's windows, one column per axis
+const VibrationSummaryTable: React.FC<{ summary: VibrationSummary }> = ({ summary }) => (
+	<View style={{ gap: 2 }}>
+		<Text style={{ color: SEVERITY_COLORS[summary.severity], fontSize: 12, fontWeight: '700' }}>
+			Vibration ({summary.windows} × {summary.windowS} s, velocity {summary.bandHz[0].toFixed(0)}–{summary.bandHz[1].toFixed(0)} Hz) • worst zone: {summary.severity}
+		</Text>
+		<View style={{ flexDirection: 'row' }}>
+			<Text style={{ color: '#6b7280', fontSize: 11, flex: 1.2 }}>mean / max</Text>
+			{VIBRATION_AXES.map(axis => (
+				<Text key={axis} style={{ color: '#6b7280', fontSize: 11, flex: 1, textAlign: 'right' }}>{axis.toUpperCase()}</Text>
+			))}
+		</View>
+		{VIBRATION_METRICS.map(m => (
+			<View key={m.key} style={{ flexDirection: 'row' }}>
+				<Text style={{ color: '#9ca3af', fontSize: 11, flex: 1.2 }}>{m.label}{m.unit ? ` ${m.unit}` : ''}</Text>
+				{VIBRATION_AXES.map(axis => {
+					const cell = summary.axes[axis][m.key];
+					return (
+						<Text key={axis} selectable style={{ color: '#e5e7eb', fontSize: 11, flex: 1, textAlign: 'right', fontVariant: ['tabular-nums'] }}>
+							{cell ? `${cell.mean.toFixed(m.digits)} / ${cell.max.toFixed(m.digits)}` : '--'}
+						</Text>
+					);
+				})}
+			</View>
+		))}
+	</View>
+);
+
+// Picks a payload format for the raw capture and rebuilds the session's data with it
+const RedecodePanel: React.FC<{ meta: SessionMeta; sessions: Props['sessions']; onDone: () => void }> = ({ meta, sessions, onDone }) => {
+	const [format, setFormat] = useState<PayloadFormat | null>(meta.format);
+	const [proposal, setProposal] = useState<FormatProposal | null>(null);
+	const [busy, setBusy] = useState(false);
+
+	const run = async () => {
+		if (!format) return;
+		setBusy(true);
+		const result = await sessions.redecode(meta, format);
+		setBusy(false);
+		if (!result) return;
+		Alert.alert('Re-decoded', `${result.rows} samples from ${result.packets - result.failed} of ${result.packets} packets.`);
+		onDone();
+	};
+
+	return (
+		<View style={{ gap: 8 }}>
+			<PayloadFormatCard
+				format={format}
+				proposal={proposal}
+				onSelect={setFormat}
+				onAutoDetect={async () => setProposal(await sessions.proposeCaptureFormat(meta))}
+				onConfirm={() => {
+					if (proposal) setFormat(proposal.format);
+					setProposal(null);
+				}}
+				onDismiss={() => setProposal(null)}
+			/>
+			<Text style={{ color: '#6b7280', fontSize: 12 }}>
+				Replaces data.csv with the captured packets decoded in this format, without calibration or filters. The data as recorded is kept in {RECORDED_DATA_FILE}.
+			</Text>
+			<View style={{ flexDirection: 'row', gap: 8 }}>
+				<PrimaryButton title={busy ? 'Decoding…' : 'Re-decode'} onPress={run} disabled={!format || busy} active />
+				<PrimaryButton title="Cancel" onPress={onDone} disabled={busy} />
+			</View>
+		</View>
+	);
+};
+
+const SessionItem: React.FC<{ meta: SessionMeta; sessions: Props['sessions']; active: boolean }> = ({ meta, sessions, active }) => {
+	const [expanded, setExpanded] = useState(false);
+	const [name, setName] = useState(meta.name);
+	const [notes, setNotes] = useState(meta.notes);
+	const [exportVisible, setExportVisible] = useState(false);
+	const [redecoding, setRedecoding] = useState(false);
+
+	useEffect(() => setName(meta.name), [meta.name]);
+	useEffect(() => setNotes(meta.notes), [meta.notes]);
+
+	const confirmDelete = () => {
+		Alert.alert('Delete session?', `"${meta.name}" and its data will be removed.`, [
+			{ text: 'Cancel', style: 'cancel' },
+			{ text: 'Delete', style: 'destructive', onPress: () => sessions.remove(meta.id) },
+		]);
+	};
+
+	const inputStyle = {
+		borderWidth: 1,
+		borderColor: '#374151',
+		paddingHorizontal: 10,
+		paddingVertical: 8,
+		borderRadius: 8,
+		color: 'white',
+	} as const;
+
+	return (
+		<View
+			style={{
+				backgroundColor: '#111827',
+				borderRadius: 14,
+				padding: 14,
+				borderWidth: 1,
+				borderColor: '#1f2937',
+				gap: 8,
+			}}
+		>
+			<Text style={{ color: 'white', fontWeight: '800' }} onPress={() => setExpanded(e => !e)}>
+				{meta.name}
+			</Text>
+			<Text style={{ color: '#9ca3af', fontSize: 12 }}>
+				{meta.deviceName} • {new Date(meta.startedAt).toLocaleString()} • {formatDuration(meta)} • {meta.sampleCount} samples
+			</Text>
+			{!!meta.notes && !expanded && (
+				<Text style={{ color: '#cbd5e1', fontSize: 12 }} numberOfLines={2}>{meta.notes}</Text>
+			)}
+
+			{expanded && (
+				<View style={{ gap: 8 }}>
+					<Text selectable style={{ color: '#6b7280', fontSize: 12 }}>
+						Device id: {meta.deviceId || '--'}{'\n'}
+						Decoder: {meta.format ? formatLabel(meta.format) : 'n/a'}
+						{meta.devices?.length ? `\nLinked devices: ${meta.devices.map(d => `${d.name} (${d.sampleCount} samples, ${d.file})`).join(', ')}` : ''}
+						{meta.trigger ? `\nTrigger: ${triggerLabel(meta.trigger.condition)} at ${new Date(meta.trigger.triggeredAt).toLocaleTimeString()} (value ${meta.trigger.value.toFixed(3)}), ${meta.trigger.preMs} ms pre / ${meta.trigger.postMs} ms post` : ''}
+						{meta.filters?.length ? `\nFilters: ${filterChainLabel(meta.filters)}` : ''}
+						{meta.calibration ? `\nCalibration: ${calibrationLabel(meta.calibration)} (raw values in raw_x/y/z)` : ''}
+						{meta.spectra?.length ? `\nSpectrum snapshots: ${meta.spectra.map(s => s.file).join(', ')}` : ''}
+						{meta.capture ? `\nRaw capture: ${meta.capture.packetCount} packets (${meta.capture.file})${meta.capture.redecodedAt ? `, re-decoded ${new Date(meta.capture.redecodedAt).toLocaleString()}` : ''}` : ''}
+						{meta.linkStats ? `\nPackets: ${meta.linkStats.received} • dropped ${meta.linkStats.dropped} • RSSI ${meta.linkStats.rssi ?? '--'} dBm` : ''}
+					</Text>
+					{meta.vibration && <VibrationSummaryTable summary={meta.vibration} />}
+					<TextInput
+						value={name}
+						onChangeText={setName}
+						onEndEditing={() => name !== meta.name && sessions.rename(meta.id, name)}
+						placeholder="Session name"
+						placeholderTextColor="#6b7280"
+						style={inputStyle}
+					/>
+					<TextInput
+						value={notes}
+						onChangeText={setNotes}
+						onEndEditing={() => notes !== meta.notes && sessions.setNotes(meta.id, notes)}
+						placeholder="Notes"
+						placeholderTextColor="#6b7280"
+						multiline
+						style={[inputStyle, { minHeight: 60, textAlignVertical: 'top' }]}
+					/>
+					<View style={{ flexDirection: 'row', gap: 8, flexWrap: 'wrap' }}>
+						<PrimaryButton title="Export / Share…" onPress={() => setExportVisible(true)} />
+						<PrimaryButton title="Share Log" onPress={() => sessions.shareLog(meta)} />
+						{meta.capture && <PrimaryButton title="Re-decode…" onPress={() => setRedecoding(r => !r)} active={redecoding} disabled={active} />}
+						<PrimaryButton title="Delete" onPress={confirmDelete} danger disabled={active} />
+					</View>
+					{active && (
+						<Text style={{ color: '#6b7280', fontSize: 12 }}>
+							This is the current recording session. Start a new session or disconnect to re-decode or delete it.
+						</Text>
+					)}
+					{redecoding && meta.capture && !active && <RedecodePanel meta={meta} sessions={sessions} onDone={() => setRedecoding(false)} />}
+				</View>
+			)}
+
+			<ExportDialog
+				visible={exportVisible}
+				title={`Export "${meta.name}"`}
+				onClose={() => setExportVisible(false)}
+				onShare={format => sessions.share(meta, format)}
+				onSave={async format => {
+					const path = await sessions.reExport(meta, format);
+					if (path) Alert.alert('Exported', path);
+				}}
+			/>
+		</View>
+	);
+};
+
+export const SessionsScreen: React.FC<Props> = ({ sessions, activeSessionId }) => {
+	const { refresh } = sessions;
+	useEffect(() => {
+		refresh();
+	}, [refresh]);
+
+	return (
+		<View style={{ flex: 1, paddingHorizontal: 16 }}>
+			<View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 10 }}>
+				<Text style={{ color: '#9ca3af', fontSize: 14, fontWeight: '500' }}>
+					{sessions.sessions.length} session{sessions.sessions.length !== 1 ? 's' : ''} • tap a name for details
+				</Text>
+				<PrimaryButton title={sessions.loading ? 'Loading…' : 'Refresh'} onPress={refresh} disabled={sessions.loading} />
+			</View>
+			{sessions.error && (
+				<Text style={{ color: '#f87171', marginBottom: 10 }} onPress={sessions.clearError}>
+					{sessions.error} (tap to dismiss)
+				</Text>
+			)}
+			<FlatList
+				style={{ flex: 1 }}
+				data={sessions.sessions}
+				keyExtractor={s => s.id}
+				keyboardShouldPersistTaps="handled"
+				contentContainerStyle={{ gap: 10, paddingBottom: 16 }}
+				renderItem={({ item }) => <SessionItem meta={item} sessions={sessions} active={item.id === activeSessionId} />}
+				ListEmptyComponent={
+					<Text style={{ color: '#9ca3af', textAlign: 'center', marginTop: 16 }}>
+						No recorded sessions yet. Start a recording on a connected device.
+					</Text>
+				}
+			/>
+		</View>
+	);
+};
@@ -0,0 +1,185 @@
+import RNFS from 'react-native-fs';
+import { LinkStats } from '../ble/linkStats';
+import { Calibration } from '../calibration/calibration';
+import { FilterSpec } from '../filters/filterChain';
+import { formatLabel, PayloadFormat } from '../decoder/payloadFormat';
+import { VibrationSummary } from '../metrics/vibration';
+import { RedecodeResult, redecodeCapture } from '../recorder/PacketCapture';
+import { TriggerEvent } from '../recorder/TriggerRecorder';
+import { Spectrum, spectrumCsv, SpectrumSnapshotInfo } from '../spectrum/spectrum';
+import { documentPath, readJsonFile, writeJsonFile } from '../utils/jsonFile';
+
+// An additional device recorded alongside the primary one, in its own file in the session directory
+export type SessionDevice = {
+	id: string;
+	name: string;
+	file: string;
+	format: PayloadFormat | null;
+	calibration: Calibration | null;
+	sampleCount: number;
+};
+
+// Notification payloads saved as received, so the session can be decoded again with another format
+export type RawCaptureInfo = {
+	file: string;
+	packetCount: number;
+	// Last time data.csv was rebuilt from the capture; the data as recorded is then in data_recorded.csv
+	redecodedAt: number | null;
+};
+
+export type SessionMeta = {
+	id: string;
+	name: string;
+	deviceName: string;
+	deviceId: string;
+	startedAt: number;
+	endedAt: number | null;
+	sampleCount: number;
+	// Decoder settings in effect while recording; null for the sample device
+	format: PayloadFormat | null;
+	profileId: string | null;
+	// Applied to x, y, z; the uncalibrated values are in the raw_* columns
+	calibration: Calibration | null;
+	// Filter chain the recorded x, y, z went through, in order; empty for unfiltered data
+	filters: FilterSpec[];
+	notes: string;
+	linkStats: LinkStats | null;
+	// Linked devices recorded in sync with the primary; timestamps share the epoch-ms time base
+	devices: SessionDevice[];
+	// Set for captures made in trigger mode
+	trigger: TriggerEvent | null;
+	// Vibration metrics over the recording's windows; null when no window completed
+	vibration: VibrationSummary | null;
+	// Spectrum snapshots saved into the session directory while it was open
+	spectra: SpectrumSnapshotInfo[];
+	// Set when raw capture was on for the device
+	capture: RawCaptureInfo | null;
+};
+
+// Each session is a directory holding the recorded samples and their metadata
+export const SESSIONS_DIR = documentPath('sessions');
+
+export function sessionDir(id: string): string {
+	return `${SESSIONS_DIR}/${id}`;
+}
+
+export function sessionDataPath(id: string): string {
+	return `${sessionDir(id)}/data.csv`;
+}
+
+export function sessionFilePath(id: string, file: string): string {
+	return `${sessionDir(id)}/${file}`;
+}
+
+// Diagnostics logged while the session was recorded, written each time recording stops
+export const SESSION_LOG_FILE = 'log.txt';
+
+// The decoded data as recorded, set aside the first time a session is re-decoded
+export const RECORDED_DATA_FILE = 'data_recorded.csv';
+
+// File name for a linked device's data, unique within the session
+export function deviceFileName(name: string, index: number): string {
+	const slug = name.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '').toLowerCase() || 'device';
+	return `data_${index + 2}_${slug}.csv`;
+}
+
+function sessionMetaPath(id: string): string {
+	return `${sessionDir(id)}/meta.json`;
+}
+
+function defaultSessionName(deviceName: string, startedAt: number): string {
+	const d = new Date(startedAt);
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${deviceName} ${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+}
+
+export function newSession(init: Pick<SessionMeta, 'deviceName' | 'deviceId' | 'format' | 'profileId' | 'calibration' | 'filters'>): SessionMeta {
+	const startedAt = Date.now();
+	return {
+		id: `session_${startedAt}`,
+		name: defaultSessionName(init.deviceName, startedAt),
+		startedAt,
+		endedAt: null,
+		sampleCount: 0,
+		notes: '',
+		linkStats: null,
+		devices: [],
+		trigger: null,
+		vibration: null,
+		spectra: [],
+		capture: null,
+		...init,
+	};
+}
+
+// Name and notes can be edited in the library while the session records, so the saved ones win
+export async function saveSession(meta: SessionMeta): Promise<void> {
+	const saved = await readJsonFile<SessionMeta | null>(sessionMetaPath(meta.id), null);
+	if (saved) Object.assign(meta, { name: saved.name, notes: saved.notes });
+	await RNFS.mkdir(sessionDir(meta.id));
+	await writeJsonFile(sessionMetaPath(meta.id), meta);
+}
+
+// Writes the spectrum as CSV next to the session's data and records it in the metadata
+export async function addSpectrumSnapshot(meta: SessionMeta, spectrum: Spectrum): Promise<SpectrumSnapshotInfo> {
+	const file = `spectrum_${spectrum.takenAt}.csv`;
+	await RNFS.mkdir(sessionDir(meta.id));
+	await RNFS.writeFile(`${sessionDir(meta.id)}/${file}`, spectrumCsv(spectrum), 'utf8');
+	const { takenAt, sampleRateHz, size, window, peaks } = spectrum;
+	const info = { file, takenAt, sampleRateHz, size, window, peaks };
+	// Sessions saved before snapshots existed have no list yet
+	meta.spectra = [...(meta.spectra ?? []), info];
+	await saveSession(meta);
+	return info;
+}
+
+/**
+ * Rebuilds data.csv from the session's raw capture with another payload format. The new rows
+ * come straight from the decoder, so the session's calibration, filters and vibration summary,
+ * which described the old rows, are cleared.
+ */
+export async function redecodeSession(meta: SessionMeta, format: PayloadFormat): Promise<{ meta: SessionMeta; result: RedecodeResult }> {
+	if (!meta.capture) throw new Error(`"${meta.name}" was recorded without raw capture`);
+	const data = sessionDataPath(meta.id);
+	const out = `${data}.tmp`;
+	const result = await redecodeCapture(sessionFilePath(meta.id, meta.capture.file), format, out);
+	if (!result.rows) {
+		await RNFS.unlink(out);
+		throw new Error(`None of the ${result.packets} captured packets decode as ${formatLabel(format)}`);
+	}
+	const recorded = sessionFilePath(meta.id, RECORDED_DATA_FILE);
+	if (await RNFS.exists(recorded)) await RNFS.unlink(data);
+	else await RNFS.moveFile(data, recorded);
+	await RNFS.moveFile(out, data);
+	const next = await updateSession(meta.id, {
+		format,
+		calibration: null,
+		filters: [],
+		vibration: null,
+		sampleCount: result.rows,
+		capture: { ...meta.capture, redecodedAt: Date.now() },
+	});
+	return { meta: next, result };
+}
+
+export async function listSessions(): Promise<SessionMeta[]> {
+	if (!(await RNFS.exists(SESSIONS_DIR))) return [];
+	const entries = await RNFS.readDir(SESSIONS_DIR);
+	const metas = await Promise.all(
+		entries.filter(e => e.isDirectory()).map(e => readJsonFile<SessionMeta | null>(sessionMetaPath(e.name), null)),
+	);
+	return metas.filter((m): m is SessionMeta => !!m).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function updateSession(id: string, patch: Partial<Omit<SessionMeta, 'id'>>): Promise<SessionMeta> {
+	const meta = await readJsonFile<SessionMeta | null>(sessionMetaPath(id), null);
+	if (!meta) throw new Error(`Session ${id} not found`);
+	const next = { ...meta, ...patch };
+	await writeJsonFile(sessionMetaPath(id), next);
+	return next;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+	const dir = sessionDir(id);
+	if (await RNFS.exists(dir)) await RNFS.unlink(dir);
+}
@@ -0,0 +1,120 @@
+import { useCallback, useState } from 'react';
+import RNFS from 'react-native-fs';
+import { FormatProposal, proposeFormat } from '../decoder/autoDetect';
+import { formatLabel, PayloadFormat } from '../decoder/payloadFormat';
+import { ExportFormat, exportSession, shareFile } from '../export/exporters';
+import { logger } from '../logging/logger';
+import { readCapturedPayloads, RedecodeResult } from '../recorder/PacketCapture';
+import { deleteSession, listSessions, redecodeSession, SESSION_LOG_FILE, SessionMeta, sessionFilePath, updateSession } from './sessionStore';
+
+export function useSessions() {
+	const [sessions, setSessions] = useState<SessionMeta[]>([]);
+	const [loading, setLoading] = useState(false);
+	const [errorText, setErrorText] = useState<string | null>(null);
+
+	const refresh = useCallback(async () => {
+		setLoading(true);
+		try {
+			setSessions(await listSessions());
+		} catch (e: any) {
+			setErrorText(e?.message ?? String(e));
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	const update = useCallback(async (id: string, patch: Partial<Pick<SessionMeta, 'name' | 'notes'>>) => {
+		try {
+			const next = await updateSession(id, patch);
+			setSessions(prev => prev.map(s => (s.id === id ? next : s)));
+		} catch (e: any) {
+			setErrorText(e?.message ?? String(e));
+		}
+	}, []);
+
+	const rename = useCallback((id: string, name: string) => update(id, { name: name.trim() || 'Untitled' }), [update]);
+	const setNotes = useCallback((id: string, notes: string) => update(id, { notes }), [update]);
+
+	const remove = useCallback(async (id: string) => {
+		try {
+			await deleteSession(id);
+			setSessions(prev => prev.filter(s => s.id !== id));
+		} catch (e: any) {
+			setErrorText(e?.message ?? String(e));
+		}
+	}, []);
+
+	const reExport = useCallback(async (meta: SessionMeta, format: ExportFormat = 'csv') => {
+		try {
+			const path = await exportSession(meta, format);
+			setErrorText(null);
+			return path;
+		} catch (e: any) {
+			setErrorText(e?.message ?? String(e));
+			return null;
+		}
+	}, []);
+
+	const share = useCallback(async (meta: SessionMeta, format: ExportFormat = 'csv') => {
+		const path = await reExport(meta, format);
+		if (!path) return;
+		try {
+			await shareFile(path, meta.name);
+		} catch (e: any) {
+			setErrorText(e?.message ?? String(e));
+		}
+	}, [reExport]);
+
+	// The diagnostics saved with the recording, on their own
+	const shareLog = useCallback(async (meta: SessionMeta) => {
+		const path = sessionFilePath(meta.id, SESSION_LOG_FILE);
+		try {
+			if (!(await RNFS.exists(path))) {
+				setErrorText(`No log was saved with "${meta.name}".`);
+				return;
+			}
+			await shareFile(path, `${meta.name} log`);
+		} catch (e: any) {
+			setErrorText(e?.message ?? String(e));
+		}
+	}, []);
+
+	// Format detection on the first packets of the session's raw capture
+	const proposeCaptureFormat = useCallback(async (meta: SessionMeta): Promise<FormatProposal | null> => {
+		if (!meta.capture) return null;
+		try {
+			const payloads = await readCapturedPayloads(sessionFilePath(meta.id, meta.capture.file));
+			const best = proposeFormat(payloads);
+			if (!best) setErrorText(`Could not find a plausible format in ${payloads.length} captured packet(s).`);
+			return best;
+		} catch (e: any) {
+			setErrorText(e?.message ?? String(e));
+			return null;
+		}
+	}, []);
+
+	const redecode = useCallback(async (meta: SessionMeta, format: PayloadFormat): Promise<RedecodeResult | null> => {
+		try {
+			const { meta: next, result } = await redecodeSession(meta, format);
+			logger.info('decode', `Re-decoded "${meta.name}" as ${formatLabel(format)}: ${result.rows} rows, ${result.failed} of ${result.packets} packets failed`);
+			setSessions(prev => prev.map(s => (s.id === meta.id ? next : s)));
+			setErrorText(null);
+			return result;
+		} catch (e: any) {
+			setErrorText(`Re-decoding failed: ${e?.message ?? String(e)}`);
+			return null;
+		}
+	}, []);
+
+	return {
+		sessions,
+		loading,
+		error: errorText,
+		clearError: () => setErrorText(null),
+		refresh,
+		rename, setNotes,
+		remove,
+		reExport, share, shareLog,
+		proposeCaptureFormat, redecode,
+	};
+}
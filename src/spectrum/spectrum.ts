@@ -0,0 +1,230 @@
+import { ChartSeries } from '../chart/stripChart';
+import { SampleRing } from '../utils/SampleRing';
+
+export type WindowFunction = 'rectangular' | 'hann' | 'hamming' | 'blackman' | 'flattop';
+
+export const WINDOW_FUNCTIONS: Array<{ key: WindowFunction; label: string }> = [
+	{ key: 'hann', label: 'Hann' },
+	{ key: 'hamming', label: 'Hamming' },
+	{ key: 'blackman', label: 'Blackman' },
+	// Widest peaks, but amplitudes are accurate even between bins
+	{ key: 'flattop', label: 'Flat top' },
+	{ key: 'rectangular', label: 'Rectangular' },
+];
+
+export const FFT_SIZES = [256, 512, 1024, 2048, 4096];
+
+export const SPECTRUM_AXES: ChartSeries[] = ['x', 'y', 'z', 'm'];
+
+export type SpectrumPeak = { frequencyHz: number; amplitude: number };
+
+export type Spectrum = {
+	// Measured from the timestamps of the analysed samples
+	sampleRateHz: number;
+	size: number;
+	window: WindowFunction;
+	binHz: number;
+	// Single-sided amplitude spectrum in g per axis, size / 2 + 1 bins from 0 Hz to Nyquist
+	amplitudes: Record<ChartSeries, Float64Array>;
+	peaks: Record<ChartSeries, SpectrumPeak[]>;
+	takenAt: number;
+};
+
+// What a session's metadata records about a snapshot saved next to its data
+export type SpectrumSnapshotInfo = {
+	file: string;
+	takenAt: number;
+	sampleRateHz: number;
+	size: number;
+	window: WindowFunction;
+	peaks: Record<ChartSeries, SpectrumPeak[]>;
+};
+
+// Dynamic range shown below the strongest bin on the dB scale
+export const SPECTRUM_DB_RANGE = 60;
+
+export function windowCoefficients(type: WindowFunction, n: number): Float64Array {
+	const w = new Float64Array(n);
+	for (let i = 0; i < n; i++) {
+		const p = (2 * Math.PI * i) / (n - 1);
+		switch (type) {
+			case 'rectangular':
+				w[i] = 1;
+				break;
+			case 'hann':
+				w[i] = 0.5 - 0.5 * Math.cos(p);
+				break;
+			case 'hamming':
+				w[i] = 0.54 - 0.46 * Math.cos(p);
+				break;
+			case 'blackman':
+				w[i] = 0.42 - 0.5 * Math.cos(p) + 0.08 * Math.cos(2 * p);
+				break;
+			case 'flattop':
+				w[i] = 0.21557895 - 0.41663158 * Math.cos(p) + 0.277263158 * Math.cos(2 * p) - 0.083578947 * Math.cos(3 * p) + 0.006947368 * Math.cos(4 * p);
+				break;
+		}
+	}
+	return w;
+}
+
+// In-place iterative radix-2 FFT; the length must be a power of two
+export function fft(re: Float64Array, im: Float64Array) {
+	const n = re.length;
+	if (n & (n - 1)) throw new Error(`FFT size must be a power of two, got ${n}`);
+	for (let i = 1, j = 0; i < n; i++) {
+		let bit = n >> 1;
+		for (; j & bit; bit >>= 1) j ^= bit;
+		j ^= bit;
+		if (i < j) {
+			[re[i], re[j]] = [re[j], re[i]];
+			[im[i], im[j]] = [im[j], im[i]];
+		}
+	}
+	for (let len = 2; len <= n; len <<= 1) {
+		const angle = (-2 * Math.PI) / len;
+		const wr = Math.cos(angle);
+		const wi = Math.sin(angle);
+		for (let start = 0; start < n; start += len) {
+			let cr = 1;
+			let ci = 0;
+			for (let k = 0; k < len / 2; k++) {
+				const a = start + k;
+				const b = a + len / 2;
+				const tr = re[b] * cr - im[b] * ci;
+				const ti = re[b] * ci + im[b] * cr;
+				re[b] = re[a] - tr;
+				im[b] = im[a] - ti;
+				re[a] += tr;
+				im[a] += ti;
+				const next = cr * wr - ci * wi;
+				ci = cr * wi + ci * wr;
+				cr = next;
+			}
+		}
+	}
+}
+
+// Single-sided amplitude spectrum of one channel, corrected for the window's coherent gain
+export function amplitudeSpectrum(samples: Float64Array, window: Float64Array, removeDc: boolean): Float64Array {
+	const n = samples.length;
+	let mean = 0;
+	if (removeDc) {
+		for (let i = 0; i < n; i++) mean += samples[i];
+		mean /= n;
+	}
+	const re = new Float64Array(n);
+	const im = new Float64Array(n);
+	let gain = 0;
+	for (let i = 0; i < n; i++) {
+		re[i] = (samples[i] - mean) * window[i];
+		gain += window[i];
+	}
+	fft(re, im);
+	const out = new Float64Array(n / 2 + 1);
+	for (let k = 0; k <= n / 2; k++) {
+		const scale = k === 0 || k === n / 2 ? 1 : 2;
+		out[k] = (scale * Math.hypot(re[k], im[k])) / gain;
+	}
+	return out;
+}
+
+/**
+ * The strongest local maxima, refined between bins with a parabolic fit. Peaks closer than
+ * `minSeparationBins` to a stronger one are treated as its skirt and skipped. The fit corrects
+ * the amplitude too, except for flat-top windows whose bin values are already accurate.
+ */
+export function findPeaks(amplitudes: Float64Array, binHz: number, count: number = 3, minSeparationBins: number = 3, fitAmplitude: boolean = true): SpectrumPeak[] {
+	const candidates: number[] = [];
+	for (let k = 1; k < amplitudes.length - 1; k++) {
+		if (amplitudes[k] > amplitudes[k - 1] && amplitudes[k] >= amplitudes[k + 1]) candidates.push(k);
+	}
+	candidates.sort((a, b) => amplitudes[b] - amplitudes[a]);
+	const chosen: number[] = [];
+	for (const k of candidates) {
+		if (chosen.length >= count) break;
+		if (chosen.some(c => Math.abs(c - k) < minSeparationBins)) continue;
+		chosen.push(k);
+	}
+	return chosen.map(k => {
+		const [a, b, c] = [amplitudes[k - 1], amplitudes[k], amplitudes[k + 1]];
+		const denom = a - 2 * b + c;
+		const delta = denom !== 0 ? (0.5 * (a - c)) / denom : 0;
+		return { frequencyHz: (k + delta) * binHz, amplitude: fitAmplitude ? b - 0.25 * (a - c) * delta : b };
+	});
+}
+
+/**
+ * Spectrum of the newest `size` samples in the ring, or null while fewer are available.
+ * The mean is removed first by default, so gravity doesn't swamp the low bins.
+ */
+export function computeSpectrum(ring: SampleRing, size: number, window: WindowFunction, removeDc: boolean = true): Spectrum | null {
+	if (ring.size < size) return null;
+	const channels = SPECTRUM_AXES.map(() => new Float64Array(size));
+	let i = 0;
+	const from = ring.size - size;
+	ring.forEachInRange(from, ring.size, (_t, x, y, z) => {
+		channels[0][i] = x;
+		channels[1][i] = y;
+		channels[2][i] = z;
+		channels[3][i] = Math.sqrt(x * x + y * y + z * z);
+		i++;
+	});
+	const spanMs = ring.timeAt(ring.size - 1) - ring.timeAt(from);
+	if (!(spanMs > 0)) return null;
+	const sampleRateHz = ((size - 1) * 1000) / spanMs;
+	const binHz = sampleRateHz / size;
+	const w = windowCoefficients(window, size);
+	const amplitudes = {} as Record<ChartSeries, Float64Array>;
+	const peaks = {} as Record<ChartSeries, SpectrumPeak[]>;
+	SPECTRUM_AXES.forEach((axis, c) => {
+		amplitudes[axis] = amplitudeSpectrum(channels[c], w, removeDc);
+		peaks[axis] = findPeaks(amplitudes[axis], binHz, 3, 3, window !== 'flattop');
+	});
+	return { sampleRateHz, size, window, binHz, amplitudes, peaks, takenAt: Date.now() };
+}
+
+// Highest amplitude of the visible axes, used to scale the plot
+export function spectrumMax(spectrum: Spectrum, axes: ChartSeries[]): number {
+	let max = 0;
+	for (const axis of axes) {
+		const a = spectrum.amplitudes[axis];
+		for (let k = 1; k < a.length; k++) if (a[k] > max) max = a[k];
+	}
+	return max;
+}
+
+/**
+ * SVG path of one amplitude spectrum from 0 Hz to Nyquist. Bins sharing a pixel column are
+ * reduced to their maximum so narrow peaks survive at any width. On the dB scale the top of
+ * the plot is `max` and the bottom SPECTRUM_DB_RANGE below it.
+ */
+export function spectrumPath(amplitudes: Float64Array, width: number, height: number, max: number, db: boolean): string {
+	const bins = amplitudes.length;
+	if (bins < 2 || !(max > 0) || width <= 0) return '';
+	const topDb = 20 * Math.log10(max);
+	const toY = (a: number) => {
+		const level = db ? (20 * Math.log10(Math.max(a, 1e-12)) - topDb + SPECTRUM_DB_RANGE) / SPECTRUM_DB_RANGE : a / max;
+		return height - Math.min(1, Math.max(0, level)) * height;
+	};
+	const columns = Math.min(Math.floor(width), bins);
+	const parts: string[] = [];
+	for (let c = 0; c < columns; c++) {
+		const from = Math.floor((c * bins) / columns);
+		const to = Math.max(from + 1, Math.floor(((c + 1) * bins) / columns));
+		let peak = 0;
+		for (let k = from; k < to; k++) if (amplitudes[k] > peak) peak = amplitudes[k];
+		const x = (columns > 1 ? (c / (columns - 1)) * width : 0).toFixed(1);
+		parts.push(`${c === 0 ? 'M' : 'L'}${x},${toY(peak).toFixed(1)}`);
+	}
+	return parts.join(' ');
+}
+
+export function spectrumCsv(spectrum: Spectrum): string {
+	const lines = [['frequency_hz', ...SPECTRUM_AXES.map(a => `${a === 'm' ? 'magnitude' : a}_g`)].join(',')];
+	const bins = spectrum.amplitudes.x.length;
+	for (let k = 0; k < bins; k++) {
+		lines.push([(k * spectrum.binHz).toFixed(4), ...SPECTRUM_AXES.map(a => spectrum.amplitudes[a][k].toExponential(6))].join(','));
+	}
+	return lines.join('\n') + '\n';
+}
@@ -0,0 +1,67 @@
+// Fixed-capacity ring of (t, x, y, z) samples backed by one typed array, so pushing
+// at high sample rates allocates nothing. When full, the oldest sample is overwritten.
+export class SampleRing {
+	readonly capacity: number;
+	private data: Float64Array;
+	private head = 0;
+	private count = 0;
+
+	constructor(capacity: number) {
+		this.capacity = capacity;
+		this.data = new Float64Array(capacity * 4);
+	}
+
+	get size(): number {
+		return this.count;
+	}
+
+	push(t: number, x: number, y: number, z: number) {
+		const i = ((this.head + this.count) % this.capacity) * 4;
+		this.data[i] = t;
+		this.data[i + 1] = x;
+		this.data[i + 2] = y;
+		this.data[i + 3] = z;
+		if (this.count < this.capacity) {
+			this.count++;
+		} else {
+			this.head = (this.head + 1) % this.capacity;
+		}
+	}
+
+	// Timestamp of sample i; i = 0 is the oldest sample
+	timeAt(i: number): number {
+		return this.data[((this.head + i) % this.capacity) * 4];
+	}
+
+	// Index of the first sample at or after t, assuming timestamps never decrease; size if none
+	indexAtOrAfter(t: number): number {
+		let lo = 0;
+		let hi = this.count;
+		while (lo < hi) {
+			const mid = (lo + hi) >> 1;
+			if (this.timeAt(mid) < t) lo = mid + 1;
+			else hi = mid;
+		}
+		return lo;
+	}
+
+	// Visits samples from index `from` (0 = oldest) up to, not including, `to`
+	forEachInRange(from: number, to: number, fn: (t: number, x: number, y: number, z: number) => void) {
+		for (let i = Math.max(0, from); i < Math.min(to, this.count); i++) {
+			const j = ((this.head + i) % this.capacity) * 4;
+			fn(this.data[j], this.data[j + 1], this.data[j + 2], this.data[j + 3]);
+		}
+	}
+
+	forEach(fn: (t: number, x: number, y: number, z: number) => void) {
+		for (let i = 0; i < this.count; i++) {
+			const j = ((this.head + i) % this.capacity) * 4;
+			fn(this.data[j], this.data[j + 1], this.data[j + 2], this.data[j + 3]);
+		}
+	}
+
+	clear() {
+		this.head = 0;
+		this.count = 0;
+	}
+}
@@ -0,0 +1,22 @@
+import RNFS from 'react-native-fs';
+import { logger } from '../logging/logger';
+
+export function documentPath(name: string): string {
+	return `${RNFS.DocumentDirectoryPath}/${name}`;
+}
+
+// Returns the fallback when the file is missing or unreadable
+export async function readJsonFile<T>(path: string, fallback: T): Promise<T> {
+	try {
+		if (!(await RNFS.exists(path))) return fallback;
+		const text = await RNFS.readFile(path, 'utf8');
+		return JSON.parse(text) as T;
+	} catch (e) {
+		logger.warn('app', `Could not read ${path}`, e);
+		return fallback;
+	}
+}
+
+export async function writeJsonFile(path: string, value: unknown): Promise<void> {
+	await RNFS.writeFile(path, JSON.stringify(value, null, 2), 'utf8');
+}
@@ -0,0 +1,427 @@
+import {base64ToBytes, bytesToBase64} from '../src/utils/base64';
+import {
+  BleTransport,
+  CharacteristicListener,
+  DeviceListener,
+  Subscription,
+  TransportCharacteristic,
+  TransportDescriptor,
+  TransportDevice,
+  TransportService,
+} from '../src/ble/transport';
+
+export type FakeCharacteristicSpec = {
+  uuid: string;
+  read?: boolean;
+  write?: boolean;
+  writeWithoutResponse?: boolean;
+  notify?: boolean;
+  indicate?: boolean;
+  value?: Uint8Array;
+  descriptors?: Array<{uuid: string; value?: Uint8Array}>;
+};
+
+export type FakePeripheralSpec = {
+  id: string;
+  name: string | null;
+  rssi?: number;
+  // Advertised service UUIDs; the GATT services below are only seen after connecting
+  serviceUUIDs?: string[];
+  manufacturerData?: Uint8Array;
+  services: Array<{uuid: string; characteristics: FakeCharacteristicSpec[]}>;
+};
+
+export type FakeWrite = {
+  service: string;
+  characteristic: string;
+  bytes: Uint8Array;
+  withResponse: boolean;
+};
+
+function key(service: string, characteristic: string): string {
+  return `${service.toLowerCase()}/${characteristic.toLowerCase()}`;
+}
+
+/**
+ * A scriptable in-memory peripheral. Tests decide what it advertises and which services it
+ * offers, push notifications with notify(), drop the link with drop(), and make writes or
+ * connection attempts fail on cue.
+ */
+export class FakePeripheral {
+  readonly spec: FakePeripheralSpec;
+  // Every write that was accepted, oldest first
+  readonly writes: FakeWrite[] = [];
+  connected = false;
+  // Called after each accepted write, e.g. to start notifying when a start command arrives
+  onWrite: ((write: FakeWrite) => void) | null = null;
+  private values = new Map<string, Uint8Array>();
+  private monitors = new Map<string, Set<CharacteristicListener>>();
+  private writeError: string | null = null;
+  private connectFailures = 0;
+  private transport: FakeTransport | null = null;
+
+  constructor(spec: FakePeripheralSpec) {
+    this.spec = spec;
+    for (const s of spec.services) {
+      for (const c of s.characteristics) {
+        if (c.value) this.values.set(key(s.uuid, c.uuid), c.value);
+      }
+    }
+  }
+
+  get id(): string {
+    return this.spec.id;
+  }
+
+  attach(transport: FakeTransport | null) {
+    this.transport = transport;
+  }
+
+  // Sends a notification to every monitor of the characteristic; ignored while disconnected
+  notify(
+    service: string,
+    characteristic: string,
+    bytes: Uint8Array | number[],
+  ) {
+    if (!this.connected) return;
+    const value = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+    this.values.set(key(service, characteristic), value);
+    const listeners = this.monitors.get(key(service, characteristic));
+    listeners?.forEach(listener =>
+      listener(null, this.characteristic(service, characteristic)),
+    );
+  }
+
+  monitorCount(service: string, characteristic: string): number {
+    return this.monitors.get(key(service, characteristic))?.size ?? 0;
+  }
+
+  setValue(service: string, characteristic: string, bytes: Uint8Array) {
+    this.values.set(key(service, characteristic), bytes);
+  }
+
+  // Makes every write fail with this message until called with null
+  rejectWrites(message: string | null) {
+    this.writeError = message;
+  }
+
+  // The next count connection attempts fail
+  failConnections(count: number) {
+    this.connectFailures = count;
+  }
+
+  // The link drops as if the peripheral went out of range
+  drop() {
+    if (!this.connected) return;
+    this.disconnected({message: `Device ${this.id} was disconnected`});
+  }
+
+  connect() {
+    if (this.connectFailures > 0) {
+      this.connectFailures--;
+      throw new Error(`Device ${this.id} connection failed`);
+    }
+    this.connected = true;
+  }
+
+  disconnected(error: {message: string} | null) {
+    this.connected = false;
+    const cancelled = {message: 'Operation was cancelled'};
+    const monitors = [...this.monitors.values()];
+    this.monitors.clear();
+    monitors.forEach(set =>
+      set.forEach(listener => listener(error ?? cancelled, null)),
+    );
+    this.transport?.emitDisconnected(this, error);
+  }
+
+  device(): TransportDevice {
+    return new FakeDevice(this);
+  }
+
+  findCharacteristic(
+    service: string,
+    characteristic: string,
+  ): FakeCharacteristicSpec {
+    const s = this.spec.services.find(
+      x => x.uuid.toLowerCase() === service.toLowerCase(),
+    );
+    const c = s?.characteristics.find(
+      x => x.uuid.toLowerCase() === characteristic.toLowerCase(),
+    );
+    if (!c) throw new Error(`Characteristic ${characteristic} not found`);
+    return c;
+  }
+
+  characteristic(
+    service: string,
+    characteristic: string,
+  ): TransportCharacteristic {
+    const c = this.findCharacteristic(service, characteristic);
+    const value = this.values.get(key(service, characteristic));
+    return {
+      uuid: c.uuid,
+      serviceUUID: service,
+      value: value ? bytesToBase64(value) : null,
+      isReadable: !!c.read,
+      isWritableWithResponse: !!c.write,
+      isWritableWithoutResponse: !!c.writeWithoutResponse,
+      isNotifiable: !!c.notify,
+      isIndicatable: !!c.indicate,
+    };
+  }
+
+  write(
+    service: string,
+    characteristic: string,
+    base64Value: string,
+    withResponse: boolean,
+  ) {
+    this.requireConnection();
+    const c = this.findCharacteristic(service, characteristic);
+    if (withResponse ? !c.write : !c.writeWithoutResponse)
+      throw new Error(`Characteristic ${characteristic} is not writable`);
+    if (this.writeError) throw new Error(this.writeError);
+    const write: FakeWrite = {
+      service,
+      characteristic,
+      bytes: base64ToBytes(base64Value),
+      withResponse,
+    };
+    this.writes.push(write);
+    this.values.set(key(service, characteristic), write.bytes);
+    this.onWrite?.(write);
+  }
+
+  monitor(
+    service: string,
+    characteristic: string,
+    listener: CharacteristicListener,
+  ): Subscription {
+    this.requireConnection();
+    const c = this.findCharacteristic(service, characteristic);
+    if (!c.notify && !c.indicate)
+      throw new Error(`Characteristic ${characteristic} does not notify`);
+    const k = key(service, characteristic);
+    let set = this.monitors.get(k);
+    if (!set) {
+      set = new Set();
+      this.monitors.set(k, set);
+    }
+    set.add(listener);
+    return {remove: () => set!.delete(listener)};
+  }
+
+  requireConnection() {
+    if (!this.connected) throw new Error(`Device ${this.id} is not connected`);
+  }
+}
+
+class FakeDevice implements TransportDevice {
+  id: string;
+  name: string | null;
+  localName: string | null;
+  rssi: number | null;
+  serviceUUIDs: string[] | null;
+  manufacturerData: string | null;
+  serviceData: {[uuid: string]: string} | null = null;
+  private peripheral: FakePeripheral;
+
+  constructor(peripheral: FakePeripheral) {
+    const {spec} = peripheral;
+    this.peripheral = peripheral;
+    this.id = spec.id;
+    this.name = spec.name;
+    this.localName = spec.name;
+    this.rssi = spec.rssi ?? -60;
+    this.serviceUUIDs = spec.serviceUUIDs ?? null;
+    this.manufacturerData = spec.manufacturerData
+      ? bytesToBase64(spec.manufacturerData)
+      : null;
+  }
+
+  async discoverAllServicesAndCharacteristics(): Promise<TransportDevice> {
+    this.peripheral.requireConnection();
+    return this;
+  }
+
+  async services(): Promise<TransportService[]> {
+    this.peripheral.requireConnection();
+    return this.peripheral.spec.services.map(s => ({uuid: s.uuid}));
+  }
+
+  async characteristicsForService(
+    serviceUUID: string,
+  ): Promise<TransportCharacteristic[]> {
+    this.peripheral.requireConnection();
+    const s = this.peripheral.spec.services.find(
+      x => x.uuid.toLowerCase() === serviceUUID.toLowerCase(),
+    );
+    if (!s) throw new Error(`Service ${serviceUUID} not found`);
+    return s.characteristics.map(c =>
+      this.peripheral.characteristic(s.uuid, c.uuid),
+    );
+  }
+
+  async descriptorsForService(
+    serviceUUID: string,
+    characteristicUUID: string,
+  ): Promise<TransportDescriptor[]> {
+    this.peripheral.requireConnection();
+    const c = this.peripheral.findCharacteristic(
+      serviceUUID,
+      characteristicUUID,
+    );
+    return (c.descriptors ?? []).map(d => ({
+      uuid: d.uuid,
+      value: d.value ? bytesToBase64(d.value) : null,
+    }));
+  }
+
+  async readCharacteristicForService(
+    serviceUUID: string,
+    characteristicUUID: string,
+  ): Promise<TransportCharacteristic> {
+    this.peripheral.requireConnection();
+    if (
+      !this.peripheral.findCharacteristic(serviceUUID, characteristicUUID).read
+    ) {
+      throw new Error(`Characteristic ${characteristicUUID} is not readable`);
+    }
+    return this.peripheral.characteristic(serviceUUID, characteristicUUID);
+  }
+
+  async writeCharacteristicWithResponseForService(
+    serviceUUID: string,
+    characteristicUUID: string,
+    base64Value: string,
+  ) {
+    this.peripheral.write(serviceUUID, characteristicUUID, base64Value, true);
+    return this.peripheral.characteristic(serviceUUID, characteristicUUID);
+  }
+
+  async writeCharacteristicWithoutResponseForService(
+    serviceUUID: string,
+    characteristicUUID: string,
+    base64Value: string,
+  ) {
+    this.peripheral.write(serviceUUID, characteristicUUID, base64Value, false);
+    return this.peripheral.characteristic(serviceUUID, characteristicUUID);
+  }
+
+  monitorCharacteristicForService(
+    serviceUUID: string,
+    characteristicUUID: string,
+    listener: CharacteristicListener,
+  ): Subscription {
+    return this.peripheral.monitor(serviceUUID, characteristicUUID, listener);
+  }
+
+  async readRSSI(): Promise<TransportDevice> {
+    this.peripheral.requireConnection();
+    return this;
+  }
+}
+
+/**
+ * In-memory transport over FakePeripherals. A scan reports every peripheral once, and again
+ * on each advertise(); connections and disconnect callbacks behave as in ble-plx, including
+ * the callback after cancelDeviceConnection.
+ */
+export class FakeTransport implements BleTransport {
+  private peripherals = new Map<string, FakePeripheral>();
+  private scanListener: DeviceListener | null = null;
+  private stateListeners = new Set<(state: string) => void>();
+  private disconnectListeners = new Map<string, Set<DeviceListener>>();
+  private radioState = 'PoweredOn';
+
+  constructor(peripherals: FakePeripheral[] = []) {
+    peripherals.forEach(p => this.add(p));
+  }
+
+  add(peripheral: FakePeripheral) {
+    peripheral.attach(this);
+    this.peripherals.set(peripheral.id, peripheral);
+  }
+
+  remove(id: string) {
+    this.peripherals.get(id)?.attach(null);
+    this.peripherals.delete(id);
+  }
+
+  get isScanning(): boolean {
+    return this.scanListener !== null;
+  }
+
+  setState(state: string) {
+    this.radioState = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+
+  // Reports every peripheral to the running scan, as a fresh round of advertisements
+  advertise() {
+    const listener = this.scanListener;
+    if (!listener) return;
+    this.peripherals.forEach(p => listener(null, p.device()));
+  }
+
+  async state(): Promise<string> {
+    return this.radioState;
+  }
+
+  onStateChange(
+    listener: (state: string) => void,
+    emitCurrentState?: boolean,
+  ): Subscription {
+    this.stateListeners.add(listener);
+    if (emitCurrentState) listener(this.radioState);
+    return {remove: () => this.stateListeners.delete(listener)};
+  }
+
+  startDeviceScan(
+    _uuids: string[] | null,
+    _options: {allowDuplicates?: boolean} | null,
+    listener: DeviceListener,
+  ) {
+    this.scanListener = listener;
+    this.advertise();
+  }
+
+  stopDeviceScan() {
+    this.scanListener = null;
+  }
+
+  async connectToDevice(id: string): Promise<TransportDevice> {
+    const peripheral = this.peripherals.get(id);
+    if (!peripheral) throw new Error(`Device ${id} was not found`);
+    peripheral.connect();
+    return peripheral.device();
+  }
+
+  async cancelDeviceConnection(id: string): Promise<unknown> {
+    const peripheral = this.peripherals.get(id);
+    if (!peripheral?.connected)
+      throw new Error(`Device ${id} is not connected`);
+    peripheral.disconnected(null);
+    return peripheral.device();
+  }
+
+  onDeviceDisconnected(id: string, listener: DeviceListener): Subscription {
+    let set = this.disconnectListeners.get(id);
+    if (!set) {
+      set = new Set();
+      this.disconnectListeners.set(id, set);
+    }
+    set.add(listener);
+    return {remove: () => set!.delete(listener)};
+  }
+
+  emitDisconnected(
+    peripheral: FakePeripheral,
+    error: {message: string} | null,
+  ) {
+    this.disconnectListeners
+      .get(peripheral.id)
+      ?.forEach(listener => listener(error, peripheral.device()));
+  }
+}